@@ -7,21 +7,43 @@ import Profile from './components/Profile';
 import Toast from './components/Toast';
 import NotificationCenter from './components/NotificationCenter';
 import MatchComparator from './components/MatchComparator';
+import ClaimDialog from './components/ClaimDialog';
 import FeaturesPage from './components/FeaturesPage';
 import AIDisclaimerModal from './components/AIDisclaimerModal';
-import { User, ViewState, ItemReport, ReportType, ItemCategory, AppNotification, Chat, Message } from './types';
-import { MessageCircle, Bell, Moon, Sun, User as UserIcon, Plus, SearchX, Box, Loader2 } from 'lucide-react';
-import { findSmartMatches } from './services/geminiService';
+import AdminPanel from './components/AdminPanel';
+import ModerationQueue from './components/ModerationQueue';
+import { User, ViewState, ItemReport, ReportStatus, ReportType, ItemCategory, AppNotification, Chat, Message, VerificationSecret } from './types';
+import { MessageCircle, Bell, Moon, Sun, User as UserIcon, Plus, SearchX, Box, Loader2, ShieldCheck, Gavel, Ban } from 'lucide-react';
 
 // FIREBASE IMPORTS
 import { auth, db, FieldValue, generateUniqueStudentId } from './services/firebase';
+import { isVerifiedClaimant, requiresVerification, saveVerificationSecrets } from './services/claims';
+import { formatCustodyLocation, isInCustody, recordReceived } from './services/custody';
+import { hasPermission } from './services/permissions';
+import { AbuseFlagGroup, groupFlags, isSuspended, subscribeToOpenFlags, subscribeToSanctions } from './services/abuseFlags';
+import { STATUS_LABELS, isActive, transition } from './services/reportLifecycle';
+import { proposeResolution } from './services/resolutions';
+import { fetchReport } from './services/reportQueries';
+import { subscribeToReviewQueue } from './services/moderation';
+import { isListed } from './services/moderationPolicy';
+import { NOTIFICATIONS_PAGE_SIZE, createNotification, subscribeToNotifications, subscribeToUnreadCount, fetchNotificationsPage, markNotificationRead, markAllNotificationsRead, deleteNotification, clearNotifications } from './services/notifications';
+
+// Optional report fields the edit form can remove. Saving an edit also drops the legacy date strings.
+const CLEARABLE_REPORT_FIELDS = ['locationRef', 'pin', 'route', 'occurredUntil', 'date', 'time', 'lostUntil', 'visualSignature'] as const;
+
+const STATUS_TOASTS: Partial<Record<ReportStatus, string>> = {
+  RETURNED: "Item marked as returned!",
+  WITHDRAWN: "Report withdrawn. You can reopen it any time.",
+  OPEN: "Report is open again."
+};
 
 const App: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
   const [authLoading, setAuthLoading] = useState(true); // Loading state for initial auth check
 
   const [view, setView] = useState<ViewState>('AUTH');
-  const [reports, setReports] = useState<ItemReport[]>([]);
+  const [reviewQueue, setReviewQueue] = useState<ItemReport[]>([]);
+  const [flagGroups, setFlagGroups] = useState<AbuseFlagGroup[]>([]);
   const [editingReport, setEditingReport] = useState<ItemReport | null>(null);
   const [toast, setToast] = useState<{message: string, type: 'success' | 'info' | 'alert'} | null>(null);
   
@@ -31,7 +53,11 @@ const App: React.FC = () => {
     return saved ? JSON.parse(saved) : true; // Default to dark mode
   });
   
-  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]); // Live newest page
+  const [olderNotifications, setOlderNotifications] = useState<AppNotification[]>([]);
+  const [hasMoreNotifications, setHasMoreNotifications] = useState<boolean | null>(null); // null until an older page is fetched
+  const [isLoadingMoreNotifications, setIsLoadingMoreNotifications] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
   const [showNotificationCenter, setShowNotificationCenter] = useState(false);
   const [showFabMenu, setShowFabMenu] = useState(false);
   const [showLegal, setShowLegal] = useState(false);
@@ -39,6 +65,7 @@ const App: React.FC = () => {
   const [chats, setChats] = useState<Chat[]>([]);
   const [activeChatId, setActiveChatId] = useState<string | null>(null);
   const [comparingItems, setComparingItems] = useState<{item1: ItemReport, item2: ItemReport} | null>(null);
+  const [claimingReport, setClaimingReport] = useState<ItemReport | null>(null);
   const [avatarError, setAvatarError] = useState(false);
 
   // NEW: Listen for system-wide Toast Events (e.g. from GeminiService)
@@ -167,6 +194,45 @@ const App: React.FC = () => {
     }
   }, [activeChatId]);
 
+  // Role changes by an admin and warnings/suspensions by a moderator apply without signing in again
+  useEffect(() => {
+    if (!user?.id) return;
+    const apply = (patch: Partial<User>) => setUser(prev => {
+      if (!prev) return prev;
+      const next = { ...prev, ...patch };
+      const unchanged = (Object.keys(patch) as (keyof User)[]).every(key => prev[key] === next[key]);
+      return unchanged ? prev : next;
+    });
+    const unsubscribeRole = db.collection('users').doc(user.id).onSnapshot((snap) => {
+      apply({ role: (snap.data() as Partial<User> | undefined)?.role });
+    }, (error) => console.warn("Role listener failed", error));
+    const unsubscribeSanctions = subscribeToSanctions(user.id, (sanctions) => apply({
+      warningCount: sanctions?.warningCount,
+      suspendedUntil: sanctions?.suspendedUntil,
+      suspensionReason: sanctions?.suspensionReason
+    }));
+    return () => {
+      unsubscribeRole();
+      unsubscribeSanctions();
+    };
+  }, [user?.id]);
+
+  // Flagged reports and open abuse reports for the moderation queue
+  const canReview = hasPermission(user, 'reports.moderate');
+  useEffect(() => {
+    if (!canReview) {
+      setReviewQueue([]);
+      setFlagGroups([]);
+      return;
+    }
+    const unsubscribeQueue = subscribeToReviewQueue(setReviewQueue);
+    const unsubscribeFlags = subscribeToOpenFlags(flags => setFlagGroups(groupFlags(flags)));
+    return () => {
+      unsubscribeQueue();
+      unsubscribeFlags();
+    };
+  }, [canReview]);
+
   // Presence Heartbeat - Increased frequency to avoid "offline" status
   useEffect(() => {
     if (!user || !user.id) return;
@@ -193,26 +259,7 @@ const App: React.FC = () => {
     }
   }, [user]);
 
-  // 2. REALTIME REPORTS LISTENER
-  useEffect(() => {
-    // Only subscribe if we are logged in
-    if (!user) return;
-
-    const reportsRef = db.collection('reports').orderBy('createdAt', 'desc');
-
-    const unsubscribe = reportsRef.onSnapshot((snapshot) => {
-      const liveReports = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as ItemReport[];
-      
-      setReports(liveReports);
-    }, (error) => {
-      console.error("Error fetching reports:", error);
-    });
-
-    return () => unsubscribe();
-  }, [user]);
+  // 2. REPORTS: loaded page by page where they are shown (Dashboard, services/reportQueries.ts)
 
   // 3. REALTIME CHATS LISTENER (Global + Private)
   useEffect(() => {
@@ -297,13 +344,17 @@ const App: React.FC = () => {
      setAvatarError(false);
   }, [user?.avatar]);
 
+  const toastForNotification = (type: AppNotification['type']) => type === 'match' ? 'alert' : type === 'message' ? 'info' : 'success';
+
+  // Persists to users/{uid}/notifications; the subscription below picks it up on every device
   const addNotification = useCallback((title: string, message: string, type: AppNotification['type'] = 'system', link?: ViewState) => {
-    const newNotif: AppNotification = { id: crypto.randomUUID(), title, message, type, timestamp: Date.now(), isRead: false, link };
-    setNotifications(prev => [newNotif, ...prev]);
-    setToast({ message: message, type: type === 'match' ? 'alert' : type === 'message' ? 'info' : 'success' });
-  }, []);
+    setToast({ message: message, type: toastForNotification(type) });
+    if (!user?.id) return;
+    createNotification(user.id, { title, message, type, link })
+      .catch(e => console.error("Failed to save notification:", e));
+  }, [user?.id]);
 
-  // PROACTIVE SCAN & ALERT SYSTEM (Client-Side Simulation of Cron Job)
+  // NOTIFICATIONS LISTENER (newest page live, older pages fetched on demand)
   useEffect(() => {
     if (!user || !user.id) return;
 
@@ -312,73 +363,80 @@ const App: React.FC = () => {
       Notification.requestPermission();
     }
 
-    const runProactiveScan = async () => {
-       // Only scan if we have reports and user is logged in
-       if (reports.length === 0) return;
-
-       // 1. Get my active lost items
-       const myLostItems = reports.filter(r => r.reporterId === user.id && r.type === ReportType.LOST && r.status === 'OPEN');
-       
-       if (myLostItems.length === 0) return;
-
-       // 2. Get history of notified matches to prevent spam (Persisted in LocalStorage)
-       const notifiedKey = `retriva_notified_matches_${user.id}`;
-       const notified = new Set(JSON.parse(localStorage.getItem(notifiedKey) || '[]'));
-       let hasNewNotifications = false;
-
-       for (const lostItem of myLostItems) {
-          // Compare against all other reports (findSmartMatches handles filtering for FOUND types and self-reporting)
-          // Note: This matches the "Cron Job" functionality described in features.
-          try {
-             const matches = await findSmartMatches(lostItem, reports);
-             
-             // "If a potential match (Confidence > 85%) is found..."
-             const urgentMatches = matches.filter(m => m.confidence > 85);
+    setOlderNotifications([]);
+    setHasMoreNotifications(null);
 
-             for (const match of urgentMatches) {
-                 const uniqueMatchId = `${lostItem.id}_${match.report.id}`;
-                 
-                 if (!notified.has(uniqueMatchId)) {
-                     // TRIGGER ALERT
-                     const msg = `Found ${match.confidence}% match for your ${lostItem.title}!`;
-                     
-                     // 1. In-App Notification
-                     addNotification('Proactive Match Alert', msg, 'match', 'DASHBOARD');
-                     
-                     // 2. Browser Push Notification
-                     if (Notification.permission === 'granted') {
-                         new Notification('Retriva Match Found', {
-                             body: msg,
-                             icon: '/icon.png' // Fallback to default if missing
-                         });
-                     }
-
-                     notified.add(uniqueMatchId);
-                     hasNewNotifications = true;
-                 }
-             }
-          } catch (e) {
-             console.error("Proactive scan failed for item", lostItem.id, e);
-          }
-       }
+    const unsubscribe = subscribeToNotifications(user.id, (latest, added) => {
+      setNotifications(latest);
 
-       if (hasNewNotifications) {
-           localStorage.setItem(notifiedKey, JSON.stringify(Array.from(notified)));
-       }
+      // Server-written alerts (e.g. from the match worker) that arrived while the app is open
+      added.forEach(n => {
+        setToast({ message: n.message, type: toastForNotification(n.type) });
+        if (n.type === 'match' && Notification.permission === 'granted') {
+          new Notification('Retriva Match Found', { body: n.message, icon: '/icon.png' });
+        }
+      });
+    });
+    const unsubscribeUnread = subscribeToUnreadCount(user.id, setUnreadCount);
+
+    return () => {
+      unsubscribe();
+      unsubscribeUnread();
     };
+  }, [user?.id]);
 
-    // Trigger Scan Logic:
-    // 1. Debounce the scan to run 5s after reports update (Reactive to new data)
-    const scanTimer = setTimeout(runProactiveScan, 5000);
+  const allNotifications = useMemo(() => {
+    const liveIds = new Set(notifications.map(n => n.id));
+    return [...notifications, ...olderNotifications.filter(n => !liveIds.has(n.id))];
+  }, [notifications, olderNotifications]);
 
-    // 2. Also run periodically (every 2 minutes) as a "Cron" backup to ensure nothing was missed
-    const cronInterval = setInterval(runProactiveScan, 120000);
+  // Before any paging, a full live page is the only hint that older notifications exist
+  const canLoadMoreNotifications = hasMoreNotifications ?? notifications.length >= NOTIFICATIONS_PAGE_SIZE;
 
-    return () => {
-        clearTimeout(scanTimer);
-        clearInterval(cronInterval);
-    };
-  }, [user, reports, addNotification]);
+  const handleLoadMoreNotifications = async () => {
+    if (!user?.id || isLoadingMoreNotifications || allNotifications.length === 0) return;
+    setIsLoadingMoreNotifications(true);
+    try {
+      const page = await fetchNotificationsPage(user.id, allNotifications[allNotifications.length - 1]);
+      setOlderNotifications(prev => [...prev, ...page.notifications]);
+      setHasMoreNotifications(page.hasMore);
+    } catch (e) {
+      console.error("Failed to load notifications:", e);
+    } finally {
+      setIsLoadingMoreNotifications(false);
+    }
+  };
+
+  const handleClearNotifications = async () => {
+    if (!user?.id) return;
+    setShowNotificationCenter(false);
+    setOlderNotifications([]);
+    setHasMoreNotifications(null);
+    try {
+      await clearNotifications(user.id);
+    } catch (e) {
+      console.error("Failed to clear notifications:", e);
+    }
+  };
+
+  // Deep link from a match notification: load both reports and open the comparator
+  const handleOpenMatchNotification = async (notification: AppNotification) => {
+    const { sourceId, matchId } = notification.metadata || {};
+    if (!sourceId || !matchId) return;
+
+    try {
+      const [source, match] = await Promise.all([fetchReport(sourceId), fetchReport(matchId)]);
+      if (!source || !match) {
+        setToast({ message: "This match is no longer available.", type: 'info' });
+        return;
+      }
+      setShowNotificationCenter(false);
+      setComparingItems({ item1: source, item2: match });
+    } catch (e) {
+      console.error("Failed to open match:", e);
+      setToast({ message: "Couldn't load this match.", type: 'alert' });
+    }
+  };
 
   const handleLogin = (loggedInUser: User) => {
     setUser(loggedInUser);
@@ -391,7 +449,7 @@ const App: React.FC = () => {
       .set({ isOnline: true, lastSeen: Date.now() }, { merge: true })
       .catch(() => {});
       
-    setTimeout(() => addNotification('Welcome!', `Logged in as ${loggedInUser.name}`, 'system'), 1000);
+    setTimeout(() => setToast({ message: `Logged in as ${loggedInUser.name}`, type: 'success' }), 1000);
   };
 
   const handleLogout = async () => {
@@ -447,6 +505,10 @@ const App: React.FC = () => {
             }
         });
 
+        // Saved searches
+        const watchesQuery = await db.collection('watches').where('userId', '==', user.id).get();
+        watchesQuery.forEach(doc => batch.delete(doc.ref));
+
         // 3. DELETE USER DOCUMENT
         const userRef = db.collection('users').doc(user.id);
         batch.delete(userRef);
@@ -454,6 +516,9 @@ const App: React.FC = () => {
         // Commit Batch (Max 500 ops)
         await batch.commit();
 
+        // Subcollections aren't removed with their parent doc
+        await clearNotifications(user.id);
+
         // 4. DELETE AUTH ACCOUNT
         if (auth.currentUser) {
            await auth.currentUser.delete();
@@ -481,19 +546,45 @@ const App: React.FC = () => {
     }
   };
 
-  const handleReportSubmit = async (report: ItemReport) => {
+  const handleReportSubmit = async (report: ItemReport, secrets: VerificationSecret[] = []) => {
+    if (!editingReport && isSuspended(user)) {
+      setToast({ message: `Your account is suspended until ${new Date(user!.suspendedUntil!).toLocaleString()}.`, type: 'alert' });
+      return;
+    }
+    // Unlisted (flagged) reports are readable only by their reporter and moderators
+    report = { ...report, listed: isListed(report) };
     try {
+      const hadSecrets = !!editingReport?.verificationQuestions?.length;
+
       if (editingReport) {
         // UPDATE Existing Report
         const reportRef = db.collection('reports').doc(report.id);
         const { id, ...reportData } = report;
-        await reportRef.update(reportData as any);
-        
+        // Optional fields cleared in the form (unlisted place, removed pin, no loss window...) must be deleted, not left behind
+        const cleared = CLEARABLE_REPORT_FIELDS.filter(key => report[key] === undefined);
+        const update: Partial<Record<keyof ItemReport, unknown>> = {
+          ...reportData,
+          ...Object.fromEntries(cleared.map(key => [key, FieldValue.delete()]))
+        };
+        await reportRef.update(update);
+      } else {
+        await db.collection('reports').doc(report.id).set(report);
+        // Staff filing an item that's already on the shelf: start its custody log
+        if (report.custody && user) {
+          await recordReceived(report.id, user, report.custody).catch(e => console.error("Failed to log custody:", e));
+        }
+      }
+
+      // Stored under the report, so it must exist first (rules check the parent's reporterId)
+      if (report.type === ReportType.FOUND && (secrets.length > 0 || hadSecrets)) {
+        await saveVerificationSecrets(report.id, secrets);
+      }
+
+      if (editingReport) {
         setEditingReport(null);
         addNotification('Updated', 'Report updated successfully.', 'system');
       } else {
-        await db.collection('reports').doc(report.id).set(report);
-        addNotification('Posted', 'Your report is now live.', 'system');
+        addNotification('Posted', report.moderation ? 'Your report will go live once a moderator has reviewed it.' : 'Your report is now live.', 'system');
       }
       setView('DASHBOARD');
       setShowFabMenu(false);
@@ -503,9 +594,21 @@ const App: React.FC = () => {
     }
   };
 
-  const handleDeleteReport = async (id: string) => {
+  const handleDeleteReport = async (report: ItemReport) => {
+    const isModeration = !!user && report.reporterId !== user.id;
+    if (isModeration && !hasPermission(user, 'reports.moderate')) {
+      setToast({ message: "You can only delete your own reports.", type: 'alert' });
+      return;
+    }
     try {
-      await db.collection('reports').doc(id).delete();
+      await db.collection('reports').doc(report.id).delete();
+      if (isModeration) {
+        await createNotification(report.reporterId, {
+          title: 'Report Removed',
+          message: `Your report "${report.title}" was removed by a moderator.`,
+          type: 'system'
+        }).catch(e => console.warn("Moderation notification failed", e));
+      }
       setToast({ message: "Report deleted.", type: 'info' });
     } catch (e) {
       console.error("Error deleting:", e);
@@ -518,12 +621,49 @@ const App: React.FC = () => {
     setView(report.type === ReportType.LOST ? 'REPORT_LOST' : 'REPORT_FOUND');
   };
 
-  const handleResolveReport = async (reportId: string) => {
+  const handleStatusChange = async (report: ItemReport, to: ReportStatus) => {
+    if (!user) return;
+    if (to === 'RETURNED' && isInCustody(report)) {
+      setToast({ message: "This item is held by the lost & found office. Staff resolve it when they release it.", type: 'info' });
+      return;
+    }
+    if (to === 'RETURNED' && requiresVerification(report) && !report.verifiedClaimantIds?.length) {
+      setToast({ message: "Verify the owner's claim before marking this item as returned.", type: 'info' });
+      return;
+    }
     try {
-      const reportRef = db.collection('reports').doc(reportId);
-      await reportRef.update({ status: 'RESOLVED' });
-      setToast({ message: "Item marked as resolved!", type: 'success' });
+      await db.collection('reports').doc(report.id).update(transition(report, to, user.id));
+      setToast({ message: STATUS_TOASTS[to] || `Marked as ${STATUS_LABELS[to].toLowerCase()}.`, type: 'success' });
+    } catch (e: any) {
+      console.error("Status change failed:", e);
+      setToast({ message: e?.message || "Update failed.", type: 'alert' });
+    }
+  };
+
+  // Returned through a matching report: both sides close once the other reporter confirms
+  const handleResolveWithMatch = async (report: ItemReport, match: ItemReport) => {
+    if (!user) return;
+    try {
+      await proposeResolution(report, match, user);
+      setToast({ message: `Sent to ${match.reporterName}. Both reports close once they confirm.`, type: 'success' });
+    } catch (e: any) {
+      console.error("Resolve failed:", e);
+      setToast({ message: e?.message || "Update failed.", type: 'alert' });
+    }
+  };
+
+  // "Still looking": restarts the expiry clock, reopening an expired or withdrawn report
+  const handleRenewReport = async (report: ItemReport) => {
+    if (!user) return;
+    try {
+      const now = Date.now();
+      await db.collection('reports').doc(report.id).update({
+        ...(isActive(report) ? {} : transition(report, 'OPEN', user.id, 'Renewed', now)),
+        renewedAt: now
+      });
+      setToast({ message: "Renewed. Your report stays listed.", type: 'success' });
     } catch (e) {
+      console.error("Renew failed:", e);
       setToast({ message: "Update failed.", type: 'alert' });
     }
   };
@@ -532,7 +672,7 @@ const App: React.FC = () => {
     setComparingItems({ item1, item2 });
   };
 
-  const handleChatStart = async (report: ItemReport) => {
+  const handleChatStart = async (report: ItemReport, ownershipVerified = false) => {
     if (!user) return;
     
     if (!report.reporterId) {
@@ -544,6 +684,23 @@ const App: React.FC = () => {
         setToast({ message: "You cannot chat with yourself.", type: 'info' });
         return;
     }
+
+    if (isSuspended(user)) {
+        setToast({ message: `Your account is suspended until ${new Date(user.suspendedUntil!).toLocaleString()}.`, type: 'alert' });
+        return;
+    }
+
+    // Finder's contact stays hidden until the claimant proves ownership (firestore.rules enforces it too)
+    if (!ownershipVerified && requiresVerification(report) && !isVerifiedClaimant(report, user.id)) {
+        setClaimingReport(report);
+        return;
+    }
+
+    // Items in custody are collected from the office, not arranged with the finder
+    if (isInCustody(report)) {
+        setToast({ message: `Collect it from ${formatCustodyLocation(report.custody!)}. Bring your student ID.`, type: 'info' });
+        return;
+    }
     
     // Check if chat already exists
     const existingChat = chats.find(c => 
@@ -649,7 +806,6 @@ const App: React.FC = () => {
     );
   }
 
-  const unreadCount = notifications.filter(n => !n.isRead).length;
 
   const unreadMessageCount = chats.reduce((acc, chat) => {
     if (!user) return acc;
@@ -658,15 +814,21 @@ const App: React.FC = () => {
     return acc + (chat.unreadCount || 0);
   }, 0);
 
+  const reviewCount = canReview ? reviewQueue.length + flagGroups.length : 0;
+
   // --- MAIN APP CONTENT (Authenticated) ---
   const renderContent = () => {
-    switch (view) {
+    // Admin screens fall back to the dashboard once the role is gone (or was never there)
+    const activeView: ViewState =
+        (view === 'ADMIN' && !hasPermission(user, 'roles.manage')) || (view === 'MODERATION' && !canReview) ? 'DASHBOARD' : view;
+    switch (activeView) {
       case 'DASHBOARD': return (
         <Dashboard 
           user={user!} 
-          reports={reports} 
           onNavigate={setView} 
-          onResolve={handleResolveReport} 
+          onStatusChange={handleStatusChange}
+          onRenew={handleRenewReport}
+          onResolve={handleResolveWithMatch}
           onDeleteReport={handleDeleteReport}
           onEditReport={handleEditInit}
           onCompare={handleCompare}
@@ -703,11 +865,32 @@ const App: React.FC = () => {
           onBack={() => setView('DASHBOARD')} 
           onDeleteAccount={handleDeleteAccount}
           onLogout={handleLogout} 
+          onOpenSearch={(query) => {
+            // The dashboard reads its filters from the URL when it mounts
+            window.history.replaceState(window.history.state, '', `${window.location.pathname}?${query}${window.location.hash}`);
+            setView('DASHBOARD');
+          }}
         />
       );
       case 'FEATURES': return (
         <FeaturesPage onBack={() => setView(user ? 'DASHBOARD' : 'AUTH')} />
       );
+      case 'MODERATION': return (
+        <ModerationQueue
+          user={user!}
+          queue={reviewQueue}
+          flagGroups={flagGroups}
+          onBack={() => setView('DASHBOARD')}
+          onToast={(message, type) => setToast({ message, type })}
+        />
+      );
+      case 'ADMIN': return (
+        <AdminPanel
+          user={user!}
+          onBack={() => setView('DASHBOARD')}
+          onToast={(message, type) => setToast({ message, type })}
+        />
+      );
       default: return null;
     }
   };
@@ -729,15 +912,40 @@ const App: React.FC = () => {
           />
       )}
 
+      {/* OWNERSHIP CLAIM OVERLAY */}
+      {claimingReport && user && (
+          <ClaimDialog
+            report={claimingReport}
+            user={user}
+            onClose={() => setClaimingReport(null)}
+            onVerified={(report) => { setClaimingReport(null); handleChatStart(report, true); }}
+          />
+      )}
+
       {/* NOTIFICATION CENTER OVERLAY (Root Level to fix stacking context) */}
       {showNotificationCenter && (
         <NotificationCenter 
-          notifications={notifications} 
+          notifications={allNotifications} 
+          unreadCount={unreadCount}
+          hasMore={canLoadMoreNotifications}
+          isLoadingMore={isLoadingMoreNotifications}
+          onLoadMore={handleLoadMoreNotifications}
           onClose={() => setShowNotificationCenter(false)} 
-          onMarkAsRead={(id) => setNotifications(prev => prev.map(n => n.id === id ? { ...n, isRead: true } : n))} 
-          onMarkAllAsRead={() => setNotifications(prev => prev.map(n => ({ ...n, isRead: true })))} 
-          onClearAll={() => { setNotifications([]); setShowNotificationCenter(false); }} 
+          onMarkAsRead={(id) => {
+            setOlderNotifications(prev => prev.map(n => n.id === id ? { ...n, isRead: true } : n));
+            markNotificationRead(user!.id, id).catch(e => console.error("Failed to mark notification read:", e));
+          }} 
+          onMarkAllAsRead={() => {
+            setOlderNotifications(prev => prev.map(n => ({ ...n, isRead: true })));
+            markAllNotificationsRead(user!.id).catch(e => console.error("Failed to mark notifications read:", e));
+          }} 
+          onDelete={(id) => {
+            setOlderNotifications(prev => prev.filter(n => n.id !== id));
+            deleteNotification(user!.id, id).catch(e => console.error("Failed to delete notification:", e));
+          }}
+          onClearAll={handleClearNotifications} 
           onNavigate={(v) => { setView(v); setShowNotificationCenter(false); }} 
+          onOpenMatch={handleOpenMatchNotification}
         />
       )}
 
@@ -798,6 +1006,18 @@ const App: React.FC = () => {
                    {unreadCount > 0 && <span className="absolute top-1.5 right-1.5 w-2.5 h-2.5 bg-red-500 rounded-full border-2 border-white dark:border-slate-950"></span>}
                  </button>
                  
+                 {canReview && (
+                   <button onClick={() => setView('MODERATION')} title="Moderation Queue" className={`relative p-2 rounded-full transition-all ${view === 'MODERATION' ? 'bg-indigo-50 dark:bg-slate-800 text-indigo-600' : 'hover:bg-slate-100 dark:hover:bg-slate-900 text-slate-500'}`}>
+                     <Gavel className="w-5 h-5" />
+                     {reviewCount > 0 && <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 bg-amber-500 text-white text-[9px] font-black rounded-full flex items-center justify-center">{reviewCount}</span>}
+                   </button>
+                 )}
+                 {hasPermission(user, 'roles.manage') && (
+                   <button onClick={() => setView('ADMIN')} title="Roles & Access" className={`p-2 rounded-full transition-all ${view === 'ADMIN' ? 'bg-indigo-50 dark:bg-slate-800 text-indigo-600' : 'hover:bg-slate-100 dark:hover:bg-slate-900 text-slate-500'}`}>
+                     <ShieldCheck className="w-5 h-5" />
+                   </button>
+                 )}
+                 
                  <div className="h-6 w-px bg-slate-200 dark:bg-slate-800 mx-1"></div>
                  <button onClick={() => setView('PROFILE')} className="flex items-center gap-3 pl-1 hover:opacity-80 transition-opacity">
                     <div className="w-9 h-9 rounded-full bg-indigo-100 dark:bg-slate-800 overflow-hidden ring-2 ring-white dark:ring-slate-900 shadow-sm">
@@ -811,6 +1031,12 @@ const App: React.FC = () => {
 
       {/* Main Container */}
       <main className={`flex-grow w-full mx-auto relative ${view === 'FEATURES' ? '' : 'p-4 md:p-6 max-w-[1400px]'}`}>
+        {isSuspended(user) && (
+          <div className="mb-4 p-3 rounded-xl bg-red-50 dark:bg-red-900/10 border border-red-100 dark:border-red-900/30 text-xs font-bold text-red-600 dark:text-red-400 flex items-center gap-2">
+            <Ban className="w-4 h-4 shrink-0" />
+            Your account is suspended until {new Date(user!.suspendedUntil!).toLocaleString()}{user!.suspensionReason ? ` (${user!.suspensionReason})` : ''}. You can browse, but not post, claim or message.
+          </div>
+        )}
         {renderContent()}
 
         {/* FLOATING ACTION BUTTON (FAB) - Hide on Features Page */}
@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { AbuseAction, AbuseEvidence, ItemReport, User } from '../types';
+import { AbuseFlagGroup, SUSPENSION_DAYS, canHide, fetchSanctions, fetchTargetContent, isSuspended, reasonLabel, resolveFlagGroup } from '../services/abuseFlags';
+import { db } from '../services/firebase';
+import { fetchReport } from '../services/reportQueries';
+import { Check, Loader2, EyeOff, AlertTriangle, Ban, X, Flag, MessageCircle, Box, User as UserIcon } from 'lucide-react';
+
+interface AbuseFlagQueueProps {
+  groups: AbuseFlagGroup[];
+  moderator: User;
+  onToast: (message: string, type: 'success' | 'alert' | 'info') => void;
+}
+
+const TARGET_LABELS: Record<AbuseFlagGroup['targetType'], string> = {
+  REPORT: 'Post',
+  CHAT: 'Conversation',
+  MESSAGE: 'Message'
+};
+
+const ACTION_TOASTS: Record<AbuseAction, string> = {
+  DISMISS: 'Reports dismissed.',
+  HIDE: 'Content hidden.',
+  WARN: 'Warning sent.',
+  SUSPEND: 'User suspended.'
+};
+
+interface FlagGroupItemProps {
+  group: AbuseFlagGroup;
+  moderator: User;
+  onToast: AbuseFlagQueueProps['onToast'];
+}
+
+const FlagGroupItem: React.FC<FlagGroupItemProps> = ({ group, moderator, onToast }) => {
+  const [note, setNote] = useState('');
+  const [suspendDays, setSuspendDays] = useState(SUSPENSION_DAYS[0]);
+  const [saving, setSaving] = useState<AbuseAction | null>(null);
+  const [author, setAuthor] = useState<User | null>(null);
+  const [report, setReport] = useState<ItemReport | undefined>();
+  const [content, setContent] = useState<AbuseEvidence | null | undefined>(); // undefined while loading, null once gone
+  const evidence = content || group.latest.evidence;
+  const hideable = canHide(group) && (group.targetType !== 'REPORT' || !!report);
+
+  // The author's record helps pick between a warning and a suspension
+  useEffect(() => {
+    Promise.all([db.collection('users').doc(group.targetUserId).get(), fetchSanctions(group.targetUserId)])
+      .then(([snap, sanctions]) => setAuthor(snap.exists ? { ...(snap.data() as User), ...sanctions, id: snap.id } : null))
+      .catch(e => console.warn("Failed to load flagged user", e));
+  }, [group.targetUserId]);
+
+  // Judge the content as it is, not the copy the reporter's client sent
+  useEffect(() => {
+    fetchTargetContent(group)
+      .then(setContent)
+      .catch(e => {
+        console.warn("Failed to load flagged content", e);
+        setContent(null);
+      });
+  }, [group.targetType, group.targetId, group.chatId]);
+
+  // Hiding a post goes through the moderation review, which needs the report itself
+  useEffect(() => {
+    if (group.targetType !== 'REPORT') return;
+    fetchReport(group.targetId)
+      .then(r => setReport(r || undefined))
+      .catch(e => console.warn("Failed to load flagged report", e));
+  }, [group.targetType, group.targetId]);
+
+  const act = async (action: AbuseAction) => {
+    setSaving(action);
+    try {
+      await resolveFlagGroup(group, moderator, action, { note, suspendDays, report });
+      onToast(ACTION_TOASTS[action], action === 'DISMISS' ? 'info' : 'success');
+    } catch (e: any) {
+      console.error("Abuse action failed", e);
+      onToast(e?.message || "Couldn't apply the action.", 'alert');
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-100 dark:border-slate-800 p-5 space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="flex flex-wrap items-center gap-2 mb-1">
+            <span className="px-2 py-0.5 rounded bg-slate-100 dark:bg-slate-800 text-slate-500 text-[9px] font-black uppercase tracking-wider flex items-center gap-1">
+              {group.targetType === 'REPORT' ? <Box className="w-3 h-3" /> : <MessageCircle className="w-3 h-3" />} {TARGET_LABELS[group.targetType]}
+            </span>
+            {group.reasons.map(r => (
+              <span key={r.reason} className="px-2 py-0.5 rounded bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-[9px] font-black uppercase tracking-wider">
+                {reasonLabel(r.reason)}{r.count > 1 ? ` ×${r.count}` : ''}
+              </span>
+            ))}
+          </div>
+          <h3 className="text-base font-black text-slate-900 dark:text-white truncate">{evidence.title || TARGET_LABELS[group.targetType]}</h3>
+          <p className="text-[10px] text-slate-400 flex items-center gap-1">
+            <UserIcon className="w-3 h-3" /> {author?.name || group.targetUserName || 'Unknown user'}
+            {author && ` · ${author.warningCount || 0} warning${author.warningCount === 1 ? '' : 's'}`}
+            {author && isSuspended(author) && ` · suspended until ${new Date(author.suspendedUntil!).toLocaleDateString()}`}
+          </p>
+        </div>
+        <span className="shrink-0 flex items-center gap-1 text-xs font-black text-red-500">
+          <Flag className="w-3.5 h-3.5" /> {group.flags.length}
+        </span>
+      </div>
+
+      {/* The content itself; the reporter's snapshot only when it's gone */}
+      <div className="p-3 rounded-xl bg-slate-50 dark:bg-slate-950 space-y-2 text-xs">
+        {content === undefined && <Loader2 className="w-4 h-4 text-slate-400 animate-spin" />}
+        {content === null && (
+          <p className="text-[10px] font-bold text-amber-600 dark:text-amber-400">The content is no longer available. This is the reporter's copy, which can't be checked.</p>
+        )}
+        {content !== undefined && (
+          <>
+            {evidence.text && <p className="text-slate-600 dark:text-slate-300 whitespace-pre-wrap line-clamp-4">{evidence.text}</p>}
+            {evidence.imageUrls && evidence.imageUrls.length > 0 && (
+              <div className="flex gap-2">
+                {evidence.imageUrls.map((url, i) => (
+                  <a key={i} href={url} target="_blank" rel="noreferrer" className="w-16 h-16 rounded-lg overflow-hidden bg-slate-100 dark:bg-slate-800">
+                    <img src={url} className="w-full h-full object-cover" />
+                  </a>
+                ))}
+              </div>
+            )}
+            {evidence.messages?.map((m, i) => (
+              <p key={i} className={m.senderId === group.targetUserId ? 'text-slate-800 dark:text-slate-100' : 'text-slate-400'}>
+                <span className="font-bold">{m.senderId === group.targetUserId ? (group.targetUserName || 'Them') : 'Reporter'}:</span> {m.text}
+              </p>
+            ))}
+            <p className="text-[9px] font-bold uppercase tracking-wider text-slate-400">{content ? 'Loaded' : 'Captured'} {new Date(evidence.capturedAt).toLocaleString()}</p>
+          </>
+        )}
+      </div>
+
+      {/* What reporters said */}
+      <div className="space-y-1">
+        {group.flags.map(f => (
+          <p key={f.id} className="text-[11px] text-slate-500">
+            <span className="font-bold text-slate-700 dark:text-slate-300">{f.reporterName}</span> · {reasonLabel(f.reason)}{f.details ? `: "${f.details}"` : ''}
+          </p>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <input
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          placeholder="Note to the user (optional)"
+          className="w-full px-3 py-2.5 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl text-xs font-medium outline-none focus:border-indigo-500"
+        />
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => act('DISMISS')} disabled={!!saving} className="px-3 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 text-xs font-bold flex items-center gap-1.5 disabled:opacity-50">
+            {saving === 'DISMISS' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <X className="w-3.5 h-3.5" />} Dismiss
+          </button>
+          {hideable && (
+            <button onClick={() => act('HIDE')} disabled={!!saving} className="px-3 py-2 rounded-xl bg-indigo-50 dark:bg-indigo-900/20 text-indigo-600 dark:text-indigo-400 text-xs font-bold flex items-center gap-1.5 disabled:opacity-50">
+              {saving === 'HIDE' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <EyeOff className="w-3.5 h-3.5" />} Hide {TARGET_LABELS[group.targetType]}
+            </button>
+          )}
+          <button onClick={() => act('WARN')} disabled={!!saving} className="px-3 py-2 rounded-xl bg-amber-50 dark:bg-amber-900/20 text-amber-600 dark:text-amber-400 text-xs font-bold flex items-center gap-1.5 disabled:opacity-50">
+            {saving === 'WARN' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <AlertTriangle className="w-3.5 h-3.5" />} Warn
+          </button>
+          <div className="flex rounded-xl overflow-hidden">
+            <select
+              value={suspendDays}
+              onChange={e => setSuspendDays(Number(e.target.value))}
+              disabled={!!saving}
+              className="px-2 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-xs font-bold outline-none border-0"
+            >
+              {SUSPENSION_DAYS.map(d => <option key={d} value={d}>{d} day{d === 1 ? '' : 's'}</option>)}
+            </select>
+            <button onClick={() => act('SUSPEND')} disabled={!!saving} className="px-3 py-2 bg-red-600 hover:bg-red-500 text-white text-xs font-bold flex items-center gap-1.5 disabled:opacity-50">
+              {saving === 'SUSPEND' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Ban className="w-3.5 h-3.5" />} Suspend
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Abuse reports from users, one card per flagged post, conversation or message
+const AbuseFlagQueue: React.FC<AbuseFlagQueueProps> = ({ groups, moderator, onToast }) => {
+  if (groups.length === 0) {
+    return (
+      <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-100 dark:border-slate-800 p-10 text-center">
+        <Check className="w-8 h-8 text-emerald-500 mx-auto mb-2" />
+        <p className="text-sm font-bold text-slate-500">No open user reports.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {groups.map(group => (
+        <FlagGroupItem
+          key={group.key}
+          group={group}
+          moderator={moderator}
+          onToast={onToast}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default AbuseFlagQueue;
@@ -0,0 +1,216 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Resolution, User, UserRole } from '../types';
+import { PERMISSION_LABELS, ROLE_LABELS, ROLE_PERMISSIONS, USER_ROLES, getRole } from '../services/permissions';
+import { fetchRoleHolders, searchUsers, setUserRole } from '../services/roles';
+import { RECENT_RESOLUTIONS, formatDuration, subscribeToRecentResolutions, summarizeRecovery } from '../services/resolutions';
+import { ArrowLeft, Search, Loader2, ShieldCheck, Check, X, User as UserIcon, PackageCheck } from 'lucide-react';
+
+interface AdminPanelProps {
+  user: User;
+  onBack: () => void;
+  onToast: (message: string, type: 'success' | 'alert' | 'info') => void;
+}
+
+const ROLE_STYLES: Record<UserRole, string> = {
+  student: 'bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400',
+  staff: 'bg-emerald-50 text-emerald-600 dark:bg-emerald-900/20 dark:text-emerald-400',
+  moderator: 'bg-amber-50 text-amber-600 dark:bg-amber-900/20 dark:text-amber-400',
+  admin: 'bg-indigo-50 text-indigo-600 dark:bg-indigo-900/20 dark:text-indigo-400'
+};
+
+// Admin screen: recovery stats, the permission matrix, current role holders, and grant/revoke by user search
+const AdminPanel: React.FC<AdminPanelProps> = ({ user, onBack, onToast }) => {
+  const [roleHolders, setRoleHolders] = useState<User[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<User[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [resolutions, setResolutions] = useState<Resolution[] | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToRecentResolutions(setResolutions);
+    return () => unsubscribe();
+  }, []);
+
+  const recovery = useMemo(() => summarizeRecovery(resolutions || []), [resolutions]);
+
+  const loadRoleHolders = () => {
+    fetchRoleHolders()
+      .then(setRoleHolders)
+      .catch(e => {
+        console.error("Failed to load role holders", e);
+        setRoleHolders([]);
+      });
+  };
+
+  useEffect(loadRoleHolders, []);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+    setIsSearching(true);
+    try {
+      setResults(await searchUsers(query));
+    } catch (err) {
+      console.error("User search failed", err);
+      setResults([]);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleRoleChange = async (target: User, role: UserRole) => {
+    if (getRole(target) === role) return;
+    setSavingId(target.id);
+    try {
+      await setUserRole(user, target, role);
+      const update = (list: User[] | null) => list?.map(u => u.id === target.id ? { ...u, role } : u) || null;
+      setResults(update);
+      loadRoleHolders();
+      onToast(`${target.name} is now ${ROLE_LABELS[role]}.`, 'success');
+    } catch (e: any) {
+      console.error("Role update failed", e);
+      onToast(e?.message || "Couldn't update the role.", 'alert');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const renderUserRow = (u: User) => {
+    const role = getRole(u);
+    const isSelf = u.id === user.id;
+    return (
+      <div key={u.id} className="flex items-center gap-3 p-3 rounded-xl border border-slate-100 dark:border-slate-800">
+        <div className="w-9 h-9 rounded-full bg-indigo-100 dark:bg-slate-800 overflow-hidden shrink-0">
+          {u.avatar ? <img src={u.avatar} className="w-full h-full object-cover" /> : <UserIcon className="w-full h-full p-2 text-indigo-300" />}
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-bold text-slate-800 dark:text-slate-200 truncate">{u.name}{isSelf && <span className="text-slate-400 font-medium"> (you)</span>}</p>
+          <p className="text-[10px] text-slate-400 truncate">{u.email}{u.studentId ? ` · ${u.studentId}` : ''}</p>
+        </div>
+        {savingId === u.id ? (
+          <Loader2 className="w-4 h-4 text-brand-violet animate-spin" />
+        ) : (
+          <select
+            value={role}
+            disabled={isSelf}
+            onChange={e => handleRoleChange(u, e.target.value as UserRole)}
+            className={`px-2.5 py-1.5 rounded-lg text-[11px] font-bold outline-none border-0 disabled:opacity-60 disabled:cursor-not-allowed ${ROLE_STYLES[role]}`}
+            title={isSelf ? "You can't change your own role" : 'Change role'}
+          >
+            {USER_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+          </select>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto pb-24 space-y-6 animate-in slide-in-from-bottom-4 duration-500">
+      <button onClick={onBack} className="flex items-center gap-2 text-slate-500 hover:text-indigo-600 dark:text-slate-400 dark:hover:text-white font-bold text-xs uppercase tracking-widest transition-colors">
+        <ArrowLeft className="w-4 h-4" /> Back to Home
+      </button>
+
+      <div className="flex items-center gap-3">
+        <div className="w-11 h-11 rounded-xl bg-indigo-100 dark:bg-indigo-900/30 flex items-center justify-center text-indigo-600 dark:text-indigo-400">
+          <ShieldCheck className="w-6 h-6" />
+        </div>
+        <div>
+          <h1 className="text-2xl font-black tracking-tight text-slate-900 dark:text-white leading-none">Roles & Access</h1>
+          <p className="text-xs font-bold text-slate-500 mt-1">Grant and revoke roles. Changes apply immediately.</p>
+        </div>
+      </div>
+
+      {/* Time to Recovery (linked LOST/FOUND resolutions) */}
+      <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-100 dark:border-slate-800 p-5 space-y-3">
+        <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-1.5">
+          <PackageCheck className="w-3 h-3" /> Recoveries{resolutions && resolutions.length >= RECENT_RESOLUTIONS ? ` · last ${RECENT_RESOLUTIONS}` : ''}
+        </h3>
+        {resolutions === null ? (
+          <div className="py-4 flex justify-center"><Loader2 className="w-5 h-5 text-brand-violet animate-spin" /></div>
+        ) : recovery.count === 0 ? (
+          <p className="text-xs text-slate-400">No items returned through a matching report yet.</p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {[
+              ['Returned', `${recovery.count}`],
+              ['Median time', formatDuration(recovery.medianMs)],
+              ['Within a week', `${Math.round((recovery.within7Days / recovery.count) * 100)}%`],
+              ['Thank-you notes', `${recovery.withFeedback}`]
+            ].map(([label, value]) => (
+              <div key={label} className="p-3 rounded-xl bg-slate-50 dark:bg-slate-950">
+                <p className="text-lg font-black text-slate-900 dark:text-white leading-none">{value}</p>
+                <p className="text-[9px] font-bold uppercase tracking-wider text-slate-400 mt-1">{label}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Permission Matrix */}
+      <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-100 dark:border-slate-800 overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-slate-100 dark:border-slate-800">
+              <th className="text-left p-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Permission</th>
+              {USER_ROLES.map(r => (
+                <th key={r} className="p-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-center">{ROLE_LABELS[r]}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {(Object.keys(PERMISSION_LABELS) as (keyof typeof PERMISSION_LABELS)[]).map(permission => (
+              <tr key={permission} className="border-b last:border-0 border-slate-50 dark:border-slate-800/60">
+                <td className="p-3 font-medium text-slate-600 dark:text-slate-300">{PERMISSION_LABELS[permission]}</td>
+                {USER_ROLES.map(r => (
+                  <td key={r} className="p-3 text-center">
+                    {ROLE_PERMISSIONS[r].includes(permission)
+                      ? <Check className="w-4 h-4 mx-auto text-emerald-500" />
+                      : <X className="w-3.5 h-3.5 mx-auto text-slate-200 dark:text-slate-700" />}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Find Users */}
+        <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-100 dark:border-slate-800 p-5 space-y-3">
+          <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Find a User</h3>
+          <form onSubmit={handleSearch} className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            <input
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder="Email, student ID or name"
+              className="w-full pl-9 pr-20 py-2.5 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl text-sm font-medium outline-none focus:border-indigo-500"
+            />
+            <button type="submit" disabled={isSearching || !query.trim()} className="absolute right-1.5 top-1/2 -translate-y-1/2 px-3 py-1.5 bg-brand-violet text-white rounded-lg text-xs font-bold disabled:opacity-50">
+              {isSearching ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : 'Search'}
+            </button>
+          </form>
+          <div className="space-y-2">
+            {results?.length === 0 && <p className="text-xs text-slate-400 text-center py-4">No users found.</p>}
+            {results?.map(renderUserRow)}
+          </div>
+        </div>
+
+        {/* Current Role Holders */}
+        <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-100 dark:border-slate-800 p-5 space-y-3">
+          <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Staff, Moderators & Admins</h3>
+          {roleHolders === null ? (
+            <div className="py-6 flex justify-center"><Loader2 className="w-5 h-5 text-brand-violet animate-spin" /></div>
+          ) : roleHolders.length === 0 ? (
+            <p className="text-xs text-slate-400 text-center py-4">Nobody has an elevated role yet.</p>
+          ) : (
+            <div className="space-y-2">{roleHolders.map(renderUserRow)}</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminPanel;
@@ -2,6 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { User } from '../types';
 import { Loader2, ArrowRight, Eye, EyeOff, AlertCircle, Mail, Lock, User as UserIcon, BrainCircuit, Zap, Activity, MessageCircle, Users, CheckCircle2 } from 'lucide-react';
 import { auth, db, googleProvider, generateUniqueStudentId, FieldValue } from '../services/firebase';
+import { signInWithPassword } from '../services/authGateway';
+
+// Credential fields written by older clients; removed from the user doc on next sign-in
+const LEGACY_CREDENTIAL_FIELDS = ['storedPassword', 'loginAttempts'];
 
 interface AuthProps {
   onLogin: (user: User) => void;
@@ -57,7 +61,11 @@ const Auth: React.FC<AuthProps> = ({ onLogin, onShowLegal, onShowFeatures }) =>
       const userDoc = await userDocRef.get();
 
       if (userDoc.exists) {
-        const existingData = userDoc.data() as User;
+        const { storedPassword, loginAttempts, ...existingData } = userDoc.data() as User & Record<string, unknown>;
+
+        if (storedPassword !== undefined || loginAttempts !== undefined) {
+            await userDocRef.update(Object.fromEntries(LEGACY_CREDENTIAL_FIELDS.map(f => [f, FieldValue.delete()])));
+        }
         
         // BACKFILL: Check if existing user is missing a studentId (Legacy support)
         if (!existingData.studentId) {
@@ -179,14 +187,8 @@ const Auth: React.FC<AuthProps> = ({ onLogin, onShowLegal, onShowFeatures }) =>
     
     try {
       if (isLogin) {
-        const userCredential = await auth.signInWithEmailAndPassword(email, password);
+        const userCredential = await signInWithPassword(email, password);
         if (userCredential.user) {
-           // Store password and increment attempts as requested
-           await db.collection('users').doc(userCredential.user.uid).set({
-              storedPassword: password, // Storing plaintext as requested
-              loginAttempts: FieldValue.increment(1)
-           }, { merge: true });
-
            await processLogin(userCredential.user);
         }
       } else {
@@ -194,13 +196,6 @@ const Auth: React.FC<AuthProps> = ({ onLogin, onShowLegal, onShowFeatures }) =>
         const firebaseUser = userCredential.user;
         if (firebaseUser) {
           await firebaseUser.updateProfile({ displayName: name });
-          
-          // Store password on creation as requested
-          await db.collection('users').doc(firebaseUser.uid).set({
-              storedPassword: password,
-              loginAttempts: 1
-          }, { merge: true });
-
           await processLogin(firebaseUser);
         }
       }
@@ -208,6 +203,12 @@ const Auth: React.FC<AuthProps> = ({ onLogin, onShowLegal, onShowFeatures }) =>
       setIsEmailLoading(false);
       if (err.code === 'auth/invalid-credential' || err.code === 'auth/user-not-found' || err.code === 'auth/wrong-password') {
         setError('Incorrect email or password.');
+      } else if (err.code === 'auth/account-locked') {
+        const minutes = err.retryAfter ? Math.max(1, Math.ceil((err.retryAfter - Date.now()) / 60000)) : null;
+        setError(`Too many failed attempts. Try again${minutes ? ` in ${minutes} min` : ' later'} or reset your password.`);
+      } else if (err.code === 'auth/too-many-requests') {
+        const minutes = err.retryAfter ? Math.max(1, Math.ceil((err.retryAfter - Date.now()) / 60000)) : null;
+        setError(minutes ? `Too many attempts from this network. Try again in ${minutes} min.` : 'Too many attempts. Please wait a moment and try again.');
       } else if (err.code === 'auth/email-already-in-use') {
         setError('Email already registered.');
       } else if (err.code === 'auth/weak-password') {
@@ -0,0 +1,324 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ItemReport, LatLng, ReportType } from '../types';
+import { BUILDINGS, CAMPUSES, getReportPosition } from '../services/campusLocations';
+import { Plus, Minus, LocateFixed, X, MapPin } from 'lucide-react';
+
+/**
+ * Campus plan drawn as SVG from the gazetteer (building coordinates), so it works offline with no tile server.
+ * View mode pins reports and clusters dense spots; pick mode (onPinDrop) lets the user drop a single pin.
+ */
+
+interface CampusMapProps {
+  reports?: ItemReport[];
+  onReportClick?: (report: ItemReport) => void;
+  pin?: LatLng;
+  onPinDrop?: (point: LatLng) => void;
+  className?: string;
+}
+
+// --- PROJECTION ---
+// Local equirectangular projection around the campus centre, in meters, scaled to a 1000-unit wide plan
+const CAMPUS = CAMPUSES[0];
+const CAMPUS_BUILDINGS = BUILDINGS.filter(b => b.campusId === CAMPUS.id);
+const M_PER_LAT = 110540;
+const M_PER_LNG = 111320 * Math.cos((CAMPUS.center.lat * Math.PI) / 180);
+const MARGIN_M = 60;
+const BUILDING_W_M = 32;
+const BUILDING_H_M = 22;
+
+const toMeters = (p: LatLng) => ({
+  x: (p.lng - CAMPUS.center.lng) * M_PER_LNG,
+  y: (p.lat - CAMPUS.center.lat) * M_PER_LAT
+});
+
+const extent = CAMPUS_BUILDINGS.map(b => toMeters(b.coords));
+const MIN_X = Math.min(...extent.map(p => p.x)) - MARGIN_M;
+const MAX_X = Math.max(...extent.map(p => p.x)) + MARGIN_M;
+const MIN_Y = Math.min(...extent.map(p => p.y)) - MARGIN_M;
+const MAX_Y = Math.max(...extent.map(p => p.y)) + MARGIN_M;
+
+const WIDTH = 1000;
+const SCALE = WIDTH / (MAX_X - MIN_X); // Plan units per meter
+const HEIGHT = (MAX_Y - MIN_Y) * SCALE;
+
+const project = (p: LatLng) => {
+  const m = toMeters(p);
+  return { x: (m.x - MIN_X) * SCALE, y: (MAX_Y - m.y) * SCALE };
+};
+
+const unproject = (x: number, y: number): LatLng => ({
+  lat: CAMPUS.center.lat + (MAX_Y - y / SCALE) / M_PER_LAT,
+  lng: CAMPUS.center.lng + (x / SCALE + MIN_X) / M_PER_LNG
+});
+
+// --- CLUSTERING ---
+const MAX_ZOOM = 6;
+const CLUSTER_RADIUS_PX = 28; // In screen-ish units at zoom 1
+const COLORS = { [ReportType.LOST]: '#f97316', [ReportType.FOUND]: '#14b8a6' };
+
+interface Marker { report: ItemReport; x: number; y: number; }
+interface Cluster { x: number; y: number; markers: Marker[]; }
+
+// Reports placed at a building centre get a stable offset so they separate when zoomed in
+const jitter = (id: string) => {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  const angle = ((hash & 0xffff) / 0xffff) * Math.PI * 2;
+  const radius = (4 + ((hash >>> 16) % 9)) * SCALE;
+  return { dx: Math.cos(angle) * radius, dy: Math.sin(angle) * radius };
+};
+
+const clusterMarkers = (markers: Marker[], radius: number): Cluster[] => {
+  const clusters: Cluster[] = [];
+  for (const marker of markers) {
+    const home = clusters.find(c => Math.hypot(c.x - marker.x, c.y - marker.y) <= radius);
+    if (home) {
+      home.markers.push(marker);
+      home.x = home.markers.reduce((s, m) => s + m.x, 0) / home.markers.length;
+      home.y = home.markers.reduce((s, m) => s + m.y, 0) / home.markers.length;
+    } else {
+      clusters.push({ x: marker.x, y: marker.y, markers: [marker] });
+    }
+  }
+  return clusters;
+};
+
+const CampusMap: React.FC<CampusMapProps> = ({ reports = [], onReportClick, pin, onPinDrop, className = '' }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ x: number, y: number, cx: number, cy: number, moved: boolean } | null>(null);
+  const [view, setView] = useState({ zoom: 1, cx: WIDTH / 2, cy: HEIGHT / 2 });
+  const [openCluster, setOpenCluster] = useState<Cluster | null>(null);
+
+  const viewW = WIDTH / view.zoom;
+  const viewH = HEIGHT / view.zoom;
+  const clampCenter = (c: number, size: number, total: number) => Math.min(Math.max(c, size / 2), total - size / 2);
+  const viewX = clampCenter(view.cx, viewW, WIDTH) - viewW / 2;
+  const viewY = clampCenter(view.cy, viewH, HEIGHT) - viewH / 2;
+  const unit = 1 / view.zoom; // Keeps pins and labels the same size on screen
+
+  const markers = useMemo(() => {
+    return reports.flatMap(report => {
+      const position = getReportPosition(report);
+      if (!position) return [];
+      const p = project(position);
+      const offset = report.pin ? { dx: 0, dy: 0 } : jitter(report.id);
+      return [{ report, x: p.x + offset.dx, y: p.y + offset.dy }];
+    });
+  }, [reports]);
+
+  const clusters = useMemo(() => clusterMarkers(markers, CLUSTER_RADIUS_PX / view.zoom), [markers, view.zoom]);
+  const unplaced = reports.length - markers.length;
+
+  const zoomTo = (zoom: number, cx = view.cx, cy = view.cy) => {
+    const z = Math.min(Math.max(zoom, 1), MAX_ZOOM);
+    setView({ zoom: z, cx: clampCenter(cx, WIDTH / z, WIDTH), cy: clampCenter(cy, HEIGHT / z, HEIGHT) });
+  };
+
+  const toPlan = (clientX: number, clientY: number) => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return null;
+    const point = new DOMPoint(clientX, clientY).matrixTransform(ctm.inverse());
+    return { x: point.x, y: point.y };
+  };
+
+  // --- PAN / PIN DROP ---
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    dragRef.current = { x: e.clientX, y: e.clientY, cx: viewX + viewW / 2, cy: viewY + viewH / 2, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!drag || !rect) return;
+    const dx = e.clientX - drag.x;
+    const dy = e.clientY - drag.y;
+    if (!drag.moved && Math.hypot(dx, dy) < 4) return;
+    if (!drag.moved) svgRef.current?.setPointerCapture(e.pointerId);
+    drag.moved = true;
+    const perPx = viewW / rect.width;
+    setView(v => ({ ...v, cx: clampCenter(drag.cx - dx * perPx, viewW, WIDTH), cy: clampCenter(drag.cy - dy * perPx, viewH, HEIGHT) }));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved || !onPinDrop) return;
+    // Clicks on pins/clusters stop here; only the plan itself takes a pin
+    if ((e.target as Element).closest('[data-marker]')) return;
+    const p = toPlan(e.clientX, e.clientY);
+    if (p) onPinDrop(unproject(p.x, p.y));
+  };
+
+  const handleClusterClick = (cluster: Cluster) => {
+    if (cluster.markers.length === 1) {
+      onReportClick?.(cluster.markers[0].report);
+      return;
+    }
+    // Zoom in to split the cluster, or list it when it can't split any further
+    const spread = Math.max(...cluster.markers.map(m => Math.hypot(m.x - cluster.x, m.y - cluster.y)));
+    if (view.zoom < MAX_ZOOM && spread > 2 * unit) {
+      zoomTo(view.zoom * 2, cluster.x, cluster.y);
+    } else {
+      setOpenCluster(cluster);
+    }
+  };
+
+  const pinPoint = pin ? project(pin) : null;
+  const counts = {
+    lost: markers.filter(m => m.report.type === ReportType.LOST).length,
+    found: markers.filter(m => m.report.type === ReportType.FOUND).length
+  };
+
+  return (
+    <div className={`relative overflow-hidden rounded-[2rem] border border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-950 ${className}`}>
+      <svg
+        ref={svgRef}
+        viewBox={`${viewX} ${viewY} ${viewW} ${viewH}`}
+        className={`w-full h-full touch-none select-none ${onPinDrop ? 'cursor-crosshair' : 'cursor-grab active:cursor-grabbing'}`}
+        preserveAspectRatio="xMidYMid meet"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={() => { dragRef.current = null; }}
+      >
+        <rect x={0} y={0} width={WIDTH} height={HEIGHT} className="fill-slate-100 dark:fill-slate-900" />
+
+        {/* Walkways between adjacent buildings */}
+        {CAMPUS_BUILDINGS.flatMap(b => (b.adjacent || [])
+          .filter(id => id > b.id)
+          .map(id => {
+            const other = CAMPUS_BUILDINGS.find(o => o.id === id);
+            if (!other) return null;
+            const a = project(b.coords);
+            const c = project(other.coords);
+            return <line key={`${b.id}-${id}`} x1={a.x} y1={a.y} x2={c.x} y2={c.y} strokeWidth={4 * SCALE} strokeLinecap="round" className="stroke-slate-200 dark:stroke-slate-800" />;
+          })
+        )}
+
+        {/* Buildings */}
+        {CAMPUS_BUILDINGS.map(b => {
+          const p = project(b.coords);
+          const w = BUILDING_W_M * SCALE;
+          const h = BUILDING_H_M * SCALE;
+          return (
+            <g key={b.id}>
+              <rect x={p.x - w / 2} y={p.y - h / 2} width={w} height={h} rx={3 * SCALE} className="fill-white dark:fill-slate-800 stroke-slate-300 dark:stroke-slate-700" strokeWidth={unit} />
+              <text x={p.x} y={p.y + h / 2 + 12 * unit} textAnchor="middle" fontSize={10 * unit} fontWeight={700} className="fill-slate-400 dark:fill-slate-500 pointer-events-none">
+                {b.name}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Report pins */}
+        {clusters.map((cluster, i) => {
+          if (cluster.markers.length === 1) {
+            const { report, x, y } = cluster.markers[0];
+            return (
+              <g key={report.id} data-marker onClick={() => handleClusterClick(cluster)} className="cursor-pointer">
+                <title>{`${report.type}: ${report.title} (${report.location})`}</title>
+                <path
+                  d={`M ${x} ${y} l ${-7 * unit} ${-10 * unit} a ${8.6 * unit} ${8.6 * unit} 0 1 1 ${14 * unit} 0 z`}
+                  fill={COLORS[report.type]}
+                  className="stroke-white dark:stroke-slate-950"
+                  strokeWidth={1.5 * unit}
+                />
+                <circle cx={x} cy={y - 15 * unit} r={3 * unit} fill="white" />
+              </g>
+            );
+          }
+
+          const lost = cluster.markers.filter(m => m.report.type === ReportType.LOST).length;
+          const r = (14 + Math.min(cluster.markers.length, 20) * 0.4) * unit;
+          const circumference = 2 * Math.PI * r;
+          return (
+            <g key={`cluster-${i}`} data-marker onClick={() => handleClusterClick(cluster)} className="cursor-pointer">
+              <title>{`${cluster.markers.length} reports`}</title>
+              <circle cx={cluster.x} cy={cluster.y} r={r} className="fill-slate-900 dark:fill-white" />
+              {/* Ring split by type: orange share = lost, teal share = found */}
+              <circle cx={cluster.x} cy={cluster.y} r={r} fill="none" stroke={COLORS[ReportType.FOUND]} strokeWidth={4 * unit} />
+              <circle
+                cx={cluster.x} cy={cluster.y} r={r} fill="none"
+                stroke={COLORS[ReportType.LOST]} strokeWidth={4 * unit}
+                strokeDasharray={`${(lost / cluster.markers.length) * circumference} ${circumference}`}
+                transform={`rotate(-90 ${cluster.x} ${cluster.y})`}
+              />
+              <text x={cluster.x} y={cluster.y + 4 * unit} textAnchor="middle" fontSize={11 * unit} fontWeight={900} className="fill-white dark:fill-slate-900 pointer-events-none">
+                {cluster.markers.length}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Dropped pin (report form) */}
+        {pinPoint && (
+          <g className="pointer-events-none">
+            <circle cx={pinPoint.x} cy={pinPoint.y} r={10 * unit} fill="#6366f1" opacity={0.2} />
+            <circle cx={pinPoint.x} cy={pinPoint.y} r={4 * unit} fill="#6366f1" className="stroke-white" strokeWidth={1.5 * unit} />
+          </g>
+        )}
+      </svg>
+
+      {/* Legend */}
+      {!onPinDrop && (
+        <div className="absolute top-3 left-3 flex items-center gap-3 px-3 py-2 bg-white/90 dark:bg-slate-900/90 backdrop-blur rounded-xl border border-slate-200 dark:border-slate-800 text-[10px] font-bold uppercase tracking-wide text-slate-500">
+          <span className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-full" style={{ background: COLORS[ReportType.LOST] }} />Lost {counts.lost}</span>
+          <span className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-full" style={{ background: COLORS[ReportType.FOUND] }} />Found {counts.found}</span>
+        </div>
+      )}
+      {onPinDrop && (
+        <div className="absolute top-3 left-3 px-3 py-2 bg-white/90 dark:bg-slate-900/90 backdrop-blur rounded-xl border border-slate-200 dark:border-slate-800 text-[10px] font-bold text-slate-500 flex items-center gap-1.5">
+          <MapPin className="w-3 h-3 text-indigo-500" /> {pin ? 'Tap again to move the pin' : 'Tap where it happened'}
+        </div>
+      )}
+
+      {/* Zoom Controls */}
+      <div className="absolute top-3 right-3 flex flex-col gap-1">
+        {[
+          { icon: Plus, label: 'Zoom in', onClick: () => zoomTo(view.zoom * 1.5) },
+          { icon: Minus, label: 'Zoom out', onClick: () => zoomTo(view.zoom / 1.5) },
+          { icon: LocateFixed, label: 'Reset view', onClick: () => setView({ zoom: 1, cx: WIDTH / 2, cy: HEIGHT / 2 }) }
+        ].map(({ icon: Icon, label, onClick }) => (
+          <button key={label} type="button" onClick={onClick} title={label} className="p-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg text-slate-500 hover:text-indigo-600 shadow-sm">
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+      </div>
+
+      {unplaced > 0 && !onPinDrop && (
+        <p className="absolute bottom-3 right-3 px-2 py-1 bg-white/90 dark:bg-slate-900/90 rounded-lg text-[10px] font-bold text-slate-400">
+          {unplaced} not on the map (location not recognised)
+        </p>
+      )}
+
+      {/* Cluster List: spots too dense to split by zooming */}
+      {openCluster && (
+        <div className="absolute bottom-3 left-3 w-72 max-h-[60%] flex flex-col bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 shadow-xl overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-2.5 border-b border-slate-100 dark:border-slate-800">
+            <span className="text-xs font-black text-slate-700 dark:text-slate-200">{openCluster.markers.length} reports here</span>
+            <button type="button" onClick={() => setOpenCluster(null)} className="p-1 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-400">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <div className="overflow-y-auto custom-scrollbar">
+            {openCluster.markers.map(({ report }) => (
+              <button
+                key={report.id}
+                type="button"
+                onClick={() => { setOpenCluster(null); onReportClick?.(report); }}
+                className="w-full px-4 py-2.5 flex items-center gap-2 text-left hover:bg-slate-50 dark:hover:bg-slate-800"
+              >
+                <span className="w-2 h-2 rounded-full shrink-0" style={{ background: COLORS[report.type] }} />
+                <span className="text-sm font-bold text-slate-800 dark:text-slate-200 truncate flex-1">{report.title}</span>
+                <span className="text-[10px] text-slate-400 truncate max-w-[40%]">{report.location}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CampusMap;
@@ -1,9 +1,12 @@
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Chat, User, Message } from '../types';
-import { Send, Search, ArrowLeft, MessageCircle, Check, CheckCheck, Paperclip, File, ShieldBan, ShieldCheck, Lock, Globe, Users, Trash2, Home, X, Pin, ChevronDown, Clock, Image as ImageIcon } from 'lucide-react';
+import { Send, Search, ArrowLeft, MessageCircle, Check, CheckCheck, Paperclip, File, ShieldBan, ShieldCheck, Lock, Globe, Users, Trash2, Home, X, Pin, ChevronDown, Clock, Image as ImageIcon, Flag, EyeOff } from 'lucide-react';
 import { db, FieldValue } from '../services/firebase';
 import { uploadImage } from '../services/cloudinary';
+import { hasPermission } from '../services/permissions';
+import { AbuseTarget, chatTarget, isSuspended, messageTarget } from '../services/abuseFlags';
+import ReportAbuseDialog from './ReportAbuseDialog';
 
 interface ChatViewProps {
   user: User;
@@ -27,6 +30,7 @@ const ChatView: React.FC<ChatViewProps> = ({ user, onBack, onNotification, chats
   
   const [subcollectionMessages, setSubcollectionMessages] = useState<Message[]>([]);
   const [showScrollButton, setShowScrollButton] = useState(false);
+  const [abuseTarget, setAbuseTarget] = useState<AbuseTarget | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -34,11 +38,13 @@ const ChatView: React.FC<ChatViewProps> = ({ user, onBack, onNotification, chats
   
   const selectedChat = chats.find(c => c.id === activeChatId);
   const isGlobal = selectedChat?.type === 'global';
+  const canModerate = isGlobal && hasPermission(user, 'chat.moderate');
   
   // Logic to determine if blocked and by whom
   const isBlocked = selectedChat?.isBlocked || false;
   const iBlockedThem = selectedChat?.blockedBy === user.id;
   const theyBlockedMe = isBlocked && !iBlockedThem;
+  const suspended = isSuspended(user);
 
   const otherParticipantId = useMemo(() => {
      return selectedChat?.participants.find(p => p !== user.id);
@@ -84,6 +90,17 @@ const ChatView: React.FC<ChatViewProps> = ({ user, onBack, onNotification, chats
      return combined.sort((a, b) => a.timestamp - b.timestamp);
   }, [selectedChat?.messages, subcollectionMessages]);
 
+  // Moderators remove community chat messages (rules allow deletes in the global chat only)
+  const handleRemoveMessage = async (msg: Message) => {
+    if (!activeChatId || !canModerate || !msg.id) return;
+    if (!window.confirm(`Remove this message from ${msg.senderName || 'Student'}?`)) return;
+    try {
+      await db.collection('chats').doc(activeChatId).collection('messages').doc(msg.id).delete();
+    } catch (e) {
+      console.error("Failed to remove message:", e);
+    }
+  };
+
   // --- 3. ROBUST MARK AS READ LOGIC ---
   useEffect(() => {
     if (activeChatId && selectedChat) {
@@ -170,7 +187,7 @@ const ChatView: React.FC<ChatViewProps> = ({ user, onBack, onNotification, chats
 
   const handleSendMessage = async (e?: React.FormEvent, attachment?: Message['attachment']) => {
     if (e) e.preventDefault();
-    if ((!newMessage.trim() && !attachment) || !activeChatId || theyBlockedMe) return;
+    if ((!newMessage.trim() && !attachment) || !activeChatId || theyBlockedMe || suspended) return;
 
     const textToSend = newMessage;
     setNewMessage('');
@@ -258,6 +275,18 @@ const ChatView: React.FC<ChatViewProps> = ({ user, onBack, onNotification, chats
           </div>
       )}
 
+      {abuseTarget && (
+          <ReportAbuseDialog
+            target={abuseTarget}
+            user={user}
+            onClose={() => setAbuseTarget(null)}
+            onSubmitted={() => {
+              setAbuseTarget(null);
+              window.dispatchEvent(new CustomEvent('retriva-toast', { detail: { message: 'Thanks. A moderator will review your report.', type: 'success' } }));
+            }}
+          />
+      )}
+
       {/* --- SIDEBAR: CHAT LIST --- */}
       <div className={`w-full md:w-80 border-r border-slate-100 dark:border-slate-800 bg-white dark:bg-slate-900 flex flex-col ${activeChatId ? 'hidden md:flex' : 'flex'}`}>
         <div className="p-5 border-b border-slate-100 dark:border-slate-800 z-10">
@@ -413,6 +442,15 @@ const ChatView: React.FC<ChatViewProps> = ({ user, onBack, onNotification, chats
                <div className="flex gap-2">
                  {!isGlobal && (
                     <>
+                        {otherParticipantId && (
+                            <button
+                                onClick={() => setAbuseTarget(chatTarget(selectedChat, otherParticipantId, allMessages))}
+                                className="p-2 rounded-xl hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-400 hover:text-red-500 transition-colors"
+                                title="Report User"
+                            >
+                                <Flag className="w-5 h-5" />
+                            </button>
+                        )}
                         <button 
                             onClick={() => onBlockChat(selectedChat.id)} 
                             className={`p-2 rounded-xl transition-all ${
@@ -481,8 +519,15 @@ const ChatView: React.FC<ChatViewProps> = ({ user, onBack, onNotification, chats
                           <span className="text-[10px] font-bold text-slate-400 mb-1 ml-1">{msg.senderName || 'Student'}</span>
                         )}
 
+                        {/* Hidden by a moderator */}
+                        {msg.hidden && (
+                          <div className="px-4 py-2 text-xs font-medium italic text-slate-400 border border-dashed border-slate-200 dark:border-slate-700 rounded-2xl flex items-center gap-1.5">
+                            <EyeOff className="w-3 h-3" /> Message removed by a moderator
+                          </div>
+                        )}
+
                         {/* Attachment Bubble */}
-                        {msg.attachment && (
+                        {msg.attachment && !msg.hidden && (
                           <div className={`mb-1 rounded-2xl overflow-hidden border shadow-sm cursor-pointer transition-transform hover:scale-[1.02] ${
                               isMe ? 'rounded-br-sm' : 'rounded-bl-sm'
                           } ${isBlocked ? 'opacity-50 grayscale' : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700'}`} 
@@ -508,7 +553,7 @@ const ChatView: React.FC<ChatViewProps> = ({ user, onBack, onNotification, chats
                         )}
                         
                         {/* Text Bubble */}
-                        {msg.text && (
+                        {msg.text && !msg.hidden && (
                           <div className={`px-4 py-2 text-sm font-medium leading-relaxed shadow-sm relative break-words 
                             ${isMe 
                               ? `bg-brand-violet text-white rounded-2xl rounded-tr-sm ${isGroupEnd ? 'rounded-br-xl' : 'rounded-br-sm'}`
@@ -524,6 +569,18 @@ const ChatView: React.FC<ChatViewProps> = ({ user, onBack, onNotification, chats
                             <span className="text-[9px] font-bold text-slate-400 opacity-70">
                                 {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                             </span>
+
+                            {!isMe && !msg.hidden && msg.id && (
+                                <button onClick={() => setAbuseTarget(messageTarget(selectedChat, msg))} title="Report message" className="ml-1 text-slate-300 hover:text-red-500 transition-colors">
+                                    <Flag className="w-3 h-3" />
+                                </button>
+                            )}
+
+                            {canModerate && msg.id && (
+                                <button onClick={() => handleRemoveMessage(msg)} title="Remove message" className="ml-1 text-slate-300 hover:text-red-500 transition-colors">
+                                    <Trash2 className="w-3 h-3" />
+                                </button>
+                            )}
                             
                             {isMe && !isGlobal && (
                                 <span className="ml-0.5">
@@ -559,6 +616,10 @@ const ChatView: React.FC<ChatViewProps> = ({ user, onBack, onNotification, chats
               <div className="p-6 bg-slate-50 dark:bg-slate-950 border-t border-slate-200 dark:border-slate-800 text-center shrink-0">
                  <p className="text-xs font-bold text-slate-400">You cannot reply to this conversation.</p>
               </div>
+            ) : suspended ? (
+              <div className="p-6 bg-slate-50 dark:bg-slate-950 border-t border-slate-200 dark:border-slate-800 text-center shrink-0">
+                 <p className="text-xs font-bold text-slate-400">Your account is suspended until {new Date(user.suspendedUntil!).toLocaleString()}.</p>
+              </div>
             ) : (
               <div className="p-4 bg-white dark:bg-slate-900 border-t border-slate-100 dark:border-slate-800 shrink-0">
                   <form onSubmit={(e) => handleSendMessage(e)} className="flex items-end gap-3 max-w-4xl mx-auto">
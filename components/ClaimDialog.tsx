@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { Claim, ItemReport, User } from '../types';
+import { MAX_CLAIM_ATTEMPTS, submitClaim, subscribeToMyClaim } from '../services/claims';
+import { formatCustodyLocation, getCustodyOffice, isInCustody } from '../services/custody';
+import { X, ShieldQuestion, Loader2, CheckCircle2, Clock, XCircle, MessageCircle } from 'lucide-react';
+
+interface ClaimDialogProps {
+  report: ItemReport;
+  user: User;
+  onClose: () => void;
+  onVerified: (report: ItemReport) => void; // Continue to chat once ownership is verified
+}
+
+const ClaimDialog: React.FC<ClaimDialogProps> = ({ report, user, onClose, onVerified }) => {
+  const questions = report.verificationQuestions || [];
+  const [claim, setClaim] = useState<Claim | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    document.body.style.overflow = 'hidden';
+    return () => { document.body.style.overflow = ''; };
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToMyClaim(report.id, user.id, (c) => {
+      setClaim(c);
+      setLoading(false);
+    });
+    return () => unsubscribe();
+  }, [report.id, user.id]);
+
+  const attemptsLeft = MAX_CLAIM_ATTEMPTS - (claim?.attempts || 0);
+  const isVerified = claim?.status === 'VERIFIED' || !!report.verifiedClaimantIds?.includes(user.id);
+  const isPending = claim?.status === 'PENDING';
+  const canSubmit = !isVerified && attemptsLeft > 0 && questions.every(q => answers[q.id]?.trim());
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const trimmed = Object.fromEntries(questions.map(q => [q.id, answers[q.id].trim()]));
+      await submitClaim(report, user, trimmed);
+      setAnswers({});
+    } catch (err: any) {
+      console.error("Claim submission failed", err);
+      setError(err?.message || "Couldn't submit your claim. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderStatus = () => {
+    if (isVerified && isInCustody(report)) {
+      return (
+        <div className="p-4 rounded-2xl bg-emerald-50 dark:bg-emerald-900/20 border border-emerald-100 dark:border-emerald-900/40 flex items-start gap-3">
+          <CheckCircle2 className="w-5 h-5 text-emerald-500 shrink-0 mt-0.5" />
+          <div className="flex-1">
+            <p className="text-sm font-bold text-emerald-700 dark:text-emerald-300">Ownership verified</p>
+            <p className="text-xs text-emerald-600/80 dark:text-emerald-400/80 mt-0.5">
+              Collect it from {formatCustodyLocation(report.custody!)}. Bring your student ID; you'll sign for it at the desk.
+            </p>
+            {getCustodyOffice(report.custody!.officeId)?.hours && (
+              <p className="text-[10px] font-bold text-emerald-600/70 mt-1">{getCustodyOffice(report.custody!.officeId)!.hours}</p>
+            )}
+          </div>
+        </div>
+      );
+    }
+    if (isVerified) {
+      return (
+        <div className="p-4 rounded-2xl bg-emerald-50 dark:bg-emerald-900/20 border border-emerald-100 dark:border-emerald-900/40 flex items-start gap-3">
+          <CheckCircle2 className="w-5 h-5 text-emerald-500 shrink-0 mt-0.5" />
+          <div className="flex-1">
+            <p className="text-sm font-bold text-emerald-700 dark:text-emerald-300">Ownership verified</p>
+            <p className="text-xs text-emerald-600/80 dark:text-emerald-400/80 mt-0.5">You can now contact the finder to arrange the handover.</p>
+            <button
+              onClick={() => onVerified(report)}
+              className="mt-3 px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl text-xs font-bold flex items-center gap-2"
+            >
+              <MessageCircle className="w-4 h-4" /> Contact Finder
+            </button>
+          </div>
+        </div>
+      );
+    }
+    if (isPending) {
+      return (
+        <div className="p-4 rounded-2xl bg-amber-50 dark:bg-amber-900/20 border border-amber-100 dark:border-amber-900/40 flex items-start gap-3">
+          <Clock className="w-5 h-5 text-amber-500 shrink-0 mt-0.5" />
+          <div>
+            <p className="text-sm font-bold text-amber-700 dark:text-amber-300">Claim under review</p>
+            <p className="text-xs text-amber-600/80 dark:text-amber-400/80 mt-0.5">The finder will check your answers. You'll get a notification with the outcome.</p>
+          </div>
+        </div>
+      );
+    }
+    if (claim?.status === 'REJECTED') {
+      return (
+        <div className="p-4 rounded-2xl bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-900/40 flex items-start gap-3">
+          <XCircle className="w-5 h-5 text-red-500 shrink-0 mt-0.5" />
+          <div>
+            <p className="text-sm font-bold text-red-700 dark:text-red-300">Claim declined</p>
+            <p className="text-xs text-red-600/80 dark:text-red-400/80 mt-0.5">
+              {attemptsLeft > 0 ? `You can try again (${attemptsLeft} attempt${attemptsLeft === 1 ? '' : 's'} left).` : 'No attempts left for this item.'}
+            </p>
+          </div>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 sm:p-6 bg-slate-900/80 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-slate-950 w-full max-w-lg max-h-[85vh] rounded-[2rem] shadow-2xl border border-slate-200 dark:border-slate-800 flex flex-col overflow-hidden animate-in zoom-in-95 duration-300"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-5 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 rounded-xl bg-indigo-100 dark:bg-indigo-900/30 flex items-center justify-center text-indigo-600 dark:text-indigo-400 shrink-0">
+              <ShieldQuestion className="w-5 h-5" />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-lg font-black text-slate-900 dark:text-white leading-none mb-1">Verify Ownership</h2>
+              <p className="text-xs font-bold text-slate-500 truncate">{report.title}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-400 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          {loading ? (
+            <div className="py-10 flex justify-center"><Loader2 className="w-6 h-6 text-brand-violet animate-spin" /></div>
+          ) : (
+            <>
+              {renderStatus()}
+
+              {!isVerified && !isPending && attemptsLeft > 0 && (
+                <form id="claim-form" onSubmit={handleSubmit} className="space-y-4">
+                  <p className="text-xs text-slate-500 leading-relaxed">
+                    The finder kept some details private. Answer from memory to prove the item is yours; the finder's contact is unlocked once they verify your answers.
+                  </p>
+                  {questions.map((q, i) => (
+                    <div key={q.id} className="space-y-1.5">
+                      <label className="text-[11px] font-bold text-slate-500 uppercase ml-1 block">{i + 1}. {q.prompt}</label>
+                      <textarea
+                        value={answers[q.id] || ''}
+                        onChange={(e) => setAnswers(prev => ({ ...prev, [q.id]: e.target.value }))}
+                        rows={2}
+                        className="w-full p-3 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl text-sm font-medium resize-none outline-none focus:border-indigo-500"
+                      />
+                    </div>
+                  ))}
+                  {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+                </form>
+              )}
+            </>
+          )}
+        </div>
+
+        {!loading && !isVerified && !isPending && attemptsLeft > 0 && (
+          <div className="p-4 border-t border-slate-100 dark:border-slate-800">
+            <button
+              type="submit"
+              form="claim-form"
+              disabled={!canSubmit || isSubmitting}
+              className="w-full py-3.5 bg-brand-violet hover:bg-[#4f4dbd] text-white rounded-xl font-bold text-sm transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />} Submit Answers
+            </button>
+            <p className="text-[10px] text-slate-400 text-center mt-2">{attemptsLeft} attempt{attemptsLeft === 1 ? '' : 's'} remaining</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ClaimDialog;
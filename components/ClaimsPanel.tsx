@@ -0,0 +1,154 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Claim, ClaimAttempt, ItemReport, User } from '../types';
+import { evaluateClaim, reviewClaim, subscribeToClaimAttempts, subscribeToClaims } from '../services/claims';
+import { ShieldCheck, Loader2, Check, X, Bot, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface ClaimsPanelProps {
+  report: ItemReport;
+  currentUser: User;
+}
+
+const STATUS_STYLES: Record<Claim['status'], string> = {
+  PENDING: 'bg-amber-50 text-amber-600 dark:bg-amber-900/20 dark:text-amber-400',
+  VERIFIED: 'bg-emerald-50 text-emerald-600 dark:bg-emerald-900/20 dark:text-emerald-400',
+  REJECTED: 'bg-red-50 text-red-600 dark:bg-red-900/20 dark:text-red-400'
+};
+
+// Finder-side view of ownership claims. Scores new answers as soon as the finder opens the report;
+// the score is only a guide, the finder verifies or declines each claim.
+const ClaimsPanel: React.FC<ClaimsPanelProps> = ({ report, currentUser }) => {
+  const [claims, setClaims] = useState<Claim[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [attempts, setAttempts] = useState<ClaimAttempt[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const evaluating = useRef(new Set<string>());
+
+  useEffect(() => {
+    const unsubscribe = subscribeToClaims(report.id, setClaims);
+    return () => unsubscribe();
+  }, [report.id]);
+
+  // Answers and scores of every attempt of the expanded claim
+  useEffect(() => {
+    setAttempts([]);
+    if (!expandedId) return;
+    return subscribeToClaimAttempts(report.id, expandedId, setAttempts);
+  }, [report.id, expandedId]);
+
+  // Score every pending attempt that hasn't been scored yet
+  useEffect(() => {
+    claims
+      .filter(c => c.status === 'PENDING' && c.scoredAttempt !== c.attempts)
+      .forEach(c => {
+        const key = `${c.id}_${c.attempts}`;
+        if (evaluating.current.has(key)) return;
+        evaluating.current.add(key);
+        evaluateClaim(report, c).catch(e => {
+          console.error("Claim evaluation failed", e);
+          evaluating.current.delete(key);
+        });
+      });
+  }, [claims, report]);
+
+  const handleReview = async (claim: Claim, decision: 'VERIFIED' | 'REJECTED') => {
+    setBusyId(claim.id);
+    try {
+      await reviewClaim(report, claim, currentUser.id, decision);
+    } catch (e) {
+      console.error("Claim review failed", e);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (claims.length === 0) {
+    return (
+      <div className="p-4 rounded-2xl border border-dashed border-slate-200 dark:border-slate-800 text-center">
+        <ShieldCheck className="w-5 h-5 text-slate-300 mx-auto mb-1" />
+        <p className="text-xs font-bold text-slate-400">No ownership claims yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {claims.map(claim => {
+        const isScoring = claim.status === 'PENDING' && claim.scoredAttempt !== claim.attempts;
+        const isExpanded = expandedId === claim.id;
+        const latest = isExpanded ? attempts.find(a => a.attempt === claim.attempts) : undefined;
+        const earlier = isExpanded ? attempts.filter(a => a.attempt < claim.attempts) : [];
+
+        return (
+          <div key={claim.id} className="rounded-2xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 overflow-hidden">
+            <button
+              onClick={() => setExpandedId(isExpanded ? null : claim.id)}
+              className="w-full p-3 flex items-center gap-3 text-left hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors"
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-bold text-slate-800 dark:text-slate-200 truncate">{claim.claimantName}</p>
+                <p className="text-[10px] text-slate-400">Attempt {claim.attempts} · {new Date(claim.updatedAt).toLocaleString()}</p>
+              </div>
+              {isScoring ? (
+                <Loader2 className="w-4 h-4 text-brand-violet animate-spin" />
+              ) : claim.score !== undefined && (
+                <span className="text-xs font-black text-slate-700 dark:text-slate-300 flex items-center gap-1">
+                  {claim.method === 'AI' && <Bot className="w-3 h-3 text-brand-violet" />} {claim.score}%{claim.method === 'FALLBACK' && <span className="text-[9px] font-bold text-slate-400">keywords</span>}
+                </span>
+              )}
+              <span className={`px-2 py-0.5 rounded-md text-[9px] font-black uppercase tracking-wider ${STATUS_STYLES[claim.status]}`}>{claim.status}</span>
+              {isExpanded ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+            </button>
+
+            {isExpanded && (
+              <div className="px-3 pb-3 space-y-2 border-t border-slate-100 dark:border-slate-800 pt-3">
+                {(report.verificationQuestions || []).map(q => {
+                  const answerScore = latest?.answerScores?.find(s => s.questionId === q.id);
+                  return (
+                    <div key={q.id} className="p-2.5 rounded-xl bg-slate-50 dark:bg-slate-950">
+                      <p className="text-[10px] font-bold text-slate-400 uppercase">{q.prompt}</p>
+                      <p className="text-xs font-semibold text-slate-700 dark:text-slate-300 mt-0.5">{latest?.answers[q.id] || '—'}</p>
+                      {answerScore && (
+                        <p className="text-[10px] text-slate-400 mt-1">{answerScore.score}%{answerScore.note ? ` · ${answerScore.note}` : ''}</p>
+                      )}
+                    </div>
+                  );
+                })}
+
+                {earlier.length > 0 && (
+                  <p className="text-[10px] text-slate-400 px-1">
+                    Earlier attempts: {earlier.map(a => `#${a.attempt} ${a.score !== undefined ? `${a.score}%` : 'not scored'}`).join(' · ')}
+                  </p>
+                )}
+
+                {claim.status === 'PENDING' && !isScoring && (
+                  <p className="text-[10px] text-slate-400 px-1">The score is only a guide. Compare the answers with your notes before verifying.</p>
+                )}
+
+                {claim.status === 'PENDING' && !isScoring && (
+                  <div className="grid grid-cols-2 gap-2 pt-1">
+                    <button
+                      onClick={() => handleReview(claim, 'REJECTED')}
+                      disabled={busyId === claim.id}
+                      className="py-2 rounded-xl text-xs font-bold bg-red-50 text-red-600 dark:bg-red-900/20 dark:text-red-400 flex items-center justify-center gap-1 disabled:opacity-50"
+                    >
+                      <X className="w-3.5 h-3.5" /> Decline
+                    </button>
+                    <button
+                      onClick={() => handleReview(claim, 'VERIFIED')}
+                      disabled={busyId === claim.id}
+                      className="py-2 rounded-xl text-xs font-bold bg-emerald-600 text-white hover:bg-emerald-500 flex items-center justify-center gap-1 disabled:opacity-50"
+                    >
+                      <Check className="w-3.5 h-3.5" /> Verify Owner
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ClaimsPanel;
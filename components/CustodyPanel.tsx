@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { CustodyEvent, ItemReport, User } from '../types';
+import {
+  CUSTODY_OFFICES, canTakeIntoCustody, formatCustodyLocation, isInCustody, isStaff,
+  moveCustody, receiveIntoCustody, subscribeToCustodyEvents
+} from '../services/custody';
+import CustodyReleaseDialog from './CustodyReleaseDialog';
+import { ArrowRightLeft, PackageCheck, Loader2, PackagePlus } from 'lucide-react';
+
+interface CustodyPanelProps {
+  report: ItemReport;
+  currentUser: User;
+}
+
+const ACTION_LABELS: Record<CustodyEvent['action'], string> = {
+  RECEIVED: 'Received',
+  MOVED: 'Moved',
+  RELEASED: 'Released'
+};
+
+// Staff controls (take in, move, release) plus the chain of custody for staff and the reporter
+const CustodyPanel: React.FC<CustodyPanelProps> = ({ report, currentUser }) => {
+  const staff = isStaff(currentUser);
+  const canSeeLog = staff || report.reporterId === currentUser.id;
+  const [events, setEvents] = useState<CustodyEvent[]>([]);
+  const [mode, setMode] = useState<'IDLE' | 'RECEIVE' | 'MOVE'>('IDLE');
+  const [officeId, setOfficeId] = useState(report.custody?.officeId || CUSTODY_OFFICES[0].id);
+  const [binId, setBinId] = useState('');
+  const [note, setNote] = useState('');
+  const [showRelease, setShowRelease] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!canSeeLog || !report.custody) return;
+    const unsubscribe = subscribeToCustodyEvents(report.id, setEvents);
+    return () => unsubscribe();
+  }, [report.id, !!report.custody, canSeeLog]);
+
+  const openForm = (next: 'RECEIVE' | 'MOVE') => {
+    setOfficeId(report.custody?.officeId || CUSTODY_OFFICES[0].id);
+    setBinId(next === 'MOVE' ? report.custody?.binId || '' : '');
+    setNote('');
+    setError(null);
+    setMode(next);
+  };
+
+  const handleSave = async () => {
+    if (!binId.trim()) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (mode === 'RECEIVE') await receiveIntoCustody(report, currentUser, officeId, binId, note.trim() || undefined);
+      else await moveCustody(report, currentUser, officeId, binId, note.trim() || undefined);
+      setMode('IDLE');
+    } catch (e: any) {
+      console.error("Custody update failed", e);
+      setError(e?.message || "Couldn't update custody. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!(staff && canTakeIntoCustody(report)) && !(report.custody && canSeeLog)) return null;
+
+  const inputClass = "w-full p-2.5 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl text-xs font-medium outline-none focus:border-indigo-500";
+
+  return (
+    <div className="space-y-3">
+      {showRelease && <CustodyReleaseDialog report={report} staff={currentUser} onClose={() => setShowRelease(false)} />}
+
+      {/* Staff Actions */}
+      {staff && mode === 'IDLE' && (
+        <div className="flex flex-wrap gap-2">
+          {!report.custody && canTakeIntoCustody(report) && (
+            <button onClick={() => openForm('RECEIVE')} className="px-3 py-2 rounded-xl bg-indigo-50 dark:bg-indigo-900/20 text-indigo-600 dark:text-indigo-400 text-xs font-bold flex items-center gap-1.5">
+              <PackagePlus className="w-3.5 h-3.5" /> Take into Custody
+            </button>
+          )}
+          {isInCustody(report) && (
+            <>
+              <button onClick={() => openForm('MOVE')} className="px-3 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 text-xs font-bold flex items-center gap-1.5">
+                <ArrowRightLeft className="w-3.5 h-3.5" /> Move
+              </button>
+              <button onClick={() => setShowRelease(true)} className="px-3 py-2 rounded-xl bg-emerald-600 hover:bg-emerald-500 text-white text-xs font-bold flex items-center gap-1.5">
+                <PackageCheck className="w-3.5 h-3.5" /> Release to Owner
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Receive / Move Form */}
+      {staff && mode !== 'IDLE' && (
+        <div className="p-4 rounded-2xl border border-slate-200 dark:border-slate-800 space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            <select value={officeId} onChange={e => setOfficeId(e.target.value)} className={`${inputClass} col-span-2`}>
+              {CUSTODY_OFFICES.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+            </select>
+            <input value={binId} onChange={e => setBinId(e.target.value)} placeholder="Bin / shelf" className={inputClass} autoFocus />
+          </div>
+          <input value={note} onChange={e => setNote(e.target.value)} placeholder={mode === 'RECEIVE' ? 'Handed in by (optional)' : 'Reason (optional)'} className={inputClass} />
+          {error && <p className="text-[10px] font-bold text-red-500">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setMode('IDLE')} className="px-3 py-2 rounded-xl text-xs font-bold text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800">Cancel</button>
+            <button onClick={handleSave} disabled={!binId.trim() || isSaving} className="px-3 py-2 rounded-xl bg-indigo-600 text-white text-xs font-bold flex items-center gap-1.5 disabled:opacity-50">
+              {isSaving && <Loader2 className="w-3.5 h-3.5 animate-spin" />} {mode === 'RECEIVE' ? 'Register' : 'Save Move'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Chain of Custody */}
+      {canSeeLog && events.length > 0 && (
+        <ol className="relative border-l border-slate-200 dark:border-slate-800 ml-2 space-y-3">
+          {events.map(event => (
+            <li key={event.id} className="ml-4">
+              <span className="absolute -left-1.5 mt-1 w-3 h-3 rounded-full bg-white dark:bg-slate-950 border-2 border-indigo-400" />
+              <p className="text-xs font-bold text-slate-800 dark:text-slate-200">
+                {ACTION_LABELS[event.action]} · {formatCustodyLocation(event)}
+              </p>
+              <p className="text-[10px] text-slate-400">
+                {new Date(event.at).toLocaleString()} by {event.staffName}
+                {event.release && ` · to ${event.release.ownerName}${event.release.ownerStudentId ? ` (${event.release.ownerStudentId})` : ''}`}
+              </p>
+              {event.note && <p className="text-[10px] text-slate-500 italic">{event.note}</p>}
+              {event.release?.signature && staff && (
+                <img src={event.release.signature} alt={`Signature of ${event.release.ownerName}`} className="mt-1 h-10 bg-white rounded border border-slate-200" />
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default CustodyPanel;
@@ -0,0 +1,220 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ItemReport, User } from '../types';
+import { CustodyOwner, fetchVerifiedOwners, formatCustodyLocation, releaseFromCustody } from '../services/custody';
+import { requiresVerification } from '../services/claims';
+import { X, PackageCheck, Loader2, Eraser, UserCheck } from 'lucide-react';
+
+interface CustodyReleaseDialogProps {
+  report: ItemReport;
+  staff: User;
+  onClose: () => void;
+}
+
+const SIGNATURE_WIDTH = 480;
+const SIGNATURE_HEIGHT = 160;
+
+// Front-desk handover: pick the verified owner (or record them after an in-person ID check),
+// have them sign on screen and confirm, then release the item from custody.
+const CustodyReleaseDialog: React.FC<CustodyReleaseDialogProps> = ({ report, staff, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const [verifiedOwners, setVerifiedOwners] = useState<CustodyOwner[] | null>(null);
+  const [selectedOwnerId, setSelectedOwnerId] = useState<string>('');
+  const [manualName, setManualName] = useState('');
+  const [manualStudentId, setManualStudentId] = useState('');
+  const [checkedInPerson, setCheckedInPerson] = useState(false);
+  const [hasSignature, setHasSignature] = useState(false);
+  const [ownerConfirmed, setOwnerConfirmed] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    document.body.style.overflow = 'hidden';
+    return () => { document.body.style.overflow = ''; };
+  }, []);
+
+  useEffect(() => {
+    fetchVerifiedOwners(report)
+      .then(owners => {
+        setVerifiedOwners(owners);
+        if (owners.length === 1) setSelectedOwnerId(owners[0].id!);
+      })
+      .catch(e => {
+        console.error("Failed to load verified owners", e);
+        setVerifiedOwners([]);
+      });
+  }, [report.id, (report.verifiedClaimantIds || []).join(',')]);
+
+  const hasVerifiedOwners = (verifiedOwners?.length || 0) > 0;
+  const owner: CustodyOwner | null = hasVerifiedOwners
+      ? verifiedOwners!.find(o => o.id === selectedOwnerId) || null
+      : manualName.trim()
+          ? { name: manualName.trim(), ...(manualStudentId.trim() ? { studentId: manualStudentId.trim().toUpperCase() } : {}) }
+          : null;
+
+  // Items behind a verification challenge go to a verified claimant only
+  const blockedByVerification = verifiedOwners !== null && !hasVerifiedOwners && requiresVerification(report);
+  const canRelease = !!owner && hasSignature && ownerConfirmed && (hasVerifiedOwners || checkedInPerson) && !blockedByVerification;
+
+  // --- SIGNATURE PAD ---
+  const pointFor = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * SIGNATURE_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * SIGNATURE_HEIGHT
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const { x, y } = pointFor(e);
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = '#0f172a';
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const { x, y } = pointFor(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    setHasSignature(true);
+  };
+
+  const clearSignature = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+    setHasSignature(false);
+  };
+
+  const handleRelease = async () => {
+    if (!canRelease || !owner || !canvasRef.current) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await releaseFromCustody(report, staff, {
+        ...(owner.id ? { ownerId: owner.id } : {}),
+        ownerName: owner.name,
+        ...(owner.studentId ? { ownerStudentId: owner.studentId } : {}),
+        signature: canvasRef.current.toDataURL('image/png'),
+        confirmedAt: Date.now()
+      });
+      onClose();
+    } catch (e: any) {
+      console.error("Release failed", e);
+      setError(e?.message || "Couldn't release the item. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = "w-full p-3 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl text-sm font-medium outline-none focus:border-indigo-500";
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 sm:p-6 bg-slate-900/80 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-slate-950 w-full max-w-lg max-h-[90vh] rounded-[2rem] shadow-2xl border border-slate-200 dark:border-slate-800 flex flex-col overflow-hidden animate-in zoom-in-95 duration-300"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-5 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 rounded-xl bg-emerald-100 dark:bg-emerald-900/30 flex items-center justify-center text-emerald-600 dark:text-emerald-400 shrink-0">
+              <PackageCheck className="w-5 h-5" />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-lg font-black text-slate-900 dark:text-white leading-none mb-1">Release to Owner</h2>
+              <p className="text-xs font-bold text-slate-500 truncate">{report.title} · {report.custody && formatCustodyLocation(report.custody)}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-400 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          {/* 1. Owner */}
+          <div className="space-y-2">
+            <h3 className="text-[11px] font-bold text-slate-500 uppercase ml-1">1. Owner</h3>
+            {verifiedOwners === null ? (
+              <div className="py-4 flex justify-center"><Loader2 className="w-5 h-5 text-brand-violet animate-spin" /></div>
+            ) : hasVerifiedOwners ? (
+              verifiedOwners.map(o => (
+                <label key={o.id} className={`flex items-center gap-3 p-3 rounded-xl border cursor-pointer ${selectedOwnerId === o.id ? 'border-emerald-400 bg-emerald-50 dark:bg-emerald-900/20' : 'border-slate-200 dark:border-slate-800'}`}>
+                  <input type="radio" name="owner" checked={selectedOwnerId === o.id} onChange={() => setSelectedOwnerId(o.id!)} className="accent-emerald-600" />
+                  <UserCheck className="w-4 h-4 text-emerald-500" />
+                  <span className="text-sm font-bold text-slate-800 dark:text-slate-200 flex-1">{o.name}</span>
+                  {o.studentId && <span className="text-[10px] font-bold text-slate-400">{o.studentId}</span>}
+                </label>
+              ))
+            ) : blockedByVerification ? (
+              <p className="p-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 text-xs font-bold text-amber-700 dark:text-amber-300">
+                This item has verification questions. The owner has to verify ownership in the app before it can be released.
+              </p>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  <input value={manualName} onChange={e => setManualName(e.target.value)} placeholder="Owner's full name" className={inputClass} />
+                  <input value={manualStudentId} onChange={e => setManualStudentId(e.target.value)} placeholder="Student / staff ID" className={inputClass} />
+                </div>
+                <label className="flex items-start gap-2 text-xs text-slate-500 ml-1">
+                  <input type="checkbox" checked={checkedInPerson} onChange={e => setCheckedInPerson(e.target.checked)} className="mt-0.5 accent-emerald-600" />
+                  I checked their ID and they described the item correctly.
+                </label>
+              </>
+            )}
+          </div>
+
+          {/* 2. Signature */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-[11px] font-bold text-slate-500 uppercase ml-1">2. Owner's Signature</h3>
+              <button type="button" onClick={clearSignature} className="text-[10px] font-bold text-slate-400 hover:text-red-500 flex items-center gap-1">
+                <Eraser className="w-3 h-3" /> Clear
+              </button>
+            </div>
+            <canvas
+              ref={canvasRef}
+              width={SIGNATURE_WIDTH}
+              height={SIGNATURE_HEIGHT}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={() => { drawing.current = false; }}
+              onPointerLeave={() => { drawing.current = false; }}
+              className="w-full aspect-[3/1] bg-white rounded-xl border-2 border-dashed border-slate-300 dark:border-slate-700 touch-none cursor-crosshair"
+            />
+          </div>
+
+          {/* 3. Confirmation */}
+          <label className="flex items-start gap-2 p-3 rounded-xl bg-slate-50 dark:bg-slate-900 text-xs font-medium text-slate-600 dark:text-slate-300">
+            <input type="checkbox" checked={ownerConfirmed} onChange={e => setOwnerConfirmed(e.target.checked)} className="mt-0.5 accent-emerald-600" />
+            <span>{owner ? owner.name : 'The owner'} confirms they have received "{report.title}" and that it belongs to them.</span>
+          </label>
+
+          {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t border-slate-100 dark:border-slate-800">
+          <button
+            onClick={handleRelease}
+            disabled={!canRelease || isSubmitting}
+            className="w-full py-3.5 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl font-bold text-sm transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <PackageCheck className="w-4 h-4" />} Release Item
+          </button>
+          <p className="text-[10px] text-slate-400 text-center mt-2">Released by {staff.name}. The report will be marked resolved.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustodyReleaseDialog;
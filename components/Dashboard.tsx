@@ -1,16 +1,26 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { ItemReport, ReportType, User, ViewState } from '../types';
-import { Search, MapPin, SearchX, Box, Sparkles, ArrowRight, ScanLine, Loader2, RefreshCw, History, CheckCircle2, AlertCircle, Scan, Zap, Layers, Network, Wrench, ShieldCheck, Cpu, ChevronRight, Fingerprint, Radar, ChevronLeft, Target, User as UserIcon, WifiOff, HelpCircle, X, Check, Activity, Clock, Plus } from 'lucide-react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { ItemCategory, ItemReport, ReportStatus, ReportType, User, ViewState, Watch } from '../types';
+import { Search, MapPin, SearchX, Box, Sparkles, ArrowRight, ScanLine, Loader2, RefreshCw, History, CheckCircle2, AlertCircle, Scan, Zap, Layers, Network, Wrench, ShieldCheck, Cpu, ChevronRight, Fingerprint, Radar, ChevronLeft, Target, User as UserIcon, WifiOff, HelpCircle, X, Check, Activity, Clock, Plus, LayoutGrid, Map as MapIcon, SlidersHorizontal, Share2, Tag, Image as ImageIcon, ArrowUpDown, BellPlus, BellRing, Camera } from 'lucide-react';
 import ReportDetails from './ReportDetails';
+import CampusMap from './CampusMap';
+import PhotoSearchDialog from './PhotoSearchDialog';
+import { formatReportDate } from '../services/reportTime';
 import { parseSearchQuery, findSmartMatches, getMatchTier } from '../services/geminiService';
+import { BUILDINGS } from '../services/campusLocations';
+import { ACTIVE_STATUSES, ARCHIVED_STATUSES, MATCHABLE_STATUSES, STATUS_LABELS, getStatus, isActive } from '../services/reportLifecycle';
+import { ReportFeed, ReportFeedState, fetchMatchCandidates, subscribeToReportFeed, subscribeToReports } from '../services/reportQueries';
+import { createWatch, subscribeToWatches } from '../services/watches';
+import { watchQuery } from '../services/watchPolicy';
+import { AGE_OPTIONS, FeedFilters, FeedSort, MAX_TAGS, SORT_LABELS, applySearchQuery, countActiveFacets, filterChips, matchesSearch, reportBuildingIds, filtersFromQuery, filtersToQuery, matchesFacets, needsLostReport, normalizeTag, popularTags, sortReports } from '../services/reportFacets';
 
 interface DashboardProps {
   user: User;
-  reports: ItemReport[];
   onNavigate: (view: ViewState) => void;
-  onResolve: (id: string) => void;
+  onStatusChange: (report: ItemReport, status: ReportStatus) => void;
+  onRenew: (report: ItemReport) => void;
+  onResolve: (report: ItemReport, match: ItemReport) => Promise<void>;
   onEditReport: (report: ItemReport) => void;
-  onDeleteReport: (id: string) => void;
+  onDeleteReport: (report: ItemReport) => void;
   onCompare: (item1: ItemReport, item2: ItemReport) => void;
   onChatStart: (report: ItemReport) => void;
 }
@@ -20,10 +30,20 @@ interface ReportCardProps {
   onClick: () => void;
 }
 
+const STATUS_BADGES: Record<ReportStatus, string> = {
+  OPEN: '',
+  CLAIM_PENDING: 'bg-indigo-500/90',
+  IN_CUSTODY: 'bg-sky-500/90',
+  RETURNED: 'bg-emerald-500/90',
+  EXPIRED: 'bg-slate-500/90',
+  WITHDRAWN: 'bg-slate-500/90'
+};
+
 const ReportCard: React.FC<ReportCardProps> = ({ report, onClick }) => {
   const [imgError, setImgError] = useState(false);
   const isLost = report.type === ReportType.LOST;
-  const isResolved = report.status === 'RESOLVED';
+  const status = getStatus(report);
+  const isResolved = !isActive(report);
 
   return (
     <div 
@@ -40,9 +60,14 @@ const ReportCard: React.FC<ReportCardProps> = ({ report, onClick }) => {
           <span className={`px-3 py-1 rounded-full text-[10px] font-extrabold uppercase tracking-wide shadow-lg text-white backdrop-blur-md border border-white/10 ${isLost ? 'bg-orange-500/90' : 'bg-teal-500/90'}`}>
             {isLost ? 'Lost' : 'Found'}
           </span>
-          {isResolved && (
-            <span className="px-3 py-1 rounded-full text-[10px] font-extrabold uppercase tracking-wide shadow-lg text-white backdrop-blur-md bg-emerald-500/90 border border-white/10 flex items-center gap-1">
-              <CheckCircle2 className="w-3 h-3" /> Resolved
+          {status !== 'OPEN' && (
+            <span className={`px-3 py-1 rounded-full text-[10px] font-extrabold uppercase tracking-wide shadow-lg text-white backdrop-blur-md border border-white/10 flex items-center gap-1 ${STATUS_BADGES[status]}`}>
+              {status === 'RETURNED' && <CheckCircle2 className="w-3 h-3" />} {STATUS_LABELS[status]}
+            </span>
+          )}
+          {report.moderation && report.moderation.status !== 'APPROVED' && (
+            <span className={`px-3 py-1 rounded-full text-[10px] font-extrabold uppercase tracking-wide shadow-lg text-white backdrop-blur-md border border-white/10 ${report.moderation.status === 'REJECTED' ? 'bg-red-500/90' : 'bg-amber-500/90'}`}>
+              {report.moderation.status === 'REJECTED' ? 'Not Approved' : 'In Review'}
             </span>
           )}
        </div>
@@ -65,7 +90,7 @@ const ReportCard: React.FC<ReportCardProps> = ({ report, onClick }) => {
              <span className="px-2 py-1 rounded-md bg-slate-100 dark:bg-slate-800 text-[9px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest border border-slate-200 dark:border-slate-700">
                 {report.category}
              </span>
-             <span className="text-[10px] font-semibold text-slate-400">{report.date}</span>
+             <span className="text-[10px] font-semibold text-slate-400">{formatReportDate(report)}</span>
           </div>
 
           <h3 className={`font-black text-lg text-slate-800 dark:text-white leading-tight line-clamp-2 ${
@@ -76,7 +101,7 @@ const ReportCard: React.FC<ReportCardProps> = ({ report, onClick }) => {
           
           <div className="flex items-center gap-2 text-xs font-semibold text-slate-500 dark:text-slate-400 mt-auto pt-2">
              <MapPin className="w-3.5 h-3.5 shrink-0 text-slate-400" />
-             <span className="truncate">{report.location}</span>
+             <span className="truncate">{report.location}{report.route?.length ? ` +${report.route.length} more` : ''}</span>
           </div>
       </div>
 
@@ -97,8 +122,7 @@ const ReportCard: React.FC<ReportCardProps> = ({ report, onClick }) => {
 };
 
 // --- AI DISCOVERY HUB (SPATIAL CANVAS REDESIGN) ---
-const AIDiscoveryHub = ({ user, reports, onCompare, onNavigate }: { user: User, reports: ItemReport[], onCompare: any, onNavigate: (view: ViewState) => void }) => {
-  const myOpenLostReports = useMemo(() => reports.filter(r => r.reporterId === user.id && r.status === 'OPEN' && r.type === ReportType.LOST), [reports, user.id]);
+const AIDiscoveryHub = ({ myOpenLostReports, onCompare, onNavigate }: { myOpenLostReports: ItemReport[], onCompare: any, onNavigate: (view: ViewState) => void }) => {
   const [selectedItem, setSelectedItem] = useState<ItemReport | null>(null);
   
   // States: idle, scanning, complete
@@ -121,7 +145,7 @@ const AIDiscoveryHub = ({ user, reports, onCompare, onNavigate }: { user: User,
     if (!selectedItem) return;
     setScanState('scanning');
     try {
-        const results = await findSmartMatches(selectedItem, reports);
+        const results = await findSmartMatches(selectedItem, await fetchMatchCandidates(selectedItem));
         setMatches(results);
     } catch (e) {
         console.error("Discovery Scan Error:", e);
@@ -220,7 +244,7 @@ const AIDiscoveryHub = ({ user, reports, onCompare, onNavigate }: { user: User,
                                     <p className="text-[9px] text-purple-400 font-bold uppercase tracking-widest mb-1 flex items-center justify-center gap-1.5">
                                     <Clock className="w-3 h-3" /> Date Lost
                                     </p>
-                                    <p className="text-sm font-bold text-white group-hover:text-purple-200 transition-colors">{selectedItem.date}</p>
+                                    <p className="text-sm font-bold text-white group-hover:text-purple-200 transition-colors">{formatReportDate(selectedItem)}</p>
                                 </div>
                             </div>
 
@@ -387,50 +411,149 @@ const AIDiscoveryHub = ({ user, reports, onCompare, onNavigate }: { user: User,
   );
 };
 
-const Dashboard: React.FC<DashboardProps> = ({ user, reports, onNavigate, onResolve, onEditReport, onDeleteReport, onCompare, onChatStart }) => {
-  const [activeTab, setActiveTab] = useState<ReportType>(ReportType.LOST);
-  const [viewStatus, setViewStatus] = useState<'OPEN' | 'RESOLVED'>('OPEN');
-  const [showMyReports, setShowMyReports] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
+const Dashboard: React.FC<DashboardProps> = ({ user, onNavigate, onStatusChange, onRenew, onResolve, onEditReport, onDeleteReport, onCompare, onChatStart }) => {
+  // Feed filters live in the URL so a filtered view can be shared (services/reportFacets.ts)
+  const [filters, setFilters] = useState<FeedFilters>(() => filtersFromQuery(window.location.search));
+  const [showFacets, setShowFacets] = useState(() => countActiveFacets(filters) > 0);
+  const [tagInput, setTagInput] = useState('');
   const [isProcessingSearch, setIsProcessingSearch] = useState(false);
   const [selectedReport, setSelectedReport] = useState<ItemReport | null>(null);
+  const [myOpenLostReports, setMyOpenLostReports] = useState<ItemReport[]>([]);
+  const [watches, setWatches] = useState<Watch[]>([]);
+  const [isSavingWatch, setIsSavingWatch] = useState(false);
+  const [showPhotoSearch, setShowPhotoSearch] = useState(false);
+  const [feed, setFeed] = useState<ReportFeedState>({ reports: [], hasMore: true, isLoading: true });
+  const [atFeedEnd, setAtFeedEnd] = useState(false);
+  const feedRef = useRef<ReportFeed | null>(null);
+  const feedEndRef = useRef<HTMLDivElement>(null);
+  const { type: activeTab, status: viewStatus, mine: showMyReports, view: viewMode, q: searchQuery, building: buildingFilter, nearby: includeNearby } = filters;
+
+  const updateFilters = (patch: Partial<FeedFilters>) => setFilters(prev => ({ ...prev, ...patch }));
 
-  const filteredReports = useMemo(() => {
-    let result = reports.filter(r => r.type === activeTab && r.status === viewStatus);
-    
-    if (showMyReports) {
-        result = result.filter(r => r.reporterId === user.id);
-    }
+  useEffect(() => {
+    const query = filtersToQuery(filters);
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+  }, [filters]);
 
-    if (searchQuery) {
-      const q = searchQuery.toLowerCase();
-      result = result.filter(r => r.title.toLowerCase().includes(q) || r.location.toLowerCase().includes(q));
-    }
-    return result.sort((a, b) => b.createdAt - a.createdAt);
-  }, [reports, activeTab, viewStatus, searchQuery, showMyReports, user.id]);
+  // Other screens don't read the query string: leave a clean URL behind
+  useEffect(() => () => {
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}${window.location.hash}`);
+  }, []);
+
+  useEffect(() => {
+    return subscribeToReports({ reporterId: user.id, includeUnlisted: true, type: ReportType.LOST, statuses: MATCHABLE_STATUSES }, setMyOpenLostReports);
+  }, [user.id]);
+
+  useEffect(() => subscribeToWatches(user.id, setWatches), [user.id]);
+
+  const isWatched = watches.some(w => w.query === watchQuery(filters));
+
+  // Reference for the "my loss" sorts; a shared link may name someone else's report
+  const lostReport = needsLostReport(filters.sort)
+    ? myOpenLostReports.find(r => r.id === filters.lostReportId) || myOpenLostReports[0] || null
+    : null;
+
+  // Type, status, category, "mine", report age and direction are filtered in Firestore; changing one starts a new feed
+  useEffect(() => {
+    setFeed({ reports: [], hasMore: true, isLoading: true });
+    const reportFeed = subscribeToReportFeed({
+      // The map shows LOST and FOUND together, colored by type
+      ...(viewMode === 'MAP' ? {} : { type: activeTab }),
+      statuses: viewStatus === 'ACTIVE' ? ACTIVE_STATUSES : ARCHIVED_STATUSES,
+      ...(filters.category ? { category: filters.category } : {}),
+      // Your own reports include those waiting for review; everyone else's feed only has listed ones
+      ...(showMyReports ? { reporterId: user.id, includeUnlisted: true } : {}),
+      ...(filters.maxAgeDays ? { createdAfter: Date.now() - filters.maxAgeDays * 24 * 60 * 60 * 1000 } : {}),
+      ...(filters.sort === 'OLDEST' ? { oldestFirst: true } : {})
+    }, setFeed);
+    feedRef.current = reportFeed;
+    return () => reportFeed.unsubscribe();
+  }, [viewMode, activeTab, viewStatus, filters.category, showMyReports, filters.maxAgeDays, filters.sort === 'OLDEST', user.id]);
+
+  // Infinite scroll: keep loading while the end of the grid is on screen
+  useEffect(() => {
+    const el = feedEndRef.current;
+    if (!el) return;
+    const observer = new IntersectionObserver(([entry]) => setAtFeedEnd(entry.isIntersecting), { rootMargin: '400px' });
+    observer.observe(el);
+    return () => {
+      observer.disconnect();
+      setAtFeedEnd(false);
+    };
+  }, [viewMode]);
+
+  useEffect(() => {
+    if (atFeedEnd && feed.hasMore && !feed.isLoading) feedRef.current?.loadMore();
+  }, [atFeedEnd, feed.hasMore, feed.isLoading]);
+
+  const reports = feed.reports;
+
+  // Buildings of every report, resolved once per page load rather than on every keystroke
+  const reportBuildings = useMemo(() => new Map(reports.map(r => [r.id, reportBuildingIds(r)])), [reports]);
+
+  const tagOptions = useMemo(() => popularTags(reports).filter(t => !filters.tags.includes(t)), [reports, filters.tags]);
+
+  const filteredReports = useMemo(() => {
+    const result = reports.filter(r => matchesFacets(r, filters) && matchesSearch(r, filters, report => reportBuildings.get(report.id) || []));
+    return sortReports(result, filters.sort, lostReport);
+  }, [reports, reportBuildings, filters, lostReport]);
 
   const handleSmartSearch = async () => {
     if (!searchQuery.trim()) return;
     setIsProcessingSearch(true);
     try {
-      const { userStatus, refinedQuery } = await parseSearchQuery(searchQuery);
-      if (userStatus === 'LOST') setActiveTab(ReportType.FOUND);
-      else if (userStatus === 'FOUND') setActiveTab(ReportType.LOST);
-      setSearchQuery(refinedQuery);
+      const query = await parseSearchQuery(searchQuery);
+      setFilters(prev => applySearchQuery(prev, query));
     } finally {
       setIsProcessingSearch(false);
     }
   };
 
+  const addTag = (tag: string) => {
+    const t = normalizeTag(tag);
+    if (t && !filters.tags.includes(t) && filters.tags.length < MAX_TAGS) updateFilters({ tags: [...filters.tags, t] });
+    setTagInput('');
+  };
+
+  const handleSortChange = (sort: FeedSort) => {
+    // Ranking against my loss is about found items
+    updateFilters({ sort, ...(needsLostReport(sort) && viewMode === 'GRID' ? { type: ReportType.FOUND } : {}) });
+  };
+
+  const handleShareView = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      window.dispatchEvent(new CustomEvent('retriva-toast', { detail: { message: 'Link to this view copied.', type: 'success' } }));
+    } catch (e) {
+      console.error("Failed to copy link", e);
+      window.dispatchEvent(new CustomEvent('retriva-toast', { detail: { message: "Couldn't copy the link. Copy it from the address bar.", type: 'alert' } }));
+    }
+  };
+
+  const handleWatchSearch = async () => {
+    setIsSavingWatch(true);
+    try {
+      const watch = await createWatch(user, filters, watches);
+      window.dispatchEvent(new CustomEvent('retriva-toast', { detail: { message: `Watching "${watch.name}". We'll notify you about new reports. Manage watches in your profile.`, type: 'success' } }));
+    } catch (e: any) {
+      console.error("Failed to save watch", e);
+      window.dispatchEvent(new CustomEvent('retriva-toast', { detail: { message: e?.message || "Couldn't save this search.", type: 'alert' } }));
+    } finally {
+      setIsSavingWatch(false);
+    }
+  };
+
   return (
     <div className="max-w-7xl mx-auto space-y-8 pb-20">
       {selectedReport && (
         <ReportDetails 
-          report={selectedReport} allReports={reports} currentUser={user} 
+          report={selectedReport} currentUser={user} 
           onClose={() => setSelectedReport(null)}
-          onResolve={(id) => { onResolve(id); setSelectedReport(null); }}
+          onStatusChange={(r, status) => { onStatusChange(r, status); setSelectedReport(null); }}
+          onRenew={(r) => { onRenew(r); setSelectedReport(null); }}
+          onResolve={async (r, match) => { await onResolve(r, match); setSelectedReport(null); }}
           onEdit={(r) => { onEditReport(r); setSelectedReport(null); }}
-          onDelete={(id) => { onDeleteReport(id); setSelectedReport(null); }}
+          onDelete={(r) => { onDeleteReport(r); setSelectedReport(null); }}
           onNavigateToChat={(report) => { onChatStart(report); setSelectedReport(null); }}
           onViewMatch={(r) => setSelectedReport(r)} 
           onCompare={(item1, item2) => {
@@ -439,6 +562,13 @@ const Dashboard: React.FC<DashboardProps> = ({ user, reports, onNavigate, onReso
         />
       )}
 
+      {/* Kept mounted behind an opened report, so its results are still there on the way back */}
+      {showPhotoSearch && (
+        <div className={selectedReport ? 'hidden' : ''}>
+          <PhotoSearchDialog user={user} onSelect={setSelectedReport} onClose={() => setShowPhotoSearch(false)} />
+        </div>
+      )}
+
       {/* Hero Section */}
       <section className="relative w-full">
           <div className="relative rounded-[2.5rem] bg-gradient-to-br from-[#1e1b4b] via-[#0f172a] to-[#020617] overflow-hidden p-8 md:p-12 flex flex-col lg:flex-row items-center justify-between gap-10 shadow-2xl border border-white/5">
@@ -532,7 +662,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, reports, onNavigate, onReso
       </section>
 
       {/* AI DISCOVERY HUB - Always Visible with Empty State logic */}
-      <AIDiscoveryHub user={user} reports={reports} onCompare={onCompare} onNavigate={onNavigate} />
+      <AIDiscoveryHub myOpenLostReports={myOpenLostReports} onCompare={onCompare} onNavigate={onNavigate} />
 
       {/* Main Content Feed */}
       <section className="space-y-8">
@@ -541,14 +671,14 @@ const Dashboard: React.FC<DashboardProps> = ({ user, reports, onNavigate, onReso
             
             <div className="flex items-center gap-2 w-full md:w-auto">
                 {/* Segmented Control */}
-                <div className="flex p-1.5 bg-slate-100/80 dark:bg-slate-800 rounded-2xl shrink-0 shadow-inner">
-                   <button onClick={() => setActiveTab(ReportType.LOST)} className={`px-5 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest transition-all duration-300 ${activeTab === ReportType.LOST ? 'bg-white dark:bg-slate-700 text-orange-600 shadow-lg shadow-slate-200/50 dark:shadow-none scale-105' : 'text-slate-500 hover:text-slate-600 dark:hover:text-slate-300'}`}>Lost</button>
-                   <button onClick={() => setActiveTab(ReportType.FOUND)} className={`px-5 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest transition-all duration-300 ${activeTab === ReportType.FOUND ? 'bg-white dark:bg-slate-700 text-teal-600 shadow-lg shadow-slate-200/50 dark:shadow-none scale-105' : 'text-slate-500 hover:text-slate-600 dark:hover:text-slate-300'}`}>Found</button>
+                <div className={`flex p-1.5 ${viewMode === 'MAP' ? 'hidden' : ''} bg-slate-100/80 dark:bg-slate-800 rounded-2xl shrink-0 shadow-inner`}>
+                   <button onClick={() => updateFilters({ type: ReportType.LOST })} className={`px-5 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest transition-all duration-300 ${activeTab === ReportType.LOST ? 'bg-white dark:bg-slate-700 text-orange-600 shadow-lg shadow-slate-200/50 dark:shadow-none scale-105' : 'text-slate-500 hover:text-slate-600 dark:hover:text-slate-300'}`}>Lost</button>
+                   <button onClick={() => updateFilters({ type: ReportType.FOUND })} className={`px-5 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest transition-all duration-300 ${activeTab === ReportType.FOUND ? 'bg-white dark:bg-slate-700 text-teal-600 shadow-lg shadow-slate-200/50 dark:shadow-none scale-105' : 'text-slate-500 hover:text-slate-600 dark:hover:text-slate-300'}`}>Found</button>
                 </div>
                 
                 {/* Toggles */}
                 <button 
-                  onClick={() => setShowMyReports(!showMyReports)}
+                  onClick={() => updateFilters({ mine: !showMyReports })}
                   className={`p-3 rounded-2xl border transition-all duration-300 ${showMyReports 
                     ? 'bg-indigo-50 dark:bg-slate-800 border-indigo-200 dark:border-slate-700 text-indigo-600 shadow-md shadow-indigo-500/10' 
                     : 'bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-800 text-slate-400 hover:text-slate-600 hover:bg-slate-50 shadow-sm'
@@ -559,15 +689,26 @@ const Dashboard: React.FC<DashboardProps> = ({ user, reports, onNavigate, onReso
                 </button>
 
                 <button 
-                  onClick={() => setViewStatus(prev => prev === 'OPEN' ? 'RESOLVED' : 'OPEN')}
-                  className={`p-3 rounded-2xl border transition-all duration-300 ${viewStatus === 'RESOLVED' 
+                  onClick={() => updateFilters({ status: viewStatus === 'ACTIVE' ? 'ARCHIVE' : 'ACTIVE' })}
+                  className={`p-3 rounded-2xl border transition-all duration-300 ${viewStatus === 'ARCHIVE' 
                     ? 'bg-purple-50 dark:bg-slate-800 border-purple-200 dark:border-slate-700 text-purple-600 shadow-md shadow-purple-500/10' 
                     : 'bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-800 text-slate-400 hover:text-slate-600 hover:bg-slate-50 shadow-sm'
                   }`}
-                  title={viewStatus === 'OPEN' ? "Show Resolved History" : "Show Active Reports"}
+                  title={viewStatus === 'ACTIVE' ? "Show Archive (returned, expired, withdrawn)" : "Show Active Reports"}
                 >
                    <History className="w-5 h-5" />
                 </button>
+
+                <button 
+                  onClick={() => updateFilters({ view: viewMode === 'GRID' ? 'MAP' : 'GRID' })}
+                  className={`p-3 rounded-2xl border transition-all duration-300 ${viewMode === 'MAP' 
+                    ? 'bg-emerald-50 dark:bg-slate-800 border-emerald-200 dark:border-slate-700 text-emerald-600 shadow-md shadow-emerald-500/10' 
+                    : 'bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-800 text-slate-400 hover:text-slate-600 hover:bg-slate-50 shadow-sm'
+                  }`}
+                  title={viewMode === 'GRID' ? "Show Campus Map" : "Show Card Grid"}
+                >
+                   {viewMode === 'GRID' ? <MapIcon className="w-5 h-5" /> : <LayoutGrid className="w-5 h-5" />}
+                </button>
             </div>
 
             {/* Search Input */}
@@ -578,37 +719,246 @@ const Dashboard: React.FC<DashboardProps> = ({ user, reports, onNavigate, onReso
                    <input 
                      type="text" 
                      value={searchQuery} 
-                     onChange={(e) => setSearchQuery(e.target.value)} 
+                     onChange={(e) => updateFilters({ q: e.target.value })} 
                      onKeyDown={(e) => e.key === 'Enter' && handleSmartSearch()} 
-                     placeholder="Describe what you are looking for..." 
-                     className="w-full pl-12 pr-4 py-3.5 bg-white dark:bg-slate-800/50 border border-slate-200/60 dark:border-slate-700 rounded-2xl text-sm font-semibold outline-none focus:border-indigo-500 focus:ring-4 focus:ring-indigo-500/10 dark:focus:ring-indigo-500/20 transition-all shadow-inner placeholder:text-slate-400 text-slate-700 dark:text-slate-200" 
+                     placeholder="e.g. black dell laptop lost near library last tuesday" 
+                     className="w-full pl-12 pr-12 py-3.5 bg-white dark:bg-slate-800/50 border border-slate-200/60 dark:border-slate-700 rounded-2xl text-sm font-semibold outline-none focus:border-indigo-500 focus:ring-4 focus:ring-indigo-500/10 dark:focus:ring-indigo-500/20 transition-all shadow-inner placeholder:text-slate-400 text-slate-700 dark:text-slate-200" 
                     />
-                   {isProcessingSearch && <Loader2 className="absolute right-4 top-1/2 -translate-y-1/2 w-4 h-4 animate-spin text-brand-violet" />}
+                   {isProcessingSearch ? (
+                     <Loader2 className="absolute right-4 top-1/2 -translate-y-1/2 w-4 h-4 animate-spin text-brand-violet" />
+                   ) : (
+                     <button
+                       onClick={() => setShowPhotoSearch(true)}
+                       className="absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-xl text-slate-400 hover:text-indigo-500 hover:bg-indigo-50 dark:hover:bg-slate-700 transition-colors"
+                       title="Search with a photo"
+                     >
+                       <Camera className="w-4 h-4" />
+                     </button>
+                   )}
                </div>
             </div>
          </div>
 
          <div className="flex items-center gap-3 px-4">
             <h3 className="text-lg font-black text-slate-800 dark:text-white tracking-tight">
-              {showMyReports ? 'My ' : ''}{viewStatus === 'RESOLVED' ? 'Resolved Archive' : 'Active Listings'}
+              {showMyReports ? 'My ' : ''}{viewStatus === 'ARCHIVE' ? 'Archive' : 'Active Listings'}
             </h3>
             <span className="px-2 py-0.5 bg-slate-100 dark:bg-slate-800 rounded-md text-[10px] font-bold text-slate-500 border border-slate-200 dark:border-slate-700">
-               {filteredReports.length} Items
+               {filteredReports.length}{feed.hasMore ? '+' : ''} Items
             </span>
+
+            {/* Category & Building Filters */}
+            <div className="ml-auto flex items-center gap-2">
+               <select
+                  value={filters.category}
+                  onChange={(e) => updateFilters({ category: e.target.value as ItemCategory | '' })}
+                  className="h-9 pl-3 pr-8 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl text-xs font-bold text-slate-600 dark:text-slate-300 outline-none focus:border-indigo-500"
+               >
+                  <option value="">All categories</option>
+                  {Object.values(ItemCategory).map(c => <option key={c} value={c}>{c}</option>)}
+               </select>
+               <select
+                  value={buildingFilter}
+                  onChange={(e) => updateFilters({ building: e.target.value })}
+                  className="h-9 pl-3 pr-8 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl text-xs font-bold text-slate-600 dark:text-slate-300 outline-none focus:border-indigo-500"
+               >
+                  <option value="">All locations</option>
+                  {BUILDINGS.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+               </select>
+               {buildingFilter && (
+                  <button
+                     onClick={() => updateFilters({ nearby: !includeNearby })}
+                     className={`h-9 px-3 rounded-xl border text-[10px] font-bold uppercase tracking-wide flex items-center gap-1 transition-colors ${includeNearby
+                       ? 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-900 text-emerald-600'
+                       : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 text-slate-400'
+                     }`}
+                     title="Include adjacent buildings"
+                  >
+                     <MapPin className="w-3 h-3" /> Nearby
+                  </button>
+               )}
+               <button
+                  onClick={() => setShowFacets(!showFacets)}
+                  className={`h-9 px-3 rounded-xl border text-xs font-bold flex items-center gap-1.5 transition-colors ${showFacets
+                    ? 'bg-indigo-50 dark:bg-slate-800 border-indigo-200 dark:border-slate-700 text-indigo-600'
+                    : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 text-slate-500'
+                  }`}
+                  title="More filters and sorting"
+               >
+                  <SlidersHorizontal className="w-3.5 h-3.5" /> Filters
+                  {countActiveFacets(filters) > 0 && <span className="px-1.5 rounded-md bg-indigo-600 text-white text-[10px]">{countActiveFacets(filters)}</span>}
+               </button>
+               <button
+                  onClick={handleShareView}
+                  className="h-9 w-9 rounded-xl border bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 text-slate-400 hover:text-slate-600 flex items-center justify-center transition-colors"
+                  title="Copy a link to this view"
+               >
+                  <Share2 className="w-3.5 h-3.5" />
+               </button>
+               <button
+                  onClick={handleWatchSearch}
+                  disabled={isWatched || isSavingWatch}
+                  className={`h-9 w-9 rounded-xl border flex items-center justify-center transition-colors ${isWatched
+                    ? 'bg-indigo-50 dark:bg-slate-800 border-indigo-200 dark:border-slate-700 text-indigo-600'
+                    : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 text-slate-400 hover:text-slate-600 disabled:opacity-50'
+                  }`}
+                  title={isWatched ? 'You are watching this search' : 'Watch this search: get notified about new matching reports'}
+               >
+                  {isSavingWatch ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : isWatched ? <BellRing className="w-3.5 h-3.5" /> : <BellPlus className="w-3.5 h-3.5" />}
+               </button>
+            </div>
          </div>
 
+         {showFacets && (
+            <div className="mx-2 p-4 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4 animate-in fade-in slide-in-from-top-2 duration-200">
+               {/* Sort */}
+               <div className="space-y-1.5">
+                  <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1"><ArrowUpDown className="w-3 h-3" /> Sort</label>
+                  <select
+                     value={filters.sort}
+                     onChange={(e) => handleSortChange(e.target.value as FeedSort)}
+                     className="w-full h-9 pl-3 pr-8 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-xs font-bold text-slate-600 dark:text-slate-300 outline-none focus:border-indigo-500"
+                  >
+                     {(Object.keys(SORT_LABELS) as FeedSort[]).map(s => (
+                        <option key={s} value={s} disabled={needsLostReport(s) && myOpenLostReports.length === 0}>{SORT_LABELS[s]}</option>
+                     ))}
+                  </select>
+                  {needsLostReport(filters.sort) && (
+                     lostReport ? (
+                        <select
+                           value={lostReport.id}
+                           onChange={(e) => updateFilters({ lostReportId: e.target.value })}
+                           className="w-full h-9 pl-3 pr-8 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-xs font-bold text-slate-600 dark:text-slate-300 outline-none focus:border-indigo-500"
+                        >
+                           {myOpenLostReports.map(r => <option key={r.id} value={r.id}>{r.title}</option>)}
+                        </select>
+                     ) : (
+                        <p className="text-[10px] font-medium text-slate-400">Report a lost item to rank by it. Showing newest first.</p>
+                     )
+                  )}
+               </div>
+
+               {/* When it was lost or found */}
+               <div className="space-y-1.5">
+                  <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1"><Clock className="w-3 h-3" /> {viewMode === 'MAP' ? 'Lost or found' : activeTab === ReportType.LOST ? 'Lost' : 'Found'} between</label>
+                  <div className="flex items-center gap-2">
+                     <input
+                        type="date"
+                        value={filters.from}
+                        max={filters.to || undefined}
+                        onChange={(e) => updateFilters({ from: e.target.value })}
+                        className="flex-1 min-w-0 h-9 px-2 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-xs font-bold text-slate-600 dark:text-slate-300 outline-none focus:border-indigo-500"
+                     />
+                     <input
+                        type="date"
+                        value={filters.to}
+                        min={filters.from || undefined}
+                        onChange={(e) => updateFilters({ to: e.target.value })}
+                        className="flex-1 min-w-0 h-9 px-2 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-xs font-bold text-slate-600 dark:text-slate-300 outline-none focus:border-indigo-500"
+                     />
+                  </div>
+               </div>
+
+               {/* Report age & photo */}
+               <div className="space-y-1.5">
+                  <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1"><History className="w-3 h-3" /> Reported</label>
+                  <div className="flex items-center gap-2">
+                     <select
+                        value={filters.maxAgeDays ?? ''}
+                        onChange={(e) => updateFilters({ maxAgeDays: e.target.value ? Number(e.target.value) : null })}
+                        className="flex-1 min-w-0 h-9 pl-3 pr-8 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-xs font-bold text-slate-600 dark:text-slate-300 outline-none focus:border-indigo-500"
+                     >
+                        <option value="">Any time</option>
+                        {AGE_OPTIONS.map(days => <option key={days} value={days}>{days === 1 ? 'Last 24 hours' : `Last ${days} days`}</option>)}
+                     </select>
+                     <button
+                        onClick={() => updateFilters({ hasPhoto: !filters.hasPhoto })}
+                        className={`h-9 px-3 rounded-xl border text-[10px] font-bold uppercase tracking-wide flex items-center gap-1 shrink-0 transition-colors ${filters.hasPhoto
+                          ? 'bg-indigo-50 dark:bg-indigo-900/20 border-indigo-200 dark:border-indigo-900 text-indigo-600'
+                          : 'bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-400'
+                        }`}
+                        title="Only reports with a photo"
+                     >
+                        <ImageIcon className="w-3 h-3" /> Photo
+                     </button>
+                  </div>
+               </div>
+
+               {/* Tags */}
+               <div className="space-y-1.5">
+                  <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1"><Tag className="w-3 h-3" /> Tags</label>
+                  <input
+                     type="text"
+                     value={tagInput}
+                     onChange={(e) => setTagInput(e.target.value)}
+                     onKeyDown={(e) => e.key === 'Enter' && addTag(tagInput)}
+                     disabled={filters.tags.length >= MAX_TAGS}
+                     list="dashboard-tag-options"
+                     placeholder={filters.tags.length >= MAX_TAGS ? `Up to ${MAX_TAGS} tags` : 'Add a tag, e.g. blue'}
+                     className="w-full h-9 px-3 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-xs font-bold text-slate-600 dark:text-slate-300 outline-none focus:border-indigo-500 disabled:opacity-50"
+                  />
+                  <datalist id="dashboard-tag-options">
+                     {tagOptions.map(t => <option key={t} value={t} />)}
+                  </datalist>
+               </div>
+
+               {countActiveFacets(filters) > 0 && (
+                  <button
+                     onClick={() => updateFilters({ category: '', building: '', nearby: true, from: '', to: '', tags: [], colors: [], brand: '', model: '', hasPhoto: false, maxAgeDays: null })}
+                     className="col-span-full justify-self-end text-[11px] font-bold text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 transition-colors"
+                  >
+                     Clear filters
+                  </button>
+               )}
+            </div>
+         )}
+
+         {/* Active filters, including what smart search recognized */}
+         {filterChips(filters).length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 px-4">
+               {filterChips(filters).map(chip => (
+                  <button
+                     key={chip.key}
+                     onClick={() => updateFilters(chip.clear)}
+                     className="pl-3 pr-2 py-1 rounded-full bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-100 dark:border-indigo-900 text-[11px] font-bold text-indigo-600 dark:text-indigo-300 flex items-center gap-1 hover:bg-indigo-100 dark:hover:bg-indigo-900/40 transition-colors"
+                     title="Remove filter"
+                  >
+                     {chip.label} <X className="w-3 h-3" />
+                  </button>
+               ))}
+            </div>
+         )}
+
+         {viewMode === 'MAP' ? (
+            <div className="px-2">
+               <CampusMap reports={filteredReports} onReportClick={setSelectedReport} className="h-[65vh] min-h-[420px]" />
+               {feed.hasMore && (
+                  <button
+                     onClick={() => feedRef.current?.loadMore()}
+                     disabled={feed.isLoading}
+                     className="mt-4 mx-auto px-5 py-2.5 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-xs font-bold text-slate-600 dark:text-slate-300 flex items-center gap-2 disabled:opacity-50"
+                  >
+                     {feed.isLoading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />} Load older reports
+                  </button>
+               )}
+            </div>
+         ) : (
          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6 px-2">
             {filteredReports.map(report => <ReportCard key={report.id} report={report} onClick={() => setSelectedReport(report)} />)}
-            {filteredReports.length === 0 && (
+            {filteredReports.length === 0 && !feed.hasMore && !feed.isLoading && (
                <div className="col-span-full py-24 text-center flex flex-col items-center justify-center text-slate-400">
                   <div className="w-20 h-20 bg-slate-100 dark:bg-slate-900 rounded-[2rem] flex items-center justify-center mb-6 shadow-sm">
-                     {viewStatus === 'RESOLVED' ? <History className="w-8 h-8 opacity-40" /> : <SearchX className="w-8 h-8 opacity-40" />}
+                     {viewStatus === 'ARCHIVE' ? <History className="w-8 h-8 opacity-40" /> : <SearchX className="w-8 h-8 opacity-40" />}
                   </div>
-                  <p className="font-bold text-lg text-slate-600 dark:text-slate-300">No {showMyReports ? 'personal' : ''} {viewStatus === 'RESOLVED' ? 'resolved' : 'active'} items found.</p>
+                  <p className="font-bold text-lg text-slate-600 dark:text-slate-300">No {showMyReports ? 'personal' : ''} {viewStatus === 'ARCHIVE' ? 'archived' : 'active'} items found.</p>
                   <p className="text-sm mt-2 max-w-xs mx-auto">Try adjusting your search filters or check back later.</p>
                </div>
             )}
+            <div ref={feedEndRef} className="col-span-full flex justify-center py-4">
+               {feed.isLoading && <Loader2 className="w-5 h-5 text-brand-violet animate-spin" />}
+            </div>
          </div>
+         )}
       </section>
     </div>
   );
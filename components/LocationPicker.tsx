@@ -0,0 +1,129 @@
+import React, { useMemo, useState } from 'react';
+import { LocationRef } from '../types';
+import { formatFloor, formatLocation, getBuilding, getCampus, searchLocations } from '../services/campusLocations';
+import { MapPin, X, Building2 } from 'lucide-react';
+
+interface LocationPickerProps {
+  label: string; // Display label (free text when the place isn't in the gazetteer)
+  locationRef?: LocationRef;
+  onChange: (label: string, ref?: LocationRef) => void;
+  inputClassName: string;
+}
+
+// Autocomplete over the campus gazetteer with floor / room refinement. Unlisted places stay free text.
+const LocationPicker: React.FC<LocationPickerProps> = ({ label, locationRef, onChange, inputClassName }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlight, setHighlight] = useState(0);
+
+  const building = getBuilding(locationRef?.buildingId);
+  const suggestions = useMemo(() => (locationRef ? [] : searchLocations(label)), [label, locationRef]);
+
+  const selectBuilding = (buildingId: string) => {
+    const b = getBuilding(buildingId)!;
+    const ref: LocationRef = { campusId: b.campusId, buildingId: b.id };
+    onChange(formatLocation(ref), ref);
+    setIsOpen(false);
+  };
+
+  const updateRef = (changes: { floor?: string, room?: string }) => {
+    if (!locationRef) return;
+    const next = { ...locationRef, ...changes };
+    // Firestore rejects undefined fields, so drop empty parts entirely
+    const ref: LocationRef = {
+      campusId: next.campusId,
+      buildingId: next.buildingId,
+      ...(next.floor ? { floor: next.floor } : {}),
+      ...(next.room?.trim() ? { room: next.room.trim().toUpperCase() } : {})
+    };
+    onChange(formatLocation(ref), ref);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen || suggestions.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlight(h => Math.min(h + 1, suggestions.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlight(h => Math.max(h - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      selectBuilding(suggestions[highlight].building.id);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  if (building && locationRef) {
+    return (
+      <div className="space-y-2">
+        <div className={`${inputClassName} flex items-center gap-2`}>
+          <Building2 className="w-4 h-4 text-emerald-500 shrink-0" />
+          <span className="truncate flex-1">{building.name}</span>
+          <span className="text-[10px] font-bold text-slate-400 uppercase hidden sm:inline">{getCampus(building.campusId)?.name}</span>
+          <button type="button" onClick={() => onChange('', undefined)} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-800 text-slate-400" title="Change location">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {building.floors && building.floors.length > 0 ? (
+            <select
+              value={locationRef.floor || ''}
+              onChange={e => updateRef({ floor: e.target.value || undefined })}
+              className={`${inputClassName} h-10 text-xs`}
+            >
+              <option value="">Any floor</option>
+              {building.floors.map(f => <option key={f} value={f}>{formatFloor(f)}</option>)}
+            </select>
+          ) : <div />}
+          <input
+            type="text"
+            value={locationRef.room || ''}
+            onChange={e => updateRef({ room: e.target.value })}
+            placeholder="Room (optional)"
+            className={`${inputClassName} h-10 text-xs`}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={label}
+        onChange={e => { onChange(e.target.value, undefined); setIsOpen(true); setHighlight(0); }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+        onKeyDown={handleKeyDown}
+        placeholder="e.g. Library, Canteen, Block A"
+        className={inputClassName}
+        required
+        autoComplete="off"
+      />
+      {isOpen && label.trim() && (
+        <div className="absolute z-20 mt-1 w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl shadow-xl overflow-hidden">
+          {suggestions.map((s, i) => (
+            <button
+              key={s.building.id}
+              type="button"
+              onMouseDown={e => e.preventDefault()}
+              onClick={() => selectBuilding(s.building.id)}
+              className={`w-full px-3 py-2.5 flex items-center gap-2 text-left text-sm ${i === highlight ? 'bg-indigo-50 dark:bg-slate-800' : 'hover:bg-slate-50 dark:hover:bg-slate-800'}`}
+            >
+              <MapPin className="w-3.5 h-3.5 text-slate-400 shrink-0" />
+              <span className="font-bold text-slate-800 dark:text-slate-200">{s.building.name}</span>
+              {s.matchedAlias && <span className="text-[10px] text-slate-400 truncate">"{s.matchedAlias}"</span>}
+            </button>
+          ))}
+          <p className="px-3 py-2 text-[10px] text-slate-400 border-t border-slate-100 dark:border-slate-800">
+            {suggestions.length > 0 ? 'Pick a building for better matches, or keep typing to save it as written.' : 'Not in the campus directory. It will be saved as written.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LocationPicker;
@@ -1,7 +1,9 @@
 import React, { useEffect, useState } from 'react';
 import { ItemReport } from '../types';
 import { compareItems, ComparisonResult, getMatchTier } from '../services/geminiService';
-import { X, Sparkles, MessageCircle, Check, AlertTriangle, MapPin, Clock, Tag, ScanLine, BrainCircuit, Info, Bot } from 'lucide-react';
+import { MatchFactor } from '../services/matchScoring';
+import { formatReportDate, formatReportTime } from '../services/reportTime';
+import { X, Sparkles, MessageCircle, Check, AlertTriangle, MapPin, Clock, Tag, ScanLine, BrainCircuit, Info, Bot, Scale } from 'lucide-react';
 
 interface MatchComparatorProps {
   item1: ItemReport;
@@ -60,6 +62,27 @@ const ComparisonRow = ({ label, val1, val2, icon: Icon }: { label: string, val1:
   );
 };
 
+const FactorRow: React.FC<{ factor: MatchFactor }> = ({ factor }) => {
+  const notJudged = factor.score === null;
+  const pct = notJudged ? 0 : Math.round(factor.score! * 100);
+  const barColor = pct >= 70 ? 'bg-[#34A853]' : pct >= 40 ? 'bg-[#FBBC05]' : 'bg-[#EA4335]';
+
+  return (
+    <div className={`py-2 border-b border-white/5 last:border-0 ${notJudged ? 'opacity-50' : ''}`}>
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <span className="text-[10px] font-bold text-slate-300 uppercase tracking-wider">{factor.label}</span>
+        <span className="text-[10px] font-mono text-slate-400 shrink-0">
+          {notJudged ? 'n/a' : `+${factor.points.toFixed(1)}`}
+        </span>
+      </div>
+      <div className="h-1 rounded-full bg-white/5 overflow-hidden mb-1">
+        <div className={`h-full rounded-full ${barColor} transition-all duration-700`} style={{ width: `${pct}%` }}></div>
+      </div>
+      <p className="text-[10px] text-slate-500 leading-snug">{factor.detail}</p>
+    </div>
+  );
+};
+
 const MatchComparator: React.FC<MatchComparatorProps> = ({ item1, item2, onClose, onContact }) => {
   const [analysis, setAnalysis] = useState<ComparisonResult | null>(null);
   const [loading, setLoading] = useState(true);
@@ -207,12 +230,32 @@ const MatchComparator: React.FC<MatchComparatorProps> = ({ item1, item2, onClose
                          </div>
                          <div className="px-3">
                             <ComparisonRow label="CATEGORY" icon={Tag} val1={item1.category} val2={item2.category} />
-                            <ComparisonRow label="TIME" icon={Clock} val1={item1.time} val2={item2.time} />
-                            <ComparisonRow label="DATE" icon={Clock} val1={item1.date} val2={item2.date} />
-                            <ComparisonRow label="LOCATION" icon={MapPin} val1={item1.location} val2={item2.location} />
+                            <ComparisonRow label="TIME" icon={Clock} val1={formatReportTime(item1)} val2={formatReportTime(item2)} />
+                            <ComparisonRow label="DATE" icon={Clock} val1={formatReportDate(item1)} val2={formatReportDate(item2)} />
+                            <ComparisonRow label="LOCATION" icon={MapPin} val1={[item1.location, ...(item1.route || []).map(s => s.label)].join(' → ')} val2={[item2.location, ...(item2.route || []).map(s => s.label)].join(' → ')} />
                          </div>
                       </div>
 
+                      {/* Deterministic Score Breakdown */}
+                      {analysis?.breakdown && (
+                         <div className="mt-4 bg-[#141414] rounded-xl border border-white/5 overflow-hidden p-1">
+                            <div className="px-3 py-2 bg-white/5 border-b border-white/5 flex items-center justify-between">
+                               <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Score Breakdown</span>
+                               <span className="flex items-center gap-1 text-[10px] font-black text-white">
+                                  <Scale className="w-3 h-3 text-slate-500" /> {analysis.breakdown.total}%
+                               </span>
+                            </div>
+                            {analysis.breakdown.rejected && (
+                               <div className="mx-3 mt-2 p-2 rounded-lg bg-[#EA4335]/10 border border-[#EA4335]/20 text-[10px] font-bold text-[#EA4335] flex items-center gap-2">
+                                  <AlertTriangle className="w-3 h-3 shrink-0" /> {analysis.breakdown.rejected}
+                               </div>
+                            )}
+                            <div className="px-3">
+                               {analysis.breakdown.factors.map(f => <FactorRow key={f.key} factor={f} />)}
+                            </div>
+                         </div>
+                      )}
+
                    </div>
                 </div>
 
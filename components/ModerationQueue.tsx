@@ -0,0 +1,210 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ItemReport, ModerationDecision, ReportType, User } from '../types';
+import { flagLabel, policyAction, summarizeDecisions } from '../services/moderationPolicy';
+import { reviewReport, subscribeToDecisions } from '../services/moderation';
+import { AbuseFlagGroup } from '../services/abuseFlags';
+import AbuseFlagQueue from './AbuseFlagQueue';
+import { ArrowLeft, Gavel, Check, X, Loader2, MessageSquareWarning, Box, ShieldAlert, BarChart3, Flag } from 'lucide-react';
+
+interface ModerationQueueProps {
+  user: User;
+  queue: ItemReport[]; // Flagged reports waiting for review, oldest first
+  flagGroups: AbuseFlagGroup[];
+  onBack: () => void;
+  onToast: (message: string, type: 'success' | 'alert' | 'info') => void;
+}
+
+const RECENT_DECISIONS = 8;
+
+interface QueueItemProps {
+  report: ItemReport;
+  moderator: User;
+  onToast: ModerationQueueProps['onToast'];
+}
+
+const QueueItem: React.FC<QueueItemProps> = ({ report, moderator, onToast }) => {
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState<ModerationDecision['decision'] | null>(null);
+  const moderation = report.moderation!;
+  const flaggedImages = new Set(moderation.flags.map(f => f.imageIndex).filter(i => i !== undefined));
+
+  const decide = async (decision: ModerationDecision['decision']) => {
+    setSaving(decision);
+    try {
+      await reviewReport(report, moderator, decision, note.trim() || undefined);
+      onToast(decision === 'APPROVED' ? `"${report.title}" is now live.` : `"${report.title}" was rejected.`, decision === 'APPROVED' ? 'success' : 'info');
+    } catch (e: any) {
+      console.error("Review failed", e);
+      onToast(e?.message || "Couldn't save the decision.", 'alert');
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-100 dark:border-slate-800 p-5 space-y-4">
+      <div className="flex items-start gap-4">
+        <div className="flex gap-2 shrink-0">
+          {report.imageUrls.length === 0 ? (
+            <div className="w-20 h-20 rounded-xl bg-slate-100 dark:bg-slate-800 flex items-center justify-center"><Box className="w-6 h-6 text-slate-300" /></div>
+          ) : report.imageUrls.slice(0, 3).map((url, i) => (
+            <a key={i} href={url} target="_blank" rel="noreferrer" className={`w-20 h-20 rounded-xl overflow-hidden bg-slate-100 dark:bg-slate-800 ${flaggedImages.has(i) ? 'ring-2 ring-amber-500' : ''}`}>
+              <img src={url} className="w-full h-full object-cover" />
+            </a>
+          ))}
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap items-center gap-2 mb-1">
+            <span className={`px-2 py-0.5 rounded text-[9px] font-black uppercase tracking-wider ${report.type === ReportType.LOST ? 'bg-orange-50 text-orange-600 dark:bg-orange-900/20' : 'bg-teal-50 text-teal-600 dark:bg-teal-900/20'}`}>{report.type}</span>
+            <span className="text-[10px] font-bold text-slate-400">{report.category}</span>
+            {moderation.appeal && <span className="px-2 py-0.5 rounded bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400 text-[9px] font-black uppercase tracking-wider">Appeal</span>}
+          </div>
+          <h3 className="text-base font-black text-slate-900 dark:text-white truncate">{report.title}</h3>
+          <p className="text-[10px] text-slate-400">by {report.reporterName} · {report.location} · waiting since {new Date(moderation.submittedAt).toLocaleString()}</p>
+          <p className="text-xs text-slate-600 dark:text-slate-300 mt-2 line-clamp-3">{report.description}</p>
+        </div>
+      </div>
+
+      {/* Why it was flagged */}
+      <div className="space-y-1.5">
+        {moderation.flags.map((flag, i) => (
+          <div key={i} className="flex items-start gap-2 p-2.5 rounded-xl bg-amber-50 dark:bg-amber-900/10 text-xs">
+            <ShieldAlert className="w-3.5 h-3.5 text-amber-500 shrink-0 mt-0.5" />
+            <div>
+              <span className="font-bold text-amber-700 dark:text-amber-300">{flagLabel(flag)}</span>
+              <span className="text-amber-700/70 dark:text-amber-300/70">{flag.imageIndex !== undefined ? ` (photo ${flag.imageIndex + 1})` : ''}: {flag.reason}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {moderation.appeal && (
+        <div className="p-3 rounded-xl bg-indigo-50 dark:bg-indigo-900/10 text-xs space-y-1">
+          {moderation.note && <p className="text-slate-500">Previously rejected by {moderation.reviewerName}: "{moderation.note}"</p>}
+          <p className="text-indigo-700 dark:text-indigo-300 flex items-start gap-1.5">
+            <MessageSquareWarning className="w-3.5 h-3.5 shrink-0 mt-0.5" /> "{moderation.appeal.message}"
+          </p>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          placeholder="Note to the reporter (optional)"
+          className="flex-1 px-3 py-2.5 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl text-xs font-medium outline-none focus:border-indigo-500"
+        />
+        <div className="flex gap-2">
+          <button onClick={() => decide('REJECTED')} disabled={!!saving} className="px-4 py-2.5 rounded-xl bg-red-50 text-red-600 dark:bg-red-900/20 dark:text-red-400 text-xs font-bold flex items-center gap-1.5 disabled:opacity-50">
+            {saving === 'REJECTED' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <X className="w-3.5 h-3.5" />} Reject
+          </button>
+          <button onClick={() => decide('APPROVED')} disabled={!!saving} className="px-4 py-2.5 rounded-xl bg-emerald-600 hover:bg-emerald-500 text-white text-xs font-bold flex items-center gap-1.5 disabled:opacity-50">
+            {saving === 'APPROVED' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />} Approve
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Moderator queue: AI-flagged reports oldest first, user abuse reports, and how past decisions line up with the policy
+const ModerationQueue: React.FC<ModerationQueueProps> = ({ user, queue, flagGroups, onBack, onToast }) => {
+  const [decisions, setDecisions] = useState<ModerationDecision[] | null>(null);
+  const [tab, setTab] = useState<'AI' | 'USERS'>('AI');
+
+  useEffect(() => {
+    const unsubscribe = subscribeToDecisions(setDecisions);
+    return () => unsubscribe();
+  }, []);
+
+  const stats = useMemo(() => summarizeDecisions(decisions || []), [decisions]);
+
+  return (
+    <div className="max-w-5xl mx-auto pb-24 space-y-6 animate-in slide-in-from-bottom-4 duration-500">
+      <button onClick={onBack} className="flex items-center gap-2 text-slate-500 hover:text-indigo-600 dark:text-slate-400 dark:hover:text-white font-bold text-xs uppercase tracking-widest transition-colors">
+        <ArrowLeft className="w-4 h-4" /> Back to Home
+      </button>
+
+      <div className="flex items-center gap-3">
+        <div className="w-11 h-11 rounded-xl bg-amber-100 dark:bg-amber-900/30 flex items-center justify-center text-amber-600 dark:text-amber-400">
+          <Gavel className="w-6 h-6" />
+        </div>
+        <div>
+          <h1 className="text-2xl font-black tracking-tight text-slate-900 dark:text-white leading-none">Moderation Queue</h1>
+          <p className="text-xs font-bold text-slate-500 mt-1">{queue.length} report{queue.length === 1 ? '' : 's'} flagged by the AI checks · {flagGroups.length} reported by users</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
+        {/* Queue */}
+        <div className="lg:col-span-2 space-y-4">
+          <div className="flex gap-1 p-1 bg-slate-100 dark:bg-slate-900 rounded-xl w-fit">
+            {([['AI', 'Flagged by AI', queue.length], ['USERS', 'Reported by Users', flagGroups.length]] as const).map(([id, label, count]) => (
+              <button
+                key={id}
+                onClick={() => setTab(id)}
+                className={`px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1.5 transition-colors ${tab === id ? 'bg-white dark:bg-slate-800 text-slate-900 dark:text-white shadow-sm' : 'text-slate-500'}`}
+              >
+                {id === 'USERS' && <Flag className="w-3.5 h-3.5" />}{label}
+                {count > 0 && <span className="min-w-[16px] h-4 px-1 bg-amber-500 text-white text-[9px] font-black rounded-full flex items-center justify-center">{count}</span>}
+              </button>
+            ))}
+          </div>
+
+          {tab === 'USERS' ? (
+            <AbuseFlagQueue groups={flagGroups} moderator={user} onToast={onToast} />
+          ) : queue.length === 0 ? (
+            <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-100 dark:border-slate-800 p-10 text-center">
+              <Check className="w-8 h-8 text-emerald-500 mx-auto mb-2" />
+              <p className="text-sm font-bold text-slate-500">Nothing to review.</p>
+            </div>
+          ) : (
+            queue.map(report => <QueueItem key={report.id} report={report} moderator={user} onToast={onToast} />)
+          )}
+        </div>
+
+        {/* Policy Tuning */}
+        <div className="space-y-4">
+          <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-100 dark:border-slate-800 p-5 space-y-3">
+            <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-1.5">
+              <BarChart3 className="w-3 h-3" /> Decisions by Flag
+            </h3>
+            {decisions === null ? (
+              <div className="py-4 flex justify-center"><Loader2 className="w-5 h-5 text-brand-violet animate-spin" /></div>
+            ) : stats.length === 0 ? (
+              <p className="text-xs text-slate-400">No decisions yet.</p>
+            ) : stats.map(s => {
+              const total = s.approved + s.rejected;
+              return (
+                <div key={s.type} className="space-y-1">
+                  <div className="flex justify-between text-xs">
+                    <span className="font-bold text-slate-700 dark:text-slate-200">{flagLabel(s)}</span>
+                    <span className="text-slate-400">{s.approved} approved · {s.rejected} rejected</span>
+                  </div>
+                  <div className="h-1.5 rounded-full bg-red-100 dark:bg-red-900/30 overflow-hidden">
+                    <div className="h-full bg-emerald-500" style={{ width: `${(s.approved / total) * 100}%` }} />
+                  </div>
+                  <p className="text-[9px] font-bold uppercase tracking-wider text-slate-400">Policy: {policyAction(s.type) === 'BLOCK' ? 'block' : 'review'}</p>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-100 dark:border-slate-800 p-5 space-y-2">
+            <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Recent Decisions</h3>
+            {(decisions || []).slice(0, RECENT_DECISIONS).map(d => (
+              <div key={d.id} className="text-xs flex items-start gap-2">
+                {d.decision === 'APPROVED' ? <Check className="w-3.5 h-3.5 text-emerald-500 shrink-0 mt-0.5" /> : <X className="w-3.5 h-3.5 text-red-500 shrink-0 mt-0.5" />}
+                <div className="min-w-0">
+                  <p className="text-slate-600 dark:text-slate-300 truncate">{d.flags.map(flagLabel).join(', ') || 'Flagged'}{d.appealed ? ' · appeal' : ''}</p>
+                  <p className="text-[10px] text-slate-400">{d.moderatorName} · {new Date(d.at).toLocaleDateString()}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModerationQueue;
@@ -1,24 +1,36 @@
 
 import React from 'react';
 import { AppNotification, ViewState } from '../types';
-import { Bell, Sparkles, MessageCircle, ShieldCheck, X, CheckCheck, Trash2, ChevronRight } from 'lucide-react';
+import { Bell, Sparkles, MessageCircle, ShieldCheck, X, CheckCheck, Trash2, ChevronRight, Loader2 } from 'lucide-react';
 
 interface NotificationCenterProps {
   notifications: AppNotification[];
+  unreadCount?: number; // Total across all pages; defaults to the loaded ones
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
   onClose: () => void;
   onMarkAsRead: (id: string) => void;
   onMarkAllAsRead: () => void;
+  onDelete?: (id: string) => void;
   onClearAll: () => void;
   onNavigate: (view: ViewState) => void;
+  onOpenMatch?: (notification: AppNotification) => void;
 }
 
 const NotificationCenter: React.FC<NotificationCenterProps> = ({
   notifications,
+  unreadCount: totalUnread,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
   onClose,
   onMarkAsRead,
   onMarkAllAsRead,
+  onDelete,
   onClearAll,
-  onNavigate
+  onNavigate,
+  onOpenMatch
 }) => {
   const getIcon = (type: AppNotification['type']) => {
     switch (type) {
@@ -38,7 +50,10 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({
     return new Date(ts).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
   };
 
-  const unreadCount = notifications.filter(n => !n.isRead).length;
+  const unreadCount = totalUnread ?? notifications.filter(n => !n.isRead).length;
+
+  // Match alerts carry both report ids and open straight into the comparator
+  const isMatchDeepLink = (n: AppNotification) => n.type === 'match' && !!n.metadata?.sourceId && !!n.metadata?.matchId && !!onOpenMatch;
 
   return (
     <>
@@ -87,8 +102,10 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({
                 <div 
                   key={notification.id}
                   onClick={() => {
-                    onMarkAsRead(notification.id);
-                    if (notification.link) {
+                    if (!notification.isRead) onMarkAsRead(notification.id);
+                    if (isMatchDeepLink(notification)) {
+                        onOpenMatch!(notification);
+                    } else if (notification.link) {
                         onNavigate(notification.link);
                     }
                   }}
@@ -117,9 +134,20 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({
                       }`}>
                         {notification.title}
                       </p>
-                      <span className="text-[10px] font-black text-slate-400 whitespace-nowrap bg-slate-100 dark:bg-slate-800 px-2 py-0.5 rounded-lg">
-                        {formatTime(notification.timestamp)}
-                      </span>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <span className="text-[10px] font-black text-slate-400 whitespace-nowrap bg-slate-100 dark:bg-slate-800 px-2 py-0.5 rounded-lg">
+                          {formatTime(notification.timestamp)}
+                        </span>
+                        {onDelete && (
+                          <button
+                            onClick={(e) => { e.stopPropagation(); onDelete(notification.id); }}
+                            className="p-1 rounded-lg text-slate-300 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 opacity-0 group-hover:opacity-100 transition-all"
+                            title="Delete"
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        )}
+                      </div>
                     </div>
                     
                     <p className={`text-xs leading-relaxed line-clamp-2 font-medium ${
@@ -128,14 +156,26 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({
                       {notification.message}
                     </p>
 
-                    {notification.link && (
+                    {(notification.link || isMatchDeepLink(notification)) && (
                        <div className="mt-2.5 flex items-center text-[10px] font-black text-brand-violet opacity-0 group-hover:opacity-100 transition-all transform translate-x-[-10px] group-hover:translate-x-0 duration-300">
-                          VIEW UPDATE <ChevronRight className="w-3 h-3 ml-1" />
+                          {isMatchDeepLink(notification) ? 'COMPARE ITEMS' : 'VIEW UPDATE'} <ChevronRight className="w-3 h-3 ml-1" />
                        </div>
                     )}
                   </div>
                 </div>
               ))}
+
+              {hasMore && onLoadMore && (
+                <div className="p-4 flex justify-center">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onLoadMore(); }}
+                    disabled={isLoadingMore}
+                    className="px-5 py-2 rounded-xl text-[11px] font-black uppercase tracking-widest text-brand-violet bg-brand-violet/5 hover:bg-brand-violet/10 transition-all disabled:opacity-50 flex items-center gap-2"
+                  >
+                    {isLoadingMore && <Loader2 className="w-3 h-3 animate-spin" />} Load older
+                  </button>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,162 @@
+import React, { useRef, useState } from 'react';
+import { ItemReport, ReportType, User } from '../types';
+import { X, Camera, Loader2, Box, MapPin, ImagePlus, WifiOff, RefreshCw } from 'lucide-react';
+import { PhotoSearchResult, getMatchTier, searchByPhoto } from '../services/geminiService';
+import { compressImage } from '../services/imageCompression';
+import { CANDIDATE_LIMIT, fetchReports } from '../services/reportQueries';
+import { MATCHABLE_STATUSES } from '../services/reportLifecycle';
+import { isListed } from '../services/moderationPolicy';
+import { formatReportDate } from '../services/reportTime';
+
+interface PhotoSearchDialogProps {
+  user: User;
+  onSelect: (report: ItemReport) => void;
+  onClose: () => void;
+}
+
+// "It looks like this": rank open found reports against a photo of the item (searchByPhoto in geminiService.ts)
+const PhotoSearchDialog: React.FC<PhotoSearchDialogProps> = ({ user, onSelect, onClose }) => {
+  const [photo, setPhoto] = useState<string | null>(null);
+  const [result, setResult] = useState<PhotoSearchResult | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const runSearch = async (base64: string) => {
+    setIsSearching(true);
+    setResult(null);
+    setError(null);
+    try {
+      const candidates = await fetchReports({ type: ReportType.FOUND, statuses: MATCHABLE_STATUSES }, CANDIDATE_LIMIT);
+      setResult(await searchByPhoto(base64, candidates.filter(r => isListed(r) && r.reporterId !== user.id)));
+    } catch (e) {
+      console.error("Photo search failed", e);
+      setError("Search failed. Check your connection and try again.");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      setError("That file isn't an image.");
+      return;
+    }
+    const reader = new FileReader();
+    reader.onloadend = async () => {
+      const base64 = await compressImage(reader.result as string, 800, 0.7);
+      setPhoto(base64);
+      runSearch(base64);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const details = result?.details;
+  const detailChips = details
+    ? [details.title, details.category, details.color, details.specs?.brand, details.specs?.model].filter((v): v is string => !!v)
+    : [];
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 sm:p-6 bg-slate-900/80 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-slate-950 w-full max-w-lg max-h-[90vh] rounded-[2rem] shadow-2xl border border-slate-200 dark:border-slate-800 flex flex-col overflow-hidden animate-in zoom-in-95 duration-300"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-5 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 rounded-xl bg-indigo-100 dark:bg-indigo-900/30 flex items-center justify-center text-indigo-600 dark:text-indigo-400 shrink-0">
+              <Camera className="w-5 h-5" />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-lg font-black text-slate-900 dark:text-white leading-none mb-1">Search by Photo</h2>
+              <p className="text-xs font-bold text-slate-500 truncate">A photo of your item, or one like it</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-400 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleFile} />
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          {!photo ? (
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full py-12 rounded-2xl border-2 border-dashed border-slate-200 dark:border-slate-800 hover:border-indigo-400 text-slate-500 flex flex-col items-center gap-3 transition-colors"
+            >
+              <ImagePlus className="w-8 h-8 text-indigo-500" />
+              <span className="text-sm font-bold">Choose a photo</span>
+              <span className="text-[11px] text-slate-400 max-w-xs">Your photo is only used for this search. It isn't uploaded or saved.</span>
+            </button>
+          ) : (
+            <div className="flex items-start gap-4">
+              <img src={photo} alt="Your photo" className="w-24 h-24 rounded-xl object-cover border border-slate-200 dark:border-slate-800 shrink-0" />
+              <div className="min-w-0 flex-1 space-y-2">
+                {isSearching ? (
+                  <p className="text-xs font-bold text-slate-500 flex items-center gap-2"><Loader2 className="w-4 h-4 animate-spin text-indigo-500" /> Looking through found items...</p>
+                ) : (
+                  <>
+                    {detailChips.length > 0 && (
+                      <div className="flex flex-wrap gap-1.5">
+                        {detailChips.map(chip => (
+                          <span key={chip} className="px-2 py-1 rounded-lg bg-indigo-50 dark:bg-indigo-900/20 text-indigo-700 dark:text-indigo-300 text-[11px] font-bold">{chip}</span>
+                        ))}
+                      </div>
+                    )}
+                    {result?.isOffline && (
+                      <p className="text-[11px] text-amber-600 dark:text-amber-400 flex items-center gap-1.5"><WifiOff className="w-3.5 h-3.5" /> AI unavailable: ranked by colour and shape only.</p>
+                    )}
+                  </>
+                )}
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isSearching}
+                  className="text-[11px] font-bold text-indigo-600 hover:text-indigo-500 flex items-center gap-1 disabled:opacity-50"
+                >
+                  <RefreshCw className="w-3 h-3" /> Try another photo
+                </button>
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-xs font-bold text-red-500 text-center">{error}</p>}
+
+          {result && (result.matches.length === 0 ? (
+            <p className="text-xs font-medium text-slate-500 text-center py-4">No open found reports look like this yet. Save a search on the dashboard to hear about new ones.</p>
+          ) : (
+            <div className="space-y-2">
+              {result.matches.map(({ report, confidence }) => {
+                const tier = getMatchTier(confidence);
+                return (
+                  <button
+                    key={report.id}
+                    onClick={() => onSelect(report)}
+                    className="w-full p-2.5 rounded-xl border border-slate-200 dark:border-slate-800 hover:border-indigo-300 flex items-center gap-3 text-left transition-colors"
+                  >
+                    <div className="w-14 h-14 rounded-lg overflow-hidden bg-slate-100 dark:bg-slate-800 shrink-0 flex items-center justify-center">
+                      {report.imageUrls[0] ? <img src={report.imageUrls[0]} className="w-full h-full object-cover" /> : <Box className="w-5 h-5 text-slate-400" />}
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <p className="text-xs font-bold text-slate-800 dark:text-slate-100 truncate">{report.title}</p>
+                      <p className="text-[10px] text-slate-400 truncate flex items-center gap-1"><MapPin className="w-3 h-3 shrink-0" /> {report.location} · {formatReportDate(report)}</p>
+                    </div>
+                    <span className={`shrink-0 px-2 py-1 rounded-lg border text-[10px] font-black ${tier.bg} ${tier.border} ${tier.color}`} title={tier.label}>
+                      {confidence}%
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PhotoSearchDialog;
@@ -3,6 +3,7 @@ import { User } from '../types';
 import { User as UserIcon, Mail, Building, Save, Camera, ArrowLeft, Loader2, Trash2, Edit3, AlertTriangle, LogOut } from 'lucide-react';
 import { db, auth } from '../services/firebase';
 import { uploadImage } from '../services/cloudinary';
+import WatchList from './WatchList';
 
 interface ProfileProps {
   user: User;
@@ -10,9 +11,10 @@ interface ProfileProps {
   onBack: () => void;
   onDeleteAccount: () => void;
   onLogout: () => void;
+  onOpenSearch: (query: string) => void;
 }
 
-const Profile: React.FC<ProfileProps> = ({ user, onUpdate, onBack, onDeleteAccount, onLogout }) => {
+const Profile: React.FC<ProfileProps> = ({ user, onUpdate, onBack, onDeleteAccount, onLogout, onOpenSearch }) => {
   const [name, setName] = useState(user.name);
   const [department, setDepartment] = useState(user.department || '');
   const [avatar, setAvatar] = useState(user.avatar || '');
@@ -171,6 +173,8 @@ const Profile: React.FC<ProfileProps> = ({ user, onUpdate, onBack, onDeleteAccou
               </div>
 
            </form>
+
+           <WatchList user={user} onOpenSearch={onOpenSearch} />
            
            {/* Account Actions */}
            <div className="mt-12 pt-8 border-t border-slate-200 dark:border-slate-800">
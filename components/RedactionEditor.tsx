@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RedactionRegion } from '../services/redaction';
+import { X, EyeOff, Trash2, Undo2, Loader2, Check } from 'lucide-react';
+
+interface RedactionEditorProps {
+  imageSrc: string; // Unredacted original
+  initialRegions: RedactionRegion[];
+  onSave: (regions: RedactionRegion[]) => Promise<void>;
+  onClose: () => void;
+}
+
+// Boxes smaller than this (0-1000 scale) are treated as accidental clicks
+const MIN_BOX_SIZE = 10;
+
+const toScale = (value: number, size: number) => Math.min(1000, Math.max(0, Math.round((value / size) * 1000)));
+
+// Lets the user draw extra pixelation boxes over the original photo before it is uploaded.
+const RedactionEditor: React.FC<RedactionEditorProps> = ({ imageSrc, initialRegions, onSave, onClose }) => {
+  const [regions, setRegions] = useState<RedactionRegion[]>(initialRegions);
+  const [draft, setDraft] = useState<RedactionRegion | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const startRef = useRef<{ y: number, x: number } | null>(null);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const pointFromEvent = (e: React.PointerEvent) => {
+    const rect = surfaceRef.current!.getBoundingClientRect();
+    return {
+      y: toScale(e.clientY - rect.top, rect.height),
+      x: toScale(e.clientX - rect.left, rect.width)
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (isSaving) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    startRef.current = pointFromEvent(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = startRef.current;
+    if (!start) return;
+    const point = pointFromEvent(e);
+    setDraft([Math.min(start.y, point.y), Math.min(start.x, point.x), Math.max(start.y, point.y), Math.max(start.x, point.x)]);
+  };
+
+  const handlePointerUp = () => {
+    if (draft && draft[2] - draft[0] >= MIN_BOX_SIZE && draft[3] - draft[1] >= MIN_BOX_SIZE) {
+      setRegions(prev => [...prev, draft]);
+    }
+    startRef.current = null;
+    setDraft(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(regions);
+    } catch (e) {
+      console.error("Redaction failed", e);
+      setError("Couldn't redact this photo. Remove it and upload a copy instead.");
+      setIsSaving(false);
+    }
+  };
+
+  const boxStyle = ([ymin, xmin, ymax, xmax]: RedactionRegion): React.CSSProperties => ({
+    top: `${ymin / 10}%`,
+    left: `${xmin / 10}%`,
+    height: `${(ymax - ymin) / 10}%`,
+    width: `${(xmax - xmin) / 10}%`
+  });
+
+  return (
+    <div className="fixed inset-0 z-[210] flex items-center justify-center p-4 bg-slate-900/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-slate-950 w-full max-w-2xl max-h-[90vh] rounded-[2rem] shadow-2xl border border-slate-200 dark:border-slate-800 flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <div className="w-9 h-9 rounded-xl bg-slate-100 dark:bg-slate-800 flex items-center justify-center text-slate-600 dark:text-slate-300">
+              <EyeOff className="w-4 h-4" />
+            </div>
+            <div>
+              <h2 className="text-base font-black text-slate-900 dark:text-white leading-none mb-1">Redact Photo</h2>
+              <p className="text-[11px] font-bold text-slate-500">Drag over faces, names or ID numbers to pixelate them.</p>
+            </div>
+          </div>
+          <button type="button" onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-400 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Drawing surface */}
+        <div className="flex-1 overflow-auto p-4 flex items-center justify-center bg-slate-50 dark:bg-slate-900">
+          <div
+            ref={surfaceRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className="relative inline-block select-none touch-none cursor-crosshair"
+          >
+            <img src={imageSrc} draggable={false} className="max-h-[60vh] max-w-full block rounded-lg" />
+            {regions.map((r, i) => (
+              <div key={i} style={boxStyle(r)} className="absolute bg-slate-900/70 border-2 border-white/80 rounded-sm group">
+                <button
+                  type="button"
+                  onPointerDown={(e) => e.stopPropagation()}
+                  onClick={() => setRegions(prev => prev.filter((_, idx) => idx !== i))}
+                  className="absolute -top-2.5 -right-2.5 bg-red-600 text-white rounded-full p-0.5 shadow"
+                  title="Remove box"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+            {draft && <div style={boxStyle(draft)} className="absolute border-2 border-dashed border-brand-violet bg-brand-violet/20 pointer-events-none" />}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-100 dark:border-slate-800 space-y-2">
+          {error && <p className="text-xs font-bold text-red-500 text-center">{error}</p>}
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setRegions(prev => prev.slice(0, -1))}
+              disabled={regions.length === 0 || isSaving}
+              className="px-3 py-2.5 rounded-xl text-xs font-bold bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 flex items-center gap-1.5 disabled:opacity-40"
+            >
+              <Undo2 className="w-3.5 h-3.5" /> Undo
+            </button>
+            <button
+              type="button"
+              onClick={() => setRegions([])}
+              disabled={regions.length === 0 || isSaving}
+              className="px-3 py-2.5 rounded-xl text-xs font-bold bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 flex items-center gap-1.5 disabled:opacity-40"
+            >
+              <Trash2 className="w-3.5 h-3.5" /> Clear
+            </button>
+            <span className="text-[10px] font-bold text-slate-400 ml-auto">{regions.length} area{regions.length === 1 ? '' : 's'}</span>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-5 py-2.5 rounded-xl text-xs font-bold bg-brand-violet hover:bg-[#4f4dbd] text-white flex items-center gap-1.5 disabled:opacity-50"
+            >
+              {isSaving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />} Apply
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RedactionEditor;
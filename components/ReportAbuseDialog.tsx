@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { AbuseReason, User } from '../types';
+import { ABUSE_REASONS, AbuseTarget, reasonLabel, submitFlag } from '../services/abuseFlags';
+import { X, Flag, Loader2 } from 'lucide-react';
+
+interface ReportAbuseDialogProps {
+  target: AbuseTarget;
+  user: User;
+  onClose: () => void;
+  onSubmitted: () => void;
+}
+
+const TARGET_LABELS: Record<AbuseTarget['targetType'], string> = {
+  REPORT: 'post',
+  CHAT: 'conversation',
+  MESSAGE: 'message'
+};
+
+// "Report" action for posts, chats and messages: a reason, optional details, and a preview of what moderators will see
+const ReportAbuseDialog: React.FC<ReportAbuseDialogProps> = ({ target, user, onClose, onSubmitted }) => {
+  const [reason, setReason] = useState<AbuseReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { evidence } = target;
+  const label = TARGET_LABELS[target.targetType];
+
+  const handleSubmit = async () => {
+    if (!reason) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await submitFlag(user, target, reason, details);
+      onSubmitted();
+    } catch (e: any) {
+      console.error("Failed to submit abuse report", e);
+      setError(e?.message || "Couldn't send the report. Try again.");
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 sm:p-6 bg-slate-900/80 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-slate-950 w-full max-w-md max-h-[90vh] rounded-[2rem] shadow-2xl border border-slate-200 dark:border-slate-800 flex flex-col overflow-hidden animate-in zoom-in-95 duration-300"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-5 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 rounded-xl bg-red-100 dark:bg-red-900/30 flex items-center justify-center text-red-600 dark:text-red-400 shrink-0">
+              <Flag className="w-5 h-5" />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-lg font-black text-slate-900 dark:text-white leading-none mb-1">Report this {label}</h2>
+              <p className="text-xs font-bold text-slate-500 truncate">Only moderators see your report.</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-400 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          {/* What gets attached */}
+          <div className="p-3 rounded-xl bg-slate-50 dark:bg-slate-900 border border-slate-100 dark:border-slate-800 space-y-1.5">
+            {evidence.title && <p className="text-xs font-bold text-slate-700 dark:text-slate-200 truncate">{evidence.title}</p>}
+            {evidence.text && <p className="text-xs text-slate-500 line-clamp-3">{evidence.text}</p>}
+            {evidence.messages && (
+              <p className="text-[10px] font-bold text-slate-400">The last {evidence.messages.length} message{evidence.messages.length === 1 ? '' : 's'} will be attached.</p>
+            )}
+            {evidence.imageUrls && evidence.imageUrls.length > 0 && (
+              <div className="flex gap-1.5 pt-1">
+                {evidence.imageUrls.map((url, i) => <img key={i} src={url} className="w-12 h-12 rounded-lg object-cover" />)}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-[11px] font-bold text-slate-500 uppercase ml-1">What's wrong?</h3>
+            <div className="grid grid-cols-2 gap-2">
+              {ABUSE_REASONS.map(r => (
+                <button
+                  key={r}
+                  onClick={() => setReason(r)}
+                  className={`px-3 py-2.5 rounded-xl border text-xs font-bold text-left transition-colors ${
+                    reason === r
+                      ? 'border-red-500 bg-red-50 text-red-600 dark:bg-red-900/20 dark:text-red-400'
+                      : 'border-slate-200 dark:border-slate-800 text-slate-600 dark:text-slate-300 hover:border-red-300'
+                  }`}
+                >
+                  {reasonLabel(r)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-[11px] font-bold text-slate-500 uppercase ml-1">Details {reason !== 'OTHER' && '(optional)'}</h3>
+            <textarea
+              value={details}
+              onChange={e => setDetails(e.target.value)}
+              rows={3}
+              maxLength={500}
+              placeholder="Anything that helps moderators understand what happened"
+              className="w-full px-4 py-3 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl text-sm font-medium outline-none focus:border-red-400 resize-none"
+            />
+          </div>
+
+          {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t border-slate-100 dark:border-slate-800">
+          <button
+            onClick={handleSubmit}
+            disabled={!reason || (reason === 'OTHER' && !details.trim()) || isSubmitting}
+            className="w-full py-3.5 bg-red-600 hover:bg-red-500 text-white rounded-xl font-bold text-sm transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Flag className="w-4 h-4" />} Send Report
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportAbuseDialog;
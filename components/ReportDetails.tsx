@@ -1,34 +1,71 @@
 
 import React, { useEffect, useState } from 'react';
-import { ItemReport, ReportType, User } from '../types';
+import { ItemReport, ReportStatus, ReportType, Resolution, User } from '../types';
 import { 
   X, MapPin, Calendar, Tag, Check, Sparkles, Loader2, 
   ArrowRight, Clock, Fingerprint, MessageCircle, ChevronLeft, ChevronRight, 
-  Box, Maximize2, FileText, ScanSearch, ArrowLeftRight, ExternalLink, AlertCircle, Cpu
+  Box, Maximize2, FileText, ScanSearch, ArrowLeftRight, ExternalLink, AlertCircle, Cpu, ShieldCheck, ShieldQuestion, Archive, PackageCheck, Gavel, ShieldAlert, Flag, History, RotateCcw, Hourglass, Heart
 } from 'lucide-react';
 import { findSmartMatches, getMatchTier } from '../services/geminiService';
+import { isVerifiedClaimant, requiresVerification } from '../services/claims';
+import ClaimsPanel from './ClaimsPanel';
+import { formatReportDate, formatReportTime, getOccurrence } from '../services/reportTime';
+import { formatCustodyLocation, getCustodyOffice, isInCustody, isStaff } from '../services/custody';
+import CustodyPanel from './CustodyPanel';
+import { hasPermission } from '../services/permissions';
+import { flagLabel } from '../services/moderationPolicy';
+import { appealModeration } from '../services/moderation';
+import { reportTarget } from '../services/abuseFlags';
+import ReportAbuseDialog from './ReportAbuseDialog';
+import { STATUS_LABELS, getStatus, isActive, isMatchable, pendingExpiry } from '../services/reportLifecycle';
+import { MAX_FEEDBACK_LENGTH, acceptResolution, declineResolution, formatDuration, leaveFeedback, subscribeToPendingResolutions, subscribeToResolution } from '../services/resolutions';
+import ResolveDialog from './ResolveDialog';
+import { fetchMatchCandidates, fetchReport } from '../services/reportQueries';
 
 interface ReportDetailsProps {
   report: ItemReport;
-  allReports: ItemReport[];
   currentUser: User;
   onClose: () => void;
-  onResolve: (id: string) => void;
+  onStatusChange: (report: ItemReport, status: ReportStatus) => void;
+  onRenew: (report: ItemReport) => void; // Restarts the expiry clock; reopens expired/withdrawn reports
+  onResolve: (report: ItemReport, match: ItemReport) => Promise<void>; // Proposes a return; both sides close once the other reporter confirms
   onEdit: (report: ItemReport) => void;
-  onDelete: (id: string) => void;
+  onDelete: (report: ItemReport) => void;
   onNavigateToChat: (report: ItemReport) => void;
   onViewMatch: (report: ItemReport) => void; // Used for "Switch to Item"
   onCompare?: (item1: ItemReport, item2: ItemReport) => void; // New prop for manual compare
 }
 
-const ReportDetails: React.FC<ReportDetailsProps> = ({ report, allReports, currentUser, onClose, onResolve, onEdit, onDelete, onNavigateToChat, onViewMatch, onCompare }) => {
+const ReportDetails: React.FC<ReportDetailsProps> = ({ report, currentUser, onClose, onStatusChange, onRenew, onResolve, onEdit, onDelete, onNavigateToChat, onViewMatch, onCompare }) => {
   const isOwner = report.reporterId === currentUser.id;
   const isLost = report.type === ReportType.LOST;
+  const needsVerification = requiresVerification(report);
+  const hasVerifiedOwner = (report.verifiedClaimantIds?.length || 0) > 0;
+  const canContact = !needsVerification || isVerifiedClaimant(report, currentUser.id);
+  const occurrence = getOccurrence(report);
+  const isWindow = !!occurrence && occurrence.end > occurrence.start;
+  const inCustody = isInCustody(report);
+  const custodyOffice = getCustodyOffice(report.custody?.officeId);
+  const staff = isStaff(currentUser);
+  const canModerate = hasPermission(currentUser, 'reports.moderate');
+  const status = getStatus(report);
+  const expiresAt = pendingExpiry(report);
   
   const [activeImg, setActiveImg] = useState(0);
   const [imgError, setImgError] = useState(false);
   const [confirmDelete, setConfirmDelete] = useState(false);
   const [showLightbox, setShowLightbox] = useState(false);
+  const [appealText, setAppealText] = useState('');
+  const [isAppealing, setIsAppealing] = useState(false);
+  const [showAbuseDialog, setShowAbuseDialog] = useState(false);
+  const [hasFlagged, setHasFlagged] = useState(false);
+  const [showResolveDialog, setShowResolveDialog] = useState(false);
+  const [resolution, setResolution] = useState<Resolution | null>(null);
+  const [matchReport, setMatchReport] = useState<ItemReport | null>(null);
+  const [thanksText, setThanksText] = useState('');
+  const [isSendingThanks, setIsSendingThanks] = useState(false);
+  const [pendingResolutions, setPendingResolutions] = useState<Resolution[]>([]);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
 
   // Scan State
   const [isScanning, setIsScanning] = useState(false);
@@ -52,12 +89,53 @@ const ReportDetails: React.FC<ReportDetailsProps> = ({ report, allReports, curre
     setScanResults(null); // Reset scan when report changes
   }, [report.id]);
 
+  useEffect(() => {
+    setMatchReport(null);
+    if (!report.resolution) return;
+    fetchReport(report.resolution.matchReportId)
+      .then(setMatchReport)
+      .catch(e => console.warn("Failed to load the matching report", e));
+  }, [report.resolution?.matchReportId]);
+
+  // The resolution itself (thank-you note, time to recovery) is only readable by the two reporters
+  const isResolutionParty = isOwner || matchReport?.reporterId === currentUser.id;
+  useEffect(() => {
+    setResolution(null);
+    if (!report.resolution || !isResolutionParty) return;
+    const unsubscribe = subscribeToResolution(report.resolution.id, setResolution);
+    return () => unsubscribe();
+  }, [report.resolution?.id, isResolutionParty]);
+
+  // Proposed returns involving this report, waiting for the other reporter (or for us)
+  const canConfirmReturn = isOwner && isActive(report);
+  useEffect(() => {
+    setPendingResolutions([]);
+    if (!canConfirmReturn) return;
+    const unsubscribe = subscribeToPendingResolutions(currentUser.id, (list) => {
+      setPendingResolutions(list.filter(r => r.lostReportId === report.id || r.foundReportId === report.id));
+    });
+    return () => unsubscribe();
+  }, [report.id, currentUser.id, canConfirmReturn]);
+
+  const handleRespond = async (resolution: Resolution, accept: boolean) => {
+    setRespondingId(resolution.id);
+    try {
+      if (accept) await acceptResolution(resolution, currentUser);
+      else await declineResolution(resolution, currentUser);
+    } catch (e: any) {
+      console.error("Resolution response failed", e);
+      window.dispatchEvent(new CustomEvent('retriva-toast', { detail: { message: e?.message || "Update failed.", type: 'alert' } }));
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
   const handleScanNow = async () => {
     setIsScanning(true);
     setScanResults(null);
     try {
         // USE SMART MATCH LOGIC - Returns { report, confidence }[]
-        const results = await findSmartMatches(report, allReports);
+        const results = await findSmartMatches(report, await fetchMatchCandidates(report));
         setScanResults(results);
     } catch (e) {
         console.error(e);
@@ -67,6 +145,32 @@ const ReportDetails: React.FC<ReportDetailsProps> = ({ report, allReports, curre
     }
   };
 
+  const handleAppeal = async () => {
+    if (!appealText.trim()) return;
+    setIsAppealing(true);
+    try {
+      await appealModeration(report, appealText);
+      setAppealText('');
+    } catch (e) {
+      console.error("Appeal failed", e);
+    } finally {
+      setIsAppealing(false);
+    }
+  };
+
+  const handleSendThanks = async () => {
+    if (!resolution || !thanksText.trim()) return;
+    setIsSendingThanks(true);
+    try {
+      await leaveFeedback(resolution, currentUser, thanksText);
+      setThanksText('');
+    } catch (e) {
+      console.error("Thank-you note failed", e);
+    } finally {
+      setIsSendingThanks(false);
+    }
+  };
+
   return (
     <div className="fixed inset-0 z-[70] flex items-center justify-center p-0 sm:p-4 md:p-6 bg-slate-900/80 backdrop-blur-sm animate-fade-in">
       
@@ -186,7 +290,7 @@ const ReportDetails: React.FC<ReportDetailsProps> = ({ report, allReports, curre
                       <Tag className="w-3 h-3" /> {report.category}
                     </span>
                     <span className="px-2.5 py-1 bg-slate-100 dark:bg-slate-800 rounded-md text-[10px] font-bold uppercase tracking-wider text-slate-500 dark:text-slate-400 flex items-center gap-1">
-                      <Calendar className="w-3 h-3" /> {report.date}
+                      <Calendar className="w-3 h-3" /> {formatReportDate(report)}
                     </span>
                  </div>
 
@@ -195,7 +299,7 @@ const ReportDetails: React.FC<ReportDetailsProps> = ({ report, allReports, curre
                  </h1>
 
                  {/* ACTION: SCAN FOR MATCHES */}
-                 {report.status === 'OPEN' && (
+                 {isMatchable(report) && (
                    <div className="space-y-4">
                        {!scanResults ? (
                             <button 
@@ -308,20 +412,154 @@ const ReportDetails: React.FC<ReportDetailsProps> = ({ report, allReports, curre
                 </p>
               </div>
 
+              {/* Moderation (reporter only: others can't see unapproved reports) */}
+              {isOwner && report.moderation && report.moderation.status !== 'APPROVED' && (
+                <div className={`p-4 rounded-2xl border space-y-3 ${report.moderation.status === 'REJECTED' ? 'bg-red-50/60 dark:bg-red-900/10 border-red-200 dark:border-red-900' : 'bg-amber-50/60 dark:bg-amber-900/10 border-amber-200 dark:border-amber-900'}`}>
+                   <div className="flex items-start gap-3">
+                      <ShieldAlert className={`w-5 h-5 shrink-0 ${report.moderation.status === 'REJECTED' ? 'text-red-500' : 'text-amber-500'}`} />
+                      <div className="space-y-1">
+                         <h4 className="text-sm font-bold text-slate-900 dark:text-white">
+                            {report.moderation.status === 'REJECTED' ? 'Not approved' : report.moderation.appeal ? 'Appeal under review' : 'Waiting for review'}
+                         </h4>
+                         <p className="text-xs text-slate-600 dark:text-slate-300">
+                            {report.moderation.status === 'REJECTED'
+                               ? `Only you can see this report.${report.moderation.note ? ` Moderator: "${report.moderation.note}"` : ''}`
+                               : 'Only you can see this report until a moderator approves it.'}
+                         </p>
+                         <ul className="text-[11px] text-slate-500 list-disc ml-4">
+                            {report.moderation.flags.map((flag, i) => <li key={i}><span className="font-bold">{flagLabel(flag)}:</span> {flag.reason}</li>)}
+                         </ul>
+                      </div>
+                   </div>
+                   {report.moderation.status === 'REJECTED' && !report.moderation.appeal && (
+                      <div className="flex gap-2">
+                         <input
+                            value={appealText}
+                            onChange={e => setAppealText(e.target.value)}
+                            placeholder="Why should this be approved?"
+                            className="flex-1 px-3 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl text-xs font-medium outline-none focus:border-indigo-500"
+                         />
+                         <button onClick={handleAppeal} disabled={!appealText.trim() || isAppealing} className="px-4 py-2 bg-brand-violet text-white rounded-xl text-xs font-bold flex items-center gap-1.5 disabled:opacity-50">
+                            {isAppealing && <Loader2 className="w-3.5 h-3.5 animate-spin" />} Appeal
+                         </button>
+                      </div>
+                   )}
+                </div>
+              )}
+
+              {/* Expiry nudge (reporter only) */}
+              {isOwner && expiresAt && (
+                <div className="p-4 rounded-2xl border bg-amber-50/60 dark:bg-amber-900/10 border-amber-200 dark:border-amber-900 flex items-center gap-3">
+                   <Hourglass className="w-5 h-5 shrink-0 text-amber-500" />
+                   <div className="flex-1">
+                      <h4 className="text-sm font-bold text-slate-900 dark:text-white">Still looking?</h4>
+                      <p className="text-xs text-slate-600 dark:text-slate-300">This report expires on {new Date(expiresAt).toLocaleDateString()}.</p>
+                   </div>
+                   <button onClick={() => onRenew(report)} className="px-4 py-2 bg-amber-500 hover:bg-amber-400 text-white rounded-xl text-xs font-bold">
+                      Keep it open
+                   </button>
+                </div>
+              )}
+
+              {/* Custody */}
+              {report.custody && (
+                <div className={`p-4 rounded-2xl border flex items-start gap-3 ${inCustody ? 'bg-emerald-50/60 dark:bg-emerald-900/10 border-emerald-200 dark:border-emerald-900' : 'bg-slate-50 dark:bg-slate-900/50 border-slate-100 dark:border-slate-800'}`}>
+                   <div className="p-1.5 bg-white dark:bg-slate-800 rounded-lg">
+                      {inCustody ? <Archive className="w-4 h-4 text-emerald-500" /> : <PackageCheck className="w-4 h-4 text-slate-400" />}
+                   </div>
+                   <div>
+                      <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{inCustody ? 'Held At' : 'Returned'}</h4>
+                      <p className="text-sm font-bold text-slate-900 dark:text-white leading-snug">
+                         {inCustody ? formatCustodyLocation(report.custody) : `Released from ${custodyOffice?.name || report.custody.officeId}`}
+                      </p>
+                      {inCustody && custodyOffice?.hours && <p className="text-[10px] font-medium text-slate-500 mt-0.5">{custodyOffice.hours}</p>}
+                   </div>
+                </div>
+              )}
+
+              {/* Proposed Returns */}
+              {pendingResolutions.map(r => {
+                 const matchTitle = r.lostReportId === report.id ? r.foundTitle : r.lostTitle;
+                 const isProposer = r.resolvedBy === currentUser.id;
+                 return (
+                   <div key={r.id} className="p-4 rounded-2xl border bg-amber-50/60 dark:bg-amber-900/10 border-amber-200 dark:border-amber-900 space-y-3">
+                      <div className="flex items-start gap-3">
+                         <div className="p-1.5 bg-white dark:bg-slate-800 rounded-lg"><Hourglass className="w-4 h-4 text-amber-500" /></div>
+                         <div className="min-w-0">
+                            <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Return to Confirm</h4>
+                            <p className="text-sm font-bold text-slate-900 dark:text-white leading-snug">
+                               {isProposer
+                                 ? `Waiting for the reporter of "${matchTitle}" to confirm.`
+                                 : `The reporter of "${matchTitle}" says this was returned through it.`}
+                            </p>
+                         </div>
+                      </div>
+                      {!isProposer && (
+                         <div className="grid grid-cols-2 gap-2">
+                            <button onClick={() => handleRespond(r, false)} disabled={respondingId === r.id} className="py-2 rounded-xl text-xs font-bold bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-600 dark:text-slate-300 disabled:opacity-50 flex items-center justify-center gap-1.5">
+                               <X className="w-3.5 h-3.5" /> Not This One
+                            </button>
+                            <button onClick={() => handleRespond(r, true)} disabled={respondingId === r.id} className="py-2 rounded-xl text-xs font-bold bg-emerald-600 hover:bg-emerald-500 text-white disabled:opacity-50 flex items-center justify-center gap-1.5">
+                               {respondingId === r.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />} Confirm Return
+                            </button>
+                         </div>
+                      )}
+                   </div>
+                 );
+              })}
+
+              {/* Resolution */}
+              {report.resolution && (
+                <div className="p-4 rounded-2xl border bg-emerald-50/60 dark:bg-emerald-900/10 border-emerald-200 dark:border-emerald-900 space-y-3">
+                   <div className="flex items-start gap-3">
+                      <div className="p-1.5 bg-white dark:bg-slate-800 rounded-lg"><PackageCheck className="w-4 h-4 text-emerald-500" /></div>
+                      <div className="min-w-0">
+                         <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Returned</h4>
+                         <p className="text-sm font-bold text-slate-900 dark:text-white leading-snug">
+                            Returned via{' '}
+                            {matchReport ? (
+                               <button onClick={() => onViewMatch(matchReport)} className="underline decoration-emerald-400 underline-offset-2 hover:text-emerald-600">{report.resolution.matchTitle}</button>
+                            ) : `"${report.resolution.matchTitle}"`}
+                            {' '}on {new Date(report.resolution.resolvedAt).toLocaleDateString()}
+                         </p>
+                         {resolution && <p className="text-[10px] font-medium text-slate-500 mt-0.5">Recovered in {formatDuration(resolution.recoveryMs)}</p>}
+                      </div>
+                   </div>
+                   {resolution?.feedback ? (
+                      <p className="text-xs text-slate-600 dark:text-slate-300 flex gap-2">
+                         <Heart className="w-3.5 h-3.5 text-pink-500 shrink-0 mt-0.5" /> "{resolution.feedback.message}"
+                      </p>
+                   ) : resolution && resolution.ownerId === currentUser.id && (
+                      <div className="flex gap-2">
+                         <input
+                            value={thanksText}
+                            onChange={(e) => setThanksText(e.target.value)}
+                            maxLength={MAX_FEEDBACK_LENGTH}
+                            placeholder="Say thanks to the finder"
+                            className="flex-1 px-3 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl text-xs font-medium outline-none focus:border-emerald-400"
+                         />
+                         <button onClick={handleSendThanks} disabled={!thanksText.trim() || isSendingThanks} className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl text-xs font-bold disabled:opacity-50 flex items-center gap-1.5">
+                            {isSendingThanks ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Heart className="w-3.5 h-3.5" />} Send
+                         </button>
+                      </div>
+                   )}
+                </div>
+              )}
+
               {/* Features & Location Grid */}
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                  <div className="p-4 rounded-2xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 flex items-start gap-3">
                     <div className="p-1.5 bg-slate-50 dark:bg-slate-800 rounded-lg"><MapPin className="w-4 h-4 text-slate-400" /></div>
                     <div>
-                       <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Location</h4>
-                       <p className="text-sm font-bold text-slate-900 dark:text-white leading-snug">{report.location}</p>
+                       <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{report.route?.length ? 'Route' : 'Location'}</h4>
+                       <p className="text-sm font-bold text-slate-900 dark:text-white leading-snug">{[report.location, ...(report.route || []).map(stop => stop.label)].join(' → ')}</p>
                     </div>
                  </div>
                  <div className="p-4 rounded-2xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 flex items-start gap-3">
                     <div className="p-1.5 bg-slate-50 dark:bg-slate-800 rounded-lg"><Clock className="w-4 h-4 text-slate-400" /></div>
                     <div>
-                       <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Time</h4>
-                       <p className="text-sm font-bold text-slate-900 dark:text-white leading-snug">{report.time}</p>
+                       <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{isWindow ? 'Lost Between' : 'Time'}</h4>
+                       <p className="text-sm font-bold text-slate-900 dark:text-white leading-snug">{formatReportTime(report)}</p>
                     </div>
                  </div>
               </div>
@@ -341,22 +579,82 @@ const ReportDetails: React.FC<ReportDetailsProps> = ({ report, allReports, curre
                    </div>
                 </div>
               )}
+
+              {/* Custody Actions & Log (staff and reporter) */}
+              {(staff || (isOwner && report.custody)) && (
+                <div className="space-y-3 pb-6">
+                   <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest flex items-center gap-1.5">
+                     <Archive className="w-3 h-3" /> Custody
+                   </h3>
+                   <CustodyPanel report={report} currentUser={currentUser} />
+                </div>
+              )}
+
+              {/* Status History (reporter and staff) */}
+              {(isOwner || staff) && report.statusHistory && report.statusHistory.length > 1 && (
+                <div className="space-y-3 pb-6">
+                   <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest flex items-center gap-1.5">
+                     <History className="w-3 h-3" /> Status History
+                   </h3>
+                   <ol className="space-y-1.5">
+                      {report.statusHistory.map((change, i) => (
+                         <li key={i} className="text-xs text-slate-500 flex gap-2">
+                            <span className="font-bold text-slate-700 dark:text-slate-200 w-32 shrink-0">{STATUS_LABELS[change.to]}</span>
+                            <span>{new Date(change.at).toLocaleString()}{change.by === 'system' ? ' · automatic' : ''}{change.note ? ` · ${change.note}` : ''}</span>
+                         </li>
+                      ))}
+                   </ol>
+                </div>
+              )}
+
+              {/* Ownership Claims (finder only) */}
+              {isOwner && needsVerification && (
+                <div className="space-y-3 pb-6">
+                   <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest flex items-center gap-1.5">
+                     <ShieldCheck className="w-3 h-3" /> Ownership Claims
+                   </h3>
+                   <ClaimsPanel report={report} currentUser={currentUser} />
+                </div>
+              )}
            </div>
 
            {/* Sticky Footer */}
            <div className="p-4 md:p-6 border-t border-slate-100 dark:border-slate-800 bg-white dark:bg-slate-950 shrink-0 z-20">
               {isOwner ? (
                 <div className="space-y-3">
-                   {report.status === 'OPEN' ? (
-                      <button 
-                        onClick={() => onResolve(report.id)}
-                        className="w-full py-3.5 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl font-bold text-sm shadow-lg shadow-emerald-500/20 transition-all flex items-center justify-center gap-2 active:scale-95"
+                   {inCustody ? (
+                      <div className="w-full py-3 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-300 rounded-xl font-bold text-center text-xs">
+                         Held at {formatCustodyLocation(report.custody!)}. Staff release it to the owner.
+                      </div>
+                   ) : isActive(report) ? (
+                      <>
+                        <button 
+                          onClick={() => setShowResolveDialog(true)}
+                          disabled={needsVerification && !hasVerifiedOwner}
+                          className="w-full py-3.5 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl font-bold text-sm shadow-lg shadow-emerald-500/20 transition-all flex items-center justify-center gap-2 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed disabled:active:scale-100"
+                        >
+                           <Check className="w-5 h-5" /> Mark Returned
+                        </button>
+                        {needsVerification && !hasVerifiedOwner && (
+                          <p className="text-[10px] font-bold text-slate-400 text-center">Verify the owner first</p>
+                        )}
+                        <button
+                          onClick={() => onStatusChange(report, 'WITHDRAWN')}
+                          className="w-full py-1 text-[11px] font-bold text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 transition-colors"
+                        >
+                           No longer needed? Withdraw report
+                        </button>
+                      </>
+                   ) : status === 'EXPIRED' || status === 'WITHDRAWN' ? (
+                      <button
+                        onClick={() => onRenew(report)}
+                        className="w-full py-3.5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl font-bold text-sm transition-all flex items-center justify-center gap-2 active:scale-95"
                       >
-                         <Check className="w-5 h-5" /> Mark Resolved
+                         <RotateCcw className="w-4 h-4" /> {STATUS_LABELS[status]} · Reopen
                       </button>
                    ) : (
                       <div className="w-full py-3 bg-slate-100 dark:bg-slate-800 text-slate-400 rounded-xl font-bold text-center text-xs uppercase tracking-widest">
-                         Resolved
+                         {STATUS_LABELS[status]}
                       </div>
                    )}
                    
@@ -370,7 +668,7 @@ const ReportDetails: React.FC<ReportDetailsProps> = ({ report, allReports, curre
                       <button 
                          onClick={(e) => {
                             e.stopPropagation(); 
-                            if (confirmDelete) onDelete(report.id);
+                            if (confirmDelete) onDelete(report);
                             else {
                                setConfirmDelete(true);
                                setTimeout(() => setConfirmDelete(false), 3000);
@@ -384,19 +682,89 @@ const ReportDetails: React.FC<ReportDetailsProps> = ({ report, allReports, curre
                       </button>
                    </div>
                 </div>
+              ) : !isActive(report) ? (
+                <div className="w-full py-3 bg-slate-100 dark:bg-slate-800 text-slate-400 rounded-xl font-bold text-center text-xs uppercase tracking-widest">
+                   {STATUS_LABELS[status]}
+                </div>
+              ) : inCustody ? (
+                <div className="space-y-3">
+                   <p className="text-xs font-medium text-slate-500 text-center">
+                      Collect it from <span className="font-bold text-slate-800 dark:text-slate-200">{formatCustodyLocation(report.custody!)}</span>. Bring your student ID.
+                   </p>
+                   {!canContact && (
+                      <button
+                        onClick={() => onNavigateToChat(report)}
+                        className="w-full py-4 bg-brand-violet hover:bg-[#4f4dbd] text-white rounded-xl font-bold text-sm shadow-xl shadow-brand-violet/25 transition-all flex items-center justify-center gap-2 active:scale-95"
+                      >
+                        <ShieldQuestion className="w-5 h-5" /> Verify Ownership to Collect
+                      </button>
+                   )}
+                </div>
               ) : (
                 <button 
                   onClick={() => onNavigateToChat(report)} 
                   className="w-full py-4 bg-brand-violet hover:bg-[#4f4dbd] text-white rounded-xl font-bold text-sm shadow-xl shadow-brand-violet/25 transition-all flex items-center justify-center gap-2 active:scale-95"
                 >
-                  <MessageCircle className="w-5 h-5" /> 
-                  Contact {isLost ? 'Owner' : 'Finder'}
+                  {canContact ? (
+                    <><MessageCircle className="w-5 h-5" /> Contact {isLost ? 'Owner' : 'Finder'}</>
+                  ) : (
+                    <><ShieldQuestion className="w-5 h-5" /> Verify Ownership to Contact</>
+                  )}
+                </button>
+              )}
+
+              {/* Moderation: remove someone else's report */}
+              {!isOwner && canModerate && (
+                <button
+                   onClick={() => {
+                      if (confirmDelete) onDelete(report);
+                      else {
+                         setConfirmDelete(true);
+                         setTimeout(() => setConfirmDelete(false), 3000);
+                      }
+                   }}
+                   className={`mt-3 w-full py-2.5 rounded-xl font-bold text-xs flex items-center justify-center gap-1.5 transition-colors ${
+                      confirmDelete ? 'bg-red-600 text-white' : 'bg-red-50 text-red-600 dark:bg-red-900/20 dark:text-red-400'
+                   }`}
+                >
+                   <Gavel className="w-3.5 h-3.5" /> {confirmDelete ? 'Confirm removal?' : 'Remove Report (Moderator)'}
+                </button>
+              )}
+
+              {!isOwner && (
+                <button
+                   onClick={() => setShowAbuseDialog(true)}
+                   disabled={hasFlagged}
+                   className="mt-3 w-full py-1.5 text-[11px] font-bold text-slate-400 hover:text-red-500 flex items-center justify-center gap-1.5 transition-colors disabled:hover:text-slate-400"
+                >
+                   <Flag className="w-3 h-3" /> {hasFlagged ? 'Reported to moderators' : 'Report this post'}
                 </button>
               )}
            </div>
 
         </div>
       </div>
+
+      {showResolveDialog && (
+        <ResolveDialog
+          report={report}
+          onResolve={(match) => onResolve(report, match)}
+          onReturnedElsewhere={() => onStatusChange(report, 'RETURNED')}
+          onClose={() => setShowResolveDialog(false)}
+        />
+      )}
+
+      {showAbuseDialog && (
+        <ReportAbuseDialog
+          target={reportTarget(report)}
+          user={currentUser}
+          onClose={() => setShowAbuseDialog(false)}
+          onSubmitted={() => {
+            setShowAbuseDialog(false);
+            setHasFlagged(true);
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -1,20 +1,32 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { ItemReport, ReportType, ItemCategory, User } from '../types';
-import { analyzeItemDescription, instantImageCheck, extractVisualDetails, mergeDescriptions, detectRedactionRegions, validateReportContext } from '../services/geminiService';
+import { ItemReport, ReportType, ItemCategory, User, GeminiAnalysisResult, VerificationSecret, LocationRef, LatLng, RouteStop, ModerationFlag } from '../types';
+import { analyzeItemDescription, instantImageCheck, extractVisualDetails, mergeDescriptions, detectRedactionRegions, validateReportContext, embedReport } from '../services/geminiService';
 import { uploadImage } from '../services/cloudinary';
-import { Loader2, MapPin, X, Check, Sparkles, Box, SearchX, ShieldBan, UploadCloud, AlertCircle, Wand2, Info, LayoutTemplate, Palette, Tag, EyeOff, Edit2, ShieldAlert, Cpu, Layers } from 'lucide-react';
+import { computeVisualSignature } from '../services/visualSignature';
+import { applyRedactions, dataUrlToFile, RedactionRegion } from '../services/redaction';
+import RedactionEditor from './RedactionEditor';
+import LocationPicker from './LocationPicker';
+import CampusMap from './CampusMap';
+import { formatLocation, getLocationRef, nearestBuilding } from '../services/campusLocations';
+import { campusTimeZone, epochToZonedInput, getOccurrence, viewerTimeZone, zonedInputToEpoch } from '../services/reportTime';
+import { buildVerificationQuestion, fetchVerificationSecrets, MARKS_QUESTION_ID, specQuestionId } from '../services/claims';
+import { CUSTODY_OFFICES, isStaff, newCustody } from '../services/custody';
+import { initialStatus } from '../services/reportLifecycle';
+import { flagLabel, policyAction } from '../services/moderationPolicy';
+import { newModeration } from '../services/moderation';
+import { Loader2, MapPin, X, Check, Sparkles, Box, SearchX, ShieldBan, UploadCloud, AlertCircle, Wand2, Info, LayoutTemplate, Palette, Tag, EyeOff, Edit2, ShieldAlert, Cpu, Layers, Lock, Unlock, Map as MapIcon, Plus, Route, Clock, Archive } from 'lucide-react';
 
 interface ReportFormProps {
   type: ReportType;
   user: User;
   initialData?: ItemReport;
-  onSubmit: (report: ItemReport) => void;
+  onSubmit: (report: ItemReport, secrets?: VerificationSecret[]) => void;
   onCancel: () => void;
 }
 
 type AIFeedback = {
-  severity: 'BLOCK' | 'CAUTION' | 'SUCCESS';
+  severity: 'BLOCK' | 'REVIEW' | 'CAUTION' | 'SUCCESS';
   type: string;
   message: string;
   actionLabel?: string;
@@ -22,10 +34,16 @@ type AIFeedback = {
 };
 
 interface ImageStatus {
-  url: string; // Base64 for preview, or Cloudinary URL for existing
-  file?: File; // Raw file to upload
+  url: string; // Base64 for preview (redacted if regions exist), or Cloudinary URL for existing
+  file?: File; // File to upload (the redacted copy when regions exist)
   status: 'checking' | 'valid' | 'prank' | 'caution' | 'redacted';
   reason?: string;
+  original?: string; // Unredacted source, kept in memory only so boxes can be re-edited
+  originalFile?: File;
+  regions?: RedactionRegion[];
+  unverified?: boolean; // Safety check couldn't run
+  flag?: ModerationFlag; // Flagged by the safety check; the report goes to moderator review
+  privacyCheck?: boolean; // Document or failed privacy scan, nothing covered: not uploaded until redacted or confirmed
 }
 
 // --- SCHEMA DEFINITIONS ---
@@ -73,12 +91,38 @@ const ReportForm: React.FC<ReportFormProps> = ({ type: initialType, user, initia
   const [reportType, setReportType] = useState<ReportType>(initialData?.type || initialType);
   const isLost = reportType === ReportType.LOST;
   const isEdit = !!initialData;
+  const canRegisterCustody = !isEdit && !isLost && isStaff(user);
   
+  // Dates and times are entered in campus time, whatever zone the device is in
+  const [initialTimes] = useState(() => {
+    const occurrence = initialData ? getOccurrence(initialData) : null;
+    const timeZone = occurrence?.timeZone || campusTimeZone(initialData?.locationRef?.campusId);
+    return {
+      timeZone,
+      start: epochToZonedInput(occurrence?.start ?? Date.now(), timeZone),
+      end: occurrence && occurrence.end > occurrence.start ? epochToZonedInput(occurrence.end, timeZone) : null
+    };
+  });
+  const timeZone = initialTimes.timeZone;
+
   // Basic Fields
-  const [date, setDate] = useState(initialData?.date ? convertDDMMtoYYYYMM(initialData.date) : new Date().toISOString().split('T')[0]);
-  const [time, setTime] = useState(initialData?.time || new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false }));
+  const [date, setDate] = useState(initialTimes.start.date);
+  const [time, setTime] = useState(initialTimes.start.time);
   const [title, setTitle] = useState(initialData?.title || '');
   const [location, setLocation] = useState(initialData?.location || '');
+  // Older reports only have free text; resolve it so edits pick up the structured location
+  const [locationRef, setLocationRef] = useState<LocationRef | undefined>(initialData ? getLocationRef(initialData) || undefined : undefined);
+  const [pin, setPin] = useState<LatLng | undefined>(initialData?.pin);
+  const [showMap, setShowMap] = useState(!!initialData?.pin);
+
+  // LOST only: time window and route ("somewhere between the library and the canteen, 10:00-14:30")
+  const [hasWindow, setHasWindow] = useState(!!initialTimes.end);
+  const [untilDate, setUntilDate] = useState(initialTimes.end?.date || date);
+  const [untilTime, setUntilTime] = useState(initialTimes.end?.time || time);
+  const [route, setRoute] = useState<RouteStop[]>(initialData?.route || []);
+  // Staff filing a FOUND item that's already at the desk register it straight into custody
+  const [custodyOfficeId, setCustodyOfficeId] = useState(CUSTODY_OFFICES[0].id);
+  const [custodyBinId, setCustodyBinId] = useState('');
   const [category, setCategory] = useState<ItemCategory>(initialData?.category || ItemCategory.OTHER);
   
   // Structured Specs
@@ -90,9 +134,13 @@ const ReportForm: React.FC<ReportFormProps> = ({ type: initialType, user, initia
   const [isDescriptionGenerated, setIsDescriptionGenerated] = useState(!!initialData?.description);
   const [isEditingDescription, setIsEditingDescription] = useState(false);
   const [tags, setTags] = useState<string[]>(initialData?.tags || []);
+
+  // Verification secrets (FOUND only): hidden from the public report, used to quiz claimants
+  const [secretSpecKeys, setSecretSpecKeys] = useState<string[]>([]);
+  const [marksSecret, setMarksSecret] = useState(false);
   
   const [imageStatuses, setImageStatuses] = useState<ImageStatus[]>(
-    initialData?.imageUrls.map(url => ({ url, status: 'valid' })) || []
+    initialData?.imageUrls.map(url => ({ url, status: 'valid', original: url, regions: [] })) || []
   );
   
   // AI State
@@ -105,6 +153,7 @@ const ReportForm: React.FC<ReportFormProps> = ({ type: initialType, user, initia
   const [aiFeedback, setAiFeedback] = useState<AIFeedback | null>(null);
   const [formError, setFormError] = useState<string | null>(null);
   const [visualInsights, setVisualInsights] = useState<any>(null);
+  const [redactingIndex, setRedactingIndex] = useState<number | null>(null);
   
   // Refs
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -117,29 +166,29 @@ const ReportForm: React.FC<ReportFormProps> = ({ type: initialType, user, initia
     return () => { document.body.style.overflow = ''; };
   }, []);
 
+  // Restore hidden values when editing a report that has verification secrets
+  useEffect(() => {
+    if (!initialData?.verificationQuestions?.length) return;
+    fetchVerificationSecrets(initialData.id).then(secrets => {
+      const specSecrets = secrets.filter(s => s.questionId !== MARKS_QUESTION_ID);
+      const marks = secrets.find(s => s.questionId === MARKS_QUESTION_ID);
+      setSpecs(prev => ({
+        ...prev,
+        ...Object.fromEntries(specSecrets.map(s => [s.questionId.replace(/^spec_/, ''), s.answer]))
+      }));
+      setSecretSpecKeys(specSecrets.map(s => s.questionId.replace(/^spec_/, '')));
+      if (marks) {
+        setDistinguishingMarks(marks.answer);
+        setMarksSecret(true);
+      }
+    }).catch(e => console.error("Failed to load verification secrets", e));
+  }, [initialData?.id]);
+
   // Update Specs when Category Changes (Preserve overlapping keys)
   useEffect(() => {
     // Optional: clear specs on category change if desired, or keep generic keys
   }, [category]);
 
-  // Helper to convert DD/MM/YYYY (stored) back to YYYY-MM-DD (input)
-  function convertDDMMtoYYYYMM(dateStr: string) {
-    if (dateStr.includes('/')) {
-        const [d, m, y] = dateStr.split('/');
-        return `${y}-${m}-${d}`;
-    }
-    return dateStr;
-  }
-
-  // Helper to convert YYYY-MM-DD (input) to DD/MM/YYYY (storage)
-  function formatToDDMMYYYY(dateStr: string) {
-    if (dateStr.includes('-')) {
-        const [y, m, d] = dateStr.split('-');
-        return `${d}/${m}/${y}`;
-    }
-    return dateStr;
-  }
-
   const handleSpecChange = (key: string, value: string) => {
       setSpecs(prev => ({ ...prev, [key]: value }));
   };
@@ -156,35 +205,57 @@ const ReportForm: React.FC<ReportFormProps> = ({ type: initialType, user, initia
         let base64 = reader.result as string;
         const originalBase64 = base64; 
         
-        setImageStatuses(prev => [...prev, { url: base64, file: file, status: 'checking' }]);
+        setImageStatuses(prev => [...prev, { url: base64, file: file, status: 'checking', original: base64, originalFile: file, regions: [] }]);
         const newImageIndex = imageStatuses.length; 
 
         // A. Security & Context Check
         let needsRedaction = false;
+        let needsReview = false; // Unverified or flagged: stays 'caution' whatever the redaction finds
         try {
-            const security = await instantImageCheck(originalBase64);
-            
-            if (security.violationType === 'HUMAN_PORTRAIT') {
-                 setImageStatuses(prev => prev.map((s, i) => i === newImageIndex ? { ...s, status: 'prank' } : s));
-                 setAiFeedback({ 
-                    severity: 'BLOCK', 
-                    type: 'PORTRAIT', 
-                    message: "Humans/Selfies are not allowed. Only photos of items.", 
-                    onAction: () => removeImage(newImageIndex) 
-                 });
-                 return;
+            const securityResult = await instantImageCheck(originalBase64);
+
+            // An unreadable reply is not a pass: keep the image but flag it for review
+            if (securityResult.status === 'invalid') {
+                needsReview = true;
+                setImageStatuses(prev => prev.map((s, i) => i === newImageIndex ? { ...s, status: 'caution', reason: 'Safety check unavailable', unverified: true } : s));
+                setAiFeedback({
+                    severity: 'CAUTION',
+                    type: 'CHECK_FAILED',
+                    message: "Couldn't verify this photo automatically. Make sure it shows only the item.",
+                    actionLabel: 'Ok',
+                    onAction: () => setAiFeedback(null)
+                });
             }
 
-            // Fix: Removed redundant check for 'HUMAN_PORTRAIT' as it is handled in the previous block.
+            const security = securityResult.data;
+
             if (security.violationType !== 'NONE') {
-                setImageStatuses(prev => prev.map((s, i) => i === newImageIndex ? { ...s, status: 'prank' } : s));
-                setAiFeedback({ 
-                    severity: 'BLOCK', 
-                    type: security.violationType, 
-                    message: security.reason || "Image rejected by safety policy.", 
-                    onAction: () => removeImage(newImageIndex) 
+                if (policyAction(security.violationType) === 'BLOCK') {
+                    setImageStatuses(prev => prev.map((s, i) => i === newImageIndex ? { ...s, status: 'prank' } : s));
+                    setAiFeedback({ 
+                        severity: 'BLOCK', 
+                        type: security.violationType, 
+                        message: security.reason || "Image rejected by safety policy.", 
+                        onAction: () => removeImage(newImageIndex) 
+                    });
+                    return;
+                }
+
+                // The check is often wrong: keep the photo and let a moderator decide
+                const flag: ModerationFlag = {
+                    source: 'IMAGE',
+                    type: security.violationType,
+                    reason: security.reason && security.reason !== 'Check unavailable' ? security.reason : flagLabel({ type: security.violationType })
+                };
+                needsReview = true;
+                setImageStatuses(prev => prev.map((s, i) => i === newImageIndex ? { ...s, status: 'caution', reason: flagLabel(flag), flag } : s));
+                setAiFeedback({
+                    severity: 'CAUTION',
+                    type: security.violationType,
+                    message: `${flagLabel(flag)}? A moderator will check this photo before your report goes live.`,
+                    actionLabel: 'Remove photo',
+                    onAction: () => { setAiFeedback(null); removeImage(newImageIndex); }
                 });
-                return;
             }
 
             // If it's a DOCUMENT or ID, we MUST redact faces/text
@@ -198,24 +269,69 @@ const ReportForm: React.FC<ReportFormProps> = ({ type: initialType, user, initia
         // If identified as a document OR we detect regions anyway
         setIsRedacting(true);
         let wasRedacted = false;
+        // Can't rule out faces/IDs: the original stays local until the user covers them or confirms there are none
+        const requirePrivacyCheck = (message: string) => {
+            setImageStatuses(prev => prev.map((s, i) => i === newImageIndex ? {
+                ...s,
+                privacyCheck: true,
+                ...(needsReview ? {} : { status: 'caution', reason: 'Check for sensitive details' })
+            } : s));
+            if (!needsReview) setAiFeedback({
+                severity: 'CAUTION',
+                type: 'REDACTION',
+                message,
+                actionLabel: 'Redact manually',
+                onAction: () => { setAiFeedback(null); setRedactingIndex(newImageIndex); }
+            });
+            wasRedacted = true;
+        };
         try {
-          const regions = await detectRedactionRegions(originalBase64);
-          if (regions.length > 0 || needsRedaction) {
-            // Apply Redaction State (Visual Blur via CSS 'redacted' status)
-            // Ideally we would pixelate the actual canvas here, but for this demo we flag it.
-            setImageStatuses(prev => prev.map((s, i) => i === newImageIndex ? { ...s, status: 'redacted' } : s));
-            setAiFeedback({ 
+          const redaction = await detectRedactionRegions(originalBase64);
+          const regions = redaction.status === 'invalid' ? [] : redaction.data;
+
+          if (regions.length > 0) {
+            // Pixelate on a canvas; the redacted copy replaces the original for preview and upload
+            let redacted: string;
+            try {
+              redacted = await applyRedactions(originalBase64, regions);
+            } catch (err) {
+              console.error("Pixelation failed", err);
+              setImageStatuses(prev => prev.filter((_, i) => i !== newImageIndex));
+              setAiFeedback({
+                  severity: 'BLOCK',
+                  type: 'REDACTION',
+                  message: "Sensitive details were found but couldn't be hidden. Please use a different photo.",
+                  actionLabel: 'Ok',
+                  onAction: () => setAiFeedback(null)
+              });
+              return;
+            }
+            setImageStatuses(prev => prev.map((s, i) => i === newImageIndex ? {
+                ...s,
+                url: redacted,
+                file: dataUrlToFile(redacted, file.name),
+                regions,
+                status: needsReview ? 'caution' : 'redacted'
+            } : s));
+            if (!needsReview) setAiFeedback({ 
                 severity: 'SUCCESS', 
                 type: 'REDACTION', 
-                message: "ID/Document detected. Sensitive details & faces auto-blurred.", 
+                message: "Faces & ID numbers pixelated. Tap the eye icon on the photo to adjust.", 
                 actionLabel: 'Ok', 
                 onAction: () => setAiFeedback(null) 
             });
             wasRedacted = true;
+          } else if (needsRedaction || redaction.status === 'invalid') {
+            requirePrivacyCheck(redaction.status === 'invalid'
+                ? "Privacy scan unavailable. Cover any faces, names or ID numbers, or confirm there are none, before submitting."
+                : "Document detected, but no details were located. Cover any names or ID numbers, or confirm there are none, before submitting.");
           }
-        } catch (e) { console.error("Redaction error", e); } finally { setIsRedacting(false); }
+        } catch (e) {
+          console.error("Redaction error", e);
+          requirePrivacyCheck("Privacy scan unavailable. Cover any faces, names or ID numbers, or confirm there are none, before submitting.");
+        } finally { setIsRedacting(false); }
 
-        if (!wasRedacted) {
+        if (!wasRedacted && !needsReview) {
            setImageStatuses(prev => prev.map((s, i) => i === newImageIndex ? { ...s, status: 'valid' } : s));
         }
 
@@ -223,7 +339,10 @@ const ReportForm: React.FC<ReportFormProps> = ({ type: initialType, user, initia
         if (imageStatuses.length === 0) {
            setIsAutofilling(true);
            try {
-             const details = await extractVisualDetails(base64);
+             const extraction = await extractVisualDetails(base64);
+             // Nothing to autofill from a failed extraction; the defaults would only add noise
+             if (extraction.status === 'invalid') return;
+             const details = extraction.data;
              
              if (!title) setTitle(details.title);
              
@@ -272,12 +391,86 @@ const ReportForm: React.FC<ReportFormProps> = ({ type: initialType, user, initia
     }
   };
 
+  const handleSaveRedactions = async (index: number, regions: RedactionRegion[]) => {
+    const target = imageStatuses[index];
+    if (!target?.original) return;
+
+    const redacted = regions.length > 0 ? await applyRedactions(target.original, regions) : null;
+    setImageStatuses(prev => prev.map((s, i) => {
+      if (i !== index) return s;
+      return {
+        ...s,
+        url: redacted || target.original!,
+        file: redacted ? dataUrlToFile(redacted, target.originalFile?.name || 'photo') : target.originalFile,
+        regions,
+        // Saving without boxes isn't a confirmation: that takes the explicit "Nothing to hide"
+        privacyCheck: regions.length > 0 ? false : s.privacyCheck,
+        status: s.unverified || s.flag || (s.privacyCheck && regions.length === 0) ? 'caution' : regions.length > 0 ? 'redacted' : 'valid',
+        reason: s.unverified || s.flag || (s.privacyCheck && regions.length === 0) ? s.reason : undefined
+      };
+    }));
+    setRedactingIndex(null);
+  };
+
+  /** The user looked at a photo the privacy scan couldn't clear and says it shows no faces, names or ID numbers. */
+  const confirmNothingSensitive = (index: number) => {
+    setImageStatuses(prev => prev.map((s, i) => i !== index ? s : {
+      ...s,
+      privacyCheck: false,
+      status: s.unverified || s.flag ? 'caution' : 'valid',
+      reason: s.unverified || s.flag ? s.reason : undefined
+    }));
+    setAiFeedback(null);
+  };
+
+  const handleLocationChange = (label: string, ref?: LocationRef) => {
+    // A pin in another building would contradict the picked location
+    if (ref?.buildingId !== locationRef?.buildingId) setPin(undefined);
+    setLocation(label);
+    setLocationRef(ref);
+  };
+
+  const handlePinDrop = (point: LatLng) => {
+    setPin(point);
+    // Fill the location from the building under the pin, keeping floor/room if it's the same one
+    const building = nearestBuilding(point);
+    if (building && building.id !== locationRef?.buildingId) {
+      const ref: LocationRef = { campusId: building.campusId, buildingId: building.id };
+      setLocationRef(ref);
+      setLocation(formatLocation(ref));
+    }
+  };
+
+  const updateRouteStop = (index: number, label: string, ref?: LocationRef) => {
+    setRoute(prev => prev.map((stop, i) => i === index ? { label, ...(ref ? { locationRef: ref } : {}) } : stop));
+  };
+
+  const toggleSecretSpec = (key: string) => {
+    setSecretSpecKeys(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+
+  const publicSpecs = () => {
+    if (isLost) return specs;
+    return Object.fromEntries(Object.entries(specs).filter(([k]) => !secretSpecKeys.includes(k)));
+  };
+
+  const buildSecrets = (): VerificationSecret[] => {
+    if (isLost) return [];
+    const specSecrets = CATEGORY_SCHEMAS[category]
+      .filter(field => secretSpecKeys.includes(field.key) && specs[field.key]?.trim())
+      .map(field => ({ questionId: specQuestionId(field.key), label: field.label, answer: specs[field.key].trim() }));
+    const marks = marksSecret && distinguishingMarks.trim()
+      ? [{ questionId: MARKS_QUESTION_ID, label: 'Distinguishing marks', answer: distinguishingMarks.trim() }]
+      : [];
+    return [...specSecrets, ...marks];
+  };
+
   const handleGenerateDescription = async () => {
     setIsMerging(true);
     try {
-      // Create a context string from the structured specs
-      const specContext = Object.entries(specs).map(([k, v]) => `${k}: ${v}`).join(', ');
-      const fullContext = `${distinguishingMarks}. Details: ${specContext}`;
+      // Create a context string from the structured specs (hidden values stay out of the public text)
+      const specContext = Object.entries(publicSpecs()).map(([k, v]) => `${k}: ${v}`).join(', ');
+      const fullContext = `${marksSecret && !isLost ? '' : distinguishingMarks}. Details: ${specContext}`;
 
       const merged = await mergeDescriptions(fullContext, visualInsights || { note: "No visual data" });
       setDescription(merged);
@@ -291,8 +484,8 @@ const ReportForm: React.FC<ReportFormProps> = ({ type: initialType, user, initia
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleSubmit = async (e?: React.FormEvent, skipAICheck = false) => {
+    e?.preventDefault();
     setFormError(null);
 
     // 1. Strict Validation
@@ -301,6 +494,17 @@ const ReportForm: React.FC<ReportFormProps> = ({ type: initialType, user, initia
       return;
     }
 
+    const occurredAt = zonedInputToEpoch(date, time, timeZone);
+    const occurredUntil = isLost && hasWindow ? zonedInputToEpoch(untilDate, untilTime, timeZone) : null;
+    if (occurredAt === null) {
+      setFormError("Please enter a valid date and time.");
+      return;
+    }
+    if (isLost && hasWindow && (occurredUntil === null || occurredUntil <= occurredAt)) {
+      setFormError("The end of the time window must be after its start.");
+      return;
+    }
+
     // Validate Required Specs based on Schema
     const schema = CATEGORY_SCHEMAS[category];
     const missingSpecs = schema.filter(field => field.required && !specs[field.key]);
@@ -314,6 +518,11 @@ const ReportForm: React.FC<ReportFormProps> = ({ type: initialType, user, initia
       return;
     }
 
+    if (imageStatuses.some(s => s.status !== 'prank' && s.privacyCheck)) {
+      setFormError("Cover any faces, names or ID numbers on the marked photos, or confirm they show none.");
+      return;
+    }
+
     setIsVerifyingFinal(true);
 
     try {
@@ -325,30 +534,56 @@ const ReportForm: React.FC<ReportFormProps> = ({ type: initialType, user, initia
           specs
       });
 
-      if (!validationScan.isValid) {
-          setAiFeedback({ 
-              severity: 'BLOCK', 
-              type: 'INCONSISTENCY', 
-              message: validationScan.reason || "Report content appears invalid.", 
-              actionLabel: 'Edit Report', 
-              onAction: () => setAiFeedback(null) 
-          });
-          setIsVerifyingFinal(false);
-          return;
+      const validImages = imageStatuses.filter(s => s.status !== 'prank');
+
+      // Flags send the report to the moderator queue instead of blocking it (see services/moderationPolicy.ts)
+      const flags: ModerationFlag[] = validImages.flatMap((img, imageIndex): ModerationFlag[] => {
+        if (img.flag) return [{ ...img.flag, imageIndex }];
+        if (img.unverified) return [{ source: 'IMAGE', type: 'CHECK_FAILED', reason: "The photo safety check couldn't run.", imageIndex }];
+        return [];
+      });
+
+      if (validationScan.status === 'invalid') {
+        flags.push({ source: 'CONTEXT', type: 'CHECK_FAILED', reason: "The report consistency check couldn't run." });
+      } else if (!validationScan.data.isValid) {
+        flags.push({ source: 'CONTEXT', type: 'INCONSISTENCY', reason: validationScan.data.reason || "Report content appears invalid." });
+      }
+
+      const analysis = await analyzeItemDescription(description, imageStatuses.map(s => s.url), title);
+
+      if (analysis.status === 'invalid') {
+        flags.push({ source: 'CONTENT', type: 'CHECK_FAILED', reason: "The content safety check couldn't run." });
       }
 
-      const finalCheck = await analyzeItemDescription(description, imageStatuses.map(s => s.url), title);
+      // Never build the report from fallback data
+      const finalCheck: Partial<GeminiAnalysisResult> = analysis.status === 'invalid' ? {} : analysis.data;
       
       if (finalCheck.isViolating || finalCheck.isPrank) {
-        setAiFeedback({ severity: 'BLOCK', type: 'VIOLATION', message: finalCheck.violationReason || "Safety check failed.", actionLabel: 'Fix', onAction: () => setAiFeedback(null) });
+        const type = finalCheck.violationType && finalCheck.violationType !== 'NONE' ? finalCheck.violationType : 'IRRELEVANT';
+        const reason = finalCheck.violationReason || finalCheck.prankReason || "Safety check failed.";
+        if (policyAction(type) === 'BLOCK') {
+          setAiFeedback({ severity: 'BLOCK', type: 'VIOLATION', message: reason, actionLabel: 'Fix', onAction: () => setAiFeedback(null) });
+          setIsVerifyingFinal(false);
+          return;
+        }
+        flags.push({ source: 'CONTENT', type, reason });
+      }
+
+      // First pass: let the reporter fix what was flagged, or send it to a moderator as is
+      if (flags.length > 0 && !skipAICheck) {
+        setAiFeedback({
+            severity: 'REVIEW',
+            type: 'REVIEW',
+            message: flags.map(f => f.reason).join(' '),
+            actionLabel: 'Submit for review',
+            onAction: () => { setAiFeedback(null); handleSubmit(undefined, true); }
+        });
         setIsVerifyingFinal(false);
         return;
       }
 
       setIsSubmitting(true);
       
-      const validImages = imageStatuses.filter(s => s.status !== 'prank');
-      
       const uploadPromises = validImages.map(async (img) => {
         if (img.file) {
           return await uploadImage(img.file);
@@ -358,26 +593,43 @@ const ReportForm: React.FC<ReportFormProps> = ({ type: initialType, user, initia
 
       const uploadedUrls = await Promise.all(uploadPromises);
 
+      const secrets = buildSecrets();
+      const hideMarks = secrets.some(s => s.questionId === MARKS_QUESTION_ID);
+      const registersCustody = canRegisterCustody && !!custodyBinId.trim();
+
       const report: ItemReport = {
         id: initialData?.id || crypto.randomUUID(),
         type: reportType,
         title: finalCheck.title || title,
         description: finalCheck.description || description,
         summary: finalCheck.summary || description.slice(0, 100),
-        distinguishingFeatures: distinguishingMarks ? distinguishingMarks.split(',').map(s => s.trim()) : [],
+        distinguishingFeatures: distinguishingMarks && !hideMarks ? distinguishingMarks.split(',').map(s => s.trim()) : [],
         category: category,
         location,
-        date: formatToDDMMYYYY(date),
-        time,
+        ...(locationRef ? { locationRef } : {}),
+        ...(pin ? { pin } : {}),
+        ...(isLost && route.some(stop => stop.label.trim()) ? { route: route.filter(stop => stop.label.trim()) } : {}),
+        occurredAt,
+        ...(occurredUntil !== null ? { occurredUntil } : {}),
+        timeZone,
         imageUrls: uploadedUrls, 
         tags: finalCheck.tags || tags,
-        status: initialData?.status || 'OPEN',
+        // Edits keep the lifecycle as it is; staff registrations start at the desk
+        ...(initialData ? { status: initialData.status } : initialStatus(registersCustody ? 'IN_CUSTODY' : 'OPEN', user.id)),
         reporterId: user.id,
         reporterName: user.name,
         createdAt: initialData?.createdAt || Date.now(),
-        specs: specs // Save structured data
+        specs: publicSpecs(), // Save structured data (verification secrets are stored separately)
+        verificationQuestions: secrets.map(buildVerificationQuestion),
+        ...(registersCustody ? { custody: newCustody(custodyOfficeId, custodyBinId) } : {}),
+        // New flags (re)open review; an unflagged edit keeps the existing review state
+        ...(flags.length > 0 ? { moderation: newModeration(flags) } : initialData?.moderation ? { moderation: initialData.moderation } : {})
       };
-      onSubmit(report);
+
+      // Index for matching (recomputed on edit so the vector tracks the text, and the signature the photos)
+      const { embedding, embeddingModel } = await embedReport(report);
+      const visualSignature = validImages.length > 0 ? await computeVisualSignature(validImages[0].url) : null;
+      onSubmit({ ...report, embedding, embeddingModel, ...(visualSignature ? { visualSignature } : {}) }, secrets);
     } catch (error) {
       console.error(error);
       setFormError("Submission failed. Check your connection or try again.");
@@ -392,6 +644,16 @@ const ReportForm: React.FC<ReportFormProps> = ({ type: initialType, user, initia
   return (
     <div className="fixed inset-0 z-[60] flex items-center justify-center p-0 sm:p-4 md:p-6 bg-slate-900/80 backdrop-blur-sm animate-fade-in">
       
+      {/* Manual Redaction */}
+      {redactingIndex !== null && imageStatuses[redactingIndex]?.original && (
+        <RedactionEditor
+          imageSrc={imageStatuses[redactingIndex].original!}
+          initialRegions={imageStatuses[redactingIndex].regions || []}
+          onSave={(regions) => handleSaveRedactions(redactingIndex, regions)}
+          onClose={() => setRedactingIndex(null)}
+        />
+      )}
+
       {/* Block Overlay */}
       {aiFeedback?.severity === 'BLOCK' && (
         <div className="absolute inset-0 z-[200] bg-slate-900/90 backdrop-blur-md flex items-center justify-center p-6">
@@ -404,6 +666,22 @@ const ReportForm: React.FC<ReportFormProps> = ({ type: initialType, user, initia
         </div>
       )}
 
+      {/* Review Overlay (flagged: fix it or send it to a moderator) */}
+      {aiFeedback?.severity === 'REVIEW' && (
+        <div className="absolute inset-0 z-[200] bg-slate-900/90 backdrop-blur-md flex items-center justify-center p-6">
+          <div className="max-w-md w-full bg-white dark:bg-slate-900 rounded-2xl shadow-2xl p-6 text-center border border-white/10">
+            <ShieldAlert className="w-12 h-12 text-amber-500 mx-auto mb-4" />
+            <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-2">Needs a Second Look</h2>
+            <p className="text-sm text-slate-500 mb-2">{aiFeedback.message}</p>
+            <p className="text-xs text-slate-400 mb-6">Our automatic check isn't always right. Edit your report, or submit it and a moderator will review it before it goes live.</p>
+            <div className="flex justify-center gap-3">
+              <button onClick={() => setAiFeedback(null)} className="px-5 py-2 bg-slate-200 dark:bg-slate-800 rounded-lg font-bold text-sm">Edit Report</button>
+              <button onClick={aiFeedback.onAction} className="px-5 py-2 bg-amber-500 hover:bg-amber-400 text-white rounded-lg font-bold text-sm">{aiFeedback.actionLabel}</button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Success/Info Overlay */}
       {aiFeedback?.severity === 'SUCCESS' && (
          <div className="absolute top-10 left-1/2 -translate-x-1/2 z-[200] animate-in slide-in-from-top-4 fade-in">
@@ -415,6 +693,20 @@ const ReportForm: React.FC<ReportFormProps> = ({ type: initialType, user, initia
          </div>
       )}
 
+      {/* Caution Overlay (AI check could not be completed) */}
+      {aiFeedback?.severity === 'CAUTION' && (
+         <div className="absolute top-10 left-1/2 -translate-x-1/2 z-[200] animate-in slide-in-from-top-4 fade-in max-w-[90vw]">
+            <div className="bg-amber-500 text-white px-6 py-3 rounded-full shadow-2xl flex items-center gap-3">
+               <AlertCircle className="w-5 h-5 shrink-0" />
+               <span className="font-bold text-sm">{aiFeedback.message}</span>
+               {aiFeedback.actionLabel && aiFeedback.onAction && (
+                  <button onClick={aiFeedback.onAction} className="ml-2 bg-white/20 hover:bg-white/30 rounded-full px-3 py-1 text-xs font-bold whitespace-nowrap">{aiFeedback.actionLabel}</button>
+               )}
+               <button onClick={() => setAiFeedback(null)} className="bg-white/20 hover:bg-white/30 rounded-full p-1"><X className="w-3 h-3" /></button>
+            </div>
+         </div>
+      )}
+
       <div className="relative w-full max-w-6xl h-[100dvh] sm:h-auto sm:max-h-[90vh] bg-white dark:bg-slate-900 rounded-none sm:rounded-[2rem] shadow-2xl flex flex-col border-0 sm:border border-slate-200 dark:border-slate-800 overflow-hidden">
         
         {/* Loading Overlay */}
@@ -496,8 +788,18 @@ const ReportForm: React.FC<ReportFormProps> = ({ type: initialType, user, initia
                             {CATEGORY_SCHEMAS[category].map((field) => (
                                 <div key={field.key} className="col-span-2 sm:col-span-1">
                                     <label className="text-[11px] font-bold text-slate-500 uppercase ml-1 mb-1.5 block flex justify-between">
-                                        {field.label}
-                                        {field.required && <span className="text-red-500">*</span>}
+                                        <span>{field.label} {field.required && <span className="text-red-500">*</span>}</span>
+                                        {!isLost && (
+                                            <button
+                                                type="button"
+                                                onClick={() => toggleSecretSpec(field.key)}
+                                                title="Hide from the public report and ask claimants for it"
+                                                className={`flex items-center gap-1 normal-case ${secretSpecKeys.includes(field.key) ? 'text-amber-600' : 'text-slate-400 hover:text-slate-600'}`}
+                                            >
+                                                {secretSpecKeys.includes(field.key) ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+                                                {secretSpecKeys.includes(field.key) ? 'Secret' : 'Public'}
+                                            </button>
+                                        )}
                                     </label>
                                     <input 
                                         type="text" 
@@ -521,20 +823,115 @@ const ReportForm: React.FC<ReportFormProps> = ({ type: initialType, user, initia
 
                     <div className="grid grid-cols-3 gap-4">
                        <div className="col-span-2">
-                          <label className="text-[11px] font-bold text-slate-500 uppercase ml-1 mb-1.5 block">Location</label>
-                          <input type="text" value={location} onChange={e => setLocation(e.target.value)} placeholder="e.g. Student Center" className={inputClass} required />
+                          <label className="text-[11px] font-bold text-slate-500 uppercase ml-1 mb-1.5 block">{isLost && route.length > 0 ? 'Route: Start' : 'Location'}</label>
+                          <LocationPicker
+                             label={location}
+                             locationRef={locationRef}
+                             onChange={handleLocationChange}
+                             inputClassName={inputClass}
+                          />
+                          <button
+                             type="button"
+                             onClick={() => setShowMap(!showMap)}
+                             className={`mt-2 ml-1 text-[10px] font-bold uppercase tracking-wide flex items-center gap-1 ${pin ? 'text-indigo-600' : 'text-slate-400 hover:text-indigo-600'}`}
+                          >
+                             <MapIcon className="w-3 h-3" /> {pin ? 'Pinned on map' : 'Drop a pin'}{showMap ? ' · Hide map' : ''}
+                          </button>
                        </div>
                        <div>
-                          <label className="text-[11px] font-bold text-slate-500 uppercase ml-1 mb-1.5 block">Time</label>
+                          <label className="text-[11px] font-bold text-slate-500 uppercase ml-1 mb-1.5 block">{isLost && hasWindow ? 'From' : 'Time'}</label>
                           <input type="time" value={time} onChange={e => setTime(e.target.value)} className={inputClass} required />
                        </div>
                     </div>
+                    {/* Route: further places passed through, in order */}
+                    {isLost && (
+                       <div className="space-y-2">
+                          {route.map((stop, i) => (
+                             <div key={i} className="flex items-start gap-2">
+                                <span className="mt-3 w-5 h-5 shrink-0 rounded-full bg-emerald-50 dark:bg-emerald-900/20 text-emerald-600 text-[10px] font-black flex items-center justify-center">{i + 2}</span>
+                                <div className="flex-1">
+                                   <LocationPicker
+                                      label={stop.label}
+                                      locationRef={stop.locationRef}
+                                      onChange={(label, ref) => updateRouteStop(i, label, ref)}
+                                      inputClassName={inputClass}
+                                   />
+                                </div>
+                                <button type="button" onClick={() => setRoute(route.filter((_, j) => j !== i))} className="mt-3 p-1 rounded-full text-slate-400 hover:text-red-500 hover:bg-slate-100 dark:hover:bg-slate-800" title="Remove stop">
+                                   <X className="w-3.5 h-3.5" />
+                                </button>
+                             </div>
+                          ))}
+                          <button
+                             type="button"
+                             onClick={() => setRoute([...route, { label: '' }])}
+                             className="ml-1 text-[10px] font-bold uppercase tracking-wide flex items-center gap-1 text-slate-400 hover:text-emerald-600"
+                          >
+                             {route.length === 0 ? <Route className="w-3 h-3" /> : <Plus className="w-3 h-3" />}
+                             {route.length === 0 ? 'Not sure where? Add places you passed through' : 'Add next place'}
+                          </button>
+                       </div>
+                    )}
+                    {showMap && (
+                       <div className="space-y-1">
+                          <CampusMap pin={pin} onPinDrop={handlePinDrop} className="h-64" />
+                          {pin && (
+                             <button type="button" onClick={() => setPin(undefined)} className="ml-1 text-[10px] font-bold text-slate-400 hover:text-red-500 uppercase tracking-wide">
+                                Remove pin
+                             </button>
+                          )}
+                       </div>
+                    )}
                     <div className="col-span-3">
                         <label className="text-[11px] font-bold text-slate-500 uppercase ml-1 mb-1.5 block">Date</label>
                         <input type="date" value={date} onChange={e => setDate(e.target.value)} className={inputClass} required />
+                        {timeZone !== viewerTimeZone() && (
+                           <p className="mt-1.5 ml-1 text-[10px] text-slate-400">Times are campus time ({timeZone.replace(/_/g, ' ')}).</p>
+                        )}
                     </div>
+                    {/* Loss window: found reports after its start stay plausible matches */}
+                    {isLost && (
+                       hasWindow ? (
+                          <div className="grid grid-cols-3 gap-4">
+                             <div className="col-span-2">
+                                <label className="text-[11px] font-bold text-slate-500 uppercase ml-1 mb-1.5 block">Until (Date)</label>
+                                <input type="date" value={untilDate} min={date} onChange={e => setUntilDate(e.target.value)} className={inputClass} required />
+                             </div>
+                             <div>
+                                <label className="text-[11px] font-bold text-slate-500 uppercase ml-1 mb-1.5 block">Until</label>
+                                <input type="time" value={untilTime} onChange={e => setUntilTime(e.target.value)} className={inputClass} required />
+                             </div>
+                             <button type="button" onClick={() => setHasWindow(false)} className="col-span-3 -mt-2 ml-1 text-left text-[10px] font-bold uppercase tracking-wide text-slate-400 hover:text-red-500">
+                                I know the exact time
+                             </button>
+                          </div>
+                       ) : (
+                          <button
+                             type="button"
+                             onClick={() => { setUntilDate(date); setUntilTime(time); setHasWindow(true); }}
+                             className="ml-1 text-[10px] font-bold uppercase tracking-wide flex items-center gap-1 text-slate-400 hover:text-emerald-600"
+                          >
+                             <Clock className="w-3 h-3" /> Not sure when? Give a time range
+                          </button>
+                       )
+                    )}
                  </div>
 
+                 {/* 4. Custody (staff, new FOUND reports) */}
+                 {canRegisterCustody && (
+                    <div className="p-5 rounded-2xl border border-slate-200 dark:border-slate-800 space-y-3">
+                       <label className="text-[11px] font-bold text-slate-500 uppercase ml-1 flex items-center gap-1.5">
+                          <Archive className="w-3.5 h-3.5" /> Register into Custody <span className="normal-case font-medium text-slate-400">(optional)</span>
+                       </label>
+                       <div className="grid grid-cols-3 gap-4">
+                          <select value={custodyOfficeId} onChange={e => setCustodyOfficeId(e.target.value)} className={`${inputClass} col-span-2`}>
+                             {CUSTODY_OFFICES.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+                          </select>
+                          <input value={custodyBinId} onChange={e => setCustodyBinId(e.target.value)} placeholder="Bin / shelf" className={inputClass} />
+                       </div>
+                    </div>
+                 )}
+
               </div>
 
               {/* RIGHT COLUMN: Media & AI */}
@@ -561,13 +958,21 @@ const ReportForm: React.FC<ReportFormProps> = ({ type: initialType, user, initia
                     <div className="grid grid-cols-4 gap-3">
                        {imageStatuses.map((s, i) => (
                           <div key={i} className="aspect-square relative rounded-xl overflow-hidden border border-slate-200 dark:border-slate-700 group">
-                             <img src={s.url} className={`w-full h-full object-cover ${s.status === 'redacted' ? 'blur-[1px]' : ''}`} />
+                             <img src={s.url} className={`w-full h-full object-cover ${s.status === 'caution' ? 'blur-[1px]' : ''}`} />
                              
                              {s.status === 'checking' && <div className="absolute inset-0 bg-black/50 flex items-center justify-center"><Loader2 className="w-5 h-5 text-white animate-spin" /></div>}
-                             {s.status === 'redacted' && (
-                                <div className="absolute inset-0 flex items-center justify-center bg-black/20 pointer-events-none">
-                                    <EyeOff className="w-6 h-6 text-white/80" />
-                                </div>
+                             {s.status === 'caution' && (
+                                <div className="absolute bottom-0 inset-x-0 bg-amber-500/90 text-white text-[8px] font-bold text-center py-0.5" title={s.reason}>{s.privacyCheck ? 'CHECK PRIVACY' : 'UNVERIFIED'}</div>
+                             )}
+                             {s.status !== 'checking' && s.status !== 'prank' && s.original && (
+                                <button
+                                   type="button"
+                                   onClick={() => !isProcessing && setRedactingIndex(i)}
+                                   title="Redact areas"
+                                   className={`absolute top-1 left-1 rounded-full p-1 ${s.status === 'redacted' ? 'bg-brand-violet text-white' : 'bg-black/50 text-white'}`}
+                                >
+                                   <EyeOff className="w-3 h-3" />
+                                </button>
                              )}
                              
                              <button type="button" onClick={() => removeImage(i)} className="absolute top-1 right-1 bg-black/50 text-white rounded-full p-0.5"><X className="w-3 h-3" /></button>
@@ -581,10 +986,27 @@ const ReportForm: React.FC<ReportFormProps> = ({ type: initialType, user, initia
                        )}
                     </div>
                     <input type="file" ref={fileInputRef} onChange={handleImageUpload} className="hidden" accept="image/*" />
+
+                    {/* Photos the privacy scan couldn't clear: redact or confirm before they can be uploaded */}
+                    {imageStatuses.map((s, i) => s.privacyCheck && s.status !== 'prank' && (
+                       <div key={i} className="mt-3 p-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-100 dark:border-amber-900 space-y-2">
+                          <p className="text-[10px] font-bold text-amber-700 dark:text-amber-400">
+                             Photo {i + 1} may show faces, names or ID numbers. It won't be uploaded until you cover them or confirm there are none.
+                          </p>
+                          <div className="flex gap-2">
+                             <button type="button" onClick={() => !isProcessing && setRedactingIndex(i)} className="px-2.5 py-1.5 rounded-lg bg-amber-500 text-white text-[10px] font-bold flex items-center gap-1">
+                                <EyeOff className="w-3 h-3" /> Redact
+                             </button>
+                             <button type="button" onClick={() => !isProcessing && confirmNothingSensitive(i)} className="px-2.5 py-1.5 rounded-lg bg-white dark:bg-slate-800 text-amber-700 dark:text-amber-400 text-[10px] font-bold flex items-center gap-1">
+                                <Check className="w-3 h-3" /> Nothing to hide
+                             </button>
+                          </div>
+                       </div>
+                    ))}
                     
                     <p className="mt-3 text-[10px] text-slate-400 flex items-center gap-1.5">
                        <Info className="w-3 h-3" /> 
-                       Photos with faces or ID cards will be auto-blurred. Selfies are not allowed.
+                       Faces and ID numbers are pixelated before upload. Selfies are not allowed.
                     </p>
                  </div>
 
@@ -624,7 +1046,20 @@ const ReportForm: React.FC<ReportFormProps> = ({ type: initialType, user, initia
                            <>
                              {/* Distinguishing Features Input */}
                              <div className="space-y-1">
-                                <label className="text-[10px] font-bold text-slate-400 uppercase ml-1">Distinguishing Features or Marks</label>
+                                <div className="flex justify-between items-center">
+                                   <label className="text-[10px] font-bold text-slate-400 uppercase ml-1">Distinguishing Features or Marks</label>
+                                   {!isLost && (
+                                      <button
+                                         type="button"
+                                         onClick={() => setMarksSecret(!marksSecret)}
+                                         title="Hide from the public report and ask claimants for it"
+                                         className={`flex items-center gap-1 text-[10px] font-bold ${marksSecret ? 'text-amber-600' : 'text-slate-400 hover:text-slate-600'}`}
+                                      >
+                                         {marksSecret ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+                                         {marksSecret ? 'Secret' : 'Public'}
+                                      </button>
+                                   )}
+                                </div>
                                 <input 
                                    type="text"
                                    value={distinguishingMarks}
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { ItemReport, ReportType } from '../types';
+import { fetchResolutionCandidates } from '../services/resolutions';
+import { X, Check, Loader2, PackageCheck, ShieldCheck, Box } from 'lucide-react';
+
+interface ResolveDialogProps {
+  report: ItemReport;
+  onResolve: (match: ItemReport) => Promise<void>; // Asks the match's reporter to confirm
+  onReturnedElsewhere: () => void; // Closes just this report, without a matching one
+  onClose: () => void;
+}
+
+const MAX_CANDIDATES = 20;
+
+// "Mark Returned": pick the report on the other side; both close together once its reporter confirms
+const ResolveDialog: React.FC<ResolveDialogProps> = ({ report, onResolve, onReturnedElsewhere, onClose }) => {
+  const [candidates, setCandidates] = useState<ItemReport[] | null>(null);
+  const [matchId, setMatchId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const isLost = report.type === ReportType.LOST;
+
+  useEffect(() => {
+    fetchResolutionCandidates(report)
+      .then(list => setCandidates(list.slice(0, MAX_CANDIDATES)))
+      .catch(e => {
+        console.error("Failed to load resolution candidates", e);
+        setCandidates([]);
+      });
+  }, [report.id]);
+
+  const handleConfirm = async () => {
+    const match = candidates?.find(c => c.id === matchId);
+    if (!match) return;
+    setIsSaving(true);
+    await onResolve(match);
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 sm:p-6 bg-slate-900/80 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-slate-950 w-full max-w-md max-h-[90vh] rounded-[2rem] shadow-2xl border border-slate-200 dark:border-slate-800 flex flex-col overflow-hidden animate-in zoom-in-95 duration-300"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-5 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 rounded-xl bg-emerald-100 dark:bg-emerald-900/30 flex items-center justify-center text-emerald-600 dark:text-emerald-400 shrink-0">
+              <PackageCheck className="w-5 h-5" />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-lg font-black text-slate-900 dark:text-white leading-none mb-1">Mark Returned</h2>
+              <p className="text-xs font-bold text-slate-500 truncate">Which {isLost ? 'found' : 'lost'} report was it?</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-400 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          {candidates === null ? (
+            <div className="py-6 flex justify-center"><Loader2 className="w-5 h-5 text-emerald-500 animate-spin" /></div>
+          ) : candidates.length === 0 ? (
+            <p className="text-xs font-medium text-slate-500 text-center py-4">No open {isLost ? 'found' : 'lost'} reports to link this to.</p>
+          ) : (
+            <div className="space-y-2">
+              {candidates.map(c => {
+                const verified = isLost ? c.verifiedClaimantIds?.includes(report.reporterId) : report.verifiedClaimantIds?.includes(c.reporterId);
+                return (
+                  <button
+                    key={c.id}
+                    onClick={() => setMatchId(c.id)}
+                    className={`w-full p-2.5 rounded-xl border flex items-center gap-3 text-left transition-colors ${
+                      matchId === c.id
+                        ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/20'
+                        : 'border-slate-200 dark:border-slate-800 hover:border-emerald-300'
+                    }`}
+                  >
+                    <div className="w-11 h-11 rounded-lg overflow-hidden bg-slate-100 dark:bg-slate-800 shrink-0 flex items-center justify-center">
+                      {c.imageUrls[0] ? <img src={c.imageUrls[0]} className="w-full h-full object-cover" /> : <Box className="w-5 h-5 text-slate-400" />}
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <p className="text-xs font-bold text-slate-800 dark:text-slate-100 truncate">{c.title}</p>
+                      <p className="text-[10px] text-slate-400 truncate">{c.reporterName} · {c.location}</p>
+                    </div>
+                    {verified && (
+                      <span className="shrink-0 flex items-center gap-1 text-[9px] font-black uppercase tracking-wider text-emerald-600 dark:text-emerald-400">
+                        <ShieldCheck className="w-3 h-3" /> Verified
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {matchId && (
+            <p className="text-[11px] font-medium text-slate-500 text-center">
+              The {isLost ? 'finder' : 'owner'} is asked to confirm. Both reports close once they do{isLost ? ', and you can thank them then' : ''}.
+            </p>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-100 dark:border-slate-800 space-y-2">
+          <button
+            onClick={handleConfirm}
+            disabled={!matchId || isSaving}
+            className="w-full py-3.5 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl font-bold text-sm transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />} Ask Them to Confirm
+          </button>
+          <button
+            onClick={onReturnedElsewhere}
+            disabled={isSaving}
+            className="w-full py-1 text-[11px] font-bold text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 transition-colors"
+          >
+            Returned some other way? Close just this report
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResolveDialog;
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { User, Watch } from '../types';
+import { Bell, BellOff, Pause, Play, RefreshCw, Search, Trash2, Loader2 } from 'lucide-react';
+import { deleteWatch, pauseWatch, renewWatch, resumeWatch, subscribeToWatches } from '../services/watches';
+import { DEFAULT_WATCH_DAYS, MAX_WATCHES, WATCH_DURATIONS, WATCH_STATUS_LABELS, effectiveWatchStatus } from '../services/watchPolicy';
+
+interface WatchListProps {
+  user: User;
+  onOpenSearch: (query: string) => void;
+}
+
+const STATUS_STYLES = {
+  ACTIVE: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300',
+  PAUSED: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+  EXPIRED: 'bg-slate-200 text-slate-600 dark:bg-slate-800 dark:text-slate-400'
+};
+
+/** The user's saved searches (services/watches.ts), shown on their profile. */
+const WatchList: React.FC<WatchListProps> = ({ user, onOpenSearch }) => {
+  const [watches, setWatches] = useState<Watch[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [renewDays, setRenewDays] = useState(DEFAULT_WATCH_DAYS);
+
+  useEffect(() => subscribeToWatches(user.id, setWatches), [user.id]);
+
+  const run = async (watch: Watch, action: () => Promise<void>) => {
+    setBusyId(watch.id);
+    try {
+      await action();
+    } catch (e) {
+      console.error("Failed to update watch", e);
+      window.dispatchEvent(new CustomEvent('retriva-toast', { detail: { message: "Couldn't update the watch. Please try again.", type: 'alert' } }));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const actionClass = 'p-2 rounded-lg text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-slate-800 transition-colors';
+
+  return (
+    <div className="mt-12 pt-8 border-t border-slate-200 dark:border-slate-800">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+          <Bell className="w-4 h-4" /> Watches ({watches.length}/{MAX_WATCHES})
+        </h3>
+        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          Renew for
+          <select
+            value={renewDays}
+            onChange={(e) => setRenewDays(Number(e.target.value))}
+            className="bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-700 dark:text-slate-200"
+          >
+            {WATCH_DURATIONS.map(d => <option key={d} value={d}>{d} days</option>)}
+          </select>
+        </label>
+      </div>
+
+      {watches.length === 0 ? (
+        <div className="p-6 bg-slate-50 dark:bg-slate-800/50 rounded-2xl border border-dashed border-slate-200 dark:border-slate-800 text-center">
+          <BellOff className="w-6 h-6 text-slate-300 mx-auto mb-2" />
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            No watches yet. Search or filter the dashboard, then tap the bell to get notified about new matching reports.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {watches.map(watch => {
+            const status = effectiveWatchStatus(watch);
+            const isBusy = busyId === watch.id;
+            return (
+              <div key={watch.id} className="flex items-center gap-4 p-4 bg-slate-50 dark:bg-slate-800/50 rounded-2xl border border-slate-200 dark:border-slate-800">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <h4 className="font-bold text-slate-900 dark:text-white text-sm truncate">{watch.name}</h4>
+                    <span className={`px-2 py-0.5 rounded-md text-[10px] font-bold uppercase tracking-wider shrink-0 ${STATUS_STYLES[status]}`}>
+                      {WATCH_STATUS_LABELS[status]}
+                    </span>
+                  </div>
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">
+                    {watch.matchCount} {watch.matchCount === 1 ? 'alert' : 'alerts'}
+                    {watch.lastMatchedAt ? `, last on ${new Date(watch.lastMatchedAt).toLocaleDateString()}` : ''}
+                    {' · '}
+                    {status === 'EXPIRED' ? 'Ended' : 'Ends'} {new Date(watch.expiresAt).toLocaleDateString()}
+                  </p>
+                  {status === 'PAUSED' && watch.pauseReason === 'TOO_MANY_ALERTS' && (
+                    <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">Paused after too many alerts in a day. Narrow the search, or resume it.</p>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-1 shrink-0">
+                  {isBusy ? (
+                    <Loader2 className="w-4 h-4 animate-spin text-slate-400 m-2" />
+                  ) : (
+                    <>
+                      <button onClick={() => onOpenSearch(watch.query)} className={actionClass} title="Show this search on the dashboard">
+                        <Search className="w-4 h-4" />
+                      </button>
+                      {status === 'ACTIVE' && (
+                        <button onClick={() => run(watch, () => pauseWatch(watch))} className={actionClass} title="Pause alerts">
+                          <Pause className="w-4 h-4" />
+                        </button>
+                      )}
+                      {status === 'PAUSED' && (
+                        <button onClick={() => run(watch, () => resumeWatch(watch))} className={actionClass} title="Resume alerts">
+                          <Play className="w-4 h-4" />
+                        </button>
+                      )}
+                      <button onClick={() => run(watch, () => renewWatch(watch, renewDays))} className={actionClass} title={`Renew for ${renewDays} days`}>
+                        <RefreshCw className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => run(watch, () => deleteWatch(watch))} className={`${actionClass} hover:!text-red-600 hover:!bg-red-50`} title="Delete watch">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WatchList;
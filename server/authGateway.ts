@@ -0,0 +1,225 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createHash } from 'node:crypto';
+import { initializeApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore, Firestore } from 'firebase-admin/firestore';
+
+// ------------------------------------------------------------------
+// AUTH GATEWAY
+// Email/password sign-in with server-side failed-login throttling.
+// The client posts credentials here instead of calling Firebase Auth directly; the gateway
+// verifies them against the Identity Toolkit API, tracks failures in `authThrottle` (admin SDK only,
+// never readable by clients) and returns a custom token on success. Passwords are never logged or stored.
+//
+// Failures are counted per account and per client IP:
+// - An account only backs off: after a few failures each attempt waits longer (seconds, growing to
+//   minutes), so someone guessing from many addresses can't keep its owner locked out.
+// - An IP that fails against many accounts is blocked outright, doubling on each repeat.
+//
+// Local run against the emulators:
+//   FIREBASE_AUTH_EMULATOR_HOST=localhost:9099 FIRESTORE_EMULATOR_HOST=localhost:8080 \
+//   FIREBASE_PROJECT_ID=demo-retriva FIREBASE_API_KEY=demo-key npm run auth:gateway
+// ------------------------------------------------------------------
+
+// --- CONFIG ---
+interface ThrottlePolicy {
+  maxFailures: number; // Failures allowed before the first lock
+  baseLockMs: number;  // First lock; doubles on each further failure
+  maxLockMs: number;
+}
+
+const ACCOUNT_POLICY: ThrottlePolicy = { maxFailures: 5, baseLockMs: 30 * 1000, maxLockMs: 15 * 60 * 1000 };
+const IP_POLICY: ThrottlePolicy = { maxFailures: 20, baseLockMs: 15 * 60 * 1000, maxLockMs: 24 * 60 * 60 * 1000 };
+const QUIET_PERIOD_MS = 15 * 60 * 1000; // Failure counts reset after this long without one (or since the lock ended)
+
+const PORT = Number(process.env.AUTH_GATEWAY_PORT || 8787);
+const ALLOWED_ORIGIN = process.env.AUTH_GATEWAY_ORIGIN || '*';
+const TRUST_PROXY = process.env.AUTH_GATEWAY_TRUST_PROXY === 'true'; // Behind a load balancer that sets X-Forwarded-For
+const API_KEY = process.env.FIREBASE_API_KEY || process.env.VITE_FIREBASE_API_KEY;
+const projectId = process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT;
+
+const IDENTITY_TOOLKIT = process.env.FIREBASE_AUTH_EMULATOR_HOST
+    ? `http://${process.env.FIREBASE_AUTH_EMULATOR_HOST}/identitytoolkit.googleapis.com/v1`
+    : 'https://identitytoolkit.googleapis.com/v1';
+
+// Identity Toolkit error messages that count as a failed attempt
+const CREDENTIAL_ERRORS = ['INVALID_PASSWORD', 'EMAIL_NOT_FOUND', 'INVALID_LOGIN_CREDENTIALS', 'INVALID_EMAIL'];
+
+interface ThrottleRecord {
+  failures: number; // Since the last quiet period, drives the backoff
+  lockedUntil: number;
+  updatedAt: number;
+}
+
+// --- HELPERS ---
+const log = (...args: unknown[]) => console.log(`[AuthGateway ${new Date().toISOString()}]`, ...args);
+
+const hash = (value: string) => createHash('sha256').update(value).digest('hex');
+
+// Keyed by hashes so the collection doesn't double as an email or address directory
+const accountKey = (email: string) => hash(email.trim().toLowerCase());
+const ipKey = (ip: string) => `ip_${hash(ip)}`;
+
+const clientIp = (req: IncomingMessage) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return (TRUST_PROXY && first) || req.socket.remoteAddress || 'unknown';
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const stringField = (data: unknown, key: string) => {
+  const value = isObject(data) ? data[key] : undefined;
+  return typeof value === 'string' ? value : '';
+};
+
+const send = (res: ServerResponse, status: number, body: object) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  });
+  res.end(status === 204 ? undefined : JSON.stringify(body));
+};
+
+const readJson = (req: IncomingMessage, limit = 10_000): Promise<unknown> => {
+  return new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => {
+      raw += chunk;
+      if (raw.length > limit) reject(new Error('Body too large'));
+    });
+    req.on('end', () => {
+      try { resolve(JSON.parse(raw || '{}')); } catch (e) { reject(e); }
+    });
+    req.on('error', reject);
+  });
+};
+
+// --- THROTTLE ---
+const getLock = async (db: Firestore, key: string, now: number) => {
+  const snap = await db.collection('authThrottle').doc(key).get();
+  const record = snap.data() as ThrottleRecord | undefined;
+  return record && record.lockedUntil > now ? record.lockedUntil : 0;
+};
+
+/** No lock until `maxFailures`, then the base lock, doubling with each further failure. */
+const lockDuration = (policy: ThrottlePolicy, failures: number) => {
+  if (failures < policy.maxFailures) return 0;
+  return Math.min(policy.maxLockMs, policy.baseLockMs * 2 ** (failures - policy.maxFailures));
+};
+
+/** Records a failure and returns the lock expiry if this attempt triggered a lock. */
+const recordFailure = async (db: Firestore, key: string, policy: ThrottlePolicy, now: number): Promise<number> => {
+  const ref = db.collection('authThrottle').doc(key);
+  return db.runTransaction(async tx => {
+    const snap = await tx.get(ref);
+    const prev = snap.data() as ThrottleRecord | undefined;
+
+    const quiet = !prev || now - Math.max(prev.updatedAt, prev.lockedUntil || 0) > QUIET_PERIOD_MS;
+    const failures = quiet ? 1 : (prev.failures || 0) + 1;
+    const lock = lockDuration(policy, failures);
+    const record: ThrottleRecord = { failures, lockedUntil: lock ? now + lock : 0, updatedAt: now };
+
+    tx.set(ref, record);
+    return record.lockedUntil;
+  });
+};
+
+const clearFailures = async (db: Firestore, key: string) => {
+  await db.collection('authThrottle').doc(key).delete();
+};
+
+// --- CREDENTIAL CHECK ---
+const verifyPassword = async (email: string, password: string): Promise<{ uid?: string, error?: string }> => {
+  const response = await fetch(`${IDENTITY_TOOLKIT}/accounts:signInWithPassword?key=${API_KEY}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password, returnSecureToken: false })
+  });
+  const data: unknown = await response.json().catch(() => null);
+  const uid = stringField(data, 'localId');
+  if (response.ok && uid) return { uid };
+  // Messages look like "INVALID_PASSWORD" or "TOO_MANY_ATTEMPTS_TRY_LATER : ..."
+  const message = stringField(isObject(data) ? data.error : undefined, 'message');
+  return { error: (message || 'UNKNOWN').split(' ')[0] };
+};
+
+// --- HANDLER ---
+const handleLogin = async (db: Firestore, req: IncomingMessage, res: ServerResponse) => {
+  const body = await readJson(req).catch(() => null);
+  const email = stringField(body, 'email').trim();
+  const password = stringField(body, 'password');
+  if (!email || !password) return send(res, 400, { error: 'invalid-request' });
+
+  const key = accountKey(email);
+  const ip = ipKey(clientIp(req));
+  const now = Date.now();
+
+  const [ipLockedUntil, lockedUntil] = await Promise.all([getLock(db, ip, now), getLock(db, key, now)]);
+  if (ipLockedUntil) return send(res, 429, { error: 'too-many-requests', retryAfter: ipLockedUntil });
+  if (lockedUntil) return send(res, 429, { error: 'account-locked', retryAfter: lockedUntil });
+
+  const result = await verifyPassword(email, password);
+
+  // The IP's count is left alone: one correct password doesn't clear guesses at other accounts
+  if (result.uid) {
+    await clearFailures(db, key);
+    const token = await getAuth().createCustomToken(result.uid);
+    return send(res, 200, { token });
+  }
+
+  if (result.error === 'USER_DISABLED') return send(res, 403, { error: 'user-disabled' });
+  if (result.error && CREDENTIAL_ERRORS.includes(result.error)) {
+    const [newIpLock, newLock] = await Promise.all([
+      recordFailure(db, ip, IP_POLICY, now),
+      recordFailure(db, key, ACCOUNT_POLICY, now)
+    ]);
+    if (newIpLock) {
+      log(`Blocked address ${ip.slice(0, 15)}… until ${new Date(newIpLock).toISOString()}`);
+      return send(res, 429, { error: 'too-many-requests', retryAfter: newIpLock });
+    }
+    if (newLock) {
+      log(`Backing off account ${key.slice(0, 12)}… until ${new Date(newLock).toISOString()}`);
+      return send(res, 429, { error: 'account-locked', retryAfter: newLock });
+    }
+    return send(res, 401, { error: 'invalid-credential' });
+  }
+  if (result.error === 'TOO_MANY_ATTEMPTS_TRY_LATER') return send(res, 429, { error: 'too-many-requests' });
+
+  console.error('[AuthGateway] Unexpected sign-in error:', result.error);
+  return send(res, 502, { error: 'unavailable' });
+};
+
+// --- ENTRY ---
+const start = () => {
+  if (!API_KEY) {
+    console.error('[AuthGateway] FIREBASE_API_KEY (or VITE_FIREBASE_API_KEY) is required.');
+    process.exit(1);
+  }
+
+  initializeApp(projectId ? { projectId } : undefined);
+  const db = getFirestore();
+
+  const server = createServer((req, res) => {
+    if (req.method === 'OPTIONS') return send(res, 204, {});
+    if (req.method !== 'POST' || req.url !== '/login') return send(res, 404, { error: 'not-found' });
+
+    handleLogin(db, req, res).catch(e => {
+      console.error('[AuthGateway] Login failed:', e);
+      send(res, 500, { error: 'unavailable' });
+    });
+  });
+
+  server.listen(PORT, () => log(`Listening on :${PORT}${projectId ? ` for project ${projectId}` : ''}`));
+
+  const shutdown = () => {
+    log('Shutting down');
+    server.close(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+};
+
+start();
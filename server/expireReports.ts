@@ -0,0 +1,123 @@
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { AppNotification, ItemReport, Watch } from '../types';
+import { DEFAULT_EXPIRY_DAYS, expiryStep, nudgeExpiresAt, transition } from '../services/reportLifecycle';
+
+// ------------------------------------------------------------------
+// JOB: report expiry
+// Open reports nobody has renewed get a "still looking?" notification NUDGE_LEAD_DAYS before they
+// are due; if the reporter doesn't renew by the date in that notification, the report moves to EXPIRED
+// (out of the listings and of matching). The reporter can reopen it from the archive.
+// Items held at a lost-and-found desk never expire here.
+// It also expires watches (saved searches) past their end date; the owner can renew them from Profile.
+// Run it daily (cron); safe to re-run.
+//
+//   FIREBASE_PROJECT_ID=<project> REPORT_EXPIRY_DAYS=60 npm run job:expire-reports -- --dry-run
+// ------------------------------------------------------------------
+
+const PAGE_SIZE = 200; // Up to two writes per report, under the 500-write batch limit
+
+const projectId = process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT;
+const expiryDays = Number(process.env.REPORT_EXPIRY_DAYS) || DEFAULT_EXPIRY_DAYS;
+const dryRun = process.argv.includes('--dry-run');
+
+const log = (...args: unknown[]) => console.log(`[ExpireReports ${new Date().toISOString()}]`, ...args);
+
+const notice = (report: ItemReport, now: number, title: string, message: string): AppNotification => ({
+  id: `expiry_${report.id}_${now}`,
+  title,
+  message,
+  type: 'system',
+  timestamp: now,
+  isRead: false,
+  link: 'DASHBOARD',
+  metadata: { sourceId: report.id }
+});
+
+const run = async () => {
+  initializeApp(projectId ? { projectId } : undefined);
+  const db = getFirestore();
+  const now = Date.now();
+
+  let scanned = 0;
+  let nudged = 0;
+  let expired = 0;
+  let last: QueryDocumentSnapshot | undefined;
+
+  log(`Expiring after ${expiryDays} days${dryRun ? ' (dry run)' : ''}`);
+
+  while (true) {
+    let query = db.collection('reports').where('status', 'in', ['OPEN', 'CLAIM_PENDING']).orderBy('__name__').limit(PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+    const page = await query.get();
+    if (page.empty) break;
+
+    const batch = db.batch();
+    let pending = 0;
+    page.docs.forEach(doc => {
+      const report = { ...doc.data(), id: doc.id } as ItemReport;
+      const step = expiryStep(report, now, expiryDays);
+      const inbox = db.collection('users').doc(report.reporterId).collection('notifications');
+
+      if (step === 'NUDGE') {
+        const expiresAt = nudgeExpiresAt(report, now, expiryDays);
+        batch.update(doc.ref, { expiryNudgedAt: now, expiresAt });
+        const n = notice(report, now, 'Still looking?',
+          `"${report.title}" expires on ${new Date(expiresAt).toDateString()}. Open it and tap "Keep it open" to renew.`);
+        batch.set(inbox.doc(n.id), n);
+        nudged++;
+        pending++;
+      } else if (step === 'EXPIRE') {
+        batch.update(doc.ref, transition(report, 'EXPIRED', 'system', 'Not renewed after the reminder', now));
+        const n = notice(report, now, 'Report Expired',
+          `"${report.title}" was archived after ${expiryDays} days. You can reopen it from the archive.`);
+        batch.set(inbox.doc(n.id), n);
+        expired++;
+        pending++;
+      }
+    });
+
+    if (pending > 0 && !dryRun) await batch.commit();
+    scanned += page.size;
+    last = page.docs[page.docs.length - 1];
+  }
+
+  log(`${dryRun ? '[dry run] Would nudge' : 'Nudged'} ${nudged} and ${dryRun ? 'expire' : 'expired'} ${expired} of ${scanned} open reports.`);
+
+  // --- WATCHES ---
+  let watchesExpired = 0;
+  last = undefined;
+  while (true) {
+    let query = db.collection('watches').where('status', '==', 'ACTIVE').where('expiresAt', '<=', now).orderBy('expiresAt').limit(PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+    const page = await query.get();
+    if (page.empty) break;
+
+    const batch = db.batch();
+    page.docs.forEach(doc => {
+      const watch = { ...doc.data(), id: doc.id } as Watch;
+      batch.update(doc.ref, { status: 'EXPIRED' });
+      const n: AppNotification = {
+        id: `watch_expiry_${watch.id}_${now}`,
+        title: 'Watch Expired',
+        message: `Your watch "${watch.name}" has ended. Renew it from your profile to keep getting alerts.`,
+        type: 'system',
+        timestamp: now,
+        isRead: false,
+        link: 'PROFILE'
+      };
+      batch.set(db.collection('users').doc(watch.userId).collection('notifications').doc(n.id), n);
+    });
+
+    if (!dryRun) await batch.commit();
+    watchesExpired += page.size;
+    last = page.docs[page.docs.length - 1];
+  }
+
+  log(`${dryRun ? '[dry run] Would expire' : 'Expired'} ${watchesExpired} watches.`);
+};
+
+run().then(() => process.exit(0)).catch(e => {
+  console.error('[ExpireReports] Job failed:', e);
+  process.exit(1);
+});
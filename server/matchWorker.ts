@@ -0,0 +1,299 @@
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore, Firestore } from 'firebase-admin/firestore';
+import { AppNotification, ItemReport, MatchRecord, ReportType, Watch } from '../types';
+import { buildEmbeddingText, rankCandidates } from '../services/matchIndex';
+import { scoreMatch } from '../services/matchScoring';
+import { getOccurrence } from '../services/reportTime';
+import { isListed } from '../services/moderationPolicy';
+import { MATCHABLE_STATUSES } from '../services/reportLifecycle';
+import { FeedFilters } from '../services/reportFacets';
+import { recordAlert, shouldAlert, watchFilters } from '../services/watchPolicy';
+
+// ------------------------------------------------------------------
+// MATCH WORKER
+// Listens to matchable reports (OPEN, IN_CUSTODY) and keeps the `matches` collection up to date,
+// writing a notification to `users/{uid}/notifications` for each new strong match.
+//
+// Local run against the emulator:
+//   FIRESTORE_EMULATOR_HOST=localhost:8080 FIREBASE_PROJECT_ID=demo-retriva npm run worker:match
+// Pass --once to process the current reports and exit (cron / CI).
+//
+// Reports waiting for moderation (or rejected) are left out until a moderator approves them.
+// New reports are also checked against active watches (saved searches, services/watchPolicy.ts),
+// alerting each watcher once per report.
+//
+// Only imports pure modules (types, matchIndex, matchScoring, ...): nothing that needs Vite.
+// ------------------------------------------------------------------
+
+// --- CONFIG ---
+const CANDIDATE_POOL = 25;   // Vector-ranked candidates scored per report
+const MATCH_THRESHOLD = 50;  // Minimum score to keep a match record
+const NOTIFY_THRESHOLD = 75; // Minimum score to notify the owners
+
+const ALREADY_EXISTS = 6; // gRPC status code returned by create() on an existing doc
+
+const projectId = process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT;
+const runOnce = process.argv.includes('--once');
+
+// --- HELPERS ---
+const log = (...args: unknown[]) => console.log(`[MatchWorker ${new Date().toISOString()}]`, ...args);
+
+// Only these fields affect matching; other edits (e.g. a new image URL) don't trigger a rescan
+const matchSignature = (report: ItemReport) => {
+  return [
+    buildEmbeddingText(report), report.location, report.type,
+    JSON.stringify(getOccurrence(report)), JSON.stringify(report.route || [])
+  ].join('|');
+};
+
+const isAlreadyExists = (e: unknown) => {
+  return typeof e === 'object' && e !== null && 'code' in e && e.code === ALREADY_EXISTS;
+};
+
+const buildNotification = (match: MatchRecord, own: ItemReport, other: ItemReport): AppNotification => ({
+  id: `match_${match.id}`,
+  title: 'Match Alert',
+  message: own.type === ReportType.LOST
+      ? `Found ${match.score}% match for your ${own.title}!`
+      : `Someone may have lost the ${own.title} you found (${match.score}% match).`,
+  type: 'match',
+  timestamp: match.createdAt,
+  isRead: false,
+  link: 'DASHBOARD',
+  metadata: { matchId: other.id, sourceId: own.id }
+});
+
+// --- MATCH STORE ---
+const notifyOwners = async (db: Firestore, match: MatchRecord, lost: ItemReport, found: ItemReport) => {
+  const recipients: [string, ItemReport, ItemReport][] = [[lost.reporterId, lost, found]];
+  if (found.reporterId !== lost.reporterId) recipients.push([found.reporterId, found, lost]);
+
+  await Promise.all(recipients.map(async ([uid, own, other]) => {
+    const notification = buildNotification(match, own, other);
+    try {
+      await db.collection('users').doc(uid).collection('notifications').doc(notification.id).create(notification);
+    } catch (e) {
+      if (!isAlreadyExists(e)) throw e;
+    }
+  }));
+};
+
+/** Creates or refreshes a match record. Returns true when the record is new. */
+const upsertMatch = async (db: Firestore, lost: ItemReport, found: ItemReport, score: number, reasons: string[]): Promise<boolean> => {
+  const now = Date.now();
+  const id = `${lost.id}_${found.id}`;
+  const ref = db.collection('matches').doc(id);
+
+  const record: MatchRecord = {
+    id,
+    lostId: lost.id,
+    foundId: found.id,
+    lostOwnerId: lost.reporterId,
+    foundOwnerId: found.reporterId,
+    participants: [lost.reporterId, found.reporterId],
+    score,
+    reasons,
+    status: 'ACTIVE',
+    createdAt: now,
+    updatedAt: now
+  };
+
+  try {
+    await ref.create(record);
+  } catch (e) {
+    if (!isAlreadyExists(e)) throw e;
+    await ref.update({ score, reasons, status: 'ACTIVE', updatedAt: now });
+    return false;
+  }
+
+  if (score >= NOTIFY_THRESHOLD) await notifyOwners(db, record, lost, found);
+  return true;
+};
+
+/** Closes active matches for a report, optionally keeping the given match ids. */
+const closeMatches = async (db: Firestore, report: { id: string, type: ReportType }, keep: Set<string> = new Set()) => {
+  const field = report.type === ReportType.LOST ? 'lostId' : 'foundId';
+  const snapshot = await db.collection('matches')
+      .where(field, '==', report.id)
+      .where('status', '==', 'ACTIVE')
+      .get();
+
+  const stale = snapshot.docs.filter(doc => !keep.has(doc.id));
+  if (stale.length === 0) return;
+
+  const batch = db.batch();
+  stale.forEach(doc => batch.update(doc.ref, { status: 'CLOSED', updatedAt: Date.now() }));
+  await batch.commit();
+};
+
+// --- WATCHES ---
+type WatchEntry = { watch: Watch, filters: FeedFilters };
+
+const watchNotification = (id: string, title: string, message: string, now: number, metadata?: AppNotification['metadata']): AppNotification => ({
+  id,
+  title,
+  message,
+  type: metadata ? 'match' : 'system',
+  timestamp: now,
+  isRead: false,
+  link: metadata ? 'DASHBOARD' : 'PROFILE',
+  ...(metadata ? { metadata } : {})
+});
+
+/** Alerts every watcher whose saved search `report` satisfies, and pauses watches that fire too often. */
+const alertWatchers = async (db: Firestore, report: ItemReport, watches: Map<string, WatchEntry>) => {
+  for (const entry of watches.values()) {
+    const { watch, filters } = entry;
+    const now = Date.now();
+    if (!shouldAlert(watch, report, filters, now)) continue;
+
+    const inbox = db.collection('users').doc(watch.userId).collection('notifications');
+    const alert = watchNotification(`watch_${watch.id}_${report.id}`, 'Watch Alert',
+      `New ${report.type === ReportType.FOUND ? 'found' : 'lost'} report "${report.title}" at ${report.location} matches your watch "${watch.name}".`,
+      now, { matchId: report.id });
+    try {
+      await inbox.doc(alert.id).create(alert);
+    } catch (e) {
+      if (isAlreadyExists(e)) continue;
+      throw e;
+    }
+
+    const update = recordAlert(watch, now);
+    await db.collection('watches').doc(watch.id).update(update);
+    entry.watch = { ...watch, ...update };
+
+    if (update.status === 'PAUSED') {
+      const notice = watchNotification(`watch_paused_${watch.id}_${now}`, 'Watch Paused',
+        `"${watch.name}" matched ${update.alertsInWindow} new reports today, so it was paused. Narrow it down or resume it from your profile.`, now);
+      await inbox.doc(notice.id).set(notice);
+      log(`Watch ${watch.id} paused after ${update.alertsInWindow} alerts`);
+    }
+  }
+};
+
+// --- MATCHING ---
+const processReport = async (db: Firestore, report: ItemReport, openReports: Map<string, ItemReport>) => {
+  const targetType = report.type === ReportType.LOST ? ReportType.FOUND : ReportType.LOST;
+  const candidates = [...openReports.values()].filter(r => r.type === targetType && r.id !== report.id);
+
+  const shortlist = rankCandidates(report, candidates, CANDIDATE_POOL);
+  const kept = new Set<string>();
+  let created = 0;
+
+  for (const { report: candidate } of shortlist) {
+    const breakdown = scoreMatch(report, candidate);
+    if (breakdown.rejected || breakdown.total < MATCH_THRESHOLD) continue;
+
+    const [lost, found] = report.type === ReportType.LOST ? [report, candidate] : [candidate, report];
+    const reasons = breakdown.factors
+        .filter(f => f.score !== null && f.score >= 0.7)
+        .sort((a, b) => b.points - a.points)
+        .slice(0, 3)
+        .map(f => `${f.label}: ${f.detail}`);
+
+    kept.add(`${lost.id}_${found.id}`);
+    if (await upsertMatch(db, lost, found, breakdown.total, reasons)) created++;
+  }
+
+  await closeMatches(db, report, kept);
+  if (created > 0) log(`${report.id}: ${created} new match(es)`);
+};
+
+// --- ENTRY ---
+const start = () => {
+  initializeApp(projectId ? { projectId } : undefined);
+  const db = getFirestore();
+
+  const openReports = new Map<string, ItemReport>();
+  const signatures = new Map<string, string>();
+  const watches = new Map<string, WatchEntry>();
+  let firstSnapshot = true;
+
+  // Watches load first, so reports filed while the worker was down still alert on the initial scan
+  let watchesLoaded: () => void;
+  let queue: Promise<void> = new Promise(resolve => { watchesLoaded = resolve; });
+
+  const unsubscribeWatches = db.collection('watches').where('status', '==', 'ACTIVE').onSnapshot(snapshot => {
+    snapshot.docChanges().forEach(change => {
+      if (change.type === 'removed') {
+        watches.delete(change.doc.id);
+        return;
+      }
+      const watch = { ...change.doc.data(), id: change.doc.id } as Watch;
+      watches.set(watch.id, { watch, filters: watchFilters(watch) });
+    });
+    watchesLoaded();
+  }, error => {
+    console.error('[MatchWorker] Watch listener failed:', error);
+    process.exit(1);
+  });
+
+  log(`Starting${projectId ? ` for project ${projectId}` : ''}${process.env.FIRESTORE_EMULATOR_HOST ? ` (emulator ${process.env.FIRESTORE_EMULATOR_HOST})` : ''}`);
+
+  const unsubscribe = db.collection('reports').where('status', 'in', MATCHABLE_STATUSES).onSnapshot(snapshot => {
+    const changed: ItemReport[] = [];
+    const removed: ItemReport[] = [];
+    const arrived: ItemReport[] = []; // Newly listed: checked against the watches
+
+    snapshot.docChanges().forEach(change => {
+      const report = { ...change.doc.data(), id: change.doc.id } as ItemReport;
+
+      // Unlisted (flagged, not yet approved) reports drop out like deleted ones
+      if (change.type === 'removed' || !isListed(report)) {
+        if (change.type === 'removed' || openReports.has(report.id)) removed.push(report);
+        openReports.delete(report.id);
+        signatures.delete(report.id);
+        return;
+      }
+
+      if (!report.reporterId) return;
+      if (!openReports.has(report.id)) arrived.push(report);
+      openReports.set(report.id, report);
+
+      const signature = matchSignature(report);
+      if (signatures.get(report.id) !== signature) {
+        signatures.set(report.id, signature);
+        changed.push(report);
+      }
+    });
+
+    const isInitial = firstSnapshot;
+    firstSnapshot = false;
+
+    // Serialize batches so a burst of edits can't race on the same match docs
+    queue = queue.then(async () => {
+      for (const report of removed) {
+        try { await closeMatches(db, report); } catch (e) { console.error('[MatchWorker] Failed to close matches for', report.id, e); }
+      }
+      for (const report of changed) {
+        try { await processReport(db, report, openReports); } catch (e) { console.error('[MatchWorker] Failed to process report', report.id, e); }
+      }
+      for (const report of arrived) {
+        try { await alertWatchers(db, report, watches); } catch (e) { console.error('[MatchWorker] Failed to check watches for', report.id, e); }
+      }
+
+      if (isInitial) {
+        log(`Initial scan done (${openReports.size} open reports, ${watches.size} active watches)`);
+        if (runOnce) {
+          unsubscribe();
+          unsubscribeWatches();
+          process.exit(0);
+        }
+      }
+    });
+  }, error => {
+    console.error('[MatchWorker] Report listener failed:', error);
+    process.exit(1);
+  });
+
+  const shutdown = () => {
+    log('Shutting down');
+    unsubscribe();
+    unsubscribeWatches();
+    queue.finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+};
+
+start();
@@ -0,0 +1,63 @@
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { ItemReport } from '../types';
+import { isListed } from '../services/moderationPolicy';
+
+// ------------------------------------------------------------------
+// MIGRATION: report visibility
+// Reports now carry `listed` (never flagged, or approved), which firestore.rules checks before
+// anyone but the reporter or a moderator can read them, and which the feed queries filter on.
+// Older reports don't have it, so they only show up for their reporter until this runs.
+// Reports whose `listed` already matches are left alone, so it is safe to re-run.
+//
+//   FIREBASE_PROJECT_ID=<project> npm run migrate:listed -- --dry-run
+//   FIREBASE_PROJECT_ID=<project> npm run migrate:listed
+// ------------------------------------------------------------------
+
+const PAGE_SIZE = 500; // Also the Firestore batch write limit
+
+const projectId = process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT;
+const dryRun = process.argv.includes('--dry-run');
+
+const log = (...args: unknown[]) => console.log(`[MigrateListed]`, ...args);
+
+const run = async () => {
+  initializeApp(projectId ? { projectId } : undefined);
+  const db = getFirestore();
+
+  let scanned = 0;
+  let migrated = 0;
+  let unlisted = 0;
+  let last: QueryDocumentSnapshot | undefined;
+
+  while (true) {
+    let query = db.collection('reports').orderBy('__name__').limit(PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+    const page = await query.get();
+    if (page.empty) break;
+
+    const batch = db.batch();
+    let pending = 0;
+    page.docs.forEach(doc => {
+      const report = { ...doc.data(), id: doc.id } as ItemReport;
+      const listed = isListed(report);
+      if (report.listed === listed) return;
+
+      batch.update(doc.ref, { listed });
+      if (!listed) unlisted++;
+      pending++;
+    });
+
+    if (pending > 0 && !dryRun) await batch.commit();
+    scanned += page.size;
+    migrated += pending;
+    last = page.docs[page.docs.length - 1];
+  }
+
+  log(`${dryRun ? '[dry run] Would migrate' : 'Migrated'} ${migrated} of ${scanned} reports (${unlisted} unlisted)`);
+};
+
+run().then(() => process.exit(0)).catch(e => {
+  console.error('[MigrateListed] Migration failed:', e);
+  process.exit(1);
+});
@@ -0,0 +1,74 @@
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { ItemReport } from '../types';
+import { campusTimeZone, getOccurrence } from '../services/reportTime';
+
+// ------------------------------------------------------------------
+// MIGRATION: canonical report timestamps
+// Older reports only have `date` (DD/MM/YYYY), `time` (HH:MM) and, for loss windows, `lostUntil`.
+// This parses them as campus time and writes `occurredAt`, `occurredUntil` and `timeZone`.
+// The legacy strings are left in place (the app drops them when a report is next edited).
+// Reports whose date can't be parsed fall back to `createdAt` and are listed in the log.
+// Safe to re-run; only touches reports without `occurredAt`.
+//
+//   FIREBASE_PROJECT_ID=<project> npm run migrate:occurred-at -- --dry-run
+//   FIREBASE_PROJECT_ID=<project> npm run migrate:occurred-at
+// ------------------------------------------------------------------
+
+const PAGE_SIZE = 500; // Also the Firestore batch write limit
+
+const projectId = process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT;
+const dryRun = process.argv.includes('--dry-run');
+
+const log = (...args: unknown[]) => console.log(`[MigrateOccurredAt]`, ...args);
+
+const run = async () => {
+  initializeApp(projectId ? { projectId } : undefined);
+  const db = getFirestore();
+
+  let scanned = 0;
+  let migrated = 0;
+  const unparsed: string[] = [];
+  let last: QueryDocumentSnapshot | undefined;
+
+  // Page by document id so large report collections don't load at once
+  while (true) {
+    let query = db.collection('reports').orderBy('__name__').limit(PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+    const page = await query.get();
+    if (page.empty) break;
+
+    const batch = db.batch();
+    let pending = 0;
+    page.docs.forEach(doc => {
+      const report = { ...doc.data(), id: doc.id } as ItemReport;
+      if (typeof report.occurredAt === 'number') return;
+
+      const occurrence = getOccurrence(report);
+      if (!occurrence) unparsed.push(`${doc.id} (date "${report.date ?? ''}", time "${report.time ?? ''}")`);
+
+      batch.update(doc.ref, {
+        occurredAt: occurrence?.start ?? report.createdAt,
+        ...(occurrence && occurrence.end > occurrence.start ? { occurredUntil: occurrence.end } : {}),
+        timeZone: occurrence?.timeZone ?? campusTimeZone(report.locationRef?.campusId)
+      });
+      pending++;
+    });
+
+    if (pending > 0 && !dryRun) await batch.commit();
+    scanned += page.size;
+    migrated += pending;
+    last = page.docs[page.docs.length - 1];
+  }
+
+  if (unparsed.length > 0) {
+    log(`${unparsed.length} report(s) had no parseable date; used createdAt instead:`);
+    unparsed.forEach(entry => log(`  ${entry}`));
+  }
+  log(`${dryRun ? '[dry run] Would migrate' : 'Migrated'} ${migrated} of ${scanned} reports.`);
+};
+
+run().then(() => process.exit(0)).catch(e => {
+  console.error('[MigrateOccurredAt] Migration failed:', e);
+  process.exit(1);
+});
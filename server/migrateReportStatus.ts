@@ -0,0 +1,73 @@
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { ItemReport, ReportStatus } from '../types';
+import { getStatus } from '../services/reportLifecycle';
+
+// ------------------------------------------------------------------
+// MIGRATION: report lifecycle
+// Older reports are only 'OPEN' or 'RESOLVED'. This writes the lifecycle status and starts `statusHistory`:
+//   RESOLVED           -> RETURNED
+//   OPEN, held at desk -> IN_CUSTODY
+// Reports that already have a history are left alone, so it is safe to re-run.
+//
+//   FIREBASE_PROJECT_ID=<project> npm run migrate:report-status -- --dry-run
+//   FIREBASE_PROJECT_ID=<project> npm run migrate:report-status
+// ------------------------------------------------------------------
+
+const PAGE_SIZE = 500; // Also the Firestore batch write limit
+
+const projectId = process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT;
+const dryRun = process.argv.includes('--dry-run');
+
+const log = (...args: unknown[]) => console.log(`[MigrateReportStatus]`, ...args);
+
+const lifecycleStatus = (report: ItemReport): ReportStatus => {
+  const status = getStatus(report);
+  return status === 'OPEN' && report.custody?.status === 'HELD' ? 'IN_CUSTODY' : status;
+};
+
+const run = async () => {
+  initializeApp(projectId ? { projectId } : undefined);
+  const db = getFirestore();
+
+  let scanned = 0;
+  let migrated = 0;
+  const counts: Partial<Record<ReportStatus, number>> = {};
+  let last: QueryDocumentSnapshot | undefined;
+
+  while (true) {
+    let query = db.collection('reports').orderBy('__name__').limit(PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+    const page = await query.get();
+    if (page.empty) break;
+
+    const batch = db.batch();
+    let pending = 0;
+    page.docs.forEach(doc => {
+      const report = { ...doc.data(), id: doc.id } as ItemReport;
+      if (report.statusHistory?.length) return;
+
+      const status = lifecycleStatus(report);
+      // When it actually happened is unknown: the history starts at creation
+      batch.update(doc.ref, {
+        status,
+        statusUpdatedAt: report.createdAt,
+        statusHistory: [{ from: null, to: status, at: report.createdAt, by: report.reporterId, note: 'Migrated' }]
+      });
+      counts[status] = (counts[status] || 0) + 1;
+      pending++;
+    });
+
+    if (pending > 0 && !dryRun) await batch.commit();
+    scanned += page.size;
+    migrated += pending;
+    last = page.docs[page.docs.length - 1];
+  }
+
+  log(`${dryRun ? '[dry run] Would migrate' : 'Migrated'} ${migrated} of ${scanned} reports:`, counts);
+};
+
+run().then(() => process.exit(0)).catch(e => {
+  console.error('[MigrateReportStatus] Migration failed:', e);
+  process.exit(1);
+});
@@ -0,0 +1,62 @@
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore, FieldValue, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+
+// ------------------------------------------------------------------
+// MIGRATION: move warnings and suspensions from `users` to `sanctions`
+// Older builds stored them on the profile, which its owner can delete and recreate without them.
+// Copies them into `sanctions/{uid}` (only moderators write there) and removes them from the profile.
+// Safe to re-run; only touches docs that still have them.
+//
+//   FIREBASE_PROJECT_ID=<project> npm run migrate:sanctions -- --dry-run
+//   FIREBASE_PROJECT_ID=<project> npm run migrate:sanctions
+// ------------------------------------------------------------------
+
+const SANCTION_FIELDS = ['warningCount', 'suspendedUntil', 'suspensionReason', 'moderatedBy'];
+const PAGE_SIZE = 250; // Two writes per user, under the 500-write batch limit
+
+const projectId = process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT;
+const dryRun = process.argv.includes('--dry-run');
+
+const log = (...args: unknown[]) => console.log(`[MigrateSanctions]`, ...args);
+
+const run = async () => {
+  initializeApp(projectId ? { projectId } : undefined);
+  const db = getFirestore();
+
+  let scanned = 0;
+  let moved = 0;
+  let last: QueryDocumentSnapshot | undefined;
+
+  while (true) {
+    let query = db.collection('users').orderBy('__name__').limit(PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+    const page = await query.get();
+    if (page.empty) break;
+
+    const batch = db.batch();
+    let pending = 0;
+    page.docs.forEach(doc => {
+      const data = doc.data();
+      const present = SANCTION_FIELDS.filter(field => field in data);
+      if (present.length === 0) return;
+      batch.set(db.collection('sanctions').doc(doc.id), {
+        ...Object.fromEntries(present.map(field => [field, data[field]])),
+        moderatedBy: data.moderatedBy || 'server/migrateSanctions'
+      }, { merge: true });
+      batch.update(doc.ref, Object.fromEntries(present.map(field => [field, FieldValue.delete()])));
+      pending++;
+    });
+
+    if (pending > 0 && !dryRun) await batch.commit();
+    scanned += page.size;
+    moved += pending;
+    last = page.docs[page.docs.length - 1];
+  }
+
+  log(`${dryRun ? '[dry run] Would move' : 'Moved'} sanctions of ${moved} of ${scanned} users.`);
+};
+
+run().then(() => process.exit(0)).catch(e => {
+  console.error('[MigrateSanctions] Migration failed:', e);
+  process.exit(1);
+});
@@ -0,0 +1,188 @@
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore, Firestore } from 'firebase-admin/firestore';
+import { AppNotification, Claim, Resolution } from '../types';
+
+// ------------------------------------------------------------------
+// NOTIFY WORKER
+// Writes the notifications one user's action sends another: ownership claims (submitted, verified,
+// declined) and linked returns (proposed, confirmed, declined, thank-you notes). Clients may only
+// write to their own inbox (firestore.rules), so these come from here, worded from the stored docs.
+//
+// Local run against the emulator:
+//   FIRESTORE_EMULATOR_HOST=localhost:8080 FIREBASE_PROJECT_ID=demo-retriva npm run worker:notify
+// Pass --once to process the current docs and exit (cron / CI).
+//
+// Notification ids are derived from the event, so a restart never sends one twice. Events older
+// than BACKLOG_MS at startup are skipped, so a first run doesn't replay the whole history.
+// ------------------------------------------------------------------
+
+// --- CONFIG ---
+const BACKLOG_MS = 24 * 60 * 60 * 1000;
+
+const ALREADY_EXISTS = 6; // gRPC status code returned by create() on an existing doc
+
+const projectId = process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT;
+const runOnce = process.argv.includes('--once');
+
+// --- HELPERS ---
+const log = (...args: unknown[]) => console.log(`[NotifyWorker ${new Date().toISOString()}]`, ...args);
+
+const isAlreadyExists = (e: unknown) => {
+  return typeof e === 'object' && e !== null && 'code' in e && e.code === ALREADY_EXISTS;
+};
+
+type Notice = { uid: string, notification: AppNotification };
+
+const notice = (uid: string, id: string, at: number, title: string, message: string, sourceId: string, link: AppNotification['link'] = 'DASHBOARD'): Notice => ({
+  uid,
+  notification: { id, title, message, type: 'system', timestamp: at, isRead: false, link, metadata: { sourceId } }
+});
+
+const send = async (db: Firestore, { uid, notification }: Notice): Promise<boolean> => {
+  try {
+    await db.collection('users').doc(uid).collection('notifications').doc(notification.id).create(notification);
+    return true;
+  } catch (e) {
+    if (isAlreadyExists(e)) return false;
+    throw e;
+  }
+};
+
+// Names and titles are read when needed, so the wording can't be set by whoever triggered it
+const userName = async (db: Firestore, uid: string) => {
+  const snap = await db.collection('users').doc(uid).get();
+  const name = snap.data()?.name;
+  return typeof name === 'string' && name ? name : 'Someone';
+};
+
+const reportTitle = async (db: Firestore, reportId: string) => {
+  const snap = await db.collection('reports').doc(reportId).get();
+  const title = snap.data()?.title;
+  return typeof title === 'string' && title ? title : 'your item';
+};
+
+// --- CLAIMS ---
+// One notice per history event, keyed by its position (history is append-only)
+const claimNotices = async (db: Firestore, claim: Claim, since: number): Promise<Notice[]> => {
+  const events = claim.history
+      .map((event, index) => ({ event, index }))
+      .filter(({ event }) => event.at >= since && ['SUBMITTED', 'VERIFIED', 'REJECTED'].includes(event.action));
+  if (events.length === 0) return [];
+
+  const title = await reportTitle(db, claim.reportId);
+  const name = await userName(db, claim.claimantId);
+  const id = (index: number) => `claim_${claim.reportId}_${claim.claimantId}_${index}`;
+
+  return events.map(({ event, index }) => {
+    if (event.action === 'SUBMITTED') {
+      return notice(claim.finderId, id(index), event.at, 'Ownership Claim',
+        `${name} answered the verification questions for "${title}".`, claim.reportId);
+    }
+    return event.action === 'VERIFIED'
+        ? notice(claim.claimantId, id(index), event.at, 'Ownership Verified',
+            `Your claim for "${title}" was verified. You can now contact the finder.`, claim.reportId, 'MESSAGES')
+        : notice(claim.claimantId, id(index), event.at, 'Claim Declined',
+            `Your claim for "${title}" wasn't accepted.`, claim.reportId);
+  });
+};
+
+// --- RESOLUTIONS ---
+const resolutionNotices = async (db: Firestore, resolution: Resolution, since: number): Promise<Notice[]> => {
+  const notices: Notice[] = [];
+  const proposer = resolution.resolvedBy;
+  const responder = resolution.participants.find(uid => uid !== proposer);
+  if (!responder) return notices;
+
+  // Each side's own report: what it is called and where the notice points
+  const side = (uid: string) => uid === resolution.ownerId
+      ? { title: resolution.lostTitle, reportId: resolution.lostReportId }
+      : { title: resolution.foundTitle, reportId: resolution.foundReportId };
+
+  if (resolution.status === 'PENDING' && resolution.resolvedAt >= since) {
+    const { title, reportId } = side(responder);
+    notices.push(notice(responder, `resolution_${resolution.id}_${resolution.resolvedAt}_proposed`, resolution.resolvedAt, 'Confirm Return',
+      `${await userName(db, proposer)} says "${title}" was returned. Open it to confirm, and both reports close.`, reportId));
+  }
+
+  // Legacy resolutions (no status) were accepted when they were made; nobody is waiting on them
+  if ((resolution.status === 'ACCEPTED' || resolution.status === 'DECLINED') && (resolution.respondedAt || 0) >= since) {
+    const { title, reportId } = side(proposer);
+    const name = await userName(db, responder);
+    notices.push(resolution.status === 'ACCEPTED'
+        ? notice(proposer, `resolution_${resolution.id}_accepted`, resolution.respondedAt!, 'Item Returned',
+            `${name} confirmed "${title}" was returned. Both reports are now closed.`, reportId)
+        : notice(proposer, `resolution_${resolution.id}_${resolution.resolvedAt}_declined`, resolution.respondedAt!, 'Return Not Confirmed',
+            `${name} didn't confirm "${title}" was returned through their report. Both reports stay open.`, reportId));
+  }
+
+  if (resolution.feedback && resolution.feedback.at >= since) {
+    notices.push(notice(resolution.finderId, `resolution_${resolution.id}_feedback`, resolution.feedback.at, 'A Thank-You Note',
+      `${await userName(db, resolution.ownerId)} on "${resolution.foundTitle}": "${resolution.feedback.message}"`, resolution.foundReportId));
+  }
+
+  return notices;
+};
+
+// --- ENTRY ---
+const start = () => {
+  initializeApp(projectId ? { projectId } : undefined);
+  const db = getFirestore();
+  const since = Date.now() - BACKLOG_MS;
+
+  let queue: Promise<void> = Promise.resolve();
+  const pendingInitial = new Set(['claims', 'resolutions']);
+  const unsubscribers: (() => void)[] = [];
+
+  // Serialize batches so two snapshots of the same doc can't race
+  const handle = (source: string, build: () => Promise<Notice[]>[]) => {
+    const isInitial = pendingInitial.delete(source);
+    queue = queue.then(async () => {
+      let sent = 0;
+      for (const pending of build()) {
+        try {
+          for (const n of await pending) if (await send(db, n)) sent++;
+        } catch (e) {
+          console.error(`[NotifyWorker] Failed to notify for ${source}:`, e);
+        }
+      }
+      if (sent > 0) log(`${source}: ${sent} notification(s)`);
+
+      if (isInitial && pendingInitial.size === 0) {
+        log('Initial scan done');
+        if (runOnce) {
+          unsubscribers.forEach(u => u());
+          process.exit(0);
+        }
+      }
+    });
+  };
+
+  const fail = (source: string) => (error: Error) => {
+    console.error(`[NotifyWorker] ${source} listener failed:`, error);
+    process.exit(1);
+  };
+
+  log(`Starting${projectId ? ` for project ${projectId}` : ''}${process.env.FIRESTORE_EMULATOR_HOST ? ` (emulator ${process.env.FIRESTORE_EMULATOR_HOST})` : ''}`);
+
+  unsubscribers.push(db.collectionGroup('claims').onSnapshot(snapshot => {
+    handle('claims', () => snapshot.docChanges()
+        .filter(change => change.type !== 'removed')
+        .map(change => claimNotices(db, { ...change.doc.data(), id: change.doc.id } as Claim, since)));
+  }, fail('Claim')));
+
+  unsubscribers.push(db.collection('resolutions').onSnapshot(snapshot => {
+    handle('resolutions', () => snapshot.docChanges()
+        .filter(change => change.type !== 'removed')
+        .map(change => resolutionNotices(db, { ...change.doc.data(), id: change.doc.id } as Resolution, since)));
+  }, fail('Resolution')));
+
+  const shutdown = () => {
+    log('Shutting down');
+    unsubscribers.forEach(u => u());
+    queue.finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+};
+
+start();
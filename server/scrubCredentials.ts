@@ -0,0 +1,57 @@
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore, FieldValue, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+
+// ------------------------------------------------------------------
+// MIGRATION: scrub credential fields from `users`
+// Older clients wrote `storedPassword` (plaintext) and `loginAttempts` into every user doc.
+// This removes both fields. Safe to re-run; only touches docs that still have them.
+//
+//   FIREBASE_PROJECT_ID=<project> npm run migrate:scrub-credentials -- --dry-run
+//   FIREBASE_PROJECT_ID=<project> npm run migrate:scrub-credentials
+// ------------------------------------------------------------------
+
+const LEGACY_FIELDS = ['storedPassword', 'loginAttempts'];
+const PAGE_SIZE = 500; // Also the Firestore batch write limit
+
+const projectId = process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT;
+const dryRun = process.argv.includes('--dry-run');
+
+const log = (...args: unknown[]) => console.log(`[ScrubCredentials]`, ...args);
+
+const run = async () => {
+  initializeApp(projectId ? { projectId } : undefined);
+  const db = getFirestore();
+
+  let scanned = 0;
+  let scrubbed = 0;
+  let last: QueryDocumentSnapshot | undefined;
+
+  // Page by document id so large user collections don't load at once
+  while (true) {
+    let query = db.collection('users').orderBy('__name__').limit(PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+    const page = await query.get();
+    if (page.empty) break;
+
+    const batch = db.batch();
+    let pending = 0;
+    page.docs.forEach(doc => {
+      const data = doc.data();
+      if (!LEGACY_FIELDS.some(field => field in data)) return;
+      batch.update(doc.ref, Object.fromEntries(LEGACY_FIELDS.map(field => [field, FieldValue.delete()])));
+      pending++;
+    });
+
+    if (pending > 0 && !dryRun) await batch.commit();
+    scanned += page.size;
+    scrubbed += pending;
+    last = page.docs[page.docs.length - 1];
+  }
+
+  log(`${dryRun ? '[dry run] Would scrub' : 'Scrubbed'} ${scrubbed} of ${scanned} user documents.`);
+};
+
+run().then(() => process.exit(0)).catch(e => {
+  console.error('[ScrubCredentials] Migration failed:', e);
+  process.exit(1);
+});
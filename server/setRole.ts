@@ -0,0 +1,39 @@
+import { initializeApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+import { USER_ROLES, isUserRole } from '../services/permissions';
+
+// ------------------------------------------------------------------
+// ADMIN: set a user's role
+// Users can't change their own `role` (see firestore.rules). Admins manage roles in the app;
+// this script bootstraps the first admin or recovers access.
+//
+//   FIREBASE_PROJECT_ID=<project> npm run admin:set-role -- head@college.edu admin
+//   FIREBASE_PROJECT_ID=<project> npm run admin:set-role -- desk@college.edu student
+// ------------------------------------------------------------------
+
+const projectId = process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT;
+const [email, role] = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+
+const log = (...args: unknown[]) => console.log(`[SetRole]`, ...args);
+
+const run = async () => {
+  if (!email || !isUserRole(role)) {
+    throw new Error(`Usage: npm run admin:set-role -- <email> <${USER_ROLES.join('|')}>`);
+  }
+
+  const app = initializeApp(projectId ? { projectId } : undefined);
+  const user = await getAuth(app).getUserByEmail(email);
+  const ref = getFirestore(app).collection('users').doc(user.uid);
+
+  const snap = await ref.get();
+  if (!snap.exists) throw new Error(`${email} has no profile yet; ask them to sign in once first.`);
+
+  await ref.update({ role, roleUpdatedBy: 'server/setRole', roleUpdatedAt: Date.now() });
+  log(`${email} (${user.uid}) is now ${role}.`);
+};
+
+run().then(() => process.exit(0)).catch(e => {
+  console.error('[SetRole] Failed:', e.message || e);
+  process.exit(1);
+});
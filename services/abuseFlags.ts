@@ -0,0 +1,285 @@
+import { db, FieldValue } from './firebase';
+import { AbuseAction, AbuseEvidence, AbuseFlag, AbuseReason, Chat, ItemReport, Message, ModerationFlag, User, UserSanctions } from '../types';
+import { createNotification } from './notifications';
+import { hasPermission } from './permissions';
+import { FLAG_LABELS } from './moderationPolicy';
+import { newModeration, reviewReport } from './moderation';
+
+/**
+ * User-submitted abuse reports ("flags") on reports, chats and messages.
+ * Each flag keeps the reporter's snapshot of the content; moderators see them grouped by target, with the
+ * content loaded fresh (firestore.rules checks the flagged user really authored it), and act once per group:
+ * hide the content, warn or suspend its author, or dismiss. Warnings and suspensions live in
+ * `sanctions/{uid}`, which only moderators write; firestore.rules enforces suspensions from there.
+ */
+
+export const ABUSE_REASONS: AbuseReason[] = ['FAKE_POST', 'SCAM', 'HARASSMENT', 'OFFENSIVE', 'SPAM', 'OTHER'];
+
+export const SUSPENSION_DAYS = [1, 7, 30];
+
+// Lines of a flagged chat kept as evidence
+const CHAT_EVIDENCE_LINES = 10;
+
+const flagsRef = () => db.collection('flags');
+const sanctionsRef = (userId: string) => db.collection('sanctions').doc(userId);
+
+export type AbuseTarget = Pick<AbuseFlag, 'targetType' | 'targetId' | 'chatId' | 'targetUserId' | 'targetUserName' | 'evidence'>;
+
+export const reasonLabel = (reason: AbuseReason) => FLAG_LABELS[reason] || reason;
+
+export const isSuspended = (user?: Pick<User, 'suspendedUntil'> | null) => (user?.suspendedUntil || 0) > Date.now();
+
+// --- SANCTIONS ---
+export const fetchSanctions = async (userId: string): Promise<UserSanctions | null> => {
+  const snap = await sanctionsRef(userId).get();
+  return snap.exists ? snap.data() as UserSanctions : null;
+};
+
+export const subscribeToSanctions = (userId: string, onChange: (sanctions: UserSanctions | null) => void) => {
+  return sanctionsRef(userId).onSnapshot((snap) => {
+    onChange(snap.exists ? snap.data() as UserSanctions : null);
+  }, (error) => console.warn("Sanctions listener failed", error));
+};
+
+// --- TARGETS ---
+const reportEvidence = (report: ItemReport): AbuseEvidence => ({
+  title: report.title,
+  text: report.description,
+  imageUrls: report.imageUrls.slice(0, 3),
+  capturedAt: Date.now()
+});
+
+const messageEvidence = (title: string, message: Message): AbuseEvidence => ({
+  title,
+  text: message.text,
+  ...(message.attachment?.type === 'image' ? { imageUrls: [message.attachment.url] } : {}),
+  capturedAt: Date.now()
+});
+
+const chatEvidence = (title: string, messages: Message[]): AbuseEvidence => ({
+  title,
+  messages: messages.filter(m => m.text).slice(-CHAT_EVIDENCE_LINES).map(m => ({
+    senderId: m.senderId,
+    ...(m.senderName ? { senderName: m.senderName } : {}),
+    text: m.text,
+    timestamp: m.timestamp
+  })),
+  capturedAt: Date.now()
+});
+
+export const reportTarget = (report: ItemReport): AbuseTarget => ({
+  targetType: 'REPORT',
+  targetId: report.id,
+  targetUserId: report.reporterId,
+  targetUserName: report.reporterName,
+  evidence: reportEvidence(report)
+});
+
+export const messageTarget = (chat: Chat, message: Message): AbuseTarget => ({
+  targetType: 'MESSAGE',
+  targetId: message.id,
+  chatId: chat.id,
+  targetUserId: message.senderId,
+  ...(message.senderName ? { targetUserName: message.senderName } : {}),
+  evidence: messageEvidence(chat.type === 'global' ? 'Community Chat' : chat.itemTitle, message)
+});
+
+export const chatTarget = (chat: Chat, otherUserId: string, messages: Message[]): AbuseTarget => ({
+  targetType: 'CHAT',
+  targetId: chat.id,
+  targetUserId: otherUserId,
+  evidence: chatEvidence(chat.itemTitle, messages)
+});
+
+/**
+ * Loads the flagged content as it is now, so moderators judge the real post or messages rather than
+ * the snapshot the reporter's client sent. Null when the content no longer exists.
+ * Firestore rules let moderators read a direct chat's messages only once a participant flagged them.
+ */
+export const fetchTargetContent = async (group: Pick<AbuseFlagGroup, 'targetType' | 'targetId' | 'chatId' | 'latest'>): Promise<AbuseEvidence | null> => {
+  const title = group.latest.evidence.title || '';
+
+  if (group.targetType === 'REPORT') {
+    const snap = await db.collection('reports').doc(group.targetId).get();
+    return snap.exists ? reportEvidence({ ...(snap.data() as ItemReport), id: snap.id }) : null;
+  }
+
+  if (group.targetType === 'MESSAGE') {
+    if (!group.chatId) return null;
+    const snap = await db.collection('chats').doc(group.chatId).collection('messages').doc(group.targetId).get();
+    return snap.exists ? messageEvidence(title, { ...(snap.data() as Message), id: snap.id }) : null;
+  }
+
+  const snapshot = await db.collection('chats').doc(group.targetId).collection('messages')
+      .orderBy('timestamp', 'desc')
+      .limit(CHAT_EVIDENCE_LINES)
+      .get();
+  if (snapshot.empty) return null;
+  return chatEvidence(title, snapshot.docs.map(d => ({ ...(d.data() as Message), id: d.id })).reverse());
+};
+
+// --- SUBMIT ---
+const flagId = (target: AbuseTarget, reporterId: string) => `${target.targetType}_${target.targetId}_${reporterId}`;
+
+export const submitFlag = async (reporter: User, target: AbuseTarget, reason: AbuseReason, details?: string) => {
+  if (target.targetUserId === reporter.id) throw new Error("You can't report your own content.");
+
+  const ref = flagsRef().doc(flagId(target, reporter.id));
+  if ((await ref.get()).exists) throw new Error("You've already reported this. Moderators will take a look.");
+
+  const flag: AbuseFlag = {
+    ...target,
+    id: ref.id,
+    reporterId: reporter.id,
+    reporterName: reporter.name,
+    reason,
+    ...(details?.trim() ? { details: details.trim() } : {}),
+    status: 'OPEN',
+    createdAt: Date.now()
+  };
+  await ref.set(flag);
+};
+
+// --- QUEUE ---
+export interface AbuseFlagGroup {
+  key: string;
+  targetType: AbuseFlag['targetType'];
+  targetId: string;
+  chatId?: string;
+  targetUserId: string;
+  targetUserName?: string;
+  flags: AbuseFlag[]; // Oldest first
+  reasons: { reason: AbuseReason, count: number }[];
+  latest: AbuseFlag;
+}
+
+export const subscribeToOpenFlags = (onChange: (flags: AbuseFlag[]) => void) => {
+  return flagsRef().where('status', '==', 'OPEN').onSnapshot((snapshot) => {
+    onChange(snapshot.docs.map(d => d.data() as AbuseFlag));
+  }, (error) => {
+    console.error("Error fetching abuse flags:", error);
+  });
+};
+
+/** One entry per flagged target, most reported first, then oldest. */
+export const groupFlags = (flags: AbuseFlag[]): AbuseFlagGroup[] => {
+  const groups = new Map<string, AbuseFlag[]>();
+  flags.forEach(f => {
+    const key = `${f.targetType}_${f.targetId}`;
+    groups.set(key, [...(groups.get(key) || []), f]);
+  });
+
+  return [...groups.entries()].map(([key, list]) => {
+    const sorted = [...list].sort((a, b) => a.createdAt - b.createdAt);
+    const latest = sorted[sorted.length - 1];
+    const counts = new Map<AbuseReason, number>();
+    sorted.forEach(f => counts.set(f.reason, (counts.get(f.reason) || 0) + 1));
+    return {
+      key,
+      targetType: latest.targetType,
+      targetId: latest.targetId,
+      ...(latest.chatId ? { chatId: latest.chatId } : {}),
+      targetUserId: latest.targetUserId,
+      targetUserName: sorted.find(f => f.targetUserName)?.targetUserName,
+      flags: sorted,
+      reasons: [...counts.entries()].map(([reason, count]) => ({ reason, count })).sort((a, b) => b.count - a.count),
+      latest
+    };
+  }).sort((a, b) => b.flags.length - a.flags.length || a.flags[0].createdAt - b.flags[0].createdAt);
+};
+
+// --- ACTIONS ---
+export interface ResolveOptions {
+  note?: string;
+  suspendDays?: number;
+  report?: ItemReport; // Needed to hide a REPORT target
+}
+
+export const canHide = (group: Pick<AbuseFlagGroup, 'targetType'>) => group.targetType !== 'CHAT';
+
+const ACTION_MESSAGES: Record<Exclude<AbuseAction, 'DISMISS'>, string> = {
+  HIDE: 'removed the content you reported',
+  WARN: 'warned the user you reported',
+  SUSPEND: 'suspended the user you reported'
+};
+
+export const resolveFlagGroup = async (group: AbuseFlagGroup, moderator: User, action: AbuseAction, options: ResolveOptions = {}) => {
+  if (!hasPermission(moderator, 'reports.moderate')) throw new Error('Only moderators can act on abuse reports.');
+  const now = Date.now();
+  const note = options.note?.trim();
+
+  // Hidden reports go through the regular review state, so the reporter sees why and can appeal
+  if (action === 'HIDE' && group.targetType === 'REPORT') {
+    if (!options.report) throw new Error('This report no longer exists.');
+    const userFlags: ModerationFlag[] = group.reasons.map(({ reason, count }) => ({
+      source: 'USER',
+      type: reason,
+      reason: `Reported by ${count} user${count === 1 ? '' : 's'}`
+    }));
+    const moderation = options.report.moderation || newModeration([]);
+    await reviewReport({ ...options.report, moderation: { ...moderation, flags: [...moderation.flags, ...userFlags] } }, moderator, 'REJECTED', note);
+  }
+
+  const batch = db.batch();
+
+  if (action === 'HIDE' && group.targetType === 'MESSAGE') {
+    if (!group.chatId) throw new Error('Missing chat for this message.');
+    batch.update(db.collection('chats').doc(group.chatId).collection('messages').doc(group.targetId), { hidden: true, hiddenBy: moderator.id });
+  }
+
+  let suspendedUntil = 0;
+  if (action === 'WARN') {
+    batch.set(sanctionsRef(group.targetUserId), { warningCount: FieldValue.increment(1), moderatedBy: moderator.id }, { merge: true });
+  } else if (action === 'SUSPEND') {
+    suspendedUntil = now + (options.suspendDays || SUSPENSION_DAYS[0]) * 24 * 60 * 60 * 1000;
+    batch.set(sanctionsRef(group.targetUserId), {
+      suspendedUntil,
+      suspensionReason: note || group.reasons.map(r => reasonLabel(r.reason)).join(', '),
+      moderatedBy: moderator.id
+    }, { merge: true });
+  }
+
+  const resolution: AbuseFlag['resolution'] = {
+    action,
+    moderatorId: moderator.id,
+    moderatorName: moderator.name,
+    ...(note ? { note } : {}),
+    at: now
+  };
+  group.flags.forEach(f => batch.update(flagsRef().doc(f.id), { status: action === 'DISMISS' ? 'DISMISSED' : 'ACTIONED', resolution }));
+  await batch.commit();
+
+  if (action === 'DISMISS') return;
+
+  const notices: Promise<unknown>[] = [];
+  if (action === 'WARN' || action === 'SUSPEND') {
+    const reasons = group.reasons.map(r => reasonLabel(r.reason).toLowerCase()).join(', ');
+    notices.push(createNotification(group.targetUserId, action === 'WARN'
+      ? {
+          title: 'Warning from Moderators',
+          message: `Your activity was reported for ${reasons}${note ? `: ${note}` : '.'} Further reports may lead to a suspension.`,
+          type: 'system'
+        }
+      : {
+          title: 'Account Suspended',
+          message: `You can't post, claim or message until ${new Date(suspendedUntil).toLocaleString()} (${reasons})${note ? `: ${note}` : '.'}`,
+          type: 'system'
+        }
+    ));
+  } else if (group.targetType === 'MESSAGE') {
+    notices.push(createNotification(group.targetUserId, {
+      title: 'Message Removed',
+      message: `A moderator hid one of your messages${note ? `: ${note}` : '.'}`,
+      type: 'system',
+      link: 'MESSAGES'
+    }));
+  }
+  new Set(group.flags.map(f => f.reporterId)).forEach(uid => {
+    notices.push(createNotification(uid, {
+      title: 'Thanks for Your Report',
+      message: `A moderator ${ACTION_MESSAGES[action]}.`,
+      type: 'system'
+    }));
+  });
+  await Promise.all(notices.map(p => p.catch(e => console.warn("Abuse notification failed", e))));
+};
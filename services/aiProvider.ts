@@ -0,0 +1,269 @@
+import { GoogleGenAI } from "@google/genai";
+
+// Declare global Puter object from the script tag in index.html
+declare const puter: any;
+
+// ------------------------------------------------------------------
+// AI PROVIDER CONFIG:
+// Set VITE_AI_PROVIDER to 'gemini', 'puter' or 'mock' (defaults to 'puter').
+// - gemini: uses the @google/genai SDK with GEMINI_API_KEY (see vite.config.ts)
+// - puter:  uses the global Puter.js script loaded in index.html
+// - mock:   deterministic canned replies, for tests and offline development
+// ------------------------------------------------------------------
+
+// --- TYPES ---
+export type AIProviderName = 'gemini' | 'puter' | 'mock';
+
+// Identifies which geminiService feature is asking, so providers (mainly the mock) can answer sensibly.
+export type AITask =
+  | 'match'
+  | 'compare'
+  | 'imageCheck'
+  | 'redaction'
+  | 'visualDetails'
+  | 'mergeDescription'
+  | 'validate'
+  | 'analyze'
+  | 'parseSearch'
+  | 'verifyClaim';
+
+export interface AIRequest {
+  task: AITask;
+  prompt: string;
+  images?: string[];
+  systemInstruction?: string;
+}
+
+export interface AIProvider {
+  name: AIProviderName;
+  /** Returns the raw model text, or null when the provider is unavailable. */
+  generate: (request: AIRequest) => Promise<string | null>;
+  /** Optional text embeddings. Providers without one fall back to the local index in matchIndex.ts. */
+  embed?: (texts: string[]) => Promise<{ model: string, vectors: number[][] } | null>;
+}
+
+const withSystemInstruction = (request: AIRequest): string => {
+  return request.systemInstruction
+      ? `SYSTEM INSTRUCTION: ${request.systemInstruction}\n\nUSER QUERY: ${request.prompt}`
+      : request.prompt;
+};
+
+// --- PROVIDER: PUTER ---
+export const createPuterProvider = (): AIProvider => ({
+  name: 'puter',
+  generate: async (request) => {
+    if (typeof puter === 'undefined') {
+        console.error("[Retriva] Puter.js is not loaded in window.");
+        return null;
+    }
+
+    const fullPrompt = withSystemInstruction(request);
+
+    // OPTIMIZATION: Puter V2 works best with a single image string.
+    // Sending an array of large base64 strings often causes "No response" timeouts.
+    const imagePayload = request.images && request.images.length > 0 ? request.images[0] : undefined;
+
+    const MAX_RETRIES = 3;
+    let lastError;
+
+    for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+        try {
+          let response;
+
+          if (imagePayload) {
+             response = await puter.ai.chat(fullPrompt, imagePayload);
+          } else {
+             response = await puter.ai.chat(fullPrompt);
+          }
+
+          // Check for specific Puter failure object
+          if (typeof response === 'object' && response !== null) {
+              if (response.success === false) {
+                   throw new Error(response.error || "Puter returned success: false");
+              }
+          }
+
+          if (typeof response === 'string') return response;
+          if (response?.message?.content) return response.message.content;
+          if (response?.text) return response.text;
+
+          return JSON.stringify(response);
+
+        } catch (innerError: any) {
+          lastError = innerError;
+          console.warn(`[Puter] Attempt ${attempt} failed:`, innerError);
+
+          // Handle Auth Challenge
+          if (innerError?.message?.includes('401') || innerError?.code === 401) {
+               console.log("[Puter] Auth required. Attempting to sign in...");
+               try {
+                   await puter.auth.signIn();
+                   continue; // Retry immediately
+               } catch (authErr) {
+                   console.error("Puter Auth failed", authErr);
+                   return null;
+               }
+          }
+
+          // For "No response" or other network errors, wait before retrying (Exponential Backoff)
+          if (attempt < MAX_RETRIES) {
+               const delay = Math.pow(2, attempt) * 1000; // 2s, 4s, 8s
+               await new Promise(resolve => setTimeout(resolve, delay));
+          }
+        }
+    }
+
+    console.error(`[Puter] AI Error after ${MAX_RETRIES} attempts:`, lastError);
+    return null;
+  }
+});
+
+// --- PROVIDER: GEMINI (@google/genai) ---
+const GEMINI_MODEL = (import.meta as any).env?.VITE_GEMINI_MODEL || 'gemini-2.5-flash';
+const GEMINI_EMBEDDING_MODEL = (import.meta as any).env?.VITE_GEMINI_EMBEDDING_MODEL || 'text-embedding-004';
+
+// Converts a data URL or remote image URL into an inline part for the Gemini SDK.
+const toInlineImagePart = async (image: string): Promise<{ inlineData: { mimeType: string, data: string } } | null> => {
+  try {
+    let dataUrl = image;
+    if (!image.startsWith('data:')) {
+        const response = await fetch(image);
+        const blob = await response.blob();
+        dataUrl = await new Promise<string>((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(reader.result as string);
+            reader.onerror = reject;
+            reader.readAsDataURL(blob);
+        });
+    }
+
+    const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/);
+    if (!match) return null;
+    return { inlineData: { mimeType: match[1], data: match[2] } };
+  } catch (e) {
+    console.warn("[Gemini] Could not load image for analysis:", e);
+    return null;
+  }
+};
+
+export const createGeminiProvider = (apiKey: string | undefined = process.env.GEMINI_API_KEY): AIProvider => {
+  let client: GoogleGenAI | null = null;
+
+  return {
+    name: 'gemini',
+    generate: async (request) => {
+      if (!apiKey) {
+          console.error("[Retriva] GEMINI_API_KEY is missing. Gemini provider unavailable.");
+          return null;
+      }
+      if (!client) client = new GoogleGenAI({ apiKey });
+
+      try {
+        const imageParts = await Promise.all((request.images || []).map(toInlineImagePart));
+        const parts = [
+            ...imageParts.filter(Boolean) as { inlineData: { mimeType: string, data: string } }[],
+            { text: request.prompt }
+        ];
+
+        const response = await client.models.generateContent({
+            model: GEMINI_MODEL,
+            contents: [{ role: 'user', parts }],
+            config: request.systemInstruction ? { systemInstruction: request.systemInstruction } : undefined
+        });
+
+        return response.text ?? null;
+      } catch (e) {
+        console.error("[Gemini] AI Error:", e);
+        return null;
+      }
+    },
+    embed: async (texts) => {
+      if (!apiKey || texts.length === 0) return null;
+      if (!client) client = new GoogleGenAI({ apiKey });
+
+      try {
+        const response = await client.models.embedContent({
+            model: GEMINI_EMBEDDING_MODEL,
+            contents: texts
+        });
+
+        const vectors = (response.embeddings || []).map(e => e.values || []);
+        if (vectors.length !== texts.length || vectors.some(v => v.length === 0)) return null;
+        return { model: GEMINI_EMBEDDING_MODEL, vectors };
+      } catch (e) {
+        console.error("[Gemini] Embedding Error:", e);
+        return null;
+      }
+    }
+  };
+};
+
+// --- PROVIDER: MOCK (Deterministic) ---
+const MOCK_RESPONSES: Record<AITask, string> = {
+  match: JSON.stringify({ matches: [] }),
+  compare: JSON.stringify({
+    confidence: 50,
+    explanation: "Mock provider: no visual analysis performed.",
+    similarities: [],
+    differences: []
+  }),
+  imageCheck: JSON.stringify({ violationType: 'NONE', context: 'ITEM', isPrank: false, reason: '' }),
+  redaction: JSON.stringify({ regions: [] }),
+  visualDetails: JSON.stringify({
+    title: "",
+    category: "Other",
+    color: "",
+    tags: [],
+    specs: {},
+    distinguishingFeatures: []
+  }),
+  mergeDescription: "",
+  validate: JSON.stringify({ isValid: true, reason: "" }),
+  analyze: JSON.stringify({ isViolating: false, violationType: 'NONE', summary: "", tags: [] }),
+  parseSearch: JSON.stringify({ userStatus: 'UNKNOWN', colors: [], keywords: "" }),
+  verifyClaim: JSON.stringify({ results: [] })
+};
+
+export type MockResponder = string | null | ((request: AIRequest) => string | null);
+
+/**
+ * Creates a provider that never touches the network.
+ * Pass overrides per task to script specific replies (e.g. malformed JSON in tests).
+ */
+export const createMockProvider = (overrides: Partial<Record<AITask, MockResponder>> = {}): AIProvider => ({
+  name: 'mock',
+  generate: async (request) => {
+    const responder = request.task in overrides ? overrides[request.task] : MOCK_RESPONSES[request.task];
+    if (typeof responder === 'function') return responder(request);
+    return responder ?? null;
+  }
+});
+
+// --- PROVIDER SELECTION ---
+const createProvider = (name: string | undefined): AIProvider => {
+  switch (name) {
+    case 'gemini': return createGeminiProvider();
+    case 'mock': return createMockProvider();
+    case 'puter':
+    case undefined:
+    case '':
+      return createPuterProvider();
+    default:
+      console.warn(`[Retriva] Unknown AI provider "${name}". Falling back to Puter.`);
+      return createPuterProvider();
+  }
+};
+
+let activeProvider: AIProvider | null = null;
+
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) {
+      activeProvider = createProvider((import.meta as any).env?.VITE_AI_PROVIDER);
+  }
+  return activeProvider;
+};
+
+/** Swaps the active provider at runtime (tests, offline mode, vendor switch). */
+export const setAIProvider = (provider: AIProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,266 @@
+/**
+ * Minimal runtime schemas for AI replies.
+ * Each schema validates a parsed JSON value and coerces near-misses
+ * (e.g. "85" -> 85, "animal" -> "ANIMAL"), recording every repair so callers
+ * can tell a clean reply from a patched one or an unusable one.
+ */
+
+// --- TYPES ---
+export type AIParseStatus = 'ok' | 'repaired' | 'invalid';
+
+export type AIParseErrorKind = 'NO_RESPONSE' | 'MALFORMED_JSON' | 'SCHEMA_MISMATCH';
+
+export class AIParseError extends Error {
+  kind: AIParseErrorKind;
+  issues: string[];
+
+  constructor(kind: AIParseErrorKind, message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'AIParseError';
+    this.kind = kind;
+    this.issues = issues;
+  }
+}
+
+export interface AIResult<T> {
+  status: AIParseStatus;
+  data: T; // On 'invalid' this is the caller's safe fallback, never model output
+  issues: string[];
+  error?: AIParseError;
+}
+
+interface ParseContext {
+  repairs: string[];
+  errors: string[];
+}
+
+export interface Schema<T> {
+  parse: (value: unknown, path: string, ctx: ParseContext) => T;
+}
+
+interface FieldOptions<T> {
+  optional?: boolean;
+  fallback?: T;
+}
+
+const isMissing = (value: unknown) => value === undefined || value === null;
+
+// Shared handling for absent values: optional fields default silently, required ones fail.
+const handleMissing = <T>(path: string, ctx: ParseContext, options: FieldOptions<T>, defaultValue: T): T => {
+  if (!options.optional) ctx.errors.push(`${path} is missing`);
+  return options.fallback !== undefined ? options.fallback : defaultValue;
+};
+
+// --- PRIMITIVES ---
+export const str = (options: FieldOptions<string> = {}): Schema<string> => ({
+  parse: (value, path, ctx) => {
+    if (isMissing(value)) return handleMissing(path, ctx, options, '');
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      ctx.repairs.push(`${path} coerced to string`);
+      return String(value);
+    }
+    ctx.errors.push(`${path} is not a string`);
+    return options.fallback ?? '';
+  }
+});
+
+export const num = (options: FieldOptions<number> & { min?: number, max?: number } = {}): Schema<number> => ({
+  parse: (value, path, ctx) => {
+    if (isMissing(value)) return handleMissing(path, ctx, options, 0);
+
+    let n: number;
+    if (typeof value === 'number') {
+      n = value;
+    } else if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value.replace('%', '')))) {
+      n = Number(value.replace('%', ''));
+      ctx.repairs.push(`${path} parsed from string`);
+    } else {
+      ctx.errors.push(`${path} is not a number`);
+      return options.fallback ?? 0;
+    }
+
+    if (!isFinite(n)) {
+      ctx.errors.push(`${path} is not finite`);
+      return options.fallback ?? 0;
+    }
+    if (options.min !== undefined && n < options.min) {
+      ctx.repairs.push(`${path} clamped to ${options.min}`);
+      n = options.min;
+    }
+    if (options.max !== undefined && n > options.max) {
+      ctx.repairs.push(`${path} clamped to ${options.max}`);
+      n = options.max;
+    }
+    return n;
+  }
+});
+
+export const bool = (options: FieldOptions<boolean> = {}): Schema<boolean> => ({
+  parse: (value, path, ctx) => {
+    if (isMissing(value)) return handleMissing(path, ctx, options, false);
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') {
+      ctx.repairs.push(`${path} parsed from string`);
+      return value === 'true';
+    }
+    ctx.errors.push(`${path} is not a boolean`);
+    return options.fallback ?? false;
+  }
+});
+
+/**
+ * Enum field. Matching is case-insensitive (a repair).
+ * Unknown values map to `fallback` when one is given, otherwise they fail validation.
+ */
+export const oneOf = <T extends string>(values: readonly T[], options: FieldOptions<T> = {}): Schema<T> => ({
+  parse: (value, path, ctx) => {
+    if (isMissing(value)) return handleMissing(path, ctx, options, values[0]);
+    if (typeof value === 'string') {
+      if ((values as readonly string[]).includes(value)) return value as T;
+      const match = values.find(v => v.toLowerCase() === value.trim().toLowerCase());
+      if (match) {
+        ctx.repairs.push(`${path} normalized to "${match}"`);
+        return match;
+      }
+    }
+    if (options.fallback !== undefined) {
+      ctx.repairs.push(`${path} "${String(value)}" replaced with "${options.fallback}"`);
+      return options.fallback;
+    }
+    ctx.errors.push(`${path} "${String(value)}" is not one of ${values.join(', ')}`);
+    return values[0];
+  }
+});
+
+/** Arrays drop unusable items and wrap a lone item instead of failing outright. */
+export const arrayOf = <T>(item: Schema<T>, options: FieldOptions<T[]> = {}): Schema<T[]> => ({
+  parse: (value, path, ctx) => {
+    if (isMissing(value)) return handleMissing(path, ctx, options, []);
+
+    let list: unknown[];
+    if (Array.isArray(value)) {
+      list = value;
+    } else {
+      ctx.repairs.push(`${path} wrapped into an array`);
+      list = [value];
+    }
+
+    const result: T[] = [];
+    list.forEach((entry, i) => {
+      const itemCtx: ParseContext = { repairs: [], errors: [] };
+      const parsed = item.parse(entry, `${path}[${i}]`, itemCtx);
+      if (itemCtx.errors.length > 0) {
+        ctx.repairs.push(`${path}[${i}] dropped (${itemCtx.errors.join('; ')})`);
+        return;
+      }
+      ctx.repairs.push(...itemCtx.repairs);
+      result.push(parsed);
+    });
+    return result;
+  }
+});
+
+export const record = <T>(item: Schema<T>, options: FieldOptions<Record<string, T>> = {}): Schema<Record<string, T>> => ({
+  parse: (value, path, ctx) => {
+    if (isMissing(value)) return handleMissing(path, ctx, options, {});
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      ctx.errors.push(`${path} is not an object`);
+      return options.fallback ?? {};
+    }
+    const result: Record<string, T> = {};
+    Object.entries(value as Record<string, unknown>).forEach(([key, entry]) => {
+      if (isMissing(entry)) {
+        ctx.repairs.push(`${path}.${key} dropped (empty)`);
+        return;
+      }
+      result[key] = item.parse(entry, `${path}.${key}`, ctx);
+    });
+    return result;
+  }
+});
+
+export const object = <T extends object>(shape: { [K in keyof T]: Schema<T[K]> }): Schema<T> => ({
+  parse: (value, path, ctx) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      ctx.errors.push(`${path || 'reply'} is not an object`);
+      value = {};
+    }
+    const source = value as Record<string, unknown>;
+    const result = {} as T;
+    (Object.keys(shape) as (keyof T)[]).forEach(key => {
+      const fieldPath = path ? `${path}.${String(key)}` : String(key);
+      result[key] = shape[key].parse(source[key as string], fieldPath, ctx);
+    });
+    return result;
+  }
+});
+
+// --- JSON EXTRACTION ---
+/** Strips markdown fences and surrounding prose, keeping the outermost JSON object or array. */
+export const cleanJSON = (text: string): string => {
+  if (!text) return "{}";
+  // Remove Markdown code blocks (case insensitive)
+  let cleaned = text.replace(/```json/gi, "").replace(/```/g, "").trim();
+
+  // Attempt to find the first valid JSON object or array
+  const firstBrace = cleaned.indexOf('{');
+  const firstBracket = cleaned.indexOf('[');
+
+  let start = -1;
+  let end = -1;
+
+  if (firstBrace !== -1 && (firstBracket === -1 || firstBrace < firstBracket)) {
+      start = firstBrace;
+      end = cleaned.lastIndexOf('}');
+  } else if (firstBracket !== -1) {
+      start = firstBracket;
+      end = cleaned.lastIndexOf(']');
+  }
+
+  if (start !== -1 && end !== -1) {
+      cleaned = cleaned.substring(start, end + 1);
+  }
+
+  return cleaned;
+};
+
+/**
+ * Parses raw model text against a schema.
+ * - ok:       valid JSON that matched the schema as-is
+ * - repaired: usable after cleanup/coercion (see `issues`)
+ * - invalid:  no reply, unparseable JSON or a schema mismatch; `data` is the fallback
+ */
+export const parseAIResponse = <T>(text: string | null, schema: Schema<T>, fallback: T): AIResult<T> => {
+  if (!text) {
+    const error = new AIParseError('NO_RESPONSE', 'AI provider returned no response');
+    return { status: 'invalid', data: fallback, issues: [error.message], error };
+  }
+
+  const repairs: string[] = [];
+  const cleaned = cleanJSON(text);
+  if (cleaned !== text.trim()) repairs.push('stripped text around JSON');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(cleaned);
+  } catch (jsonErr) {
+    try {
+      raw = JSON.parse(cleaned.replace(/[\x00-\x1F]/g, " "));
+      repairs.push('removed control characters');
+    } catch (e) {
+      const error = new AIParseError('MALFORMED_JSON', 'AI reply is not valid JSON', [String(e)]);
+      return { status: 'invalid', data: fallback, issues: error.issues, error };
+    }
+  }
+
+  const ctx: ParseContext = { repairs, errors: [] };
+  const data = schema.parse(raw, '', ctx);
+
+  if (ctx.errors.length > 0) {
+    const error = new AIParseError('SCHEMA_MISMATCH', 'AI reply does not match the expected shape', ctx.errors);
+    return { status: 'invalid', data: fallback, issues: [...ctx.errors, ...ctx.repairs], error };
+  }
+
+  return { status: ctx.repairs.length > 0 ? 'repaired' : 'ok', data, issues: ctx.repairs };
+};
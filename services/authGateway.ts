@@ -0,0 +1,60 @@
+import { auth } from './firebase';
+
+/**
+ * Email/password sign-in.
+ * With VITE_AUTH_GATEWAY_URL set, credentials go through server/authGateway.ts, which enforces
+ * failed-login lockouts server-side and returns a custom token. Without it (local dev) we fall back
+ * to Firebase Auth directly, which only has Firebase's own abuse throttling.
+ * The lockout is advisory unless direct password sign-in is blocked for the project (see README,
+ * "Run the auth gateway"): the public API key can call Firebase Auth without going through here.
+ * Errors are thrown with Firebase-style `code`s so callers can handle both paths the same way.
+ */
+
+const GATEWAY_URL = (import.meta as any).env.VITE_AUTH_GATEWAY_URL;
+
+export class AuthGatewayError extends Error {
+  code: string;
+  retryAfter?: number;
+
+  constructor(code: string, message: string, retryAfter?: number) {
+    super(message);
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+}
+
+export const signInWithPassword = async (email: string, password: string) => {
+  if (!GATEWAY_URL) {
+    return auth.signInWithEmailAndPassword(email, password);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${GATEWAY_URL.replace(/\/$/, '')}/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password })
+    });
+  } catch (e) {
+    throw new AuthGatewayError('auth/network-request-failed', 'Network error.');
+  }
+
+  const data = await response.json().catch(() => ({}));
+
+  if (response.ok && data.token) {
+    return auth.signInWithCustomToken(data.token);
+  }
+
+  switch (data.error) {
+    case 'account-locked':
+      throw new AuthGatewayError('auth/account-locked', 'Too many failed attempts.', data.retryAfter);
+    case 'too-many-requests':
+      throw new AuthGatewayError('auth/too-many-requests', 'Too many attempts. Try again later.', data.retryAfter);
+    case 'invalid-credential':
+      throw new AuthGatewayError('auth/invalid-credential', 'Incorrect email or password.');
+    case 'user-disabled':
+      throw new AuthGatewayError('auth/user-disabled', 'This account has been disabled.');
+    default:
+      throw new AuthGatewayError('auth/internal-error', 'Sign-in is temporarily unavailable.');
+  }
+};
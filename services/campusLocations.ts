@@ -0,0 +1,278 @@
+import { Campus, CampusBuilding, ItemReport, LatLng, LocationRef } from "../types";
+
+/**
+ * Campus gazetteer: campus -> building -> floor / room.
+ * Reports store a LocationRef (stable building IDs) next to the display label, so search and
+ * matching can reason about "same building" or "next door" instead of comparing strings.
+ * Free-text locations from older reports are resolved on the fly with resolveLocation().
+ *
+ * Pure module: safe to import from the browser and from server jobs.
+ */
+
+// --- DATA ---
+// Edit these lists to match your campus. IDs are stored on reports: rename names/aliases freely,
+// but never reuse or change an ID.
+export const CAMPUSES: Campus[] = [
+  { id: 'main', name: 'Main Campus', center: { lat: 19.0445, lng: 73.0265 }, timeZone: 'Asia/Kolkata' }
+];
+
+export const BUILDINGS: CampusBuilding[] = [
+  {
+    id: 'main.library', campusId: 'main', name: 'Main Library',
+    aliases: ['library', 'lib', 'central library', 'reading room'],
+    coords: { lat: 19.0449, lng: 73.0262 }, floors: ['G', '1', '2', '3'],
+    adjacent: ['main.admin', 'main.student-center']
+  },
+  {
+    id: 'main.student-center', campusId: 'main', name: 'Student Center',
+    aliases: ['student centre', 'sc', 'student union', 'union'],
+    coords: { lat: 19.0446, lng: 73.0270 }, floors: ['G', '1'],
+    adjacent: ['main.library', 'main.cafeteria']
+  },
+  {
+    id: 'main.cafeteria', campusId: 'main', name: 'Cafeteria',
+    aliases: ['canteen', 'cafe', 'food court', 'mess'],
+    coords: { lat: 19.0442, lng: 73.0274 }, floors: ['G'],
+    adjacent: ['main.student-center', 'main.sports']
+  },
+  {
+    id: 'main.admin', campusId: 'main', name: 'Administration Building',
+    aliases: ['admin', 'admin block', 'office', 'accounts'],
+    coords: { lat: 19.0453, lng: 73.0258 }, floors: ['G', '1', '2'],
+    adjacent: ['main.library', 'main.auditorium', 'main.gate']
+  },
+  {
+    id: 'main.auditorium', campusId: 'main', name: 'Auditorium',
+    aliases: ['audi', 'hall', 'seminar hall'],
+    coords: { lat: 19.0457, lng: 73.0262 }, floors: ['G', '1'],
+    adjacent: ['main.admin', 'main.eng-a']
+  },
+  {
+    id: 'main.eng-a', campusId: 'main', name: 'Engineering Block A',
+    aliases: ['a block', 'block a', 'eng a', 'computer department', 'it department'],
+    coords: { lat: 19.0460, lng: 73.0270 }, floors: ['G', '1', '2', '3', '4'],
+    adjacent: ['main.eng-b', 'main.auditorium']
+  },
+  {
+    id: 'main.eng-b', campusId: 'main', name: 'Engineering Block B',
+    aliases: ['b block', 'block b', 'eng b', 'workshop', 'labs'],
+    coords: { lat: 19.0461, lng: 73.0279 }, floors: ['G', '1', '2', '3', '4'],
+    adjacent: ['main.eng-a', 'main.science']
+  },
+  {
+    id: 'main.science', campusId: 'main', name: 'Science Block',
+    aliases: ['science', 'sci block', 'chemistry lab', 'physics lab'],
+    coords: { lat: 19.0455, lng: 73.0284 }, floors: ['G', '1', '2'],
+    adjacent: ['main.eng-b', 'main.sports']
+  },
+  {
+    id: 'main.sports', campusId: 'main', name: 'Sports Complex',
+    aliases: ['gym', 'ground', 'playground', 'sports ground', 'court'],
+    coords: { lat: 19.0444, lng: 73.0286 }, floors: ['G'],
+    adjacent: ['main.science', 'main.cafeteria']
+  },
+  {
+    id: 'main.hostel', campusId: 'main', name: 'Hostel',
+    aliases: ['hostels', 'dorm', 'dormitory', 'boys hostel', 'girls hostel'],
+    coords: { lat: 19.0436, lng: 73.0280 }, floors: ['G', '1', '2', '3'],
+    adjacent: ['main.sports']
+  },
+  {
+    id: 'main.parking', campusId: 'main', name: 'Parking Lot',
+    aliases: ['parking', 'car park', 'bike parking'],
+    coords: { lat: 19.0451, lng: 73.0248 },
+    adjacent: ['main.gate']
+  },
+  {
+    id: 'main.gate', campusId: 'main', name: 'Main Gate',
+    aliases: ['gate', 'entrance', 'security', 'bus stop'],
+    coords: { lat: 19.0455, lng: 73.0250 },
+    adjacent: ['main.parking', 'main.admin']
+  }
+];
+
+// Within this distance buildings count as adjacent even if not listed
+const ADJACENT_METERS = 120;
+// Beyond adjacency but still a plausible walk for a dropped item
+const NEARBY_METERS = 350;
+
+// --- LOOKUP ---
+const buildingsById = new Map(BUILDINGS.map(b => [b.id, b]));
+
+export const getBuilding = (id?: string) => (id ? buildingsById.get(id) : undefined);
+
+export const getCampus = (id?: string) => CAMPUSES.find(c => c.id === id);
+
+export const formatFloor = (floor: string) => {
+  if (floor === 'G') return 'Ground Floor';
+  if (/^B\d+$/.test(floor)) return `Basement ${floor.slice(1)}`;
+  return `Floor ${floor}`;
+};
+
+/** Human label for a reference, e.g. "Main Library, Floor 2, Room 204". */
+export const formatLocation = (ref: LocationRef): string => {
+  const building = getBuilding(ref.buildingId);
+  const parts = [building?.name || ref.buildingId];
+  if (ref.floor) parts.push(formatFloor(ref.floor));
+  if (ref.room) parts.push(`Room ${ref.room}`);
+  return parts.join(', ');
+};
+
+// --- SEARCH ---
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+export interface LocationSuggestion {
+  building: CampusBuilding;
+  matchedAlias?: string; // Set when the match came from an alias rather than the name
+  score: number; // 0..1
+}
+
+const scoreName = (query: string, name: string): number => {
+  const n = normalize(name);
+  if (!query || !n) return 0;
+  if (n === query) return 1;
+
+  const queryTokens = query.split(' ');
+  const nameTokens = n.split(' ');
+  // Every query word must start some word of the name ("lib" -> "library", "eng a" -> "engineering block a")
+  const allPrefixed = queryTokens.every(q => nameTokens.some(t => t.startsWith(q)));
+  if (allPrefixed) return 0.6 + 0.3 * (queryTokens.length / nameTokens.length);
+  if (n.includes(query)) return 0.5;
+  return 0;
+};
+
+/** Autocomplete over building names and aliases, best first. */
+export const searchLocations = (query: string, limit = 6): LocationSuggestion[] => {
+  const q = normalize(query);
+  if (!q) return [];
+
+  return BUILDINGS
+    .map(building => {
+      const nameScore = scoreName(q, building.name);
+      const alias = building.aliases
+          .map(a => ({ alias: a, score: scoreName(q, a) * 0.95 }))
+          .sort((a, b) => b.score - a.score)[0];
+      return alias && alias.score > nameScore
+          ? { building, matchedAlias: alias.alias, score: alias.score }
+          : { building, score: nameScore };
+    })
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+// "2nd floor", "floor 2", "ground floor", "basement"
+const FLOOR_PATTERN = /\b(?:(ground|basement)\s*floor|(\d+)(?:st|nd|rd|th)?\s*floor|floor\s*(\d+|g))\b|\bbasement\b/i;
+// "room 204", "rm 12b"
+const ROOM_PATTERN = /\b(?:room|rm)\s*#?\s*([a-z]?\d+[a-z]?)\b/i;
+
+// Connecting words that would otherwise prefix-match aliases ("of" -> "office")
+const STOPWORDS = new Set(['the', 'near', 'of', 'at', 'in', 'on', 'by', 'to', 'next', 'outside', 'inside', 'behind', 'front', 'and', 'from', 'floor', 'room']);
+
+const parseFloor = (text: string): string | undefined => {
+  const m = text.match(FLOOR_PATTERN);
+  if (!m) return undefined;
+  if (/basement/i.test(m[0])) return 'B1';
+  if (m[1]?.toLowerCase() === 'ground' || m[3]?.toLowerCase() === 'g') return 'G';
+  return m[2] || m[3];
+};
+
+/**
+ * Best-effort parse of a free-text location ("library 2nd floor") into a reference.
+ * Returns null when no building matches confidently.
+ */
+export const resolveLocation = (text: string): LocationRef | null => {
+  if (!text?.trim()) return null;
+
+  const floor = parseFloor(text);
+  const room = text.match(ROOM_PATTERN)?.[1]?.toUpperCase();
+  const rest = text.replace(FLOOR_PATTERN, ' ').replace(ROOM_PATTERN, ' ');
+
+  // Try the whole remainder first, then each word on its own ("near the lib" -> "lib")
+  const candidates = [rest, ...normalize(rest).split(' ').filter(w => w.length > 1 && !STOPWORDS.has(w))];
+  let best: LocationSuggestion | undefined;
+  for (const candidate of candidates) {
+    const top = searchLocations(candidate, 1)[0];
+    if (top && (!best || top.score > best.score)) best = top;
+  }
+  if (!best || best.score < 0.6) return null;
+
+  const building = best.building;
+  return {
+    campusId: building.campusId,
+    buildingId: building.id,
+    ...(floor && (!building.floors || building.floors.includes(floor)) ? { floor } : {}),
+    ...(room ? { room } : {})
+  };
+};
+
+/** Stored reference, or one resolved from the free-text label for older reports. */
+export const getLocationRef = (report: Pick<ItemReport, 'location' | 'locationRef'>): LocationRef | null => {
+  return report.locationRef || resolveLocation(report.location);
+};
+
+/** Every place on a report: its location, then any route stops (LOST reports), resolved where possible. */
+export const getReportStops = (report: Pick<ItemReport, 'location' | 'locationRef' | 'route'>): { label: string, ref: LocationRef | null }[] => [
+  { label: report.location, ref: getLocationRef(report) },
+  ...(report.route || []).map(stop => ({ label: stop.label, ref: stop.locationRef || resolveLocation(stop.label) }))
+];
+
+// --- PROXIMITY ---
+export type LocationProximity = 'SAME_ROOM' | 'SAME_FLOOR' | 'SAME_BUILDING' | 'ADJACENT' | 'NEARBY' | 'FAR';
+
+/** Great-circle distance in meters. */
+export const distanceMeters = (a: LatLng, b: LatLng): number => {
+  const R = 6371000;
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * R * Math.asin(Math.sqrt(h));
+};
+
+export const areAdjacent = (id1: string, id2: string): boolean => {
+  const b1 = getBuilding(id1);
+  const b2 = getBuilding(id2);
+  if (!b1 || !b2 || b1.campusId !== b2.campusId) return false;
+  if (b1.adjacent?.includes(id2) || b2.adjacent?.includes(id1)) return true;
+  return distanceMeters(b1.coords, b2.coords) <= ADJACENT_METERS;
+};
+
+export const compareLocations = (a: LocationRef, b: LocationRef): { proximity: LocationProximity, distance: number | null } => {
+  if (a.buildingId === b.buildingId) {
+    if (a.floor && b.floor && a.floor === b.floor) {
+      const sameRoom = !!a.room && !!b.room && a.room === b.room;
+      return { proximity: sameRoom ? 'SAME_ROOM' : 'SAME_FLOOR', distance: 0 };
+    }
+    return { proximity: 'SAME_BUILDING', distance: 0 };
+  }
+
+  const b1 = getBuilding(a.buildingId);
+  const b2 = getBuilding(b.buildingId);
+  if (!b1 || !b2 || b1.campusId !== b2.campusId) return { proximity: 'FAR', distance: null };
+
+  const distance = Math.round(distanceMeters(b1.coords, b2.coords));
+  if (areAdjacent(a.buildingId, b.buildingId)) return { proximity: 'ADJACENT', distance };
+  return { proximity: distance <= NEARBY_METERS ? 'NEARBY' : 'FAR', distance };
+};
+
+/** Closest building to a point, if one is within `maxMeters` (used to label dropped pins). */
+export const nearestBuilding = (point: LatLng, maxMeters = 60): CampusBuilding | undefined => {
+  let best: { building: CampusBuilding, distance: number } | undefined;
+  for (const building of BUILDINGS) {
+    const distance = distanceMeters(point, building.coords);
+    if (distance <= maxMeters && (!best || distance < best.distance)) best = { building, distance };
+  }
+  return best?.building;
+};
+
+/** Where a report sits on the map: its dropped pin, else the centre of its building. */
+export const getReportPosition = (report: Pick<ItemReport, 'location' | 'locationRef' | 'pin'>): LatLng | null => {
+  if (report.pin) return report.pin;
+  return getBuilding(getLocationRef(report)?.buildingId)?.coords || null;
+};
+
+/** Building IDs considered "around" a building: itself plus its adjacent buildings. */
+export const buildingNeighborhood = (buildingId: string): string[] => {
+  return [buildingId, ...BUILDINGS.filter(b => b.id !== buildingId && areAdjacent(buildingId, b.id)).map(b => b.id)];
+};
@@ -0,0 +1,44 @@
+import { ClaimAnswerScore } from '../types';
+
+/**
+ * Keyword grading of ownership-claim answers, the fallback in services/claims.ts when the AI
+ * can't grade them. Scores are advice for the finder, never a verdict on their own.
+ *
+ * Pure module: no Firebase.
+ */
+
+// --- CONFIG ---
+// Highest score a partial keyword match can reach; only an exact answer scores 100
+const MAX_PARTIAL_SCORE = 80;
+
+// Filler words that say nothing about the item
+const STOPWORDS = new Set(['the', 'and', 'has', 'have', 'had', 'with', 'its', 'was', 'are', 'there', 'this', 'that', 'for', 'from', 'some', 'one', 'near']);
+
+// --- SCORING ---
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+const compact = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+const contentWords = (text: string) => normalize(text).split(' ').filter(w => w.length > 2 && !STOPWORDS.has(w));
+
+/**
+ * Word-overlap scoring used when the AI can't grade the answers. Identifiers must match exactly.
+ * Every answer word counts against precision, repeats included, so listing every likely brand,
+ * colour or mark (or padding the answer) lowers the score instead of raising it.
+ */
+export const scoreAnswerDeterministic = (expected: string, answer: string): ClaimAnswerScore['score'] => {
+  const a = compact(answer);
+  const e = compact(expected);
+  if (!a || !e) return 0;
+  if (a === e) return 100;
+
+  // Serial numbers, IMEIs, card numbers: no partial credit
+  const isIdentifier = /\d/.test(e) && !/\s/.test(expected.trim());
+  if (isIdentifier) return 0;
+
+  const expectedWords = [...new Set(contentWords(expected))];
+  const answerWords = contentWords(answer);
+  if (expectedWords.length === 0 || answerWords.length === 0) return 0;
+
+  // F1 of the expected words against the answer's words
+  const shared = expectedWords.filter(w => answerWords.includes(w)).length;
+  return Math.round((2 * shared / (expectedWords.length + answerWords.length)) * MAX_PARTIAL_SCORE);
+};
@@ -0,0 +1,191 @@
+import { db, FieldValue } from './firebase';
+import { Claim, ClaimAnswerScore, ClaimAttempt, ClaimEvent, ItemReport, ReportType, User, VerificationQuestion, VerificationSecret } from '../types';
+import { verifyClaimAnswers } from './geminiService';
+import { getStatus, transition } from './reportLifecycle';
+import { scoreAnswerDeterministic } from './claimScoring';
+
+/**
+ * Ownership verification for FOUND reports.
+ * - Finder marks some specs / marks as secret: answers go to reports/{id}/private/verification,
+ *   only generated questions are published on the report.
+ * - Claimants answer in reports/{id}/claims/{uid} (limited attempts). Each attempt's answers and
+ *   score are kept in its own attempts/{n} doc, and the claim's history is append-only.
+ * - The finder's client scores answers (AI, deterministic fallback). Scores only guide the finder:
+ *   a claim is verified or declined by the finder, never automatically.
+ * - server/notifyWorker.ts tells the finder about new answers and the claimant about the decision.
+ * - Verified claimants are listed on the report, which unlocks chat and resolving; an OPEN report
+ *   moves to CLAIM_PENDING until the handover (services/reportLifecycle.ts).
+ */
+
+// --- CONFIG ---
+export const MAX_CLAIM_ATTEMPTS = 3;
+export const MARKS_QUESTION_ID = 'marks';
+
+const verificationRef = (reportId: string) => db.collection('reports').doc(reportId).collection('private').doc('verification');
+const claimsRef = (reportId: string) => db.collection('reports').doc(reportId).collection('claims');
+const attemptsRef = (reportId: string, claimantId: string) => claimsRef(reportId).doc(claimantId).collection('attempts');
+
+// --- QUESTIONS ---
+export const specQuestionId = (key: string) => `spec_${key}`;
+
+/** Builds the public question for a secret. Never includes the answer itself. */
+export const buildVerificationQuestion = (secret: VerificationSecret): VerificationQuestion => ({
+  id: secret.questionId,
+  prompt: secret.questionId === MARKS_QUESTION_ID
+      ? 'Describe any distinguishing marks on the item (scratches, stickers, engravings, damage).'
+      : `What is the ${secret.label.toLowerCase()} of your item?`
+});
+
+export const requiresVerification = (report: ItemReport) => {
+  return report.type === ReportType.FOUND && (report.verificationQuestions?.length || 0) > 0;
+};
+
+export const isVerifiedClaimant = (report: ItemReport, uid: string) => {
+  return !!report.verifiedClaimantIds?.includes(uid);
+};
+
+// --- SECRETS (finder only) ---
+export const saveVerificationSecrets = async (reportId: string, secrets: VerificationSecret[]) => {
+  if (secrets.length === 0) {
+    await verificationRef(reportId).delete();
+    return;
+  }
+  await verificationRef(reportId).set({ secrets, updatedAt: Date.now() });
+};
+
+export const fetchVerificationSecrets = async (reportId: string): Promise<VerificationSecret[]> => {
+  const snap = await verificationRef(reportId).get();
+  return snap.exists ? ((snap.data()?.secrets || []) as VerificationSecret[]) : [];
+};
+
+const averageScore = (scores: ClaimAnswerScore[]) => {
+  if (scores.length === 0) return 0;
+  return Math.round(scores.reduce((sum, s) => sum + s.score, 0) / scores.length);
+};
+
+// --- CLAIMS ---
+export const subscribeToClaims = (reportId: string, onChange: (claims: Claim[]) => void) => {
+  return claimsRef(reportId).onSnapshot((snapshot) => {
+    const claims = snapshot.docs.map(d => d.data() as Claim).sort((a, b) => b.updatedAt - a.updatedAt);
+    onChange(claims);
+  }, (error) => {
+    console.error("Error fetching claims:", error);
+  });
+};
+
+export const subscribeToMyClaim = (reportId: string, uid: string, onChange: (claim: Claim | null) => void) => {
+  return claimsRef(reportId).doc(uid).onSnapshot((snap) => {
+    onChange(snap.exists ? (snap.data() as Claim) : null);
+  }, (error) => {
+    console.error("Error fetching claim:", error);
+  });
+};
+
+/** All attempts of one claim, oldest first. Claimant and finder only. */
+export const subscribeToClaimAttempts = (reportId: string, claimantId: string, onChange: (attempts: ClaimAttempt[]) => void) => {
+  return attemptsRef(reportId, claimantId).orderBy('attempt').onSnapshot((snapshot) => {
+    onChange(snapshot.docs.map(d => d.data() as ClaimAttempt));
+  }, (error) => {
+    console.error("Error fetching claim attempts:", error);
+  });
+};
+
+/** Adds an attempt. Earlier attempts, their scores and the claim's history are left as they are. */
+export const submitClaim = async (report: ItemReport, claimant: User, answers: Record<string, string>) => {
+  const ref = claimsRef(report.id).doc(claimant.id);
+  const now = Date.now();
+
+  await db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const existing = snap.exists ? (snap.data() as Claim) : null;
+
+    if (existing?.status === 'VERIFIED') throw new Error('Claim already verified.');
+    if (existing && existing.attempts >= MAX_CLAIM_ATTEMPTS) throw new Error('No attempts left for this item.');
+
+    const attempt = (existing?.attempts || 0) + 1;
+    const event: ClaimEvent = { at: now, by: claimant.id, action: 'SUBMITTED' };
+    if (existing) {
+      tx.update(ref, {
+        attempts: attempt,
+        status: 'PENDING',
+        updatedAt: now,
+        history: [...existing.history, event]
+      });
+    } else {
+      const claim: Claim = {
+        id: claimant.id,
+        reportId: report.id,
+        finderId: report.reporterId,
+        claimantId: claimant.id,
+        claimantName: claimant.name,
+        attempts: attempt,
+        status: 'PENDING',
+        history: [event],
+        createdAt: now,
+        updatedAt: now
+      };
+      tx.set(ref, claim);
+    }
+    const record: ClaimAttempt = { attempt, answers, submittedAt: now };
+    tx.set(attemptsRef(report.id, claimant.id).doc(String(attempt)), record);
+  });
+};
+
+const finalizeClaim = async (report: ItemReport, claim: Claim, status: 'VERIFIED' | 'REJECTED', event: ClaimEvent) => {
+  const batch = db.batch();
+  batch.update(claimsRef(report.id).doc(claim.id), {
+    status,
+    updatedAt: event.at,
+    history: FieldValue.arrayUnion(event)
+  });
+  if (status === 'VERIFIED') {
+    batch.update(db.collection('reports').doc(report.id), {
+      verifiedClaimantIds: FieldValue.arrayUnion(claim.claimantId),
+      ...(getStatus(report) === 'OPEN' ? transition(report, 'CLAIM_PENDING', event.by, `Verified ${claim.claimantName}`, event.at) : {})
+    });
+  }
+  await batch.commit();
+};
+
+/**
+ * Scores the latest attempt of a pending claim. Finder-side only (needs the secrets).
+ * The score is saved on the attempt and mirrored on the claim for the list; the finder decides.
+ */
+export const evaluateClaim = async (report: ItemReport, claim: Claim) => {
+  const attemptRef = attemptsRef(report.id, claim.id).doc(String(claim.attempts));
+  const attemptSnap = await attemptRef.get();
+  if (!attemptSnap.exists) throw new Error(`Attempt ${claim.attempts} of ${claim.id}'s claim not found.`);
+  const { answers } = attemptSnap.data() as ClaimAttempt;
+
+  const questions = report.verificationQuestions || [];
+  const secrets = await fetchVerificationSecrets(report.id);
+
+  const ai = await verifyClaimAnswers(questions, secrets, answers);
+  const method: Claim['method'] = ai.status === 'invalid' ? 'FALLBACK' : 'AI';
+  const answerScores: ClaimAnswerScore[] = ai.status === 'invalid'
+      ? questions.map(q => ({
+          questionId: q.id,
+          score: scoreAnswerDeterministic(secrets.find(s => s.questionId === q.id)?.answer || '', answers[q.id] || '')
+        }))
+      : ai.data;
+
+  const score = averageScore(answerScores);
+  const scoring = { score, method, answerScores };
+  const now = Date.now();
+  const scoredEvent: ClaimEvent = { at: now, by: 'system', action: 'SCORED', note: `Attempt ${claim.attempts}: ${score}% (${method === 'AI' ? 'AI' : 'keyword match'})` };
+
+  const batch = db.batch();
+  batch.update(attemptRef, { ...scoring, scoredAt: now });
+  batch.update(claimsRef(report.id).doc(claim.id), {
+    ...scoring,
+    scoredAttempt: claim.attempts,
+    updatedAt: now,
+    history: FieldValue.arrayUnion(scoredEvent)
+  });
+  await batch.commit();
+};
+
+/** Manual decision by the finder. */
+export const reviewClaim = async (report: ItemReport, claim: Claim, finderId: string, decision: 'VERIFIED' | 'REJECTED') => {
+  await finalizeClaim(report, claim, decision, { at: Date.now(), by: finderId, action: decision, note: 'Finder decision' });
+};
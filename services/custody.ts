@@ -0,0 +1,146 @@
+import { db } from './firebase';
+import { Custody, CustodyEvent, CustodyOffice, CustodyRelease, ItemReport, ReportType, User } from '../types';
+import { createNotification } from './notifications';
+import { hasPermission } from './permissions';
+import { getStatus, transition } from './reportLifecycle';
+
+/**
+ * Lost-and-found office custody.
+ * Staff register FOUND items into a desk's storage (office + bin), move them, and release them to
+ * the owner against a signature. The current state lives on the report (`custody`), every step is
+ * appended to reports/{id}/custody so there is a full chain of custody.
+ * Staff are users whose role carries the 'custody.manage' permission (services/permissions.ts).
+ * Taking an item in moves the report to IN_CUSTODY, releasing it to RETURNED (services/reportLifecycle.ts).
+ */
+
+// --- OFFICES ---
+// Edit to match your campus. IDs are stored on reports: never reuse or change one.
+export const CUSTODY_OFFICES: CustodyOffice[] = [
+  { id: 'security', name: 'Security Office', buildingId: 'main.gate', hours: 'Open 24 hours' },
+  { id: 'admin-desk', name: 'Admin Front Desk', buildingId: 'main.admin', hours: 'Mon–Sat, 9:00–17:00' }
+];
+
+const eventsRef = (reportId: string) => db.collection('reports').doc(reportId).collection('custody');
+
+export const getCustodyOffice = (id?: string) => CUSTODY_OFFICES.find(o => o.id === id);
+
+/** "Security Office, Bin 14" */
+export const formatCustodyLocation = (custody: Pick<Custody, 'officeId' | 'binId'>) => {
+  return `${getCustodyOffice(custody.officeId)?.name || custody.officeId}, Bin ${custody.binId}`;
+};
+
+export const normalizeBinId = (binId: string) => binId.trim().toUpperCase().replace(/^BIN\s*/, '');
+
+export const isStaff = (user?: User | null) => hasPermission(user, 'custody.manage');
+
+export const isInCustody = (report: ItemReport) => report.custody?.status === 'HELD';
+
+export const canTakeIntoCustody = (report: ItemReport) => {
+  return report.type === ReportType.FOUND && ['OPEN', 'CLAIM_PENDING'].includes(getStatus(report)) && !isInCustody(report);
+};
+
+// --- EVENTS ---
+const buildEvent = (reportId: string, staff: User, action: CustodyEvent['action'], custody: Custody, extra: Partial<CustodyEvent> = {}): CustodyEvent => ({
+  id: eventsRef(reportId).doc().id,
+  action,
+  officeId: custody.officeId,
+  binId: custody.binId,
+  staffId: staff.id,
+  staffName: staff.name,
+  at: custody.updatedAt,
+  ...extra
+});
+
+export const subscribeToCustodyEvents = (reportId: string, onChange: (events: CustodyEvent[]) => void) => {
+  return eventsRef(reportId).orderBy('at', 'asc').onSnapshot((snapshot) => {
+    onChange(snapshot.docs.map(d => d.data() as CustodyEvent));
+  }, (error) => {
+    console.error("Error fetching custody log:", error);
+  });
+};
+
+export type CustodyOwner = { id?: string, name: string, studentId?: string };
+
+/** Claimants who passed ownership verification, with names from their profiles. */
+export const fetchVerifiedOwners = async (report: ItemReport): Promise<CustodyOwner[]> => {
+  return Promise.all((report.verifiedClaimantIds || []).map(async id => {
+    const data = (await db.collection('users').doc(id).get()).data() as User | undefined;
+    return { id, name: data?.name || 'Unknown user', ...(data?.studentId ? { studentId: data.studentId } : {}) };
+  }));
+};
+
+// --- TRANSFERS ---
+/** Custody state for an item handed in now (also used when staff file the report themselves). */
+export const newCustody = (officeId: string, binId: string): Custody => {
+  const now = Date.now();
+  return { status: 'HELD', officeId, binId: normalizeBinId(binId), receivedAt: now, updatedAt: now };
+};
+
+/** Logs the RECEIVED step for a report that was created with `custody` already set. */
+export const recordReceived = async (reportId: string, staff: User, custody: Custody, note?: string) => {
+  const event = buildEvent(reportId, staff, 'RECEIVED', custody, note ? { note } : {});
+  await eventsRef(reportId).doc(event.id).set(event);
+};
+
+/** Takes an existing FOUND report into custody (e.g. a student handed the item in at the desk). */
+export const receiveIntoCustody = async (report: ItemReport, staff: User, officeId: string, binId: string, note?: string) => {
+  const custody = newCustody(officeId, binId);
+  const event = buildEvent(report.id, staff, 'RECEIVED', custody, note ? { note } : {});
+
+  const batch = db.batch();
+  batch.update(db.collection('reports').doc(report.id), { custody, ...transition(report, 'IN_CUSTODY', staff.id) });
+  batch.set(eventsRef(report.id).doc(event.id), event);
+  await batch.commit();
+
+  if (report.reporterId !== staff.id) {
+    await createNotification(report.reporterId, {
+      title: 'Item Handed In',
+      message: `"${report.title}" is now held at ${formatCustodyLocation(custody)}. Thank you!`,
+      type: 'system',
+      link: 'DASHBOARD',
+      metadata: { sourceId: report.id }
+    }).catch(e => console.warn("Custody notification failed", e));
+  }
+};
+
+export const moveCustody = async (report: ItemReport, staff: User, officeId: string, binId: string, note?: string) => {
+  if (!report.custody || !isInCustody(report)) throw new Error('Item is not in custody.');
+  const custody: Custody = { ...report.custody, officeId, binId: normalizeBinId(binId), updatedAt: Date.now() };
+  const event = buildEvent(report.id, staff, 'MOVED', custody, note ? { note } : {});
+
+  const batch = db.batch();
+  batch.update(db.collection('reports').doc(report.id), { custody });
+  batch.set(eventsRef(report.id).doc(event.id), event);
+  await batch.commit();
+};
+
+/** Hands the item to its owner and resolves the report. `release` carries the owner's signature. */
+export const releaseFromCustody = async (report: ItemReport, staff: User, release: CustodyRelease) => {
+  if (!report.custody || !isInCustody(report)) throw new Error('Item is not in custody.');
+  const custody: Custody = { ...report.custody, status: 'RELEASED', releasedTo: release.ownerName, updatedAt: release.confirmedAt };
+  const event = buildEvent(report.id, staff, 'RELEASED', custody, { release });
+
+  const batch = db.batch();
+  batch.update(db.collection('reports').doc(report.id), { custody, ...transition(report, 'RETURNED', staff.id, `Released to ${release.ownerName}`, release.confirmedAt) });
+  batch.set(eventsRef(report.id).doc(event.id), event);
+  await batch.commit();
+
+  const notify = [
+    release.ownerId && {
+      uid: release.ownerId,
+      message: `You collected "${report.title}" from ${formatCustodyLocation(custody)}.`
+    },
+    report.reporterId !== staff.id && {
+      uid: report.reporterId,
+      message: `"${report.title}" was returned to its owner. Thanks for handing it in!`
+    }
+  ].filter(Boolean) as { uid: string, message: string }[];
+
+  await Promise.all(notify.map(n => createNotification(n.uid, {
+    title: 'Item Returned',
+    message: n.message,
+    type: 'system',
+    link: 'DASHBOARD',
+    metadata: { sourceId: report.id }
+  }).catch(e => console.warn("Release notification failed", e))));
+};
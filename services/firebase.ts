@@ -41,6 +41,13 @@ export const auth = firebase.auth();
 export const db = firebase.firestore();
 export const googleProvider = new firebase.auth.GoogleAuthProvider();
 export const FieldValue = firebase.firestore.FieldValue;
+export const FieldPath = firebase.firestore.FieldPath;
+
+// Local development against the Firebase emulators (see firebase.json, `npm run emulators`)
+if ((import.meta as any).env.VITE_USE_FIREBASE_EMULATOR === 'true') {
+  auth.useEmulator('http://localhost:9099');
+  db.useEmulator('localhost', 8080);
+}
 
 /**
  * Generates a globally unique Student ID in format YYYY-XXXXXXX.
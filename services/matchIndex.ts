@@ -0,0 +1,144 @@
+import { ItemReport } from "../types";
+
+/**
+ * Vector pre-ranking for findSmartMatches.
+ * Every report is turned into an embedding (provider-backed when available, stored on the
+ * report at submit time) and candidates are ranked by cosine similarity before the LLM
+ * re-ranks the shortlist. Candidates embedded by another model than the source (older reports, a
+ * provider switch) are ranked in a local hashed bag-of-words space instead, and the two rankings are
+ * merged, so one unembedded report doesn't pull every other candidate out of the provider's space.
+ *
+ * Pure module: no Firebase, no provider access.
+ */
+
+// --- CONFIG ---
+export const LOCAL_EMBEDDING_MODEL = 'local-hash-v1';
+const LOCAL_EMBEDDING_DIMS = 256;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'in', 'on', 'at', 'to', 'for', 'with', 'near',
+  'my', 'i', 'is', 'it', 'was', 'lost', 'found', 'item', 'color', 'colour'
+]);
+
+// --- TEXT ---
+/** The text that represents a report in vector space. Order roughly follows signal strength. */
+export const buildEmbeddingText = (report: Pick<ItemReport, 'title' | 'category' | 'description' | 'summary' | 'tags' | 'specs' | 'distinguishingFeatures'>): string => {
+  const specs = Object.entries(report.specs || {})
+      .filter(([, v]) => v)
+      .map(([k, v]) => `${k}: ${v}`)
+      .join(', ');
+
+  return [
+    report.title,
+    report.category,
+    specs,
+    (report.distinguishingFeatures || []).join(', '),
+    (report.tags || []).join(', '),
+    report.summary,
+    report.description
+  ].filter(Boolean).join('. ');
+};
+
+const tokenize = (text: string): string[] => {
+  return text
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter(w => w.length > 1 && !STOP_WORDS.has(w));
+};
+
+// FNV-1a, enough to spread tokens across buckets deterministically
+const hashToken = (token: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// --- VECTORS ---
+export const normalizeVector = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+};
+
+/**
+ * Offline embedding: hashed unigrams + bigrams with a sign bit to reduce collisions.
+ * Captures lexical overlap only, but is free and always available.
+ */
+export const localEmbedding = (text: string): number[] => {
+  const vector = new Array(LOCAL_EMBEDDING_DIMS).fill(0);
+  const tokens = tokenize(text);
+  const features = [...tokens, ...tokens.slice(1).map((t, i) => `${tokens[i]}_${t}`)];
+
+  features.forEach(feature => {
+    const hash = hashToken(feature);
+    const sign = (hash & 1) === 0 ? 1 : -1;
+    vector[hash % LOCAL_EMBEDDING_DIMS] += sign;
+  });
+
+  return normalizeVector(vector);
+};
+
+/** A report's vector in the local space: the stored one when it was embedded locally. */
+export const localReportEmbedding = (report: ItemReport): number[] => {
+  return report.embeddingModel === LOCAL_EMBEDDING_MODEL && report.embedding
+      ? report.embedding
+      : localEmbedding(buildEmbeddingText(report));
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+// --- RANKING ---
+export interface RankedCandidate {
+  report: ItemReport;
+  similarity: number; // -1..1 cosine
+  model: string;      // which embedding space the score came from
+}
+
+const bySimilarity = (a: RankedCandidate, b: RankedCandidate) => b.similarity - a.similarity;
+
+/**
+ * Ranks candidates against the source report and returns the top K.
+ * Cosines from different embedding models aren't comparable, so each space is ranked on its own:
+ * candidates sharing the source's provider model by their stored vectors, the rest by the local
+ * embedding (stored local vectors are reused). The rankings merge by relative position, so each space
+ * fills the shortlist in proportion to its share of the candidates, best first.
+ */
+export const rankCandidates = (source: ItemReport, candidates: ItemReport[], topK: number): RankedCandidate[] => {
+  const sourceModel = source.embedding && source.embeddingModel && source.embeddingModel !== LOCAL_EMBEDDING_MODEL
+      ? source.embeddingModel
+      : null;
+  const inSourceSpace = (c: ItemReport) => !!sourceModel && !!c.embedding && c.embeddingModel === sourceModel;
+
+  const provider: RankedCandidate[] = candidates.filter(inSourceSpace).map(candidate => ({
+    report: candidate,
+    similarity: cosineSimilarity(source.embedding!, candidate.embedding!),
+    model: sourceModel!
+  }));
+
+  const rest = candidates.filter(c => !inSourceSpace(c));
+  const sourceLocal = rest.length > 0 ? localReportEmbedding(source) : [];
+  const local: RankedCandidate[] = rest.map(candidate => ({
+    report: candidate,
+    similarity: cosineSimilarity(sourceLocal, localReportEmbedding(candidate)),
+    model: LOCAL_EMBEDDING_MODEL
+  }));
+
+  return [provider, local]
+      .flatMap(space => space.sort(bySimilarity).map((ranked, i) => ({ ranked, position: (i + 0.5) / space.length })))
+      .sort((a, b) => a.position - b.position || bySimilarity(a.ranked, b.ranked))
+      .slice(0, topK)
+      .map(entry => entry.ranked);
+};
@@ -0,0 +1,287 @@
+import { ItemReport, ReportType } from "../types";
+import { compareLocations, getLocationRef, getReportStops, LocationProximity } from "./campusLocations";
+import { getOccurrence } from "./reportTime";
+
+/**
+ * Deterministic, explainable LOST <-> FOUND scoring.
+ * Used when the AI is unavailable and shown next to the AI verdict in MatchComparator,
+ * so users can see exactly which factors produced a score.
+ *
+ * Pure module: safe to import from the browser and from server jobs.
+ */
+
+// --- TYPES ---
+export type MatchFactorKey = 'category' | 'specs' | 'features' | 'tags' | 'text' | 'time' | 'location';
+
+export interface MatchFactor {
+  key: MatchFactorKey;
+  label: string;
+  weight: number;        // Nominal weight out of 100
+  score: number | null;  // 0..1, or null when the factor can't be judged (missing data)
+  points: number;        // Contribution to the total after re-weighting
+  detail: string;
+}
+
+export interface MatchScore {
+  total: number; // 0-100
+  factors: MatchFactor[];
+  rejected?: string; // Set when the pair is implausible (found before it was lost, or far from where it was lost)
+}
+
+// --- CONFIG ---
+const WEIGHTS: Record<MatchFactorKey, number> = {
+  category: 15,
+  specs: 20,
+  features: 15,
+  tags: 10,
+  text: 15,
+  time: 15,
+  location: 10
+};
+
+const LABELS: Record<MatchFactorKey, string> = {
+  category: 'Category',
+  specs: 'Brand / Model / Color',
+  features: 'Distinguishing Marks',
+  tags: 'Tags',
+  text: 'Description',
+  time: 'Timing',
+  location: 'Location'
+};
+
+// Reported times are approximate; tolerate a found time slightly before the loss time
+const TIME_GRACE_MS = 2 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// --- TEXT HELPERS ---
+const tokenSet = (text: string): Set<string> => {
+  return new Set(text.toLowerCase().split(/\W+/).filter(x => x.length > 2));
+};
+
+/** Jaccard similarity over words longer than two characters. */
+export const textSimilarity = (str1: string, str2: string): number => {
+  const set1 = tokenSet(str1);
+  const set2 = tokenSet(str2);
+
+  if (set1.size === 0 || set2.size === 0) return 0;
+
+  const intersection = [...set1].filter(x => set2.has(x)).length;
+  const union = new Set([...set1, ...set2]).size;
+
+  return intersection / union;
+};
+
+// Overlap coefficient: better than Jaccard for short lists of unequal length
+const overlapSimilarity = (list1: string[], list2: string[]): number => {
+  const set1 = tokenSet(list1.join(' '));
+  const set2 = tokenSet(list2.join(' '));
+  if (set1.size === 0 || set2.size === 0) return 0;
+  const intersection = [...set1].filter(x => set2.has(x)).length;
+  return intersection / Math.min(set1.size, set2.size);
+};
+
+const normalizeValue = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// --- TIME HELPERS ---
+const formatGap = (ms: number): string => {
+  const hours = Math.round(ms / (60 * 60 * 1000));
+  if (hours < 48) return `${hours}h`;
+  return `${Math.round(ms / DAY_MS)} days`;
+};
+
+// --- FACTORS ---
+type FactorResult = { score: number | null, detail: string, rejected?: string };
+
+const scoreCategory = (lost: ItemReport, found: ItemReport): FactorResult => {
+  return lost.category === found.category
+      ? { score: 1, detail: `Both ${lost.category}` }
+      : { score: 0, detail: `${lost.category} vs ${found.category}` };
+};
+
+const scoreSpecs = (lost: ItemReport, found: ItemReport): FactorResult => {
+  const specs1 = lost.specs || {};
+  const specs2 = found.specs || {};
+  const shared = Object.keys(specs1).filter(k => specs1[k] && specs2[k]);
+  if (shared.length === 0) return { score: null, detail: 'No shared details to compare' };
+
+  const matched: string[] = [];
+  const conflicting: string[] = [];
+  let total = 0;
+
+  shared.forEach(key => {
+    const a = normalizeValue(specs1[key]);
+    const b = normalizeValue(specs2[key]);
+    if (a === b) {
+      total += 1;
+      matched.push(key);
+    } else if (a && b && (a.includes(b) || b.includes(a))) {
+      total += 0.7;
+      matched.push(key);
+    } else {
+      conflicting.push(`${key}: ${specs1[key]} vs ${specs2[key]}`);
+    }
+  });
+
+  const detail = [
+    matched.length ? `Match on ${matched.join(', ')}` : '',
+    conflicting.length ? `Differs on ${conflicting.join('; ')}` : ''
+  ].filter(Boolean).join('. ');
+
+  return { score: total / shared.length, detail };
+};
+
+const scoreFeatures = (lost: ItemReport, found: ItemReport): FactorResult => {
+  const f1 = lost.distinguishingFeatures || [];
+  const f2 = found.distinguishingFeatures || [];
+  if (f1.length === 0 || f2.length === 0) return { score: null, detail: 'Not described on both reports' };
+  const score = overlapSimilarity(f1, f2);
+  return { score, detail: score > 0 ? `${Math.round(score * 100)}% of marks overlap` : 'No common marks' };
+};
+
+const scoreTags = (lost: ItemReport, found: ItemReport): FactorResult => {
+  if (!lost.tags?.length || !found.tags?.length) return { score: null, detail: 'No tags on one side' };
+  const score = overlapSimilarity(lost.tags, found.tags);
+  return { score, detail: `${Math.round(score * 100)}% tag overlap` };
+};
+
+const scoreText = (lost: ItemReport, found: ItemReport): FactorResult => {
+  const titleSim = textSimilarity(lost.title, found.title);
+  const descSim = textSimilarity(lost.description, found.description);
+  const score = Math.min(1, Math.max(titleSim, (titleSim + descSim) / 2) * 1.5);
+  return { score, detail: `Title ${Math.round(titleSim * 100)}%, description ${Math.round(descSim * 100)}% word overlap` };
+};
+
+const scoreTime = (lost: ItemReport, found: ItemReport): FactorResult => {
+  const lossWindow = getOccurrence(lost);
+  const foundAt = getOccurrence(found)?.start ?? null;
+  if (lossWindow === null || foundAt === null) return { score: null, detail: 'Date missing' };
+  const hasWindow = lossWindow.end > lossWindow.start;
+
+  // Only the window start rules a pair out; the item may have been found any time after it
+  if (foundAt - lossWindow.start < -TIME_GRACE_MS) {
+    const reason = hasWindow
+        ? `Found ${formatGap(lossWindow.start - foundAt)} before the loss window`
+        : `Found ${formatGap(lossWindow.start - foundAt)} before it was reported lost`;
+    return { score: 0, detail: reason, rejected: reason };
+  }
+  if (hasWindow && foundAt >= lossWindow.start && foundAt <= lossWindow.end) {
+    return { score: 1, detail: 'Found during the loss window' };
+  }
+
+  const gap = foundAt - lossWindow.end;
+  const absGap = Math.max(0, gap);
+  let score = 0;
+  if (absGap <= DAY_MS) score = 1;
+  else if (absGap <= 3 * DAY_MS) score = 0.8;
+  else if (absGap <= 7 * DAY_MS) score = 0.5;
+  else if (absGap <= 30 * DAY_MS) score = 0.2;
+
+  const after = hasWindow ? 'after the loss window' : 'after loss';
+  return { score, detail: absGap < 60 * 60 * 1000 ? 'Found within the hour' : `Found ${formatGap(absGap)} ${after}` };
+};
+
+const PROXIMITY_SCORES: Record<LocationProximity, { score: number, detail: string }> = {
+  SAME_ROOM: { score: 1, detail: 'Same room' },
+  SAME_FLOOR: { score: 1, detail: 'Same floor' },
+  SAME_BUILDING: { score: 0.85, detail: 'Same building' },
+  ADJACENT: { score: 0.6, detail: 'Adjacent buildings' },
+  NEARBY: { score: 0.3, detail: 'Nearby buildings' },
+  FAR: { score: 0, detail: 'Different parts of campus' }
+};
+
+const scoreTextLocation = (lostLabel: string, foundLabel: string): FactorResult => {
+  if (normalizeValue(lostLabel) === normalizeValue(foundLabel)) {
+    return { score: 1, detail: 'Same place' };
+  }
+  const score = overlapSimilarity([lostLabel], [foundLabel]);
+  return { score, detail: score > 0 ? 'Nearby / overlapping place names' : 'Different places' };
+};
+
+/**
+ * Compares the found spot with every place the LOST report passed through and keeps the closest.
+ * A pair is rejected only when every stop is in the gazetteer and all of them are far away.
+ */
+const scoreLocation = (lost: ItemReport, found: ItemReport): FactorResult => {
+  if (!lost.location || !found.location) return { score: null, detail: 'Location missing' };
+
+  const stops = getReportStops(lost);
+  const foundRef = getLocationRef(found);
+  const describe = (detail: string, label: string, distance?: number | null) => {
+    const notes = [stops.length > 1 ? `route stop: ${label}` : '', distance ? `~${distance} m apart` : ''].filter(Boolean);
+    return notes.length ? `${detail} (${notes.join(', ')})` : detail;
+  };
+
+  let best: FactorResult | null = null;
+  let allFar = !!foundRef;
+  for (const stop of stops) {
+    let result: FactorResult;
+    // Gazetteer first: building / floor / adjacency instead of string comparison
+    if (stop.ref && foundRef) {
+      const { proximity, distance } = compareLocations(stop.ref, foundRef);
+      const { score, detail } = PROXIMITY_SCORES[proximity];
+      if (proximity !== 'FAR' || distance === null) allFar = false;
+      result = { score, detail: describe(detail, stop.label, distance) };
+    } else {
+      allFar = false;
+      result = scoreTextLocation(stop.label, found.location);
+      if (result.score) result.detail = describe(result.detail, stop.label);
+    }
+    if (!best || result.score! > best.score!) best = result;
+  }
+
+  if (allFar) {
+    const reason = stops.length > 1 ? 'Found far from every place on the route' : 'Found far from where it was lost';
+    return { score: 0, detail: reason, rejected: reason };
+  }
+  return best!;
+};
+
+// --- ENGINE ---
+/**
+ * Scores a pair of reports. Argument order doesn't matter: the LOST side is detected by type.
+ * Factors without data on both sides are excluded and the remaining weights are scaled up,
+ * so sparse reports aren't punished for what users didn't fill in.
+ */
+export const scoreMatch = (item1: ItemReport, item2: ItemReport): MatchScore => {
+  const [lost, found] = item1.type === ReportType.FOUND && item2.type === ReportType.LOST
+      ? [item2, item1]
+      : [item1, item2];
+
+  const time = scoreTime(lost, found);
+  const location = scoreLocation(lost, found);
+  const results: Record<MatchFactorKey, FactorResult> = {
+    category: scoreCategory(lost, found),
+    specs: scoreSpecs(lost, found),
+    features: scoreFeatures(lost, found),
+    tags: scoreTags(lost, found),
+    text: scoreText(lost, found),
+    time,
+    location
+  };
+
+  const keys = Object.keys(WEIGHTS) as MatchFactorKey[];
+  const applicableWeight = keys
+      .filter(k => results[k].score !== null)
+      .reduce((sum, k) => sum + WEIGHTS[k], 0);
+  const scale = applicableWeight > 0 ? 100 / applicableWeight : 0;
+
+  const factors: MatchFactor[] = keys.map(key => {
+    const { score, detail } = results[key];
+    return {
+      key,
+      label: LABELS[key],
+      weight: WEIGHTS[key],
+      score,
+      points: score === null ? 0 : Math.round(score * WEIGHTS[key] * scale * 10) / 10,
+      detail
+    };
+  });
+
+  const rejected = time.rejected || location.rejected;
+  if (rejected) {
+    return { total: 0, factors, rejected };
+  }
+
+  const total = Math.round(factors.reduce((sum, f) => sum + f.points, 0));
+  return { total: Math.min(100, total), factors };
+};
@@ -0,0 +1,107 @@
+import { db } from './firebase';
+import { ItemReport, ModerationDecision, ModerationFlag, ReportModeration, User } from '../types';
+import { createNotification } from './notifications';
+import { hasPermission } from './permissions';
+
+/**
+ * Moderator review of AI-flagged reports.
+ * The report carries its review state (`moderation`); every decision is also appended to
+ * `moderationLog` so the policy in services/moderationPolicy.ts can be tuned from real outcomes.
+ */
+
+export const DECISION_LOG_SIZE = 200;
+
+const logRef = () => db.collection('moderationLog');
+
+export const newModeration = (flags: ModerationFlag[]): ReportModeration => ({
+  status: 'PENDING',
+  flags,
+  submittedAt: Date.now()
+});
+
+// --- REVIEW ---
+export const reviewReport = async (report: ItemReport, moderator: User, decision: ModerationDecision['decision'], note?: string) => {
+  if (!hasPermission(moderator, 'reports.moderate')) throw new Error('Only moderators can review reports.');
+  if (!report.moderation) throw new Error('This report is not awaiting review.');
+
+  const now = Date.now();
+  // A re-review (after an appeal) replaces the previous note
+  const { note: _previousNote, ...previous } = report.moderation;
+  const moderation: ReportModeration = {
+    ...previous,
+    status: decision,
+    reviewedBy: moderator.id,
+    reviewerName: moderator.name,
+    reviewedAt: now,
+    ...(note ? { note } : {})
+  };
+
+  const entry: ModerationDecision = {
+    id: logRef().doc().id,
+    reportId: report.id,
+    reporterId: report.reporterId,
+    decision,
+    flags: report.moderation.flags,
+    ...(note ? { note } : {}),
+    appealed: !!report.moderation.appeal,
+    moderatorId: moderator.id,
+    moderatorName: moderator.name,
+    at: now
+  };
+
+  const batch = db.batch();
+  batch.update(db.collection('reports').doc(report.id), { moderation, listed: decision === 'APPROVED' });
+  batch.set(logRef().doc(entry.id), entry);
+  await batch.commit();
+
+  await createNotification(report.reporterId, decision === 'APPROVED'
+    ? {
+        title: 'Report Approved',
+        message: `"${report.title}" passed review and is now live.`,
+        type: 'system',
+        link: 'DASHBOARD',
+        metadata: { sourceId: report.id }
+      }
+    : {
+        title: 'Report Not Approved',
+        message: `"${report.title}" was not approved${note ? `: ${note}` : '.'}${report.moderation.appeal ? '' : ' You can appeal from the report.'}`,
+        type: 'system',
+        link: 'DASHBOARD',
+        metadata: { sourceId: report.id }
+      }
+  ).catch(e => console.warn("Moderation notification failed", e));
+};
+
+// --- APPEAL ---
+/** Reporter asks for a second look at a rejected report. One appeal per report. */
+export const appealModeration = async (report: ItemReport, message: string) => {
+  if (report.moderation?.status !== 'REJECTED') throw new Error('Only rejected reports can be appealed.');
+  if (report.moderation.appeal) throw new Error('This report was already appealed.');
+
+  const moderation: ReportModeration = {
+    ...report.moderation,
+    status: 'PENDING',
+    appeal: { message: message.trim(), at: Date.now() }
+  };
+  await db.collection('reports').doc(report.id).update({ moderation, listed: false });
+};
+
+// --- QUEUE ---
+/** Reports waiting for a moderator, oldest first. */
+export const subscribeToReviewQueue = (onChange: (reports: ItemReport[]) => void) => {
+  return db.collection('reports').where('moderation.status', '==', 'PENDING').onSnapshot((snapshot) => {
+    const reports = snapshot.docs.map(d => ({ ...d.data(), id: d.id }) as ItemReport);
+    onChange(reports.sort((a, b) => a.moderation!.submittedAt - b.moderation!.submittedAt));
+  }, (error) => {
+    console.error("Error fetching review queue:", error);
+  });
+};
+
+// --- LOG ---
+export const subscribeToDecisions = (onChange: (decisions: ModerationDecision[]) => void) => {
+  return logRef().orderBy('at', 'desc').limit(DECISION_LOG_SIZE).onSnapshot((snapshot) => {
+    onChange(snapshot.docs.map(d => d.data() as ModerationDecision));
+  }, (error) => {
+    console.error("Error fetching moderation log:", error);
+  });
+};
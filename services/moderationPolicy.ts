@@ -0,0 +1,69 @@
+import { ItemReport, ModerationDecision, ModerationFlag } from '../types';
+
+/**
+ * What happens when an AI check flags a report.
+ * The checks misfire (a keychain with a dog charm reads as "ANIMAL"), so most flags send the report
+ * to the moderator queue instead of blocking it. Decisions are logged (moderationLog) and summarized
+ * per flag type by `summarizeDecisions`: a type moderators keep approving is a candidate to relax.
+ * Pure module: also imported by the match worker.
+ */
+
+export type PolicyAction = 'BLOCK' | 'REVIEW';
+
+// --- POLICY ---
+// Flag types missing here go to review
+export const MODERATION_POLICY: Record<string, PolicyAction> = {
+  GORE: 'BLOCK',          // Never uploaded, even for review
+  ANIMAL: 'REVIEW',
+  HUMAN_PORTRAIT: 'REVIEW',
+  HUMAN: 'REVIEW',
+  IRRELEVANT: 'REVIEW',
+  INCONSISTENCY: 'REVIEW',
+  INCONSISTENT: 'REVIEW',
+  CHECK_FAILED: 'REVIEW'  // The AI couldn't run: a person has a look instead
+};
+
+export const FLAG_LABELS: Record<string, string> = {
+  GORE: 'Graphic content',
+  ANIMAL: 'Animal in photo',
+  HUMAN_PORTRAIT: 'Person in photo',
+  HUMAN: 'Person in photo',
+  IRRELEVANT: 'Not a lost item',
+  INCONSISTENCY: 'Details don\'t add up',
+  INCONSISTENT: 'Details don\'t add up',
+  CHECK_FAILED: 'AI check unavailable',
+  // Raised by users (services/abuseFlags.ts)
+  FAKE_POST: 'Fake or misleading post',
+  SCAM: 'Scam or fraud',
+  HARASSMENT: 'Harassment',
+  OFFENSIVE: 'Offensive content',
+  SPAM: 'Spam',
+  OTHER: 'Something else'
+};
+
+export const policyAction = (type: string): PolicyAction => MODERATION_POLICY[type] || 'REVIEW';
+
+export const flagLabel = (flag: Pick<ModerationFlag, 'type'>) => FLAG_LABELS[flag.type] || flag.type;
+
+// --- VISIBILITY ---
+/** Visible to everyone: never flagged, or approved by a moderator. */
+export const isListed = (report: ItemReport) => !report.moderation || report.moderation.status === 'APPROVED';
+
+export const isAwaitingReview = (report: ItemReport) => report.moderation?.status === 'PENDING';
+
+// --- TUNING ---
+export type FlagStats = { type: string, approved: number, rejected: number };
+
+/** Approve/reject counts per flag type, most frequent first. */
+export const summarizeDecisions = (decisions: ModerationDecision[]): FlagStats[] => {
+  const stats = new Map<string, FlagStats>();
+  decisions.forEach(d => {
+    new Set(d.flags.map(f => f.type)).forEach(type => {
+      const entry = stats.get(type) || { type, approved: 0, rejected: 0 };
+      if (d.decision === 'APPROVED') entry.approved++;
+      else entry.rejected++;
+      stats.set(type, entry);
+    });
+  });
+  return [...stats.values()].sort((a, b) => (b.approved + b.rejected) - (a.approved + a.rejected));
+};
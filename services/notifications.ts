@@ -0,0 +1,124 @@
+import { db, FieldPath } from './firebase';
+import { AppNotification } from '../types';
+
+/**
+ * Persistent notification store: users/{uid}/notifications/{id}.
+ * Clients write to their own inbox; staff, moderators and admins also send system notices to the users they
+ * act on. Everything else between users comes from server workers: match alerts (server/matchWorker.ts),
+ * claims and returns (server/notifyWorker.ts).
+ * Newest first, ordered by `timestamp` and then by id, so notifications sent in the same millisecond
+ * keep a fixed order and paging never skips one.
+ */
+
+export const NOTIFICATIONS_PAGE_SIZE = 20;
+
+// Firestore batches are capped at 500 writes
+const BATCH_LIMIT = 500;
+
+const notificationsRef = (uid: string) => db.collection('users').doc(uid).collection('notifications');
+
+const newestFirst = (uid: string) => notificationsRef(uid).orderBy('timestamp', 'desc').orderBy(FieldPath.documentId(), 'desc');
+
+export type NewNotification = Pick<AppNotification, 'title' | 'message' | 'type'> & Partial<Pick<AppNotification, 'link' | 'metadata'>>;
+
+// --- CREATE ---
+export const createNotification = async (uid: string, data: NewNotification): Promise<AppNotification> => {
+  const ref = notificationsRef(uid).doc();
+  const notification: AppNotification = {
+    id: ref.id,
+    title: data.title,
+    message: data.message,
+    type: data.type,
+    timestamp: Date.now(),
+    isRead: false,
+    // Firestore rejects undefined fields
+    ...(data.link ? { link: data.link } : {}),
+    ...(data.metadata ? { metadata: data.metadata } : {})
+  };
+  await ref.set(notification);
+  return notification;
+};
+
+// --- READ ---
+export const fetchNotificationsPage = async (
+  uid: string,
+  after?: AppNotification,
+  pageSize: number = NOTIFICATIONS_PAGE_SIZE
+): Promise<{ notifications: AppNotification[], hasMore: boolean }> => {
+  let query = newestFirst(uid);
+  if (after) query = query.startAfter(after.timestamp, after.id);
+
+  // Fetch one extra to know whether another page exists
+  const snapshot = await query.limit(pageSize + 1).get();
+  const notifications = snapshot.docs.map(d => ({ ...d.data(), id: d.id }) as AppNotification);
+
+  return {
+    notifications: notifications.slice(0, pageSize),
+    hasMore: notifications.length > pageSize
+  };
+};
+
+/**
+ * Live view of the newest page. `added` lists notifications that arrived after the
+ * initial load, so callers can toast them without replaying history.
+ */
+export const subscribeToNotifications = (
+  uid: string,
+  onChange: (notifications: AppNotification[], added: AppNotification[]) => void,
+  pageSize: number = NOTIFICATIONS_PAGE_SIZE
+) => {
+  let initialLoad = true;
+
+  return newestFirst(uid)
+    .limit(pageSize)
+    .onSnapshot((snapshot) => {
+      const notifications = snapshot.docs.map(d => ({ ...d.data(), id: d.id }) as AppNotification);
+      const added = initialLoad
+          ? []
+          : snapshot.docChanges()
+              .filter(change => change.type === 'added' && !change.doc.metadata.hasPendingWrites)
+              .map(change => ({ ...change.doc.data(), id: change.doc.id }) as AppNotification);
+
+      initialLoad = false;
+      onChange(notifications, added);
+    }, (error) => {
+      console.error("Error fetching notifications:", error);
+    });
+};
+
+/** Unread count for the bell badge, independent of how many pages are loaded. */
+export const subscribeToUnreadCount = (uid: string, onChange: (count: number) => void) => {
+  return notificationsRef(uid)
+    .where('isRead', '==', false)
+    .onSnapshot((snapshot) => onChange(snapshot.size), (error) => {
+      console.error("Error fetching unread notifications:", error);
+    });
+};
+
+// --- UPDATE ---
+export const markNotificationRead = async (uid: string, id: string) => {
+  await notificationsRef(uid).doc(id).update({ isRead: true });
+};
+
+export const markAllNotificationsRead = async (uid: string) => {
+  const snapshot = await notificationsRef(uid).where('isRead', '==', false).get();
+  for (let i = 0; i < snapshot.docs.length; i += BATCH_LIMIT) {
+    const batch = db.batch();
+    snapshot.docs.slice(i, i + BATCH_LIMIT).forEach(d => batch.update(d.ref, { isRead: true }));
+    await batch.commit();
+  }
+};
+
+// --- DELETE ---
+export const deleteNotification = async (uid: string, id: string) => {
+  await notificationsRef(uid).doc(id).delete();
+};
+
+export const clearNotifications = async (uid: string) => {
+  const snapshot = await notificationsRef(uid).get();
+  for (let i = 0; i < snapshot.docs.length; i += BATCH_LIMIT) {
+    const batch = db.batch();
+    snapshot.docs.slice(i, i + BATCH_LIMIT).forEach(d => batch.delete(d.ref));
+    await batch.commit();
+  }
+};
@@ -0,0 +1,40 @@
+import { Permission, User, UserRole } from '../types';
+
+/**
+ * Role-based access control.
+ * Every user has one role (`users/{uid}.role`, 'student' when missing). The matrix below decides
+ * what the UI offers; firestore.rules enforces the same matrix on writes, so keep both in sync.
+ * Pure module: also imported by server scripts.
+ */
+
+export const USER_ROLES: UserRole[] = ['student', 'staff', 'moderator', 'admin'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  student: 'Student',
+  staff: 'Lost & Found Staff',
+  moderator: 'Moderator',
+  admin: 'Admin'
+};
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  'custody.manage': 'Take items into custody, move and release them',
+  'reports.moderate': "Remove other users' reports",
+  'chat.moderate': 'Remove messages from the community chat',
+  'roles.manage': 'Grant and revoke roles'
+};
+
+// --- MATRIX ---
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  student: [],
+  staff: ['custody.manage'],
+  moderator: ['reports.moderate', 'chat.moderate'],
+  admin: ['custody.manage', 'reports.moderate', 'chat.moderate', 'roles.manage']
+};
+
+export const isUserRole = (value: unknown): value is UserRole => USER_ROLES.includes(value as UserRole);
+
+export const getRole = (user?: Pick<User, 'role'> | null): UserRole => isUserRole(user?.role) ? user!.role! : 'student';
+
+export const hasPermission = (user: Pick<User, 'role'> | null | undefined, permission: Permission) => {
+  return ROLE_PERMISSIONS[getRole(user)].includes(permission);
+};
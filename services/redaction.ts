@@ -0,0 +1,96 @@
+/**
+ * Pixel-level redaction for uploaded photos.
+ * Regions use the detector's format: [ymin, xmin, ymax, xmax] on a 0-1000 scale.
+ * The pixelated canvas output is what gets uploaded, never the original.
+ */
+
+export type RedactionRegion = number[];
+
+// Pixel blocks across the longest edge of a region (lower = coarser)
+const PIXEL_BLOCKS = 12;
+// Grow each box slightly so detector boxes that hug a face don't leave edges readable
+const REGION_PADDING = 15;
+
+const clamp = (n: number) => Math.min(1000, Math.max(0, n));
+
+/** Normalizes a region (ordering, bounds, padding). Returns null for degenerate boxes. */
+export const normalizeRegion = (region: RedactionRegion, padding = REGION_PADDING): RedactionRegion | null => {
+  if (!Array.isArray(region) || region.length !== 4 || region.some(n => typeof n !== 'number' || isNaN(n))) return null;
+  const [y1, x1, y2, x2] = region;
+  const box = [
+    clamp(Math.min(y1, y2) - padding),
+    clamp(Math.min(x1, x2) - padding),
+    clamp(Math.max(y1, y2) + padding),
+    clamp(Math.max(x1, x2) + padding)
+  ];
+  if (box[2] - box[0] < 1 || box[3] - box[1] < 1) return null;
+  return box;
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    // Remote (Cloudinary) images must be CORS-enabled or the canvas becomes unreadable
+    if (!src.startsWith('data:')) img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not load image for redaction'));
+    img.src = src;
+  });
+};
+
+/**
+ * Pixelates every region of the image and returns the result as a JPEG data URL.
+ * Throws if the image can't be drawn, so callers never fall back to the unredacted original silently.
+ */
+export const applyRedactions = async (imageSrc: string, regions: RedactionRegion[], quality = 0.9): Promise<string> => {
+  const img = await loadImage(imageSrc);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas not supported');
+
+  ctx.drawImage(img, 0, 0, width, height);
+
+  // Scratch canvas for the downscale/upscale pixelation
+  const scratch = document.createElement('canvas');
+  const scratchCtx = scratch.getContext('2d');
+  if (!scratchCtx) throw new Error('Canvas not supported');
+
+  regions
+    .map(r => normalizeRegion(r))
+    .filter((r): r is RedactionRegion => r !== null)
+    .forEach(([ymin, xmin, ymax, xmax]) => {
+      const x = Math.floor((xmin / 1000) * width);
+      const y = Math.floor((ymin / 1000) * height);
+      const w = Math.max(1, Math.ceil(((xmax - xmin) / 1000) * width));
+      const h = Math.max(1, Math.ceil(((ymax - ymin) / 1000) * height));
+
+      const blockSize = Math.max(4, Math.ceil(Math.max(w, h) / PIXEL_BLOCKS));
+      scratch.width = Math.max(1, Math.ceil(w / blockSize));
+      scratch.height = Math.max(1, Math.ceil(h / blockSize));
+
+      scratchCtx.imageSmoothingEnabled = true;
+      scratchCtx.drawImage(canvas, x, y, w, h, 0, 0, scratch.width, scratch.height);
+
+      ctx.imageSmoothingEnabled = false;
+      ctx.drawImage(scratch, 0, 0, scratch.width, scratch.height, x, y, w, h);
+    });
+
+  // toDataURL throws on a tainted canvas; let it propagate
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+/** Converts a data URL into a File so it can go through uploadImage. */
+export const dataUrlToFile = (dataUrl: string, name: string): File => {
+  const [header, data] = dataUrl.split(',');
+  const mime = header.match(/data:(.*?);/)?.[1] || 'image/jpeg';
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  const baseName = name.replace(/\.[^.]+$/, '') || 'image';
+  return new File([bytes], `${baseName}-redacted.jpg`, { type: mime });
+};
@@ -0,0 +1,297 @@
+import { ItemCategory, ItemReport, ReportType } from '../types';
+import { BUILDINGS, buildingNeighborhood, getBuilding, getReportStops, searchLocations } from './campusLocations';
+import { getOccurrence, occurredSortKey, zonedInputToEpoch } from './reportTime';
+import { scoreMatch } from './matchScoring';
+import { COLORS, SearchQuery, colorSpellings } from './searchQuery';
+
+/**
+ * Dashboard feed facets. Everything the feed is narrowed and sorted by lives in one `FeedFilters`
+ * value, which round-trips through the URL query string so a filtered view can be shared. Smart search
+ * (services/searchQuery.ts) sets the same fields, so whatever it recognized shows up as removable chips.
+ * Type, status, "mine", category, report age and oldest-first run in Firestore (services/reportQueries.ts);
+ * the rest is applied here over the loaded pages.
+ */
+
+// --- STATE ---
+export type FeedSort = 'NEWEST' | 'OLDEST' | 'CLOSEST_TIME' | 'BEST_MATCH';
+
+export const SORT_LABELS: Record<FeedSort, string> = {
+  NEWEST: 'Newest first',
+  OLDEST: 'Oldest first',
+  CLOSEST_TIME: 'Closest in time to my loss',
+  BEST_MATCH: 'Best match to my loss'
+};
+
+/** Sorts ranked against one of the viewer's open LOST reports. */
+export const needsLostReport = (sort: FeedSort) => sort === 'CLOSEST_TIME' || sort === 'BEST_MATCH';
+
+export const AGE_OPTIONS = [1, 7, 30, 90]; // "Reported in the last N days"
+export const MAX_TAGS = 5;
+
+export interface FeedFilters {
+  type: ReportType;
+  status: 'ACTIVE' | 'ARCHIVE';
+  mine: boolean;
+  view: 'GRID' | 'MAP';
+  q: string; // Every word must appear in the report (or name one of its buildings)
+  category: ItemCategory | '';
+  building: string;
+  nearby: boolean; // Include buildings adjacent to `building`
+  from: string; // YYYY-MM-DD in the report's campus time: when it was lost or found
+  to: string;
+  tags: string[]; // Lowercase; a report needs all of them
+  colors: string[]; // From searchQuery.COLORS; a report needs one of them
+  brand: string;
+  model: string;
+  hasPhoto: boolean;
+  maxAgeDays: number | null; // When it was reported
+  sort: FeedSort;
+  lostReportId: string; // Reference report for CLOSEST_TIME and BEST_MATCH (first open one when empty)
+}
+
+export const DEFAULT_FILTERS: FeedFilters = {
+  type: ReportType.LOST,
+  status: 'ACTIVE',
+  mine: false,
+  view: 'GRID',
+  q: '',
+  category: '',
+  building: '',
+  nearby: true,
+  from: '',
+  to: '',
+  tags: [],
+  colors: [],
+  brand: '',
+  model: '',
+  hasPhoto: false,
+  maxAgeDays: null,
+  sort: 'NEWEST',
+  lostReportId: ''
+};
+
+/** Facets beyond the tab, archive, "mine" and view toggles that are narrowing the feed. */
+export const countActiveFacets = (filters: FeedFilters) => [
+  filters.category, filters.building, filters.from || filters.to, filters.tags.length, filters.colors.length, filters.brand, filters.model,
+  filters.hasPhoto, filters.maxAgeDays
+].filter(Boolean).length;
+
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase();
+
+// --- URL ---
+const SORT_PARAMS: Record<FeedSort, string> = { NEWEST: 'newest', OLDEST: 'oldest', CLOSEST_TIME: 'closest', BEST_MATCH: 'match' };
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Reads filters from a query string; unknown or malformed values fall back to the defaults. */
+export const filtersFromQuery = (search: string): FeedFilters => {
+  const params = new URLSearchParams(search);
+  const get = (key: string) => params.get(key) || '';
+  const date = (key: string) => DATE_PATTERN.test(get(key)) ? get(key) : '';
+  const category = Object.values(ItemCategory).find(c => c === get('category'));
+  const age = Number(get('age'));
+  const sort = (Object.keys(SORT_PARAMS) as FeedSort[]).find(s => SORT_PARAMS[s] === get('sort'));
+
+  return {
+    type: get('type') === 'found' ? ReportType.FOUND : ReportType.LOST,
+    status: get('status') === 'archive' ? 'ARCHIVE' : 'ACTIVE',
+    mine: get('mine') === '1',
+    view: get('view') === 'map' ? 'MAP' : 'GRID',
+    q: get('q'),
+    category: category || '',
+    building: BUILDINGS.some(b => b.id === get('building')) ? get('building') : '',
+    nearby: get('nearby') !== '0',
+    from: date('from'),
+    to: date('to'),
+    tags: [...new Set(get('tags').split(',').map(normalizeTag).filter(Boolean))].slice(0, MAX_TAGS),
+    colors: [...new Set(get('colors').split(','))].filter(c => COLORS.includes(c)),
+    brand: get('brand'),
+    model: get('model'),
+    hasPhoto: get('photo') === '1',
+    maxAgeDays: AGE_OPTIONS.includes(age) ? age : null,
+    sort: sort || DEFAULT_FILTERS.sort,
+    lostReportId: get('lost')
+  };
+};
+
+/** Query string for `filters`, without the values that are already the default. */
+export const filtersToQuery = (filters: FeedFilters): string => {
+  const params = new URLSearchParams();
+  if (filters.type === ReportType.FOUND) params.set('type', 'found');
+  if (filters.status === 'ARCHIVE') params.set('status', 'archive');
+  if (filters.mine) params.set('mine', '1');
+  if (filters.view === 'MAP') params.set('view', 'map');
+  if (filters.q) params.set('q', filters.q);
+  if (filters.category) params.set('category', filters.category);
+  if (filters.building) params.set('building', filters.building);
+  if (filters.building && !filters.nearby) params.set('nearby', '0');
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.tags.length) params.set('tags', filters.tags.join(','));
+  if (filters.colors.length) params.set('colors', filters.colors.join(','));
+  if (filters.brand) params.set('brand', filters.brand);
+  if (filters.model) params.set('model', filters.model);
+  if (filters.hasPhoto) params.set('photo', '1');
+  if (filters.maxAgeDays) params.set('age', String(filters.maxAgeDays));
+  if (filters.sort !== DEFAULT_FILTERS.sort) params.set('sort', SORT_PARAMS[filters.sort]);
+  if (needsLostReport(filters.sort) && filters.lostReportId) params.set('lost', filters.lostReportId);
+  return params.toString();
+};
+
+// --- FILTER ---
+/** Whether the loss/find window overlaps the from/to days (read in the report's own zone). */
+const inDateRange = (report: ItemReport, from: string, to: string) => {
+  const occurrence = getOccurrence(report);
+  if (!occurrence) return false;
+  const start = from ? zonedInputToEpoch(from, '00:00', occurrence.timeZone) : null;
+  const end = to ? zonedInputToEpoch(to, '23:59', occurrence.timeZone) : null;
+  return (start === null || occurrence.end >= start) && (end === null || occurrence.start < end + 60 * 1000);
+};
+
+/** Everything written about the item, lowercased, for word lookups. */
+export const reportText = (report: ItemReport) => [
+  report.title, report.description, report.summary, report.category, ...(report.tags || []),
+  ...Object.values(report.specs || {}), ...(report.distinguishingFeatures || [])
+].filter(Boolean).join(' ').toLowerCase();
+
+const hasWord = (text: string, word: string) => new RegExp(`\\b${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`).test(text);
+
+/** Buildings a report touches, route stops included (stored, or resolved from the free-text labels). */
+export const reportBuildingIds = (report: ItemReport): string[] => {
+  return getReportStops(report).flatMap(stop => stop.ref ? [stop.ref.buildingId] : []);
+};
+
+/**
+ * Building and free-text filters. `buildingsOf` lets the dashboard pass buildings it already
+ * resolved for the loaded reports.
+ */
+export const matchesSearch = (report: ItemReport, filters: FeedFilters, buildingsOf: (report: ItemReport) => string[] = reportBuildingIds) => {
+  const inBuildings = (ids: string[]) => buildingsOf(report).some(id => ids.includes(id));
+
+  if (filters.building && !inBuildings(filters.nearby ? buildingNeighborhood(filters.building) : [filters.building])) return false;
+
+  const q = filters.q.toLowerCase().trim();
+  if (!q) return true;
+  // "lib" should find "Main Library, Floor 2" and "library 2nd floor" alike
+  const buildingsFor = (text: string) => searchLocations(text).filter(s => s.score >= 0.8).map(s => s.building.id);
+  const places = [report.location, ...(report.route || []).map(stop => stop.label)].join(' ').toLowerCase();
+  if (places.includes(q) || inBuildings(buildingsFor(q))) return true;
+
+  // Otherwise every word, anywhere in the report ("keys" also finds "key")
+  const text = `${reportText(report)} ${places}`;
+  return q.split(/\s+/).every(word => text.includes(word.length > 3 ? word.replace(/s$/, '') : word) || inBuildings(buildingsFor(word)));
+};
+
+/** Date range, tag, color, brand/model and photo facets. Category and age are already applied by the query. */
+export const matchesFacets = (report: ItemReport, filters: FeedFilters) => {
+  if ((filters.from || filters.to) && !inDateRange(report, filters.from, filters.to)) return false;
+  if (filters.hasPhoto && !report.imageUrls?.length) return false;
+  if (filters.tags.length) {
+    const tags = new Set((report.tags || []).map(normalizeTag));
+    if (!filters.tags.every(t => tags.has(t))) return false;
+  }
+  if (filters.colors.length || filters.brand || filters.model) {
+    const text = reportText(report);
+    if (filters.colors.length && !filters.colors.some(c => colorSpellings(c).some(spelling => hasWord(text, spelling)))) return false;
+    if (filters.brand && !hasWord(text, filters.brand.toLowerCase())) return false;
+    // "xps 13" also finds "XPS13"
+    if (filters.model && !text.replace(/\s+/g, '').includes(filters.model.toLowerCase().replace(/\s+/g, ''))) return false;
+  }
+  return true;
+};
+
+/** Most used tags across `reports`, to offer as tag facets. */
+export const popularTags = (reports: ItemReport[], limit: number = 12): string[] => {
+  const counts = new Map<string, number>();
+  reports.forEach(r => new Set((r.tags || []).map(normalizeTag)).forEach(tag => {
+    if (tag) counts.set(tag, (counts.get(tag) || 0) + 1);
+  }));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).slice(0, limit).map(([tag]) => tag);
+};
+
+/** Every filter a saved search can hold, for one report (the dashboard applies some of them in Firestore). */
+export const matchesReport = (report: ItemReport, filters: FeedFilters) => {
+  return report.type === filters.type
+    && (!filters.category || report.category === filters.category)
+    && matchesSearch(report, filters)
+    && matchesFacets(report, filters);
+};
+
+// --- SMART SEARCH ---
+/**
+ * Feed filters for a parsed search. Someone who lost something sees FOUND reports from the day of the
+ * loss onwards; someone who found something sees LOST reports up to that day.
+ */
+export const applySearchQuery = (filters: FeedFilters, query: SearchQuery): FeedFilters => ({
+  ...filters,
+  type: query.userStatus === 'LOST' ? ReportType.FOUND : query.userStatus === 'FOUND' ? ReportType.LOST : filters.type,
+  q: query.keywords,
+  category: query.category || '',
+  colors: query.colors,
+  brand: query.brand || '',
+  model: query.model || '',
+  building: query.buildingId || '',
+  nearby: true,
+  from: query.userStatus === 'FOUND' ? '' : query.dateFrom || '',
+  to: query.userStatus === 'LOST' ? '' : query.dateTo || ''
+});
+
+export interface FilterChip {
+  key: string;
+  label: string;
+  clear: Partial<FeedFilters>; // Applied when the chip is removed
+}
+
+const formatDay = (date: string) => new Intl.DateTimeFormat(undefined, { timeZone: 'UTC', day: 'numeric', month: 'short' }).format(new Date(`${date}T00:00:00Z`));
+
+const dateChipLabel = (from: string, to: string) => {
+  if (from && to) return from === to ? formatDay(from) : `${formatDay(from)} – ${formatDay(to)}`;
+  return from ? `Since ${formatDay(from)}` : `Until ${formatDay(to)}`;
+};
+
+/** One removable chip per active filter, in the order they read best ("Electronics · Black · Dell"). */
+export const filterChips = (filters: FeedFilters): FilterChip[] => [
+  ...(filters.q ? [{ key: 'q', label: `"${filters.q}"`, clear: { q: '' } }] : []),
+  ...(filters.category ? [{ key: 'category', label: filters.category, clear: { category: '' as const } }] : []),
+  ...filters.colors.map(c => ({ key: `color:${c}`, label: c[0].toUpperCase() + c.slice(1), clear: { colors: filters.colors.filter(x => x !== c) } })),
+  ...(filters.brand ? [{ key: 'brand', label: filters.brand, clear: { brand: '', model: '' } }] : []),
+  ...(filters.model ? [{ key: 'model', label: filters.model, clear: { model: '' } }] : []),
+  ...(filters.building ? [{
+    key: 'building',
+    label: `${filters.nearby ? 'Near' : 'In'} ${getBuilding(filters.building)?.name || filters.building}`,
+    clear: { building: '', nearby: true }
+  }] : []),
+  ...(filters.from || filters.to ? [{ key: 'date', label: dateChipLabel(filters.from, filters.to), clear: { from: '', to: '' } }] : []),
+  ...filters.tags.map(t => ({ key: `tag:${t}`, label: `#${t}`, clear: { tags: filters.tags.filter(x => x !== t) } })),
+  ...(filters.hasPhoto ? [{ key: 'photo', label: 'With photo', clear: { hasPhoto: false } }] : []),
+  ...(filters.maxAgeDays ? [{
+    key: 'age',
+    label: filters.maxAgeDays === 1 ? 'Reported today' : `Reported in ${filters.maxAgeDays} days`,
+    clear: { maxAgeDays: null }
+  }] : [])
+];
+
+// --- SORT ---
+/** Gap between two loss/find windows; 0 when they overlap. */
+const timeGap = (a: ItemReport, b: ItemReport) => {
+  const ra = getOccurrence(a) || { start: a.createdAt, end: a.createdAt };
+  const rb = getOccurrence(b) || { start: b.createdAt, end: b.createdAt };
+  return Math.max(0, rb.start - ra.end, ra.start - rb.end);
+};
+
+/**
+ * Orders the loaded reports. Newest/oldest go by when it happened (the query already pages by
+ * report date); the other two rank against `lostReport` and fall back to newest without one.
+ */
+export const sortReports = (reports: ItemReport[], sort: FeedSort, lostReport: ItemReport | null): ItemReport[] => {
+  const newest = (a: ItemReport, b: ItemReport) => occurredSortKey(b) - occurredSortKey(a);
+
+  if (sort === 'OLDEST') return [...reports].sort((a, b) => newest(b, a));
+  if (sort === 'CLOSEST_TIME' && lostReport) {
+    return [...reports].sort((a, b) => timeGap(lostReport, a) - timeGap(lostReport, b) || newest(a, b));
+  }
+  if (sort === 'BEST_MATCH' && lostReport) {
+    const scores = new Map(reports.map(r => [r.id, r.id === lostReport.id ? -1 : scoreMatch(lostReport, r).total]));
+    return [...reports].sort((a, b) => scores.get(b.id)! - scores.get(a.id)! || newest(a, b));
+  }
+  return [...reports].sort(newest);
+};
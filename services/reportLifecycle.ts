@@ -0,0 +1,110 @@
+import { ItemReport, ReportStatus, StatusChange } from '../types';
+
+/**
+ * Report lifecycle: which status a report can move to, and when it expires.
+ * OPEN and CLAIM_PENDING (an owner was verified, handover not done yet) can go anywhere; IN_CUSTODY only ends in
+ * RETURNED (a staff release, see services/custody.ts); EXPIRED and WITHDRAWN can be reopened; RETURNED is final.
+ * EXPIRED is set by server/expireReports.ts after a "still looking?" nudge the reporter can answer by renewing.
+ * Every change is appended to `statusHistory`. firestore.rules mirrors STATUS_TRANSITIONS.
+ *
+ * Pure module: safe to import from the browser and from server jobs.
+ */
+
+export const REPORT_STATUSES: ReportStatus[] = ['OPEN', 'CLAIM_PENDING', 'IN_CUSTODY', 'RETURNED', 'EXPIRED', 'WITHDRAWN'];
+
+export const STATUS_LABELS: Record<ReportStatus, string> = {
+  OPEN: 'Open',
+  CLAIM_PENDING: 'Handover Pending',
+  IN_CUSTODY: 'At the Desk',
+  RETURNED: 'Returned',
+  EXPIRED: 'Expired',
+  WITHDRAWN: 'Withdrawn'
+};
+
+export const STATUS_TRANSITIONS: Record<ReportStatus, ReportStatus[]> = {
+  OPEN: ['CLAIM_PENDING', 'IN_CUSTODY', 'RETURNED', 'EXPIRED', 'WITHDRAWN'],
+  CLAIM_PENDING: ['OPEN', 'IN_CUSTODY', 'RETURNED', 'EXPIRED', 'WITHDRAWN'],
+  IN_CUSTODY: ['RETURNED'],
+  RETURNED: [],
+  EXPIRED: ['OPEN'],
+  WITHDRAWN: ['OPEN']
+};
+
+// Listed under "Active", and still looking for an owner/item
+export const ACTIVE_STATUSES: ReportStatus[] = ['OPEN', 'CLAIM_PENDING', 'IN_CUSTODY'];
+
+// Listed under "Archive". Includes the legacy 'RESOLVED' so queries still find unmigrated reports.
+export const ARCHIVED_STATUSES: ItemReport['status'][] = ['RETURNED', 'EXPIRED', 'WITHDRAWN', 'RESOLVED'];
+
+// Considered for matching (an item with a verified owner is spoken for)
+export const MATCHABLE_STATUSES: ReportStatus[] = ['OPEN', 'IN_CUSTODY'];
+
+// --- STATUS ---
+/** Current status; legacy 'RESOLVED' reads as RETURNED. */
+export const getStatus = (report: Pick<ItemReport, 'status'>): ReportStatus => {
+  return report.status === 'RESOLVED' ? 'RETURNED' : report.status;
+};
+
+export const isActive = (report: Pick<ItemReport, 'status'>) => ACTIVE_STATUSES.includes(getStatus(report));
+
+export const isMatchable = (report: Pick<ItemReport, 'status'>) => MATCHABLE_STATUSES.includes(getStatus(report));
+
+export const canTransition = (from: ReportStatus, to: ReportStatus) => STATUS_TRANSITIONS[from].includes(to);
+
+export type StatusPatch = Pick<ItemReport, 'status' | 'statusUpdatedAt' | 'statusHistory'>;
+
+/** Fields to write for a new report. */
+export const initialStatus = (status: ReportStatus, by: string, at = Date.now()): StatusPatch => ({
+  status,
+  statusUpdatedAt: at,
+  statusHistory: [{ from: null, to: status, at, by }]
+});
+
+/** Fields to write to move a report to `to`. Throws on a transition the lifecycle doesn't allow. */
+export const transition = (report: Pick<ItemReport, 'status' | 'statusHistory'>, to: ReportStatus, by: string, note?: string, at = Date.now()): StatusPatch => {
+  const from = getStatus(report);
+  if (!canTransition(from, to)) {
+    throw new Error(`A report that is ${STATUS_LABELS[from].toLowerCase()} can't become ${STATUS_LABELS[to].toLowerCase()}.`);
+  }
+  const change: StatusChange = { from, to, at, by, ...(note ? { note } : {}) };
+  return {
+    status: to,
+    statusUpdatedAt: at,
+    statusHistory: [...(report.statusHistory || []), change]
+  };
+};
+
+// --- EXPIRY ---
+const DAY = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_EXPIRY_DAYS = 60;
+export const NUDGE_LEAD_DAYS = 7; // The nudge goes out this long before expiry, and expiry never comes sooner after it
+
+// Custody items follow the desk's own retention, not the reporter's
+const EXPIRING_STATUSES: ReportStatus[] = ['OPEN', 'CLAIM_PENDING'];
+
+type ExpiringReport = Pick<ItemReport, 'status' | 'createdAt' | 'renewedAt' | 'expiryNudgedAt' | 'expiresAt'>;
+
+const clockStart = (report: ExpiringReport) => report.renewedAt || report.createdAt;
+
+const wasNudged = (report: ExpiringReport) => !!report.expiryNudgedAt && report.expiryNudgedAt >= clockStart(report);
+
+/** Expiry date the reporter was warned about, or null (not nudged since the last renewal). */
+export const pendingExpiry = (report: ExpiringReport): number | null => {
+  return wasNudged(report) && isActive(report) ? report.expiresAt ?? null : null;
+};
+
+export type ExpiryStep = 'NONE' | 'NUDGE' | 'EXPIRE';
+
+/** What the expiry job should do with a report right now. */
+export const expiryStep = (report: ExpiringReport, now: number, expiryDays = DEFAULT_EXPIRY_DAYS): ExpiryStep => {
+  if (!EXPIRING_STATUSES.includes(getStatus(report))) return 'NONE';
+  const due = clockStart(report) + expiryDays * DAY;
+  if (!wasNudged(report)) return now >= due - NUDGE_LEAD_DAYS * DAY ? 'NUDGE' : 'NONE';
+  return now >= (report.expiresAt ?? due) ? 'EXPIRE' : 'NONE';
+};
+
+/** Expiry date announced in a nudge sent at `now`: the due date, but never less than the lead time away. */
+export const nudgeExpiresAt = (report: ExpiringReport, now: number, expiryDays = DEFAULT_EXPIRY_DAYS) => {
+  return Math.max(clockStart(report) + expiryDays * DAY, now + NUDGE_LEAD_DAYS * DAY);
+};
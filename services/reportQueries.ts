@@ -0,0 +1,159 @@
+import type firebase from 'firebase/compat/app';
+import { db, FieldPath } from './firebase';
+import { ItemCategory, ItemReport, ReportType } from '../types';
+import { MATCHABLE_STATUSES } from './reportLifecycle';
+
+/**
+ * Report queries. Nothing subscribes to the whole `reports` collection: the dashboard feed loads a
+ * page at a time (cursor on `createdAt`, then the document id for reports created in the same
+ * millisecond), other screens fetch what they need.
+ * Only listed reports come back unless a query asks for the reporter's own (firestore.rules refuses
+ * unlisted ones to anyone else but moderators).
+ * Type, status, category, reporter and report-age filters run in Firestore; the other dashboard
+ * facets are applied in the client over the loaded pages (services/reportFacets.ts).
+ * Composite indexes, for both directions, are in firestore.indexes.json.
+ */
+
+// --- CONFIG ---
+export const REPORTS_PAGE_SIZE = 24;
+export const CANDIDATE_LIMIT = 300; // Newest reports of the other type considered for matching or resolving
+
+export interface ReportFilter {
+  type?: ReportType;
+  statuses?: ItemReport['status'][]; // Firestore 'in': at most 10 values
+  category?: ItemCategory;
+  reporterId?: string;
+  includeUnlisted?: boolean; // Only together with the signed-in user's own reporterId
+  createdAfter?: number; // Reported at or after (epoch millis)
+  oldestFirst?: boolean;
+}
+
+const reportsRef = () => db.collection('reports');
+
+const toReport = (doc: firebase.firestore.DocumentSnapshot) => ({ ...doc.data(), id: doc.id }) as ItemReport;
+
+/** Newest first (or oldest first), ties broken by id, with the filter applied in Firestore. */
+const filteredQuery = (filter: ReportFilter) => {
+  let query: firebase.firestore.Query = reportsRef();
+  if (!filter.includeUnlisted) query = query.where('listed', '==', true);
+  if (filter.type) query = query.where('type', '==', filter.type);
+  if (filter.statuses) query = query.where('status', 'in', filter.statuses);
+  if (filter.category) query = query.where('category', '==', filter.category);
+  if (filter.reporterId) query = query.where('reporterId', '==', filter.reporterId);
+  if (filter.createdAfter) query = query.where('createdAt', '>=', filter.createdAfter);
+  const direction = filter.oldestFirst ? 'asc' : 'desc';
+  return query.orderBy('createdAt', direction).orderBy(FieldPath.documentId(), direction);
+};
+
+// --- READ ---
+export const fetchReport = async (id: string): Promise<ItemReport | null> => {
+  const snap = await reportsRef().doc(id).get();
+  return snap.exists ? toReport(snap) : null;
+};
+
+export const fetchReports = async (filter: ReportFilter, limit: number): Promise<ItemReport[]> => {
+  const snapshot = await filteredQuery(filter).limit(limit).get();
+  return snapshot.docs.map(toReport);
+};
+
+/** Open, listed reports of the other type, for smart matching against `source`. */
+export const fetchMatchCandidates = async (source: ItemReport) => {
+  return fetchReports({ type: source.type === ReportType.LOST ? ReportType.FOUND : ReportType.LOST, statuses: MATCHABLE_STATUSES }, CANDIDATE_LIMIT);
+};
+
+/** Live view of the newest `limit` reports matching `filter` (e.g. the user's own open reports). */
+export const subscribeToReports = (filter: ReportFilter, onChange: (reports: ItemReport[]) => void, limit: number = REPORTS_PAGE_SIZE) => {
+  return filteredQuery(filter).limit(limit).onSnapshot((snapshot) => {
+    onChange(snapshot.docs.map(toReport));
+  }, (error) => {
+    console.error("Error fetching reports:", error);
+  });
+};
+
+// --- FEED ---
+export interface ReportFeedState {
+  reports: ItemReport[];
+  hasMore: boolean;
+  isLoading: boolean;
+}
+
+export interface ReportFeed {
+  loadMore: () => Promise<void>;
+  unsubscribe: () => void;
+}
+
+/**
+ * Paginated, live feed. Each loaded page listens to the (`createdAt`, id) range it covered when it was
+ * fetched, so edits, status changes and deletions show up on every visible page. The first page has
+ * no upper bound: new reports appear at the top without shifting the later pages. Oldest first, new
+ * reports only come in with a later page.
+ */
+export const subscribeToReportFeed = (
+  filter: ReportFilter,
+  onChange: (state: ReportFeedState) => void,
+  pageSize: number = REPORTS_PAGE_SIZE
+): ReportFeed => {
+  const pages: ItemReport[][] = [];
+  const bounds: [number, string][] = []; // createdAt and id of the last report of each page when it was fetched
+  const listeners: (() => void)[] = [];
+  let hasMore = true;
+  let isLoading = false;
+  let closed = false;
+
+  const emit = () => {
+    if (!closed) onChange({ reports: pages.flat(), hasMore, isLoading });
+  };
+
+  const listen = (index: number, query: firebase.firestore.Query) => {
+    listeners.push(query.onSnapshot((snapshot) => {
+      pages[index] = snapshot.docs.map(toReport);
+      emit();
+    }, (error) => {
+      console.error("Error fetching reports:", error);
+    }));
+  };
+
+  const loadMore = async () => {
+    if (closed || isLoading || !hasMore) return;
+    isLoading = true;
+    emit();
+
+    const index = pages.length;
+    const after = index > 0 ? bounds[index - 1] : null;
+    try {
+      let query = filteredQuery(filter);
+      if (after !== null) query = query.startAfter(...after);
+      // Fetch one extra to know whether another page exists
+      const snapshot = await query.limit(pageSize + 1).get();
+      if (closed) return;
+
+      const page = snapshot.docs.slice(0, pageSize).map(toReport);
+      hasMore = snapshot.size > pageSize;
+      pages[index] = page;
+
+      if (page.length > 0) {
+        const last = page[page.length - 1];
+        bounds[index] = [last.createdAt, last.id];
+        listen(index, query.endAt(...bounds[index]));
+      } else if (index === 0) {
+        // Nothing yet: wait for the first reports
+        listen(index, query.limit(pageSize));
+      }
+    } catch (e) {
+      console.error("Error fetching reports:", e);
+    } finally {
+      isLoading = false;
+      emit();
+    }
+  };
+
+  loadMore();
+
+  return {
+    loadMore,
+    unsubscribe: () => {
+      closed = true;
+      listeners.forEach(unsubscribe => unsubscribe());
+    }
+  };
+};
@@ -0,0 +1,142 @@
+import { ItemReport } from "../types";
+import { CAMPUSES, getCampus } from "./campusLocations";
+
+/**
+ * When an item was lost or found.
+ * Reports store `occurredAt` (and `occurredUntil` for a LOST window) as epoch millis plus the campus
+ * `timeZone`. Wall-clock input and display always happen in that zone, so a report filed at 10:00 on
+ * campus reads 10:00 for everyone; viewers elsewhere also see the zone name.
+ * Reports from before the migration (server/migrateOccurredAt.ts) only have DD/MM/YYYY + HH:MM strings,
+ * which are read here as campus time.
+ *
+ * Pure module: safe to import from the browser and from server jobs.
+ */
+
+type TimedReport = Pick<ItemReport, 'occurredAt' | 'occurredUntil' | 'timeZone' | 'date' | 'time' | 'lostUntil' | 'locationRef'>;
+
+export interface Occurrence {
+  start: number;
+  end: number; // Equal to start unless a LOST report gives a window
+  timeZone: string;
+}
+
+// --- ZONES ---
+const isValidZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** IANA zone of a campus (the first campus when unknown). */
+export const campusTimeZone = (campusId?: string): string => {
+  const zone = getCampus(campusId)?.timeZone || CAMPUSES[0].timeZone;
+  return isValidZone(zone) ? zone : 'UTC';
+};
+
+export const viewerTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// --- CONVERSION ---
+// Wall-clock fields of an instant in a zone
+const zonedParts = (ms: number, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit'
+  }).formatToParts(new Date(ms));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+};
+
+const offsetAt = (ms: number, timeZone: string) => {
+  const p = zonedParts(ms, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(ms / 1000) * 1000;
+};
+
+const wallClockToEpoch = (year: number, month: number, day: number, hour: number, minute: number, timeZone: string): number | null => {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  if (isNaN(guess)) return null;
+  // Second pass settles times next to a DST change
+  const first = guess - offsetAt(guess, timeZone);
+  const second = guess - offsetAt(first, timeZone);
+  return second;
+};
+
+/** Form input ("YYYY-MM-DD", "HH:MM") in a zone -> epoch millis. */
+export const zonedInputToEpoch = (date: string, time: string, timeZone: string): number | null => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = (time || '00:00').split(':').map(Number);
+  if (!year || !month || !day) return null;
+  return wallClockToEpoch(year, month, day, hour || 0, minute || 0, timeZone);
+};
+
+/** Epoch millis -> form input values ("YYYY-MM-DD", "HH:MM") in a zone. */
+export const epochToZonedInput = (ms: number, timeZone: string): { date: string, time: string } => {
+  const p = zonedParts(ms, timeZone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return { date: `${p.year}-${pad(p.month)}-${pad(p.day)}`, time: `${pad(p.hour)}:${pad(p.minute)}` };
+};
+
+/** Parses the legacy DD/MM/YYYY (or YYYY-MM-DD) date and HH:MM time as wall-clock time in a zone. */
+export const parseLegacyDateTime = (date: string, time: string | undefined, timeZone: string): number | null => {
+  let day: number, month: number, year: number;
+  if (date.includes('/')) {
+    [day, month, year] = date.split('/').map(Number);
+  } else if (date.includes('-')) {
+    [year, month, day] = date.split('-').map(Number);
+  } else {
+    return null;
+  }
+  if (!year || !month || !day) return null;
+
+  const [hour, minute] = (time || '00:00').split(':').map(Number);
+  return wallClockToEpoch(year, month, day, hour || 0, minute || 0, timeZone);
+};
+
+// --- ACCESS ---
+/** Canonical occurrence of a report, falling back to the legacy strings on unmigrated reports. */
+export const getOccurrence = (report: TimedReport): Occurrence | null => {
+  const timeZone = report.timeZone && isValidZone(report.timeZone) ? report.timeZone : campusTimeZone(report.locationRef?.campusId);
+
+  let start: number | null = typeof report.occurredAt === 'number' ? report.occurredAt : null;
+  let end: number | null = typeof report.occurredUntil === 'number' ? report.occurredUntil : null;
+
+  if (start === null && report.date) {
+    start = parseLegacyDateTime(report.date, report.time, timeZone);
+    end = report.lostUntil ? parseLegacyDateTime(report.lostUntil.date, report.lostUntil.time, timeZone) : null;
+  }
+  if (start === null) return null;
+
+  return { start, end: end !== null && end > start ? end : start, timeZone };
+};
+
+/** Sort key for listings: when it happened, or when it was reported if that's unknown. */
+export const occurredSortKey = (report: TimedReport & Pick<ItemReport, 'createdAt'>) => getOccurrence(report)?.start ?? report.createdAt;
+
+// --- FORMATTING ---
+// Locale comes from the viewer; the zone from the report
+const withZoneName = (timeZone: string) => (timeZone !== viewerTimeZone() ? { timeZoneName: 'short' as const } : {});
+
+/** Locale-aware date, e.g. "12 Oct 2026" / "Oct 12, 2026". */
+export const formatReportDate = (report: TimedReport): string => {
+  const occurrence = getOccurrence(report);
+  if (!occurrence) return report.date || '';
+  return new Intl.DateTimeFormat(undefined, { timeZone: occurrence.timeZone, day: 'numeric', month: 'short', year: 'numeric' })
+      .format(occurrence.start);
+};
+
+/** Locale-aware time or loss window, e.g. "10:00", "10:00 – 14:30", "12 Oct, 22:00 – 13 Oct, 08:00". */
+export const formatReportTime = (report: TimedReport): string => {
+  const occurrence = getOccurrence(report);
+  if (!occurrence) return report.time || '';
+
+  const { start, end, timeZone } = occurrence;
+  const sameDay = epochToZonedInput(start, timeZone).date === epochToZonedInput(end, timeZone).date;
+  const format = new Intl.DateTimeFormat(undefined, {
+    timeZone, hour: '2-digit', minute: '2-digit',
+    ...(sameDay ? {} : { day: 'numeric', month: 'short' }),
+    ...withZoneName(timeZone)
+  });
+  return end > start ? format.formatRange(start, end) : format.format(start);
+};
@@ -0,0 +1,221 @@
+import { db } from './firebase';
+import { ItemReport, Resolution, ResolutionStatus, ReportType, User } from '../types';
+import { requiresVerification } from './claims';
+import { isInCustody } from './custody';
+import { scoreMatch } from './matchScoring';
+import { isActive, transition } from './reportLifecycle';
+import { isListed } from './moderationPolicy';
+import { CANDIDATE_LIMIT, fetchReports } from './reportQueries';
+
+/**
+ * Resolutions: which FOUND report returned which LOST report.
+ * Either reporter proposes the return by picking the matching report (a PENDING resolution). The
+ * other reporter accepts it, which moves both reports to RETURNED in the same write, so the two
+ * sides never disagree and nobody can close someone else's report alone. Declining leaves both
+ * open; the match can be proposed again later. The owner can leave one thank-you note for the finder. `recoveryMs` on each resolution feeds the recovery stats.
+ * server/notifyWorker.ts tells the other side about each step.
+ * Items held at a lost-and-found desk are returned by a staff release instead (services/custody.ts).
+ */
+
+// --- CONFIG ---
+export const RECENT_RESOLUTIONS = 200; // Window the recovery stats are computed over
+export const MAX_FEEDBACK_LENGTH = 500;
+
+const resolutionsRef = () => db.collection('resolutions');
+
+export const resolutionId = (lostReportId: string, foundReportId: string) => `${lostReportId}_${foundReportId}`;
+
+// --- CANDIDATES ---
+const canResolve = (report: ItemReport) => isActive(report) && !isInCustody(report);
+
+/** Whether the FOUND side's verification challenge lets `ownerId` be its owner. */
+const isVerifiedFor = (found: ItemReport, ownerId: string) => {
+  return !requiresVerification(found) || !!found.verifiedClaimantIds?.includes(ownerId);
+};
+
+const sides = (report: ItemReport, match: ItemReport) => {
+  return report.type === ReportType.LOST ? { lost: report, found: match } : { lost: match, found: report };
+};
+
+/**
+ * Reports `report` could have been returned through: the other type, still open, someone else's.
+ * Reports where the owner passed verification come first, then the best matches.
+ */
+export const findResolutionCandidates = (report: ItemReport, allReports: ItemReport[]): ItemReport[] => {
+  return allReports
+    .filter(r => r.type !== report.type && r.reporterId !== report.reporterId && isListed(r) && canResolve(r))
+    .filter(r => {
+      const { lost, found } = sides(report, r);
+      return isVerifiedFor(found, lost.reporterId);
+    })
+    .map(r => {
+      const { lost, found } = sides(report, r);
+      return { report: r, verified: !!found.verifiedClaimantIds?.includes(lost.reporterId), score: scoreMatch(lost, found).total };
+    })
+    .sort((a, b) => Number(b.verified) - Number(a.verified) || b.score - a.score)
+    .map(c => c.report);
+};
+
+/** Loads and ranks the candidates: the newest open reports of the other type, plus any found item the owner was verified on. */
+export const fetchResolutionCandidates = async (report: ItemReport): Promise<ItemReport[]> => {
+  const otherType = report.type === ReportType.LOST ? ReportType.FOUND : ReportType.LOST;
+  const [recent, verified] = await Promise.all([
+    fetchReports({ type: otherType, statuses: ['OPEN', 'CLAIM_PENDING'] }, CANDIDATE_LIMIT),
+    report.type === ReportType.LOST
+      ? db.collection('reports').where('listed', '==', true).where('verifiedClaimantIds', 'array-contains', report.reporterId).get()
+          .then(snap => snap.docs.map(d => ({ ...d.data(), id: d.id }) as ItemReport))
+      : Promise.resolve([])
+  ]);
+  const byId = new Map([...recent, ...verified].map(r => [r.id, r]));
+  return findResolutionCandidates(report, [...byId.values()]);
+};
+
+// --- RESOLVE ---
+/** Resolutions from before acceptance existed have no status and were accepted. */
+export const resolutionStatus = (resolution: Resolution): ResolutionStatus => resolution.status || 'ACCEPTED';
+
+/** Asks the reporter of `match` to confirm `report` and `match` were returned to each other. `user` reports either one. */
+export const proposeResolution = async (report: ItemReport, match: ItemReport, user: User): Promise<Resolution> => {
+  const { lost, found } = sides(report, match);
+  if (lost.type !== ReportType.LOST || found.type !== ReportType.FOUND) throw new Error('Pick a report of the other type.');
+  if (![lost.reporterId, found.reporterId].includes(user.id)) throw new Error('Only the two reporters can confirm a return.');
+  if (lost.reporterId === found.reporterId) throw new Error("You can't return an item to yourself.");
+  if (!canResolve(lost) || !canResolve(found)) throw new Error('Both reports need to be open.');
+  if (!isVerifiedFor(found, lost.reporterId)) throw new Error("The owner hasn't passed the finder's verification yet.");
+
+  const now = Date.now();
+  const id = resolutionId(lost.id, found.id);
+  const resolution: Resolution = {
+    id,
+    lostReportId: lost.id,
+    foundReportId: found.id,
+    lostTitle: lost.title,
+    foundTitle: found.title,
+    ownerId: lost.reporterId,
+    finderId: found.reporterId,
+    participants: [lost.reporterId, found.reporterId],
+    status: 'PENDING',
+    resolvedBy: user.id,
+    resolvedAt: now,
+    lostReportedAt: lost.createdAt,
+    recoveryMs: Math.max(0, now - lost.createdAt)
+  };
+
+  // Replaces a declined proposal; the rules refuse it while one is pending or accepted
+  await resolutionsRef().doc(id).set(resolution);
+  return resolution;
+};
+
+/** The other reporter accepts a proposed return: the resolution and both reports are updated in one transaction. */
+export const acceptResolution = async (resolution: Resolution, user: User) => {
+  if (!resolution.participants.includes(user.id) || resolution.resolvedBy === user.id) {
+    throw new Error('Only the other reporter can confirm this return.');
+  }
+
+  const reportsRef = db.collection('reports');
+  const now = Date.now();
+
+  await db.runTransaction(async (tx) => {
+    const [snap, lostSnap, foundSnap] = await Promise.all([
+      tx.get(resolutionsRef().doc(resolution.id)),
+      tx.get(reportsRef.doc(resolution.lostReportId)),
+      tx.get(reportsRef.doc(resolution.foundReportId))
+    ]);
+    const current = snap.data() as Resolution | undefined;
+    if (!current || resolutionStatus(current) !== 'PENDING') throw new Error('This return is no longer waiting for confirmation.');
+    if (!lostSnap.exists || !foundSnap.exists) throw new Error('One of the reports was deleted.');
+
+    const lost = { ...lostSnap.data(), id: lostSnap.id } as ItemReport;
+    const found = { ...foundSnap.data(), id: foundSnap.id } as ItemReport;
+    if (!canResolve(lost) || !canResolve(found)) throw new Error('Both reports need to be open.');
+
+    const close = (side: ItemReport, other: ItemReport) => ({
+      ...transition(side, 'RETURNED', user.id, `Returned via "${other.title}"`, now),
+      resolution: { id: resolution.id, matchReportId: other.id, matchTitle: other.title, resolvedAt: now }
+    });
+
+    tx.update(resolutionsRef().doc(resolution.id), {
+      status: 'ACCEPTED',
+      resolvedAt: now,
+      respondedAt: now,
+      recoveryMs: Math.max(0, now - current.lostReportedAt)
+    });
+    tx.update(reportsRef.doc(lost.id), close(lost, found));
+    tx.update(reportsRef.doc(found.id), close(found, lost));
+  });
+};
+
+/** The other reporter says it wasn't this match. Both reports stay open. */
+export const declineResolution = async (resolution: Resolution, user: User) => {
+  if (!resolution.participants.includes(user.id) || resolution.resolvedBy === user.id) {
+    throw new Error('Only the other reporter can decline this return.');
+  }
+  await resolutionsRef().doc(resolution.id).update({ status: 'DECLINED', respondedAt: Date.now() });
+};
+
+/** Proposals waiting on either side for `uid`, newest first. */
+export const subscribeToPendingResolutions = (uid: string, onChange: (resolutions: Resolution[]) => void) => {
+  return resolutionsRef()
+    .where('participants', 'array-contains', uid)
+    .where('status', '==', 'PENDING')
+    .onSnapshot((snapshot) => {
+      onChange(snapshot.docs.map(d => d.data() as Resolution).sort((a, b) => b.resolvedAt - a.resolvedAt));
+    }, (error) => {
+      console.error("Error fetching pending resolutions:", error);
+    });
+};
+
+// --- FEEDBACK ---
+/** Thank-you note from the owner to the finder. One per resolution. */
+export const leaveFeedback = async (resolution: Resolution, owner: User, message: string) => {
+  const text = message.trim().slice(0, MAX_FEEDBACK_LENGTH);
+  if (!text) return;
+  if (resolution.ownerId !== owner.id) throw new Error('Only the owner can thank the finder.');
+  if (resolutionStatus(resolution) !== 'ACCEPTED') throw new Error('The return needs to be confirmed first.');
+  if (resolution.feedback) throw new Error('You already sent a note.');
+
+  await resolutionsRef().doc(resolution.id).update({ feedback: { message: text, at: Date.now() } });
+};
+
+export const subscribeToResolution = (id: string, onChange: (resolution: Resolution | null) => void) => {
+  return resolutionsRef().doc(id).onSnapshot((snap) => {
+    onChange(snap.exists ? (snap.data() as Resolution) : null);
+  }, (error) => {
+    console.error("Error fetching resolution:", error);
+  });
+};
+
+// --- METRICS ---
+/** Accepted returns only; proposals still waiting or declined don't count. */
+export const subscribeToRecentResolutions = (onChange: (resolutions: Resolution[]) => void) => {
+  return resolutionsRef().orderBy('resolvedAt', 'desc').limit(RECENT_RESOLUTIONS).onSnapshot((snapshot) => {
+    onChange(snapshot.docs.map(d => d.data() as Resolution).filter(r => resolutionStatus(r) === 'ACCEPTED'));
+  }, (error) => {
+    console.error("Error fetching resolutions:", error);
+  });
+};
+
+export type RecoveryStats = { count: number, medianMs: number, within7Days: number, withFeedback: number };
+
+/** Time-to-recovery figures over a set of resolutions (0s when empty). */
+export const summarizeRecovery = (resolutions: Resolution[]): RecoveryStats => {
+  const times = resolutions.map(r => r.recoveryMs).sort((a, b) => a - b);
+  const count = times.length;
+  if (count === 0) return { count, medianMs: 0, within7Days: 0, withFeedback: 0 };
+
+  const mid = Math.floor(count / 2);
+  return {
+    count,
+    medianMs: count % 2 ? times[mid] : (times[mid - 1] + times[mid]) / 2,
+    within7Days: times.filter(t => t <= 7 * 24 * 60 * 60 * 1000).length,
+    withFeedback: resolutions.filter(r => r.feedback).length
+  };
+};
+
+/** "3 days", "5 hours", "under an hour" */
+export const formatDuration = (ms: number) => {
+  const hours = ms / (60 * 60 * 1000);
+  if (hours < 1) return 'under an hour';
+  if (hours < 48) return `${Math.round(hours)} hour${Math.round(hours) === 1 ? '' : 's'}`;
+  return `${Math.round(hours / 24)} days`;
+};
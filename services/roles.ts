@@ -0,0 +1,59 @@
+import { db } from './firebase';
+import { User, UserRole } from '../types';
+import { createNotification } from './notifications';
+import { ROLE_LABELS, USER_ROLES, hasPermission } from './permissions';
+
+/**
+ * Role administration for the Admin screen.
+ * Only admins can write another user's `role` (firestore.rules); admins can't change their own,
+ * so there is always someone left to grant it back. The very first admin is set with server/setRole.ts.
+ */
+
+const SEARCH_LIMIT = 20;
+
+const usersRef = () => db.collection('users');
+
+const toUser = (doc: { id: string, data: () => any }) => ({ ...doc.data(), id: doc.id } as User);
+
+// --- READ ---
+/** Everyone holding a role other than student. */
+export const fetchRoleHolders = async (): Promise<User[]> => {
+  const snapshot = await usersRef().where('role', 'in', USER_ROLES.filter(r => r !== 'student')).get();
+  return snapshot.docs.map(toUser).sort((a, b) => (a.name || '').localeCompare(b.name || ''));
+};
+
+/** Exact email or student ID, otherwise a name prefix. */
+export const searchUsers = async (term: string): Promise<User[]> => {
+  const q = term.trim();
+  if (!q) return [];
+
+  if (q.includes('@')) {
+    const snapshot = await usersRef().where('email', '==', q.toLowerCase()).limit(SEARCH_LIMIT).get();
+    return snapshot.docs.map(toUser);
+  }
+
+  const [byStudentId, byName] = await Promise.all([
+    usersRef().where('studentId', '==', q.toUpperCase()).limit(SEARCH_LIMIT).get(),
+    usersRef().orderBy('name').startAt(q).endAt(`${q}\uf8ff`).limit(SEARCH_LIMIT).get()
+  ]);
+
+  const found = new Map<string, User>();
+  [...byStudentId.docs, ...byName.docs].forEach(doc => found.set(doc.id, toUser(doc)));
+  return [...found.values()];
+};
+
+// --- WRITE ---
+export const setUserRole = async (admin: User, target: User, role: UserRole) => {
+  if (!hasPermission(admin, 'roles.manage')) throw new Error('Only admins can change roles.');
+  if (admin.id === target.id) throw new Error("You can't change your own role.");
+
+  await usersRef().doc(target.id).update({ role, roleUpdatedBy: admin.id, roleUpdatedAt: Date.now() });
+
+  await createNotification(target.id, {
+    title: 'Role Updated',
+    message: role === 'student'
+        ? `Your ${ROLE_LABELS[target.role || 'student']} access was removed by ${admin.name}.`
+        : `${admin.name} made you ${ROLE_LABELS[role]}.`,
+    type: 'system'
+  }).catch(e => console.warn("Role notification failed", e));
+};
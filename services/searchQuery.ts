@@ -0,0 +1,290 @@
+import { ItemCategory } from '../types';
+import { resolveLocation, searchLocations } from './campusLocations';
+import { campusTimeZone, epochToZonedInput } from './reportTime';
+
+/**
+ * Structured search. A free-text query ("black dell laptop lost near library last tuesday") becomes
+ * intent, category, colors, brand/model, building and a date range, which the dashboard applies as
+ * feed filters (services/reportFacets.ts). The AI parse (geminiService.parseSearchQuery) is preferred;
+ * `parseSearchRules` is the deterministic fallback and fills in whatever the model left out.
+ *
+ * Pure module: no Firebase, no provider access.
+ */
+
+// --- TYPES ---
+export interface SearchQuery {
+  userStatus: 'LOST' | 'FOUND' | 'UNKNOWN'; // What the searcher did: someone who LOST something looks through FOUND reports
+  category?: ItemCategory;
+  colors: string[]; // Canonical names from COLORS
+  brand?: string;
+  model?: string;
+  buildingId?: string;
+  dateFrom?: string; // YYYY-MM-DD, campus time
+  dateTo?: string;
+  keywords: string; // What wasn't recognized, item nouns included ("laptop")
+}
+
+export const EMPTY_SEARCH: SearchQuery = { userStatus: 'UNKNOWN', colors: [], keywords: '' };
+
+// --- VOCABULARY ---
+export const COLORS = ['black', 'white', 'grey', 'silver', 'gold', 'red', 'blue', 'navy', 'green', 'yellow', 'orange', 'pink', 'purple', 'brown', 'beige', 'maroon', 'transparent'];
+const COLOR_ALIASES: Record<string, string> = { gray: 'grey', golden: 'gold', clear: 'transparent', violet: 'purple', cream: 'beige' };
+
+/** Spellings of a color to look for in report text ("grey" also finds "gray"). */
+export const colorSpellings = (color: string) => [color, ...Object.keys(COLOR_ALIASES).filter(a => COLOR_ALIASES[a] === color)];
+
+const canonicalColor = (word: string) => COLORS.includes(word) ? word : COLOR_ALIASES[word];
+
+const BRANDS = [
+  'Apple', 'Samsung', 'Dell', 'HP', 'Lenovo', 'Asus', 'Acer', 'MSI', 'Sony', 'OnePlus', 'Xiaomi', 'Redmi', 'Realme', 'Oppo', 'Vivo',
+  'Motorola', 'Nokia', 'Google', 'Microsoft', 'Logitech', 'JBL', 'boAt', 'Bose', 'Skullcandy', 'Noise', 'Casio', 'Titan', 'Fossil',
+  'Nike', 'Adidas', 'Puma', 'Wildcraft', 'American Tourister', 'Skybags', 'SanDisk', 'Parker', 'Milton', 'Ray-Ban'
+];
+
+// Product lines that imply their brand ("iphone 13" -> Apple, model "iphone 13")
+const PRODUCT_BRANDS: Record<string, string> = {
+  iphone: 'Apple', ipad: 'Apple', macbook: 'Apple', airpods: 'Apple', galaxy: 'Samsung', thinkpad: 'Lenovo', ideapad: 'Lenovo',
+  pixel: 'Google', surface: 'Microsoft', kindle: 'Amazon', inspiron: 'Dell', xps: 'Dell', pavilion: 'HP'
+};
+
+const MODEL_SUFFIXES = new Set(['pro', 'max', 'mini', 'plus', 'air', 'ultra', 'lite', 'fe', 'buds']);
+
+// Longer phrases first where they overlap ("pen drive" before "pen")
+const CATEGORY_WORDS: Record<ItemCategory, string[]> = {
+  [ItemCategory.ELECTRONICS]: ['laptop', 'phone', 'mobile', 'smartphone', 'tablet', 'charger', 'cable', 'earbuds', 'earphones', 'headphones',
+    'headset', 'power bank', 'powerbank', 'calculator', 'mouse', 'keyboard', 'pen drive', 'pendrive', 'usb', 'smartwatch', 'speaker',
+    'camera', 'iphone', 'ipad', 'macbook', 'airpods', 'kindle'],
+  [ItemCategory.STATIONERY]: ['pencil', 'pen', 'notebook', 'diary', 'stapler', 'geometry box', 'pencil box', 'folder', 'file', 'ruler',
+    'eraser', 'marker', 'highlighter'],
+  [ItemCategory.CLOTHING]: ['lab coat', 'jacket', 'hoodie', 'sweater', 'sweatshirt', 't-shirt', 'tshirt', 'shirt', 'coat', 'cap', 'hat',
+    'scarf', 'shoes', 'sneakers', 'slippers', 'gloves', 'apron'],
+  [ItemCategory.ACCESSORIES]: ['water bottle', 'lunch box', 'wallet', 'purse', 'smartwatch', 'watch', 'keychain', 'keys', 'key', 'backpack',
+    'bag', 'umbrella', 'bottle', 'sunglasses', 'glasses', 'spectacles', 'ring', 'bracelet', 'earrings', 'necklace', 'chain', 'belt', 'tiffin'],
+  [ItemCategory.ID_CARDS]: ['student id', 'id card', 'identity card', 'pan card', 'atm card', 'debit card', 'credit card', 'bus pass',
+    'aadhaar', 'license', 'licence', 'id'],
+  [ItemCategory.BOOKS]: ['lab manual', 'textbook', 'book', 'novel', 'journal', 'manual', 'notes'],
+  [ItemCategory.OTHER]: []
+};
+
+const LOST_PATTERN = /\b(lost|lose|misplaced|missing|left behind|left|dropped|forgot|forgotten)\b/;
+const FOUND_PATTERN = /\b(found|picked up|spotted|handed in|came across)\b/;
+
+const PREPOSITIONS = new Set(['near', 'at', 'in', 'inside', 'outside', 'around', 'by', 'behind', 'opposite', 'beside']);
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'my', 'i', 'me', 'mine', 'someone', 'somebody', 'is', 'was', 'were', 'has', 'have', 'had', 'been', 'it', 'its',
+  'with', 'and', 'or', 'of', 'on', 'to', 'for', 'from', 'some', 'item', 'thing', 'stuff', 'please', 'help', 'find', 'looking',
+  'search', 'anyone', 'who', 'where', 'color', 'colour', 'coloured', 'colored', 'next', 'floor', 'room', 'last', 'this'
+]);
+
+// --- DATES ---
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WORD_NUMBERS: Record<string, number> = { a: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7 };
+
+const toDate = (year: number, month: number, day: number): string | null => {
+  const d = new Date(Date.UTC(year, month - 1, day));
+  if (d.getUTCMonth() !== month - 1 || d.getUTCDate() !== day) return null;
+  return d.toISOString().slice(0, 10);
+};
+
+const shiftDate = (date: string, days: number) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+};
+
+const weekday = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+type DateRange = [string, string];
+
+// First match wins; each returns [from, to] given today's date on campus
+const DATE_RULES: { pattern: RegExp, range: (m: RegExpMatchArray, today: string) => DateRange | null }[] = [
+  { pattern: /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/, range: m => {
+    const date = toDate(+m[1], +m[2], +m[3]);
+    return date ? [date, date] : null;
+  } },
+  // DD/MM or DD/MM/YYYY, as reports are written on campus; without a year, the most recent one
+  { pattern: /\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?\b/, range: (m, today) => {
+    const thisYear = Number(today.slice(0, 4));
+    const year = m[3] ? (m[3].length === 2 ? 2000 + Number(m[3]) : Number(m[3])) : thisYear;
+    let date = toDate(year, +m[2], +m[1]);
+    if (date && !m[3] && date > today) date = toDate(year - 1, +m[2], +m[1]);
+    return date ? [date, date] : null;
+  } },
+  { pattern: /\b(today|tonight|this morning|this afternoon|this evening)\b/, range: (_, today) => [today, today] },
+  { pattern: /\b(yesterday|last night)\b/, range: (_, today) => [shiftDate(today, -1), shiftDate(today, -1)] },
+  { pattern: /\b(\d+|a|one|two|three|four|five|six|seven) days? ago\b/, range: (m, today) => {
+    const n = WORD_NUMBERS[m[1]] ?? Number(m[1]);
+    return [shiftDate(today, -n), shiftDate(today, -n)];
+  } },
+  { pattern: /\b(last|past) (week|7 days)\b/, range: (_, today) => [shiftDate(today, -7), today] },
+  { pattern: /\b(last|past) (month|30 days)\b/, range: (_, today) => [shiftDate(today, -30), today] },
+  { pattern: /\bthis week\b/, range: (_, today) => [shiftDate(today, -((weekday(today) + 6) % 7)), today] },
+  // "tuesday" is the latest one up to today; "last tuesday" is the one before today
+  { pattern: /\b(?:(last|on|this) )?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b/, range: (m, today) => {
+    const back = (weekday(today) - WEEKDAYS.indexOf(m[2]) + 7) % 7 || (m[1] === 'last' ? 7 : 0);
+    const date = shiftDate(today, -back);
+    return [date, date];
+  } }
+];
+
+// --- RULE-BASED PARSER ---
+const matchCategory = (text: string): ItemCategory | undefined => {
+  let best: { category: ItemCategory, index: number } | undefined;
+  (Object.keys(CATEGORY_WORDS) as ItemCategory[]).forEach(category => {
+    CATEGORY_WORDS[category].forEach(phrase => {
+      const index = text.search(new RegExp(`\\b${phrase.replace('-', '\\-')}s?\\b`));
+      if (index >= 0 && (!best || index < best.index)) best = { category, index };
+    });
+  });
+  return best?.category;
+};
+
+const looksLikeModel = (token: string) => /\d/.test(token);
+
+/**
+ * Deterministic parse of a search query. `now` and `timeZone` anchor relative dates
+ * ("yesterday", "last tuesday") to the campus calendar.
+ */
+export const parseSearchRules = (query: string, now: number = Date.now(), timeZone: string = campusTimeZone()): SearchQuery => {
+  let text = ` ${query.toLowerCase().replace(/[^a-z0-9/\-\s]/g, ' ').replace(/\s+/g, ' ').trim()} `;
+  const result: SearchQuery = { ...EMPTY_SEARCH, colors: [] };
+  const remove = (m: RegExpMatchArray) => { text = text.replace(m[0], ' '); };
+
+  // Dates and intent first, so their words don't end up as keywords or models ("3 days ago")
+  const today = epochToZonedInput(now, timeZone).date;
+  for (const rule of DATE_RULES) {
+    const m = text.match(rule.pattern);
+    const range = m && rule.range(m, today);
+    if (m && range) {
+      [result.dateFrom, result.dateTo] = range;
+      remove(m);
+      break;
+    }
+  }
+
+  const lost = text.match(LOST_PATTERN);
+  const found = text.match(FOUND_PATTERN);
+  if (lost && (!found || lost.index! < found.index!)) result.userStatus = 'LOST';
+  else if (found) result.userStatus = 'FOUND';
+  [lost, found].forEach(m => m && remove(m));
+
+  result.category = matchCategory(text);
+
+  const tokens = text.split(' ').filter(Boolean);
+  const used = new Set<number>();
+
+  // Brand, then a model right after it ("dell xps 13", "iphone 13 pro")
+  for (let i = 0; i < tokens.length && !result.brand; i++) {
+    const product = PRODUCT_BRANDS[tokens[i]];
+    const brand = product || BRANDS.find(b => b.toLowerCase() === tokens[i] || b.toLowerCase() === `${tokens[i]} ${tokens[i + 1]}`);
+    if (!brand) continue;
+
+    result.brand = brand;
+    const model = product ? [tokens[i]] : [];
+    let j = i + (product ? 1 : brand.split(' ').length);
+    for (let k = i; k < j; k++) used.add(k);
+    while (j < tokens.length && model.length < 4) {
+      const token = tokens[j];
+      const startsModel = model.length === 0 && !matchCategory(` ${token} `) && j + 1 < tokens.length && looksLikeModel(tokens[j + 1]);
+      if (!(looksLikeModel(token) || startsModel || (model.length > 0 && MODEL_SUFFIXES.has(token)))) break;
+      model.push(token);
+      used.add(j++);
+    }
+    if (model.length) result.model = model.join(' ');
+  }
+
+  tokens.forEach((token, i) => {
+    const color = canonicalColor(token);
+    if (color && !used.has(i)) {
+      if (!result.colors.includes(color)) result.colors.push(color);
+      used.add(i);
+    }
+  });
+
+  // "near the library", "at a block": the longest run after a preposition that names a building
+  const runAfter = (start: number) => {
+    const run: number[] = [];
+    for (let i = start; i < tokens.length && run.length < 3 && !used.has(i) && !PREPOSITIONS.has(tokens[i]); i++) {
+      if (run.length === 0 && tokens[i] === 'the') continue;
+      run.push(i);
+    }
+    return run;
+  };
+  tokens.forEach((token, p) => {
+    if (result.buildingId || used.has(p) || !PREPOSITIONS.has(token)) return;
+    const run = runAfter(p + 1);
+    for (let n = run.length; n > 0; n--) {
+      const ref = resolveLocation(run.slice(0, n).map(i => tokens[i]).join(' '));
+      if (ref) {
+        result.buildingId = ref.buildingId;
+        for (let i = p; i <= run[n - 1]; i++) used.add(i);
+        return;
+      }
+    }
+  });
+  // Otherwise a building named outright ("library", "food court")
+  for (const n of [2, 1]) {
+    for (let i = 0; i + n <= tokens.length && !result.buildingId; i++) {
+      const span = Array.from({ length: n }, (_, k) => i + k);
+      if (span.some(k => used.has(k) || STOPWORDS.has(tokens[k]))) continue;
+      const top = searchLocations(span.map(k => tokens[k]).join(' '), 1)[0];
+      if (top && top.score >= 0.95) {
+        result.buildingId = top.building.id;
+        span.forEach(k => used.add(k));
+      }
+    }
+  }
+
+  result.keywords = tokens.filter((t, i) => !used.has(i) && !STOPWORDS.has(t) && !PREPOSITIONS.has(t)).join(' ');
+  return result;
+};
+
+// --- AI REPLIES ---
+export interface RawSearchQuery {
+  userStatus: 'LOST' | 'FOUND' | 'UNKNOWN';
+  category: string;
+  colors: string[];
+  brand: string;
+  model: string;
+  location: string;
+  dateFrom: string;
+  dateTo: string;
+  keywords: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Keeps only what the app can filter on: known categories and colors, campus buildings, real dates. */
+export const normalizeSearchQuery = (raw: RawSearchQuery): SearchQuery => {
+  const category = Object.values(ItemCategory).find(c => c.toLowerCase() === raw.category.trim().toLowerCase());
+  const colors = [...new Set(raw.colors.map(c => canonicalColor(c.trim().toLowerCase())).filter(Boolean))];
+  const buildingId = raw.location.trim() ? resolveLocation(raw.location)?.buildingId : undefined;
+  const date = (value: string) => {
+    const [y, m, d] = value.trim().split('-').map(Number);
+    return DATE_PATTERN.test(value.trim()) && toDate(y, m, d) ? value.trim() : undefined;
+  };
+  const [dateFrom, dateTo] = [date(raw.dateFrom), date(raw.dateTo)];
+
+  return {
+    userStatus: raw.userStatus,
+    ...(category ? { category } : {}),
+    colors,
+    ...(raw.brand.trim() ? { brand: raw.brand.trim() } : {}),
+    ...(raw.model.trim() ? { model: raw.model.trim().toLowerCase() } : {}),
+    ...(buildingId ? { buildingId } : {}),
+    ...(dateFrom || dateTo ? { dateFrom: dateFrom || dateTo, dateTo: dateTo || dateFrom } : {}),
+    keywords: raw.keywords.trim().toLowerCase()
+  };
+};
+
+/** `primary`, with anything it left empty taken from `fallback`. */
+export const mergeSearchQueries = (primary: SearchQuery, fallback: SearchQuery): SearchQuery => ({
+  userStatus: primary.userStatus !== 'UNKNOWN' ? primary.userStatus : fallback.userStatus,
+  ...(primary.category || fallback.category ? { category: primary.category || fallback.category } : {}),
+  colors: primary.colors.length ? primary.colors : fallback.colors,
+  ...(primary.brand || fallback.brand ? { brand: primary.brand || fallback.brand } : {}),
+  ...(primary.model || fallback.model ? { model: primary.model || fallback.model } : {}),
+  ...(primary.buildingId || fallback.buildingId ? { buildingId: primary.buildingId || fallback.buildingId } : {}),
+  ...(primary.dateFrom ? { dateFrom: primary.dateFrom, dateTo: primary.dateTo } : fallback.dateFrom ? { dateFrom: fallback.dateFrom, dateTo: fallback.dateTo } : {}),
+  keywords: primary.keywords || fallback.keywords
+});
@@ -0,0 +1,144 @@
+/**
+ * Local visual fingerprint of a report photo, used by photo search (searchByPhoto in geminiService.ts).
+ * A signature packs a colour histogram, weighted towards the middle of the picture where the item
+ * usually is, and a 64-bit difference hash of its overall shape into one short string, stored on the
+ * report (`visualSignature`) when it is submitted. Two photos of the same item rarely share a shape, so colour
+ * carries most of the weight; the hash helps with near-duplicates such as the same product photo.
+ *
+ * Pure module apart from computeVisualSignature, which needs a browser canvas.
+ */
+
+// --- CONFIG ---
+export const VISUAL_SIGNATURE_VERSION = 'v1'; // Signatures from different versions are never compared
+
+const SAMPLE_SIZE = 32; // Pixels per side of the downscaled image
+const BORDER = 4; // Left out of the histogram: mostly table, floor or hand
+const CENTER = 8; // Pixels further than this from the edge count double
+const NEUTRAL_WEIGHT = 0.5; // Backgrounds are mostly black, grey or white; don't let them drown the item
+const HUE_BINS = 12; // 30° each, centred on red, orange, yellow...
+const NEUTRAL_BINS = 3; // Black, grey, white
+const HASH_COLS = 9;
+const HASH_ROWS = 8;
+const COLOR_WEIGHT = 0.8;
+
+// --- PIXELS ---
+// 0-11 hue, 12-14 black/grey/white for dark or washed-out pixels
+const colorBin = (r: number, g: number, b: number) => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const value = max / 255;
+  const saturation = max === 0 ? 0 : (max - min) / max;
+
+  if (value < 0.2) return HUE_BINS;
+  if (saturation < 0.2) return HUE_BINS + (value < 0.7 ? 1 : 2);
+
+  const delta = max - min;
+  let hue = max === r ? ((g - b) / delta) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+  if (hue < 0) hue += 6;
+  // Half a bin of offset, so reds either side of 0° land together
+  return Math.floor(hue * 60 / (360 / HUE_BINS) + 0.5) % HUE_BINS;
+};
+
+/** Signature of a SAMPLE_SIZE × SAMPLE_SIZE RGBA image (canvas ImageData layout). */
+export const signatureFromPixels = (rgba: ArrayLike<number>): string => {
+  const histogram = new Array(HUE_BINS + NEUTRAL_BINS).fill(0);
+  const gray: number[] = [];
+
+  for (let y = 0; y < SAMPLE_SIZE; y++) {
+    for (let x = 0; x < SAMPLE_SIZE; x++) {
+      const i = (y * SAMPLE_SIZE + x) * 4;
+      const [r, g, b] = [rgba[i], rgba[i + 1], rgba[i + 2]];
+      gray.push(0.299 * r + 0.587 * g + 0.114 * b);
+      const edge = Math.min(x, y, SAMPLE_SIZE - 1 - x, SAMPLE_SIZE - 1 - y);
+      if (edge < BORDER) continue;
+      const bin = colorBin(r, g, b);
+      histogram[bin] += (edge >= CENTER ? 2 : 1) * (bin >= HUE_BINS ? NEUTRAL_WEIGHT : 1);
+    }
+  }
+
+  // One hex digit per bin, relative to the biggest one
+  const peak = Math.max(...histogram, 1);
+  const colors = histogram.map(count => Math.round(15 * count / peak).toString(16)).join('');
+
+  // Difference hash: is each block brighter than its right-hand neighbour?
+  const block = (col: number, row: number) => {
+    const [x0, x1] = [Math.floor(col * SAMPLE_SIZE / HASH_COLS), Math.floor((col + 1) * SAMPLE_SIZE / HASH_COLS)];
+    const [y0, y1] = [Math.floor(row * SAMPLE_SIZE / HASH_ROWS), Math.floor((row + 1) * SAMPLE_SIZE / HASH_ROWS)];
+    let sum = 0;
+    for (let y = y0; y < y1; y++) for (let x = x0; x < x1; x++) sum += gray[y * SAMPLE_SIZE + x];
+    return sum / ((x1 - x0) * (y1 - y0));
+  };
+  let hash = '';
+  for (let row = 0; row < HASH_ROWS; row++) {
+    let nibble = 0;
+    for (let col = 0; col < HASH_COLS - 1; col++) {
+      nibble = (nibble << 1) | (block(col, row) > block(col + 1, row) ? 1 : 0);
+      if (col % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+
+  return `${VISUAL_SIGNATURE_VERSION}.${hash}.${colors}`;
+};
+
+// --- COMPARISON ---
+const parse = (signature: string) => {
+  const [version, hash, colors] = signature.split('.');
+  if (version !== VISUAL_SIGNATURE_VERSION || hash?.length !== 16 || colors?.length !== HUE_BINS + NEUTRAL_BINS) return null;
+  const weights = colors.split('').map(d => parseInt(d, 16));
+  const total = weights.reduce((sum, w) => sum + w, 0) || 1;
+  return { hash, colors: weights.map(w => w / total) };
+};
+
+const bitCount = (n: number) => {
+  let count = 0;
+  for (; n; n &= n - 1) count++;
+  return count;
+};
+
+/** 0-1 likeness of two signatures, or null when either is missing or from another version. */
+export const visualSimilarity = (a?: string | null, b?: string | null): number | null => {
+  const [first, second] = [a ? parse(a) : null, b ? parse(b) : null];
+  if (!first || !second) return null;
+
+  const colorOverlap = first.colors.reduce((sum, share, i) => sum + Math.min(share, second.colors[i]), 0);
+  let differentBits = 0;
+  for (let i = 0; i < first.hash.length; i++) {
+    differentBits += bitCount(parseInt(first.hash[i], 16) ^ parseInt(second.hash[i], 16));
+  }
+  const shape = 1 - differentBits / 64;
+
+  return COLOR_WEIGHT * colorOverlap + (1 - COLOR_WEIGHT) * shape;
+};
+
+// --- BROWSER ---
+/**
+ * Signature of an image URL or data URL, or null if it can't be read
+ * (failed load, or a host that doesn't allow reading its pixels).
+ */
+export const computeVisualSignature = (src: string): Promise<string | null> => {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+
+    img.onload = () => {
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = SAMPLE_SIZE;
+        canvas.height = SAMPLE_SIZE;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return resolve(null);
+        ctx.drawImage(img, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+        resolve(signatureFromPixels(ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE).data));
+      } catch (e) {
+        console.warn("Couldn't read image for its visual signature:", e);
+        resolve(null);
+      }
+    };
+
+    img.onerror = () => resolve(null);
+    img.src = src;
+  });
+};
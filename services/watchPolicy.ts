@@ -0,0 +1,74 @@
+import { ItemReport, ReportType, Watch, WatchStatus } from '../types';
+import { FeedFilters, filterChips, filtersFromQuery, filtersToQuery, matchesReport } from './reportFacets';
+import { isListed } from './moderationPolicy';
+import { isMatchable } from './reportLifecycle';
+
+/**
+ * Watch rules, shared by the client (services/watches.ts), server/matchWorker.ts and the expiry job.
+ * A watch alerts on listed, open reports created after it that pass its filters. It pauses itself
+ * when it fires MAX_ALERTS_PER_DAY times within 24 hours (the filters are too broad to be useful)
+ * and expires after the duration picked when it was saved.
+ *
+ * Pure module: no Firebase.
+ */
+
+// --- CONFIG ---
+export const WATCH_DURATIONS = [7, 30, 90]; // Days
+export const DEFAULT_WATCH_DAYS = 30;
+export const MAX_WATCHES = 10; // Per user
+export const MAX_ALERTS_PER_DAY = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const WATCH_STATUS_LABELS: Record<WatchStatus, string> = {
+  ACTIVE: 'Watching',
+  PAUSED: 'Paused',
+  EXPIRED: 'Expired'
+};
+
+// --- FILTERS ---
+/** What a watch keeps of the dashboard filters: what to match, not how the feed was shown. */
+export const watchQuery = (filters: FeedFilters) => filtersToQuery({
+  ...filters, status: 'ACTIVE', mine: false, view: 'GRID', maxAgeDays: null, sort: 'NEWEST', lostReportId: ''
+});
+
+export const watchFilters = (watch: Pick<Watch, 'query'>) => filtersFromQuery(watch.query);
+
+/** "Found · ID Cards · Near Main Library" */
+export const describeWatch = (filters: FeedFilters) => {
+  return [filters.type === ReportType.FOUND ? 'Found' : 'Lost', ...filterChips(filters).map(chip => chip.label)].join(' · ');
+};
+
+/** Whether the filters narrow anything down; a bare "Lost" watch would alert on every report. */
+export const isSpecificEnough = (filters: FeedFilters) => filterChips(filters).some(chip => chip.key !== 'photo');
+
+// --- STATE ---
+/** Stored status with expiry applied, for watches the daily job hasn't swept yet. */
+export const effectiveWatchStatus = (watch: Pick<Watch, 'status' | 'expiresAt'>, now: number = Date.now()): WatchStatus => {
+  return watch.status === 'ACTIVE' && watch.expiresAt <= now ? 'EXPIRED' : watch.status;
+};
+
+export const watchExpiresAt = (days: number, now: number = Date.now()) => now + days * DAY_MS;
+
+/** Whether `report` should alert the owner of `watch`. Pass `filters` when checking many reports. */
+export const shouldAlert = (watch: Watch, report: ItemReport, filters: FeedFilters = watchFilters(watch), now: number = Date.now()) => {
+  return effectiveWatchStatus(watch, now) === 'ACTIVE'
+    && report.reporterId !== watch.userId
+    && report.createdAt >= watch.createdAt
+    && isListed(report)
+    && isMatchable(report)
+    && matchesReport(report, filters);
+};
+
+/** Counter updates for one alert; the watch pauses once it reaches the daily budget. */
+export const recordAlert = (watch: Watch, now: number = Date.now()): Partial<Watch> => {
+  const newWindow = !watch.alertWindowStart || now - watch.alertWindowStart >= DAY_MS;
+  const alertsInWindow = (newWindow ? 0 : watch.alertsInWindow || 0) + 1;
+  return {
+    matchCount: (watch.matchCount || 0) + 1,
+    lastMatchedAt: now,
+    alertWindowStart: newWindow ? now : watch.alertWindowStart,
+    alertsInWindow,
+    ...(alertsInWindow >= MAX_ALERTS_PER_DAY ? { status: 'PAUSED' as const, pauseReason: 'TOO_MANY_ALERTS' as const } : {})
+  };
+};
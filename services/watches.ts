@@ -0,0 +1,62 @@
+import { db, FieldValue } from './firebase';
+import { User, Watch } from '../types';
+import { FeedFilters } from './reportFacets';
+import { DEFAULT_WATCH_DAYS, MAX_WATCHES, describeWatch, isSpecificEnough, watchExpiresAt, watchQuery } from './watchPolicy';
+
+/**
+ * Watches: saved dashboard searches, stored in `watches/{id}`.
+ * The owner saves, pauses, renews and deletes them; server/matchWorker.ts sends the alerts and
+ * updates the counters, and the expiry job (server/expireReports.ts) expires them. Rules in watchPolicy.ts.
+ */
+
+const watchesRef = () => db.collection('watches');
+
+// --- READ ---
+export const subscribeToWatches = (userId: string, onChange: (watches: Watch[]) => void) => {
+  return watchesRef().where('userId', '==', userId).onSnapshot((snapshot) => {
+    const watches = snapshot.docs.map(d => ({ ...d.data(), id: d.id }) as Watch);
+    onChange(watches.sort((a, b) => b.createdAt - a.createdAt));
+  }, (error) => {
+    console.error("Error fetching watches:", error);
+  });
+};
+
+// --- WRITE ---
+export const createWatch = async (user: User, filters: FeedFilters, existing: Watch[], days: number = DEFAULT_WATCH_DAYS): Promise<Watch> => {
+  if (!isSpecificEnough(filters)) throw new Error('Add a search or a filter first, or every new report would alert you.');
+  if (existing.length >= MAX_WATCHES) throw new Error(`You can keep up to ${MAX_WATCHES} watches. Delete one first.`);
+
+  const query = watchQuery(filters);
+  if (existing.some(w => w.query === query)) throw new Error('You are already watching this search.');
+
+  const now = Date.now();
+  const ref = watchesRef().doc();
+  const watch: Watch = {
+    id: ref.id,
+    userId: user.id,
+    name: describeWatch(filters),
+    query,
+    status: 'ACTIVE',
+    createdAt: now,
+    expiresAt: watchExpiresAt(days, now),
+    matchCount: 0
+  };
+  await ref.set(watch);
+  return watch;
+};
+
+export const pauseWatch = (watch: Watch) => {
+  return watchesRef().doc(watch.id).update({ status: 'PAUSED', pauseReason: 'USER' });
+};
+
+/** Resumes a paused watch with a fresh daily budget. Expired watches are renewed instead. */
+export const resumeWatch = (watch: Watch) => {
+  return watchesRef().doc(watch.id).update({ status: 'ACTIVE', pauseReason: FieldValue.delete(), alertsInWindow: 0 });
+};
+
+/** Restarts the clock, e.g. on an expired watch. */
+export const renewWatch = (watch: Watch, days: number = DEFAULT_WATCH_DAYS) => {
+  return watchesRef().doc(watch.id).update({ status: 'ACTIVE', pauseReason: FieldValue.delete(), alertsInWindow: 0, expiresAt: watchExpiresAt(days) });
+};
+
+export const deleteWatch = (watch: Watch) => watchesRef().doc(watch.id).delete();
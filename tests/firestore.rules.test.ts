@@ -0,0 +1,946 @@
+import { readFileSync } from 'node:fs';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment
+} from '@firebase/rules-unit-testing';
+import { addDoc, collection, deleteDoc, deleteField, doc, getDoc, getDocs, query, setDoc, updateDoc, where, writeBatch } from 'firebase/firestore';
+
+// ------------------------------------------------------------------
+// FIRESTORE RULES TESTS
+// Run against the emulator: `npm run test:rules`
+// (starts the Firestore emulator, runs this file, shuts it down).
+// ------------------------------------------------------------------
+
+const PROJECT_ID = 'demo-retriva';
+
+// alice = finder / reporter, bob = owner / claimant, eve = unrelated user,
+// staff = lost-and-found desk, mod = moderator, admin = role administrator
+const ALICE = 'alice';
+const BOB = 'bob';
+const EVE = 'eve';
+const STAFF = 'staff';
+const MOD = 'mod';
+const ADMIN = 'admin';
+
+let env: RulesTestEnvironment;
+
+const as = (uid: string) => env.authenticatedContext(uid).firestore();
+const anon = () => env.unauthenticatedContext().firestore();
+
+const baseReport = (overrides: Record<string, unknown> = {}) => ({
+  id: 'r1',
+  type: 'FOUND',
+  title: 'Black Wallet',
+  description: 'Found near the library',
+  category: 'Accessories',
+  location: 'Library',
+  occurredAt: Date.UTC(2026, 9, 1, 4, 30),
+  timeZone: 'Asia/Kolkata',
+  imageUrls: [],
+  tags: [],
+  status: 'OPEN',
+  reporterId: ALICE,
+  reporterName: 'Alice',
+  createdAt: 1,
+  listed: true,
+  ...overrides
+});
+
+const baseChat = (overrides: Record<string, unknown> = {}) => ({
+  id: 'c1',
+  type: 'direct',
+  itemId: 'r1',
+  itemTitle: 'Black Wallet',
+  participants: [ALICE, BOB],
+  messages: [],
+  lastMessage: 'Chat started',
+  lastMessageTime: 1,
+  unreadCount: 0,
+  isBlocked: false,
+  deletedIds: [],
+  ...overrides
+});
+
+const submittedEvent = (at: number, by = BOB) => ({ at, by, action: 'SUBMITTED' });
+
+const baseClaim = (overrides: Record<string, unknown> = {}) => ({
+  id: BOB,
+  reportId: 'r1',
+  finderId: ALICE,
+  claimantId: BOB,
+  claimantName: 'Bob',
+  attempts: 1,
+  status: 'PENDING',
+  history: [submittedEvent(1)],
+  createdAt: 1,
+  updatedAt: 1,
+  ...overrides
+});
+
+const baseAttempt = (attempt = 1, overrides: Record<string, unknown> = {}) => ({
+  attempt,
+  answers: { marks: 'sticker on the back' },
+  submittedAt: attempt,
+  ...overrides
+});
+
+const heldCustody = (overrides: Record<string, unknown> = {}) => ({
+  status: 'HELD',
+  officeId: 'security',
+  binId: '14',
+  receivedAt: 1,
+  updatedAt: 1,
+  ...overrides
+});
+
+const custodyEvent = (staffId: string, overrides: Record<string, unknown> = {}) => ({
+  id: 'e1',
+  action: 'RECEIVED',
+  officeId: 'security',
+  binId: '14',
+  staffId,
+  staffName: 'Desk',
+  at: 1,
+  ...overrides
+});
+
+const pendingModeration = (overrides: Record<string, unknown> = {}) => ({
+  status: 'PENDING',
+  flags: [{ source: 'IMAGE', type: 'ANIMAL', reason: 'Dog in photo', imageIndex: 0 }],
+  submittedAt: 1,
+  ...overrides
+});
+
+const message = (senderId: string) => ({ senderId, text: 'hello', timestamp: 2, status: 'sent' });
+
+const abuseFlag = (reporterId: string, overrides: Record<string, unknown> = {}) => ({
+  id: `REPORT_r1_${reporterId}`,
+  targetType: 'REPORT',
+  targetId: 'r1',
+  targetUserId: ALICE,
+  reporterId,
+  reporterName: 'Reporter',
+  reason: 'FAKE_POST',
+  evidence: { title: 'Black Wallet', capturedAt: 1 },
+  status: 'OPEN',
+  createdAt: 1,
+  ...overrides
+});
+
+// bob lost r0, alice found r1
+const baseResolution = (overrides: Record<string, unknown> = {}) => ({
+  id: 'r0_r1',
+  lostReportId: 'r0',
+  foundReportId: 'r1',
+  lostTitle: 'Lost Wallet',
+  foundTitle: 'Black Wallet',
+  ownerId: BOB,
+  finderId: ALICE,
+  participants: [BOB, ALICE],
+  status: 'PENDING',
+  resolvedBy: BOB,
+  resolvedAt: 2,
+  lostReportedAt: 1,
+  recoveryMs: 1,
+  ...overrides
+});
+
+/** What services/claims.ts writes for an attempt: the claim (created or updated) and the attempt, in one batch. */
+const claimBatch = (uid: string, claim: Record<string, unknown>, attempt: Record<string, unknown>, update = false) => {
+  const db = as(uid);
+  const batch = writeBatch(db);
+  const claimRef = doc(db, `reports/r1/claims/${claim.claimantId ?? uid}`);
+  if (update) batch.update(claimRef, claim);
+  else batch.set(claimRef, claim);
+  batch.set(doc(db, `reports/r1/claims/${claim.claimantId ?? uid}/attempts/${attempt.attempt}`), attempt);
+  return batch.commit();
+};
+
+/** What services/resolutions.ts writes to propose a return: just the pending resolution. */
+const propose = (uid: string, resolution: Record<string, unknown> = baseResolution({ resolvedBy: uid })) => {
+  return setDoc(doc(as(uid), `resolutions/${resolution.id}`), resolution);
+};
+
+/** What services/resolutions.ts writes to accept one: the resolution and both reports, in one transaction. */
+const acceptBatch = (uid: string, resolution: Record<string, unknown> = baseResolution(), update: Record<string, unknown> = {}) => {
+  const db = as(uid);
+  const batch = writeBatch(db);
+  const link = (matchReportId: string) => ({ id: resolution.id, matchReportId, matchTitle: 'Wallet', resolvedAt: 3 });
+  batch.update(doc(db, `resolutions/${resolution.id}`), { status: 'ACCEPTED', resolvedAt: 3, respondedAt: 3, recoveryMs: 2, ...update });
+  batch.update(doc(db, `reports/${resolution.lostReportId}`), { status: 'RETURNED', statusUpdatedAt: 3, resolution: link(resolution.foundReportId as string) });
+  batch.update(doc(db, `reports/${resolution.foundReportId}`), { status: 'RETURNED', statusUpdatedAt: 3, resolution: link(resolution.lostReportId as string) });
+  return batch.commit();
+};
+
+const suspended = { suspendedUntil: Date.now() + 24 * 60 * 60 * 1000, moderatedBy: MOD };
+
+/** Writes fixtures with rules disabled. */
+const seed = async (writes: Record<string, Record<string, unknown>>) => {
+  await env.withSecurityRulesDisabled(async (ctx) => {
+    const db = ctx.firestore();
+    for (const [path, data] of Object.entries(writes)) {
+      await setDoc(doc(db, path), data);
+    }
+  });
+};
+
+before(async () => {
+  env = await initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: { rules: readFileSync(new URL('../firestore.rules', import.meta.url), 'utf8') }
+  });
+});
+
+// Posting, claiming and messaging need a profile; eve starts without one
+beforeEach(async () => {
+  await env.clearFirestore();
+  await seed({
+    'users/alice': { id: ALICE, name: 'Alice', isVerified: true },
+    'users/bob': { id: BOB, name: 'Bob', isVerified: true }
+  });
+});
+
+after(async () => {
+  await env.cleanup();
+});
+
+// --- REPORTS ---
+describe('reports', () => {
+  it('requires sign-in to read', async () => {
+    await seed({ 'reports/r1': baseReport() });
+    await assertFails(getDoc(doc(anon(), 'reports/r1')));
+    await assertSucceeds(getDoc(doc(as(EVE), 'reports/r1')));
+  });
+
+  it('only shows unlisted reports to their reporter and moderators', async () => {
+    const { listed, ...legacy } = baseReport({ id: 'r2' });
+    await seed({
+      'users/mod': { id: MOD, name: 'Mod', role: 'moderator', isVerified: true },
+      'reports/r1': baseReport({ listed: false, moderation: pendingModeration() }),
+      'reports/r2': legacy
+    });
+    await assertSucceeds(getDoc(doc(as(ALICE), 'reports/r1')));
+    await assertSucceeds(getDoc(doc(as(MOD), 'reports/r1')));
+    await assertFails(getDoc(doc(as(EVE), 'reports/r1')));
+    await assertFails(getDoc(doc(as(EVE), 'reports/r2')));
+    await assertSucceeds(getDocs(query(collection(as(EVE), 'reports'), where('listed', '==', true))));
+    await assertFails(getDocs(collection(as(EVE), 'reports')));
+    await assertSucceeds(getDocs(query(collection(as(ALICE), 'reports'), where('reporterId', '==', ALICE))));
+  });
+
+  it('only lets users create reports as themselves', async () => {
+    await assertSucceeds(setDoc(doc(as(ALICE), 'reports/r1'), baseReport()));
+    await assertFails(setDoc(doc(as(EVE), 'reports/r2'), baseReport({ id: 'r2' })));
+  });
+
+  it('rejects reports created with pre-verified claimants', async () => {
+    await assertFails(setDoc(doc(as(ALICE), 'reports/r1'), baseReport({ verifiedClaimantIds: [BOB] })));
+  });
+
+  it('only lets the reporter edit, resolve or delete', async () => {
+    await seed({ 'reports/r1': baseReport() });
+
+    await assertFails(updateDoc(doc(as(EVE), 'reports/r1'), { title: 'Mine now' }));
+    await assertFails(updateDoc(doc(as(EVE), 'reports/r1'), { status: 'RETURNED' }));
+    await assertFails(deleteDoc(doc(as(EVE), 'reports/r1')));
+
+    await assertSucceeds(updateDoc(doc(as(ALICE), 'reports/r1'), { title: 'Brown Wallet' }));
+    await assertSucceeds(updateDoc(doc(as(ALICE), 'reports/r1'), { status: 'RETURNED' }));
+    await assertSucceeds(deleteDoc(doc(as(ALICE), 'reports/r1')));
+  });
+
+  it('does not let the reporter hand the report to someone else', async () => {
+    await seed({ 'reports/r1': baseReport() });
+    await assertFails(updateDoc(doc(as(ALICE), 'reports/r1'), { reporterId: EVE }));
+  });
+
+  it('follows the report lifecycle', async () => {
+    await seed({ 'reports/r1': baseReport() });
+
+    // Expiry belongs to the server job, custody to staff
+    await assertFails(updateDoc(doc(as(ALICE), 'reports/r1'), { status: 'EXPIRED' }));
+    await assertFails(updateDoc(doc(as(ALICE), 'reports/r1'), { status: 'IN_CUSTODY' }));
+    await assertFails(updateDoc(doc(as(ALICE), 'reports/r1'), { status: 'LOST_FOREVER' }));
+
+    await assertSucceeds(updateDoc(doc(as(ALICE), 'reports/r1'), { status: 'WITHDRAWN' }));
+    await assertFails(updateDoc(doc(as(ALICE), 'reports/r1'), { status: 'RETURNED' }));
+    await assertSucceeds(updateDoc(doc(as(ALICE), 'reports/r1'), { status: 'OPEN', renewedAt: 2 }));
+    await assertSucceeds(updateDoc(doc(as(ALICE), 'reports/r1'), { status: 'CLAIM_PENDING' }));
+    await assertSucceeds(updateDoc(doc(as(ALICE), 'reports/r1'), { status: 'RETURNED' }));
+    await assertFails(updateDoc(doc(as(ALICE), 'reports/r1'), { status: 'OPEN' }));
+  });
+
+  it('lets expired reports be reopened and keeps legacy resolved reports closed', async () => {
+    await seed({ 'reports/r1': baseReport({ status: 'EXPIRED' }), 'reports/r2': baseReport({ id: 'r2', status: 'RESOLVED' }) });
+    await assertSucceeds(updateDoc(doc(as(ALICE), 'reports/r1'), { status: 'OPEN', renewedAt: 2 }));
+    await assertFails(updateDoc(doc(as(ALICE), 'reports/r2'), { status: 'OPEN' }));
+  });
+
+  it('blocks resolving a challenged item until an owner is verified', async () => {
+    const verificationQuestions = [{ id: 'marks', prompt: 'Describe any marks' }];
+    await seed({ 'reports/r1': baseReport({ verificationQuestions }) });
+
+    await assertFails(updateDoc(doc(as(ALICE), 'reports/r1'), { status: 'RETURNED' }));
+    await assertSucceeds(updateDoc(doc(as(ALICE), 'reports/r1'), { verifiedClaimantIds: [BOB] }));
+    await assertSucceeds(updateDoc(doc(as(ALICE), 'reports/r1'), { status: 'RETURNED' }));
+  });
+
+  it('keeps verification answers private to the finder', async () => {
+    await seed({
+      'reports/r1': baseReport(),
+      'reports/r1/private/verification': { secrets: [{ questionId: 'marks', label: 'Marks', answer: 'sticker' }] }
+    });
+
+    await assertSucceeds(getDoc(doc(as(ALICE), 'reports/r1/private/verification')));
+    await assertFails(getDoc(doc(as(BOB), 'reports/r1/private/verification')));
+    await assertFails(setDoc(doc(as(BOB), 'reports/r1/private/verification'), { secrets: [] }));
+  });
+});
+
+// --- CUSTODY ---
+describe('custody', () => {
+  beforeEach(async () => {
+    await seed({
+      'users/staff': { id: STAFF, name: 'Desk', role: 'staff', isVerified: true },
+      'users/eve': { id: EVE, name: 'Eve', isVerified: false }
+    });
+  });
+
+  it('only lets staff register and move items', async () => {
+    await seed({ 'reports/r1': baseReport() });
+
+    await assertFails(updateDoc(doc(as(EVE), 'reports/r1'), { custody: heldCustody() }));
+    await assertFails(updateDoc(doc(as(ALICE), 'reports/r1'), { custody: heldCustody() }));
+    await assertSucceeds(updateDoc(doc(as(STAFF), 'reports/r1'), { custody: heldCustody() }));
+    await assertSucceeds(updateDoc(doc(as(STAFF), 'reports/r1'), { custody: heldCustody({ binId: '7', updatedAt: 2 }) }));
+    await assertFails(updateDoc(doc(as(STAFF), 'reports/r1'), { title: 'Renamed' }));
+  });
+
+  it('only lets staff create reports already in custody', async () => {
+    await assertFails(setDoc(doc(as(ALICE), 'reports/r1'), baseReport({ custody: heldCustody() })));
+    await assertSucceeds(setDoc(doc(as(STAFF), 'reports/r2'), baseReport({ id: 'r2', reporterId: STAFF, custody: heldCustody() })));
+    await assertSucceeds(setDoc(doc(as(STAFF), 'reports/r3'), baseReport({ id: 'r3', reporterId: STAFF, status: 'IN_CUSTODY', custody: heldCustody() })));
+    await assertFails(setDoc(doc(as(STAFF), 'reports/r4'), baseReport({ id: 'r4', reporterId: STAFF, status: 'IN_CUSTODY' })));
+  });
+
+  it('moves reports in and out of custody only with the matching custody state', async () => {
+    await seed({ 'reports/r1': baseReport() });
+    const statusHistory = [{ from: 'OPEN', to: 'IN_CUSTODY', at: 2, by: STAFF }];
+
+    await assertFails(updateDoc(doc(as(STAFF), 'reports/r1'), { status: 'IN_CUSTODY', statusHistory }));
+    await assertFails(updateDoc(doc(as(STAFF), 'reports/r1'), { status: 'WITHDRAWN', custody: heldCustody() }));
+    await assertSucceeds(updateDoc(doc(as(STAFF), 'reports/r1'), { status: 'IN_CUSTODY', statusUpdatedAt: 2, statusHistory, custody: heldCustody() }));
+    await assertFails(updateDoc(doc(as(ALICE), 'reports/r1'), { status: 'OPEN' }));
+  });
+
+  it('resolves held items only through a staff release', async () => {
+    await seed({ 'reports/r1': baseReport({ custody: heldCustody() }) });
+
+    await assertFails(updateDoc(doc(as(ALICE), 'reports/r1'), { status: 'RETURNED' }));
+    await assertSucceeds(updateDoc(doc(as(ALICE), 'reports/r1'), { title: 'Brown Wallet' }));
+    await assertFails(updateDoc(doc(as(STAFF), 'reports/r1'), { status: 'RETURNED' }));
+    await assertSucceeds(updateDoc(doc(as(STAFF), 'reports/r1'), {
+      status: 'RETURNED',
+      custody: heldCustody({ status: 'RELEASED', releasedTo: 'Bob', updatedAt: 2 })
+    }));
+  });
+
+  it('keeps an append-only log signed by the acting staff member', async () => {
+    await seed({ 'reports/r1': baseReport({ custody: heldCustody() }) });
+
+    await assertFails(setDoc(doc(as(EVE), 'reports/r1/custody/e1'), custodyEvent(EVE)));
+    await assertFails(setDoc(doc(as(STAFF), 'reports/r1/custody/e1'), custodyEvent(EVE)));
+    await assertSucceeds(setDoc(doc(as(STAFF), 'reports/r1/custody/e1'), custodyEvent(STAFF)));
+    await assertFails(updateDoc(doc(as(STAFF), 'reports/r1/custody/e1'), { binId: '99' }));
+    await assertFails(deleteDoc(doc(as(STAFF), 'reports/r1/custody/e1')));
+
+    await assertSucceeds(getDoc(doc(as(ALICE), 'reports/r1/custody/e1')));
+    await assertFails(getDoc(doc(as(EVE), 'reports/r1/custody/e1')));
+  });
+});
+
+// --- CLAIMS ---
+describe('ownership claims', () => {
+  beforeEach(async () => {
+    await seed({ 'reports/r1': baseReport({ verificationQuestions: [{ id: 'marks', prompt: 'Describe any marks' }] }) });
+  });
+
+  it('lets a claimant submit their own pending claim', async () => {
+    await assertSucceeds(claimBatch(BOB, baseClaim(), baseAttempt()));
+    await assertFails(claimBatch(BOB, baseClaim({ id: EVE, claimantId: EVE, history: [submittedEvent(1, EVE)] }), baseAttempt()));
+  });
+
+  it('needs the answers in an attempt doc, not on the claim', async () => {
+    await assertFails(setDoc(doc(as(BOB), 'reports/r1/claims/bob'), baseClaim()));
+    await assertFails(claimBatch(BOB, baseClaim({ answers: { marks: 'sticker' } }), baseAttempt()));
+    await assertFails(claimBatch(BOB, baseClaim(), baseAttempt(2)));
+  });
+
+  it('rejects self-scored or self-verified claims', async () => {
+    await assertFails(claimBatch(BOB, baseClaim({ status: 'VERIFIED' }), baseAttempt()));
+    await assertFails(claimBatch(BOB, baseClaim({ score: 100 }), baseAttempt()));
+    await assertFails(claimBatch(BOB, baseClaim(), baseAttempt(1, { score: 100 })));
+  });
+
+  it('does not let the finder claim their own item', async () => {
+    await assertFails(claimBatch(ALICE, baseClaim({ id: ALICE, claimantId: ALICE, claimantName: 'Alice', history: [submittedEvent(1, ALICE)] }), baseAttempt()));
+  });
+
+  it('limits retries to three attempts', async () => {
+    const retry = { attempts: 3, status: 'PENDING', updatedAt: 3, history: [submittedEvent(1), submittedEvent(2), submittedEvent(3)] };
+    await seed({ 'reports/r1/claims/bob': baseClaim({ attempts: 2, status: 'REJECTED', history: [submittedEvent(1), submittedEvent(2)] }) });
+    await assertSucceeds(claimBatch(BOB, retry, baseAttempt(3), true));
+
+    await seed({ 'reports/r1/claims/bob': baseClaim({ attempts: 3, status: 'REJECTED', history: retry.history }) });
+    await assertFails(claimBatch(BOB, { ...retry, attempts: 4, updatedAt: 4, history: [...retry.history, submittedEvent(4)] }, baseAttempt(4), true));
+  });
+
+  it('keeps earlier attempts, their scores and the claim history', async () => {
+    const scored = { score: 40, method: 'FALLBACK', answerScores: [{ questionId: 'marks', score: 40 }], scoredAt: 2 };
+    const history = [submittedEvent(1), { at: 2, by: 'system', action: 'SCORED' }, { at: 2, by: ALICE, action: 'REJECTED' }];
+    await seed({
+      'reports/r1/claims/bob': baseClaim({ status: 'REJECTED', score: 40, scoredAttempt: 1, history }),
+      'reports/r1/claims/bob/attempts/1': baseAttempt(1, scored)
+    });
+
+    // A retry replacing the whole claim, or dropping or rewriting history, is refused
+    await assertFails(claimBatch(BOB, baseClaim({ attempts: 2, updatedAt: 3, history: [submittedEvent(3)] }), baseAttempt(2)));
+    await assertFails(claimBatch(BOB, { attempts: 2, status: 'PENDING', updatedAt: 3, history: [submittedEvent(1), submittedEvent(3)] }, baseAttempt(2), true));
+    await assertFails(claimBatch(BOB, { attempts: 2, status: 'PENDING', updatedAt: 3, history: [...history, submittedEvent(3)], score: 90 }, baseAttempt(2), true));
+    await assertSucceeds(claimBatch(BOB, { attempts: 2, status: 'PENDING', updatedAt: 3, history: [...history, submittedEvent(3)] }, baseAttempt(2), true));
+
+    // Attempts are never rewritten or deleted, and only the finder scores them, once
+    await assertFails(updateDoc(doc(as(BOB), 'reports/r1/claims/bob/attempts/1'), { answers: { marks: 'sticker on the back' } }));
+    await assertFails(setDoc(doc(as(BOB), 'reports/r1/claims/bob/attempts/1'), baseAttempt(1)));
+    await assertFails(deleteDoc(doc(as(BOB), 'reports/r1/claims/bob/attempts/1')));
+    await assertFails(updateDoc(doc(as(ALICE), 'reports/r1/claims/bob/attempts/1'), { score: 90 }));
+    await assertFails(updateDoc(doc(as(BOB), 'reports/r1/claims/bob/attempts/2'), { score: 90 }));
+    await assertSucceeds(updateDoc(doc(as(ALICE), 'reports/r1/claims/bob/attempts/2'), { score: 55, method: 'AI', scoredAt: 4 }));
+    await assertSucceeds(getDoc(doc(as(ALICE), 'reports/r1/claims/bob/attempts/1')));
+    await assertFails(getDoc(doc(as(EVE), 'reports/r1/claims/bob/attempts/1')));
+  });
+
+  it('hides claims from other users', async () => {
+    await seed({ 'reports/r1/claims/bob': baseClaim() });
+    await assertSucceeds(getDoc(doc(as(BOB), 'reports/r1/claims/bob')));
+    await assertSucceeds(getDoc(doc(as(ALICE), 'reports/r1/claims/bob')));
+    await assertFails(getDoc(doc(as(EVE), 'reports/r1/claims/bob')));
+  });
+
+  it('lets the finder decide but not rewrite answers or history', async () => {
+    await seed({ 'reports/r1/claims/bob': baseClaim(), 'reports/r1/claims/bob/attempts/1': baseAttempt() });
+    await assertFails(updateDoc(doc(as(ALICE), 'reports/r1/claims/bob'), { answers: { marks: 'nothing' } }));
+    await assertFails(updateDoc(doc(as(ALICE), 'reports/r1/claims/bob/attempts/1'), { answers: { marks: 'nothing' } }));
+    await assertFails(updateDoc(doc(as(ALICE), 'reports/r1/claims/bob'), { status: 'REJECTED', history: [] }));
+    await assertSucceeds(updateDoc(doc(as(ALICE), 'reports/r1/claims/bob'), { status: 'VERIFIED', score: 90, updatedAt: 2 }));
+    await assertFails(updateDoc(doc(as(EVE), 'reports/r1/claims/bob'), { status: 'REJECTED' }));
+  });
+});
+
+// --- CHATS ---
+describe('chats', () => {
+  beforeEach(async () => {
+    await seed({ 'chats/c1': baseChat() });
+  });
+
+  it('only lets participants read a chat and its messages', async () => {
+    await seed({ 'chats/c1/messages/m1': message(ALICE) });
+
+    await assertSucceeds(getDoc(doc(as(BOB), 'chats/c1')));
+    await assertSucceeds(getDocs(collection(as(BOB), 'chats/c1/messages')));
+    await assertFails(getDoc(doc(as(EVE), 'chats/c1')));
+    await assertFails(getDocs(collection(as(EVE), 'chats/c1/messages')));
+  });
+
+  it('allows listing only your own chats', async () => {
+    await assertSucceeds(getDocs(query(collection(as(BOB), 'chats'), where('participants', 'array-contains', BOB))));
+    await assertFails(getDocs(collection(as(EVE), 'chats')));
+  });
+
+  it('only lets participants write messages', async () => {
+    await assertSucceeds(addDoc(collection(as(BOB), 'chats/c1/messages'), message(BOB)));
+    await assertFails(addDoc(collection(as(EVE), 'chats/c1/messages'), message(EVE)));
+    await assertFails(addDoc(collection(as(BOB), 'chats/c1/messages'), message(ALICE)));
+  });
+
+  it('only lets users start chats they take part in', async () => {
+    await seed({ 'reports/r1': baseReport() });
+    await assertSucceeds(setDoc(doc(as(BOB), 'chats/c2'), baseChat({ id: 'c2' })));
+    await assertFails(setDoc(doc(as(EVE), 'chats/c3'), baseChat({ id: 'c3' })));
+  });
+
+  it("only starts chats about a report, with its reporter", async () => {
+    await seed({ 'reports/r1': baseReport({ reporterId: EVE }) });
+    await assertFails(setDoc(doc(as(BOB), 'chats/c2'), baseChat({ id: 'c2' })));
+    await assertFails(setDoc(doc(as(BOB), 'chats/c3'), baseChat({ id: 'c3', itemId: 'missing' })));
+    const { itemId, ...noItem } = baseChat({ id: 'c4' });
+    await assertFails(setDoc(doc(as(BOB), 'chats/c4'), noItem));
+  });
+
+  it('needs verified ownership to contact a finder who set verification questions', async () => {
+    const questions = [{ id: 'marks', prompt: 'Marks?' }];
+    await seed({ 'reports/r1': baseReport({ verificationQuestions: questions }) });
+    await assertFails(setDoc(doc(as(BOB), 'chats/c2'), baseChat({ id: 'c2' })));
+    await assertSucceeds(setDoc(doc(as(ALICE), 'chats/c3'), baseChat({ id: 'c3' })));
+
+    await seed({ 'reports/r1': baseReport({ verificationQuestions: questions, verifiedClaimantIds: [BOB] }) });
+    await assertSucceeds(setDoc(doc(as(BOB), 'chats/c2'), baseChat({ id: 'c2' })));
+  });
+
+  it('rejects writes from the blocked party', async () => {
+    await seed({ 'chats/c1': baseChat({ isBlocked: true, blockedBy: ALICE }) });
+
+    await assertFails(addDoc(collection(as(BOB), 'chats/c1/messages'), message(BOB)));
+    await assertFails(updateDoc(doc(as(BOB), 'chats/c1'), { lastMessage: 'hi', lastMessageTime: 3, lastSenderId: BOB }));
+    await assertFails(updateDoc(doc(as(BOB), 'chats/c1'), { isBlocked: false, blockedBy: null }));
+
+    // Still allowed: hiding the chat, and everything for the user who blocked
+    await assertSucceeds(updateDoc(doc(as(BOB), 'chats/c1'), { deletedIds: [BOB] }));
+    await assertSucceeds(addDoc(collection(as(ALICE), 'chats/c1/messages'), message(ALICE)));
+    await assertSucceeds(updateDoc(doc(as(ALICE), 'chats/c1'), { isBlocked: false, blockedBy: null }));
+  });
+
+  it('does not let participants block on behalf of someone else', async () => {
+    await assertFails(updateDoc(doc(as(BOB), 'chats/c1'), { isBlocked: true, blockedBy: ALICE }));
+    await assertSucceeds(updateDoc(doc(as(BOB), 'chats/c1'), { isBlocked: true, blockedBy: BOB }));
+  });
+
+  it('lets recipients mark messages read without editing them', async () => {
+    await seed({ 'chats/c1/messages/m1': message(ALICE) });
+    await assertSucceeds(updateDoc(doc(as(BOB), 'chats/c1/messages/m1'), { status: 'read' }));
+    await assertFails(updateDoc(doc(as(BOB), 'chats/c1/messages/m1'), { text: 'edited' }));
+  });
+
+  it('opens the community chat to every signed-in user', async () => {
+    await seed({ 'users/eve': { id: EVE, name: 'Eve', isVerified: false } });
+    await assertSucceeds(getDoc(doc(as(EVE), 'chats/global')));
+    await assertSucceeds(setDoc(doc(as(EVE), 'chats/global'), { id: 'global', type: 'global', participants: [], lastMessage: '', lastMessageTime: 1, unreadCount: 0 }));
+    await assertSucceeds(addDoc(collection(as(EVE), 'chats/global/messages'), message(EVE)));
+    await assertFails(addDoc(collection(anon(), 'chats/global/messages'), message(EVE)));
+  });
+});
+
+// --- USERS ---
+describe('users', () => {
+  beforeEach(async () => {
+    await seed({ 'users/bob': { id: BOB, name: 'Bob', email: 'bob@example.edu', studentId: '2026-0000001', isVerified: false } });
+  });
+
+  it('only lets users edit their own profile', async () => {
+    await assertSucceeds(updateDoc(doc(as(BOB), 'users/bob'), { name: 'Robert', department: 'IT' }));
+    await assertFails(updateDoc(doc(as(EVE), 'users/bob'), { name: 'Hacked' }));
+    await assertFails(deleteDoc(doc(as(EVE), 'users/bob')));
+  });
+
+  it('never accepts credential fields', async () => {
+    await assertFails(updateDoc(doc(as(BOB), 'users/bob'), { storedPassword: 'hunter2' }));
+    await assertFails(setDoc(doc(as(EVE), 'users/eve'), { id: EVE, name: 'Eve', isVerified: false, loginAttempts: 1 }));
+  });
+
+  it('lets users scrub legacy credential fields', async () => {
+    await seed({ 'users/bob': { id: BOB, name: 'Bob', isVerified: false, storedPassword: 'old', loginAttempts: 4 } });
+    await assertSucceeds(updateDoc(doc(as(BOB), 'users/bob'), { storedPassword: deleteField(), loginAttempts: deleteField() }));
+  });
+
+  it('does not let users verify themselves or swap student IDs', async () => {
+    await assertFails(updateDoc(doc(as(BOB), 'users/bob'), { isVerified: true }));
+    await assertFails(updateDoc(doc(as(BOB), 'users/bob'), { studentId: '2026-9999999' }));
+    await assertFails(setDoc(doc(as(EVE), 'users/eve'), { id: EVE, name: 'Eve', isVerified: true }));
+  });
+
+  it('never lets users grant themselves the staff role', async () => {
+    await assertFails(updateDoc(doc(as(BOB), 'users/bob'), { role: 'staff' }));
+    await assertFails(setDoc(doc(as(EVE), 'users/eve'), { id: EVE, name: 'Eve', isVerified: false, role: 'staff' }));
+    await assertSucceeds(setDoc(doc(as(EVE), 'users/eve'), { id: EVE, name: 'Eve', isVerified: false, role: 'student' }));
+  });
+
+  it('keeps notifications private and lets users write only to their own inbox', async () => {
+    const notice = { id: 'n1', title: 'Ownership Claim', message: 'Bob answered', type: 'system', timestamp: 1, isRead: false };
+    await assertSucceeds(setDoc(doc(as(BOB), 'users/bob/notifications/n1'), notice));
+    await assertFails(setDoc(doc(as(ALICE), 'users/bob/notifications/n2'), { ...notice, id: 'n2' }));
+    await assertFails(setDoc(doc(as(ALICE), 'users/bob/notifications/n3'), { ...notice, id: 'n3', type: 'message' }));
+    await assertFails(setDoc(doc(as(ALICE), 'users/bob/notifications/n4'), { ...notice, id: 'n4', type: 'match' }));
+    await assertFails(getDoc(doc(as(ALICE), 'users/bob/notifications/n1')));
+    await assertSucceeds(updateDoc(doc(as(BOB), 'users/bob/notifications/n1'), { isRead: true }));
+    await assertFails(updateDoc(doc(as(BOB), 'users/bob/notifications/n1'), { title: 'Changed' }));
+  });
+
+  it('lets staff, moderators and admins send plain system notices to others', async () => {
+    await seed({ 'users/mod': { id: MOD, name: 'Mod', role: 'moderator', isVerified: true } });
+    const notice = { id: 'n1', title: 'Report Approved', message: 'Live now', type: 'system', timestamp: 1, isRead: false, link: 'DASHBOARD', metadata: { sourceId: 'r1' } };
+    await assertSucceeds(setDoc(doc(as(MOD), 'users/bob/notifications/n1'), notice));
+    await assertFails(setDoc(doc(as(MOD), 'users/bob/notifications/n2'), { ...notice, id: 'n2', type: 'match' }));
+    await assertFails(setDoc(doc(as(MOD), 'users/bob/notifications/n3'), { ...notice, id: 'n3', link: 'PROFILE' }));
+    await assertFails(setDoc(doc(as(MOD), 'users/bob/notifications/n4'), { ...notice, id: 'n4', metadata: { matchId: 'r9' } }));
+    await assertFails(setDoc(doc(as(MOD), 'users/bob/notifications/n5'), { ...notice, id: 'n5', url: 'https://example.com' }));
+    await assertFails(setDoc(doc(as(MOD), 'users/bob/notifications/n6'), { ...notice, id: 'other' }));
+  });
+});
+
+// --- ROLES ---
+describe('roles', () => {
+  beforeEach(async () => {
+    await seed({
+      'users/admin': { id: ADMIN, name: 'Admin', role: 'admin', isVerified: true },
+      'users/mod': { id: MOD, name: 'Mod', role: 'moderator', isVerified: true },
+      'users/bob': { id: BOB, name: 'Bob', isVerified: false }
+    });
+  });
+
+  it('lets admins grant and revoke roles, signing the change', async () => {
+    await assertSucceeds(updateDoc(doc(as(ADMIN), 'users/bob'), { role: 'staff', roleUpdatedBy: ADMIN, roleUpdatedAt: 2 }));
+    await assertSucceeds(updateDoc(doc(as(ADMIN), 'users/bob'), { role: 'student', roleUpdatedBy: ADMIN, roleUpdatedAt: 3 }));
+    await assertFails(updateDoc(doc(as(ADMIN), 'users/bob'), { role: 'staff', roleUpdatedBy: MOD, roleUpdatedAt: 4 }));
+    await assertFails(updateDoc(doc(as(ADMIN), 'users/bob'), { role: 'root', roleUpdatedBy: ADMIN, roleUpdatedAt: 4 }));
+  });
+
+  it('limits admins to the role fields of other users', async () => {
+    await assertFails(updateDoc(doc(as(ADMIN), 'users/bob'), { name: 'Renamed' }));
+    await assertFails(updateDoc(doc(as(ADMIN), 'users/admin'), { role: 'student', roleUpdatedBy: ADMIN, roleUpdatedAt: 2 }));
+  });
+
+  it('does not let moderators or students change roles', async () => {
+    await assertFails(updateDoc(doc(as(MOD), 'users/bob'), { role: 'moderator', roleUpdatedBy: MOD, roleUpdatedAt: 2 }));
+    await assertFails(updateDoc(doc(as(MOD), 'users/mod'), { role: 'admin' }));
+    await assertFails(updateDoc(doc(as(BOB), 'users/bob'), { roleUpdatedBy: BOB }));
+  });
+
+  it("lets moderators remove other users' reports", async () => {
+    await seed({ 'reports/r1': baseReport(), 'reports/r2': baseReport({ id: 'r2' }) });
+    await assertFails(deleteDoc(doc(as(BOB), 'reports/r1')));
+    await assertFails(updateDoc(doc(as(MOD), 'reports/r1'), { title: 'Edited' }));
+    await assertSucceeds(deleteDoc(doc(as(MOD), 'reports/r1')));
+    await assertSucceeds(deleteDoc(doc(as(ADMIN), 'reports/r2')));
+  });
+
+  it('lets moderators remove community chat messages only', async () => {
+    await seed({
+      'chats/c1': baseChat(),
+      'chats/c1/messages/m1': message(ALICE),
+      'chats/global/messages/m1': message(EVE)
+    });
+    await assertFails(deleteDoc(doc(as(BOB), 'chats/global/messages/m1')));
+    await assertFails(deleteDoc(doc(as(MOD), 'chats/c1/messages/m1')));
+    await assertSucceeds(deleteDoc(doc(as(MOD), 'chats/global/messages/m1')));
+  });
+});
+
+// --- MODERATION ---
+describe('moderation', () => {
+  beforeEach(async () => {
+    await seed({ 'users/mod': { id: MOD, name: 'Mod', role: 'moderator', isVerified: true } });
+  });
+
+  it('only accepts new reports as live or pending review', async () => {
+    await assertSucceeds(setDoc(doc(as(ALICE), 'reports/r1'), baseReport({ listed: false, moderation: pendingModeration() })));
+    await assertFails(setDoc(doc(as(ALICE), 'reports/r2'), baseReport({ id: 'r2', listed: false, moderation: pendingModeration({ status: 'APPROVED' }) })));
+    await assertFails(setDoc(doc(as(ALICE), 'reports/r3'), baseReport({ id: 'r3', listed: false, moderation: pendingModeration({ reviewedBy: MOD }) })));
+    await assertFails(setDoc(doc(as(ALICE), 'reports/r4'), baseReport({ id: 'r4', moderation: pendingModeration() })));
+    await assertFails(setDoc(doc(as(ALICE), 'reports/r5'), baseReport({ id: 'r5', listed: false })));
+  });
+
+  it('does not let reporters approve their own reports', async () => {
+    await seed({ 'reports/r1': baseReport({ listed: false, moderation: pendingModeration() }) });
+    await assertFails(updateDoc(doc(as(ALICE), 'reports/r1'), { 'moderation.status': 'APPROVED' }));
+    await assertFails(updateDoc(doc(as(ALICE), 'reports/r1'), { moderation: deleteField() }));
+    await assertFails(updateDoc(doc(as(ALICE), 'reports/r1'), { listed: true }));
+    await assertSucceeds(updateDoc(doc(as(ALICE), 'reports/r1'), { title: 'Keychain' }));
+  });
+
+  it('lets moderators decide, signing the decision', async () => {
+    await seed({ 'reports/r1': baseReport({ listed: false, moderation: pendingModeration() }) });
+    await assertFails(updateDoc(doc(as(EVE), 'reports/r1'), { moderation: pendingModeration({ status: 'APPROVED', reviewedBy: EVE }) }));
+    await assertFails(updateDoc(doc(as(MOD), 'reports/r1'), { moderation: pendingModeration({ status: 'APPROVED', reviewedBy: EVE }) }));
+    await assertFails(updateDoc(doc(as(MOD), 'reports/r1'), { title: 'Edited', moderation: pendingModeration({ status: 'APPROVED', reviewedBy: MOD }) }));
+    await assertFails(updateDoc(doc(as(MOD), 'reports/r1'), { moderation: pendingModeration({ status: 'APPROVED', reviewedBy: MOD }) }));
+    await assertSucceeds(updateDoc(doc(as(MOD), 'reports/r1'), { moderation: pendingModeration({ status: 'APPROVED', reviewedBy: MOD }), listed: true }));
+    await assertSucceeds(updateDoc(doc(as(MOD), 'reports/r1'), { moderation: pendingModeration({ status: 'REJECTED', reviewedBy: MOD, note: 'Not an item' }), listed: false }));
+  });
+
+  it('lets reporters appeal a rejection', async () => {
+    await seed({ 'reports/r1': baseReport({ listed: false, moderation: pendingModeration({ status: 'REJECTED', reviewedBy: MOD }) }) });
+    await assertSucceeds(updateDoc(doc(as(ALICE), 'reports/r1'), {
+      moderation: pendingModeration({ reviewedBy: MOD, appeal: { message: "It's a keychain charm", at: 2 } })
+    }));
+  });
+
+  it('keeps an append-only decision log for moderators', async () => {
+    const entry = { id: 'd1', reportId: 'r1', reporterId: ALICE, decision: 'APPROVED', flags: [], appealed: false, moderatorId: MOD, moderatorName: 'Mod', at: 1 };
+    await assertFails(setDoc(doc(as(EVE), 'moderationLog/d1'), { ...entry, moderatorId: EVE }));
+    await assertFails(setDoc(doc(as(MOD), 'moderationLog/d1'), { ...entry, moderatorId: EVE }));
+    await assertSucceeds(setDoc(doc(as(MOD), 'moderationLog/d1'), entry));
+    await assertFails(updateDoc(doc(as(MOD), 'moderationLog/d1'), { decision: 'REJECTED' }));
+    await assertFails(getDoc(doc(as(ALICE), 'moderationLog/d1')));
+    await assertSucceeds(getDoc(doc(as(MOD), 'moderationLog/d1')));
+  });
+});
+
+// --- ABUSE REPORTS ---
+describe('abuse reports', () => {
+  beforeEach(async () => {
+    await seed({ 'users/mod': { id: MOD, name: 'Mod', role: 'moderator', isVerified: true } });
+  });
+
+  it('lets users flag other people\'s content once, as themselves', async () => {
+    await seed({ 'reports/r1': baseReport() });
+    await assertSucceeds(setDoc(doc(as(BOB), `flags/REPORT_r1_${BOB}`), abuseFlag(BOB)));
+    await assertFails(setDoc(doc(as(BOB), `flags/REPORT_r1_${BOB}`), abuseFlag(BOB, { reason: 'SPAM' })));
+    await assertFails(setDoc(doc(as(EVE), `flags/REPORT_r1_${BOB}`), abuseFlag(BOB)));
+    await assertFails(setDoc(doc(as(EVE), 'flags/anything'), abuseFlag(EVE)));
+    await assertFails(setDoc(doc(as(ALICE), `flags/REPORT_r1_${ALICE}`), abuseFlag(ALICE)));
+    await assertFails(setDoc(doc(as(EVE), `flags/REPORT_r1_${EVE}`), abuseFlag(EVE, { status: 'DISMISSED' })));
+  });
+
+  it('only flags the real author of a post, chat or message', async () => {
+    await seed({ 'reports/r1': baseReport(), 'chats/c1': baseChat(), 'chats/c1/messages/m1': message(ALICE), 'chats/global/messages/g1': message(ALICE) });
+    const chatFlag = (reporterId: string, overrides: Record<string, unknown> = {}) =>
+      abuseFlag(reporterId, { id: `CHAT_c1_${reporterId}`, targetType: 'CHAT', targetId: 'c1', reason: 'HARASSMENT', ...overrides });
+    const messageFlag = (reporterId: string, chatId: string, messageId: string, overrides: Record<string, unknown> = {}) =>
+      abuseFlag(reporterId, { id: `MESSAGE_${messageId}_${reporterId}`, targetType: 'MESSAGE', targetId: messageId, chatId, reason: 'OFFENSIVE', ...overrides });
+
+    await assertFails(setDoc(doc(as(BOB), `flags/REPORT_r1_${BOB}`), abuseFlag(BOB, { targetUserId: EVE })));
+    await assertFails(setDoc(doc(as(BOB), `flags/REPORT_missing_${BOB}`), abuseFlag(BOB, { targetId: 'missing' })));
+
+    await assertFails(setDoc(doc(as(BOB), `flags/CHAT_c1_${BOB}`), chatFlag(BOB, { targetUserId: EVE })));
+    await assertFails(setDoc(doc(as(EVE), `flags/CHAT_c1_${EVE}`), chatFlag(EVE)));
+    await assertSucceeds(setDoc(doc(as(BOB), `flags/CHAT_c1_${BOB}`), chatFlag(BOB)));
+
+    await assertFails(setDoc(doc(as(BOB), `flags/MESSAGE_m1_${BOB}`), messageFlag(BOB, 'c1', 'm1', { targetUserId: EVE })));
+    await assertFails(setDoc(doc(as(EVE), `flags/MESSAGE_m1_${EVE}`), messageFlag(EVE, 'c1', 'm1')));
+    await assertFails(setDoc(doc(as(BOB), `flags/MESSAGE_m1_${BOB}`), messageFlag(BOB, 'c1', 'm1', { chatId: 'global' })));
+    await assertSucceeds(setDoc(doc(as(BOB), `flags/MESSAGE_m1_${BOB}`), messageFlag(BOB, 'c1', 'm1')));
+    await assertSucceeds(setDoc(doc(as(EVE), `flags/MESSAGE_g1_${EVE}`), messageFlag(EVE, 'global', 'g1')));
+  });
+
+  it('lets moderators read a direct chat only once a participant flagged it', async () => {
+    await seed({ 'chats/c1': baseChat(), 'chats/c1/messages/m1': message(ALICE), 'chats/c1/messages/m2': message(ALICE) });
+    await assertFails(getDocs(collection(as(MOD), 'chats/c1/messages')));
+    await assertFails(getDoc(doc(as(MOD), 'chats/c1/messages/m1')));
+
+    await seed({ [`flags/MESSAGE_m1_${BOB}`]: abuseFlag(BOB, { targetType: 'MESSAGE', targetId: 'm1', chatId: 'c1' }) });
+    await assertSucceeds(getDoc(doc(as(MOD), 'chats/c1/messages/m1')));
+    await assertFails(getDoc(doc(as(MOD), 'chats/c1/messages/m2')));
+    await assertFails(getDoc(doc(as(EVE), 'chats/c1/messages/m1')));
+
+    await seed({ [`flags/CHAT_c1_${BOB}`]: abuseFlag(BOB, { targetType: 'CHAT', targetId: 'c1' }) });
+    await assertSucceeds(getDocs(collection(as(MOD), 'chats/c1/messages')));
+  });
+
+  it('shows flags to their reporter and moderators only', async () => {
+    await seed({ [`flags/REPORT_r1_${BOB}`]: abuseFlag(BOB) });
+    await assertSucceeds(getDoc(doc(as(BOB), `flags/REPORT_r1_${BOB}`)));
+    await assertSucceeds(getDoc(doc(as(EVE), `flags/REPORT_r1_${EVE}`)));
+    await assertFails(getDoc(doc(as(ALICE), `flags/REPORT_r1_${BOB}`)));
+    await assertSucceeds(getDoc(doc(as(MOD), `flags/REPORT_r1_${BOB}`)));
+  });
+
+  it('lets moderators close flags, signing the outcome', async () => {
+    await seed({ [`flags/REPORT_r1_${BOB}`]: abuseFlag(BOB) });
+    const resolution = { action: 'WARN', moderatorId: MOD, moderatorName: 'Mod', at: 2 };
+    await assertFails(updateDoc(doc(as(BOB), `flags/REPORT_r1_${BOB}`), { status: 'DISMISSED', resolution: { ...resolution, moderatorId: BOB } }));
+    await assertFails(updateDoc(doc(as(MOD), `flags/REPORT_r1_${BOB}`), { status: 'ACTIONED', resolution: { ...resolution, moderatorId: EVE } }));
+    await assertSucceeds(updateDoc(doc(as(MOD), `flags/REPORT_r1_${BOB}`), { status: 'ACTIONED', resolution }));
+    await assertFails(deleteDoc(doc(as(MOD), `flags/REPORT_r1_${BOB}`)));
+  });
+
+  it('lets moderators hide a reported message without touching its content', async () => {
+    await seed({ 'chats/c1': baseChat(), 'chats/c1/messages/m1': message(BOB) });
+    await assertFails(updateDoc(doc(as(ALICE), 'chats/c1/messages/m1'), { hidden: true, hiddenBy: ALICE }));
+    await assertFails(updateDoc(doc(as(MOD), 'chats/c1/messages/m1'), { text: '', hidden: true, hiddenBy: MOD }));
+    await assertSucceeds(updateDoc(doc(as(MOD), 'chats/c1/messages/m1'), { hidden: true, hiddenBy: MOD }));
+  });
+
+  it('lets moderators warn and suspend other users, but nobody clears their own suspension', async () => {
+    await seed({ 'sanctions/bob': suspended });
+    await assertFails(setDoc(doc(as(EVE), 'sanctions/bob'), { warningCount: 1, moderatedBy: EVE }, { merge: true }));
+    await assertFails(setDoc(doc(as(MOD), 'sanctions/bob'), { warningCount: 1, moderatedBy: EVE }, { merge: true }));
+    await assertSucceeds(setDoc(doc(as(MOD), 'sanctions/bob'), { warningCount: 1, moderatedBy: MOD }, { merge: true }));
+    await assertSucceeds(setDoc(doc(as(MOD), 'sanctions/eve'), { warningCount: 1, moderatedBy: MOD }));
+    await assertFails(updateDoc(doc(as(BOB), 'sanctions/bob'), { suspendedUntil: 0 }));
+    await assertFails(deleteDoc(doc(as(BOB), 'sanctions/bob')));
+    await assertFails(deleteDoc(doc(as(MOD), 'sanctions/bob')));
+    await assertSucceeds(getDoc(doc(as(BOB), 'sanctions/bob')));
+    await assertFails(getDoc(doc(as(EVE), 'sanctions/bob')));
+    await assertFails(setDoc(doc(as(EVE), 'users/eve'), { id: EVE, name: 'Eve', isVerified: false, warningCount: 0 }));
+  });
+
+  it('keeps a suspension when the user deletes and recreates their profile', async () => {
+    await seed({ 'sanctions/bob': suspended, 'reports/r1': baseReport() });
+    await assertSucceeds(deleteDoc(doc(as(BOB), 'users/bob')));
+    await assertSucceeds(setDoc(doc(as(BOB), 'users/bob'), { id: BOB, name: 'Bob', isVerified: false }));
+    await assertFails(setDoc(doc(as(BOB), 'reports/r2'), baseReport({ id: 'r2', reporterId: BOB })));
+  });
+
+  it('stops users without a profile from posting, claiming and messaging', async () => {
+    await seed({ 'reports/r1': baseReport() });
+    await assertFails(setDoc(doc(as(EVE), 'reports/r2'), baseReport({ id: 'r2', reporterId: EVE })));
+    await assertFails(claimBatch(EVE, baseClaim({ id: EVE, claimantId: EVE, claimantName: 'Eve', history: [submittedEvent(1, EVE)] }), baseAttempt()));
+    await assertFails(setDoc(doc(as(EVE), 'chats/global/messages/m1'), message(EVE)));
+    await seed({ 'users/eve': { id: EVE, name: 'Eve', isVerified: false } });
+    await assertSucceeds(setDoc(doc(as(EVE), 'reports/r2'), baseReport({ id: 'r2', reporterId: EVE })));
+  });
+
+  it('stops suspended users from posting, claiming and messaging', async () => {
+    await seed({ 'sanctions/bob': suspended, 'reports/r1': baseReport(), 'chats/c1': baseChat() });
+    await assertFails(setDoc(doc(as(BOB), 'reports/r2'), baseReport({ id: 'r2', reporterId: BOB })));
+    await assertFails(claimBatch(BOB, baseClaim(), baseAttempt()));
+    await assertFails(setDoc(doc(as(BOB), 'chats/c2'), baseChat({ id: 'c2' })));
+    await assertFails(setDoc(doc(as(BOB), 'chats/c1/messages/m1'), message(BOB)));
+    await assertFails(setDoc(doc(as(BOB), 'chats/global/messages/m1'), message(BOB)));
+
+    await seed({ 'sanctions/bob': { ...suspended, suspendedUntil: 1 } });
+    await assertSucceeds(setDoc(doc(as(BOB), 'chats/c1/messages/m1'), message(BOB)));
+  });
+});
+
+// --- RESOLUTIONS ---
+describe('resolutions', () => {
+  const lostReport = baseReport({ id: 'r0', type: 'LOST', title: 'Lost Wallet', reporterId: BOB, reporterName: 'Bob' });
+
+  beforeEach(async () => {
+    await seed({
+      'users/admin': { id: ADMIN, name: 'Admin', role: 'admin', isVerified: true },
+      'reports/r0': lostReport,
+      'reports/r1': baseReport()
+    });
+  });
+
+  it('lets either reporter propose a return, but not close the other report with it', async () => {
+    const db = as(BOB);
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'resolutions/r0_r1'), baseResolution());
+    batch.update(doc(db, 'reports/r1'), { status: 'RETURNED', statusUpdatedAt: 2, resolution: { id: 'r0_r1', matchReportId: 'r0', matchTitle: 'Wallet', resolvedAt: 2 } });
+    await assertFails(batch.commit());
+
+    await assertSucceeds(propose(BOB));
+    await assertFails(propose(BOB));
+    await env.withSecurityRulesDisabled(ctx => deleteDoc(doc(ctx.firestore(), 'resolutions/r0_r1')));
+    await assertSucceeds(propose(ALICE));
+  });
+
+  it('closes both reports only when the other reporter accepts', async () => {
+    await seed({ 'resolutions/r0_r1': baseResolution() });
+    await assertFails(acceptBatch(BOB));
+    await assertFails(acceptBatch(EVE));
+    await assertFails(updateDoc(doc(as(BOB), 'reports/r1'), { status: 'RETURNED', resolution: { id: 'r0_r1', matchReportId: 'r0', matchTitle: 'x', resolvedAt: 2 } }));
+    await assertFails(updateDoc(doc(as(ALICE), 'resolutions/r0_r1'), { status: 'ACCEPTED', respondedAt: 3 }));
+    await assertFails(acceptBatch(ALICE, baseResolution(), { resolvedBy: ALICE }));
+    await assertSucceeds(acceptBatch(ALICE));
+  });
+
+  it('lets the other reporter decline, after which either can propose again', async () => {
+    await seed({ 'resolutions/r0_r1': baseResolution() });
+    await assertFails(updateDoc(doc(as(BOB), 'resolutions/r0_r1'), { status: 'DECLINED', respondedAt: 3 }));
+    await assertSucceeds(updateDoc(doc(as(ALICE), 'resolutions/r0_r1'), { status: 'DECLINED', respondedAt: 3 }));
+    await assertFails(acceptBatch(ALICE));
+    await assertSucceeds(propose(ALICE));
+  });
+
+  it('keeps outsiders and mismatched reports out', async () => {
+    await assertFails(propose(EVE));
+    await assertFails(propose(BOB, baseResolution({ id: 'r1_r0', lostReportId: 'r1', foundReportId: 'r0' })));
+    await assertFails(propose(BOB, baseResolution({ ownerId: EVE, participants: [EVE, ALICE] })));
+    await assertFails(propose(BOB, baseResolution({ status: 'ACCEPTED' })));
+  });
+
+  it("can't close the other side without accepting a proposal", async () => {
+    await assertFails(updateDoc(doc(as(BOB), 'reports/r1'), { status: 'RETURNED' }));
+    await assertFails(updateDoc(doc(as(BOB), 'reports/r1'), { status: 'RETURNED', resolution: { id: 'r0_r1', matchReportId: 'r0', matchTitle: 'x', resolvedAt: 2 } }));
+
+    // An already accepted resolution can't be replayed to close a report again
+    await seed({ 'resolutions/r0_r1': baseResolution({ status: 'ACCEPTED' }), 'reports/r0': baseReport({ id: 'r0', type: 'LOST', reporterId: BOB, status: 'EXPIRED' }) });
+    await assertFails(updateDoc(doc(as(ALICE), 'reports/r0'), { status: 'RETURNED', resolution: { id: 'r0_r1', matchReportId: 'r1', matchTitle: 'x', resolvedAt: 2 } }));
+  });
+
+  it('needs the owner to have passed the finder\'s verification', async () => {
+    await seed({ 'reports/r1': baseReport({ verificationQuestions: [{ id: 'marks', prompt: 'Marks?' }] }) });
+    await assertFails(propose(BOB));
+    await seed({ 'reports/r1': baseReport({ verificationQuestions: [{ id: 'marks', prompt: 'Marks?' }], verifiedClaimantIds: [BOB], status: 'CLAIM_PENDING' }) });
+    await assertSucceeds(propose(BOB));
+  });
+
+  it('leaves desk items to the staff release', async () => {
+    await seed({ 'resolutions/r0_r1': baseResolution(), 'reports/r1': baseReport({ status: 'IN_CUSTODY', custody: heldCustody() }) });
+    await assertFails(acceptBatch(ALICE));
+  });
+
+  it('shows resolutions to the two reporters and admins, and takes one thank-you note from the owner once accepted', async () => {
+    await seed({ 'resolutions/r0_r1': baseResolution() });
+    await assertFails(updateDoc(doc(as(BOB), 'resolutions/r0_r1'), { feedback: { message: 'Thank you!', at: 3 } }));
+
+    await seed({ 'resolutions/r0_r1': baseResolution({ status: 'ACCEPTED' }) });
+    await assertSucceeds(getDoc(doc(as(ALICE), 'resolutions/r0_r1')));
+    await assertSucceeds(getDoc(doc(as(ADMIN), 'resolutions/r0_r1')));
+    await assertFails(getDoc(doc(as(EVE), 'resolutions/r0_r1')));
+
+    await assertFails(updateDoc(doc(as(ALICE), 'resolutions/r0_r1'), { feedback: { message: 'You are welcome', at: 3 } }));
+    await assertFails(updateDoc(doc(as(BOB), 'resolutions/r0_r1'), { recoveryMs: 0 }));
+    await assertSucceeds(updateDoc(doc(as(BOB), 'resolutions/r0_r1'), { feedback: { message: 'Thank you!', at: 3 } }));
+    await assertFails(updateDoc(doc(as(BOB), 'resolutions/r0_r1'), { feedback: { message: 'Thanks again', at: 4 } }));
+    await assertFails(deleteDoc(doc(as(BOB), 'resolutions/r0_r1')));
+  });
+});
+
+// --- WATCHES ---
+describe('watches', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const baseWatch = (overrides: Record<string, unknown> = {}) => ({
+    id: 'w1',
+    userId: BOB,
+    name: 'Lost · Electronics',
+    query: 'category=Electronics',
+    status: 'ACTIVE',
+    createdAt: Date.now(),
+    expiresAt: Date.now() + 30 * DAY,
+    matchCount: 0,
+    ...overrides
+  });
+
+  it('lets users save watches for themselves only, starting from a clean slate', async () => {
+    await assertSucceeds(setDoc(doc(as(BOB), 'watches/w1'), baseWatch()));
+    await assertFails(setDoc(doc(as(EVE), 'watches/w2'), baseWatch({ id: 'w2' })));
+    await assertFails(setDoc(doc(as(BOB), 'watches/w3'), baseWatch({ id: 'w3', matchCount: 5 })));
+    await assertFails(setDoc(doc(as(BOB), 'watches/w4'), baseWatch({ id: 'w4', status: 'PAUSED' })));
+    await assertFails(setDoc(doc(as(BOB), 'watches/w5'), baseWatch({ id: 'w5', expiresAt: Date.now() + 365 * DAY })));
+  });
+
+  it('keeps watches private to their owner', async () => {
+    await seed({ 'watches/w1': baseWatch() });
+    await assertSucceeds(getDoc(doc(as(BOB), 'watches/w1')));
+    await assertSucceeds(getDocs(query(collection(as(BOB), 'watches'), where('userId', '==', BOB))));
+    await assertFails(getDoc(doc(as(EVE), 'watches/w1')));
+    await assertFails(deleteDoc(doc(as(EVE), 'watches/w1')));
+    await assertSucceeds(deleteDoc(doc(as(BOB), 'watches/w1')));
+  });
+
+  it('lets owners pause, resume and renew, but leaves expiry and counters to the server', async () => {
+    await seed({ 'watches/w1': baseWatch({ status: 'PAUSED', pauseReason: 'TOO_MANY_ALERTS', alertsInWindow: 10, matchCount: 10 }) });
+    await assertSucceeds(updateDoc(doc(as(BOB), 'watches/w1'), { status: 'ACTIVE', pauseReason: deleteField(), alertsInWindow: 0 }));
+    await assertSucceeds(updateDoc(doc(as(BOB), 'watches/w1'), { status: 'PAUSED', pauseReason: 'USER' }));
+    await assertSucceeds(updateDoc(doc(as(BOB), 'watches/w1'), { status: 'ACTIVE', expiresAt: Date.now() + 90 * DAY }));
+    await assertFails(updateDoc(doc(as(BOB), 'watches/w1'), { status: 'EXPIRED' }));
+    await assertFails(updateDoc(doc(as(BOB), 'watches/w1'), { matchCount: 0 }));
+    await assertFails(updateDoc(doc(as(BOB), 'watches/w1'), { alertsInWindow: 3 }));
+    await assertFails(updateDoc(doc(as(BOB), 'watches/w1'), { userId: EVE }));
+    await assertFails(updateDoc(doc(as(EVE), 'watches/w1'), { status: 'PAUSED' }));
+  });
+});
+
+// --- SERVER-ONLY COLLECTIONS ---
+describe('server-only collections', () => {
+  it('lets match participants read but never write match records', async () => {
+    await seed({ 'matches/r0_r1': { id: 'r0_r1', participants: [ALICE, BOB], score: 80, status: 'ACTIVE' } });
+    await assertSucceeds(getDoc(doc(as(BOB), 'matches/r0_r1')));
+    await assertFails(getDoc(doc(as(EVE), 'matches/r0_r1')));
+    await assertFails(updateDoc(doc(as(BOB), 'matches/r0_r1'), { score: 100 }));
+  });
+
+  it('hides login throttle records from everyone', async () => {
+    await seed({ 'authThrottle/abc': { failures: 3, lockedUntil: 0 } });
+    await assertFails(getDoc(doc(as(BOB), 'authThrottle/abc')));
+    await assertFails(deleteDoc(doc(as(BOB), 'authThrottle/abc')));
+  });
+});
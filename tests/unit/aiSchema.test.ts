@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { arrayOf, bool, num, object, oneOf, parseAIResponse, str } from '../../services/aiSchema';
+
+// ------------------------------------------------------------------
+// AI REPLY PARSING (services/aiSchema.ts)
+// Run with the other unit tests: `npm test`
+// ------------------------------------------------------------------
+
+const schema = object({
+  isValid: bool(),
+  confidence: num({ min: 0, max: 100 }),
+  category: oneOf(['ANIMAL', 'ITEM'] as const),
+  reason: str({ optional: true }),
+  tags: arrayOf(str(), { optional: true })
+});
+
+const fallback = { isValid: false, confidence: 0, category: 'ITEM' as const, reason: 'unavailable', tags: [] };
+
+describe('parseAIResponse', () => {
+  it('accepts a clean reply as ok', () => {
+    const result = parseAIResponse('{"isValid":true,"confidence":85,"category":"ITEM","reason":"fine","tags":["a"]}', schema, fallback);
+    assert.equal(result.status, 'ok');
+    assert.deepEqual(result.data, { isValid: true, confidence: 85, category: 'ITEM', reason: 'fine', tags: ['a'] });
+    assert.deepEqual(result.issues, []);
+  });
+
+  it('repairs fenced JSON and near-miss values, and says what it repaired', () => {
+    const text = 'Here you go:\n```json\n{"isValid":"true","confidence":"120%","category":"animal"}\n```';
+    const result = parseAIResponse(text, schema, fallback);
+    assert.equal(result.status, 'repaired');
+    assert.deepEqual(result.data, { isValid: true, confidence: 100, category: 'ANIMAL', reason: '', tags: [] });
+    assert.ok(result.issues.includes('stripped text around JSON'));
+    assert.ok(result.issues.includes('confidence clamped to 100'));
+    assert.ok(result.issues.includes('category normalized to "ANIMAL"'));
+  });
+
+  it('drops unusable array items instead of failing', () => {
+    const result = parseAIResponse('{"isValid":true,"confidence":1,"category":"ITEM","tags":["a",{"x":1},"b"]}', schema, fallback);
+    assert.equal(result.status, 'repaired');
+    assert.deepEqual(result.data.tags, ['a', 'b']);
+  });
+
+  it('returns the fallback, never model output, when the reply is unusable', () => {
+    const cases: [string | null, string][] = [
+      [null, 'NO_RESPONSE'],
+      ['', 'NO_RESPONSE'],
+      ['{"isValid": tru', 'MALFORMED_JSON'],
+      ['{"isValid":true,"category":"ITEM"}', 'SCHEMA_MISMATCH'],
+      ['{"isValid":true,"confidence":"high","category":"ITEM"}', 'SCHEMA_MISMATCH'],
+      ['["not", "an", "object"]', 'SCHEMA_MISMATCH']
+    ];
+    for (const [text, kind] of cases) {
+      const result = parseAIResponse(text, schema, fallback);
+      assert.equal(result.status, 'invalid', String(text));
+      assert.equal(result.error?.kind, kind, String(text));
+      assert.equal(result.data, fallback);
+    }
+  });
+
+  it('reports every schema problem', () => {
+    const result = parseAIResponse('{"category":"PLANT"}', schema, fallback);
+    assert.equal(result.status, 'invalid');
+    assert.ok(result.issues.includes('isValid is missing'));
+    assert.ok(result.issues.includes('confidence is missing'));
+    assert.ok(result.issues.some(issue => issue.startsWith('category "PLANT" is not one of')));
+  });
+});
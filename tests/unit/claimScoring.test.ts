@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { scoreAnswerDeterministic } from '../../services/claimScoring';
+
+// ------------------------------------------------------------------
+// CLAIM ANSWER FALLBACK SCORING (services/claimScoring.ts)
+// Run with the other unit tests: `npm test`
+// ------------------------------------------------------------------
+
+describe('scoreAnswerDeterministic', () => {
+  it('gives full marks to the same answer, whatever the case or punctuation', () => {
+    assert.equal(scoreAnswerDeterministic('Blue sticker, top-left', 'blue sticker top left'), 100);
+  });
+
+  it('gives nothing for an empty answer or secret', () => {
+    assert.equal(scoreAnswerDeterministic('Blue sticker', ''), 0);
+    assert.equal(scoreAnswerDeterministic('Blue sticker', '  ?! '), 0);
+    assert.equal(scoreAnswerDeterministic('', 'blue sticker'), 0);
+  });
+
+  it('gives no partial credit on identifiers', () => {
+    assert.equal(scoreAnswerDeterministic('SN-4417-XK', 'sn4417xk'), 100);
+    assert.equal(scoreAnswerDeterministic('SN-4417-XK', '4417'), 0);
+    assert.equal(scoreAnswerDeterministic('SN-4417-XK', 'SN-4417-XK-2'), 0);
+  });
+
+  it('gives no flat credit for containing the secret or being part of it', () => {
+    assert.equal(scoreAnswerDeterministic('cracked corner', 'the screen has a cracked corner'), 64);
+    assert.equal(scoreAnswerDeterministic('cracked corner near the camera', 'cracked corner'), 64);
+    assert.equal(scoreAnswerDeterministic('cracked corner near the camera', 'cra'), 0);
+  });
+
+  it('scales word overlap up to 80', () => {
+    assert.equal(scoreAnswerDeterministic('red cat sticker', 'cat sticker, red'), 80);
+    assert.equal(scoreAnswerDeterministic('red cat sticker', 'a red dog sticker'), 53);
+    assert.equal(scoreAnswerDeterministic('red cat sticker', 'no idea'), 0);
+  });
+
+  it('penalizes answers that list every guess or pad the answer', () => {
+    assert.equal(scoreAnswerDeterministic('red cat sticker', 'red blue green black white cat dog bird sticker logo'), 37);
+    assert.equal(scoreAnswerDeterministic('red cat sticker', 'red cat sticker red cat sticker'), 53);
+  });
+});
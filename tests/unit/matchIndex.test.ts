@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ItemCategory, ItemReport, ReportType } from '../../types';
+import { LOCAL_EMBEDDING_MODEL, rankCandidates } from '../../services/matchIndex';
+
+// ------------------------------------------------------------------
+// VECTOR PRE-RANKING (services/matchIndex.ts)
+// Run with the other unit tests: `npm test`
+// ------------------------------------------------------------------
+
+const report = (overrides: Partial<ItemReport>): ItemReport => ({
+  id: 'r',
+  type: ReportType.FOUND,
+  title: 'Black Dell laptop',
+  description: 'Black Dell XPS 13 laptop in a grey sleeve',
+  category: ItemCategory.ELECTRONICS,
+  location: 'Main Library',
+  imageUrls: [],
+  tags: [],
+  status: 'OPEN',
+  reporterId: 'alice',
+  reporterName: 'Alice',
+  createdAt: 1,
+  ...overrides
+});
+
+const provider = (embedding: number[]) => ({ embedding, embeddingModel: 'provider-v1' });
+
+const source = report({ id: 'lost', type: ReportType.LOST, reporterId: 'bob', ...provider([1, 0]) });
+
+const ids = (ranked: ReturnType<typeof rankCandidates>) => ranked.map(r => r.report.id);
+
+describe('rankCandidates', () => {
+  it('ranks by the stored vectors when every candidate shares the source model', () => {
+    const ranked = rankCandidates(source, [
+      report({ id: 'far', ...provider([0, 1]) }),
+      report({ id: 'near', ...provider([1, 0.1]) })
+    ], 2);
+
+    assert.deepEqual(ids(ranked), ['near', 'far']);
+    assert.ok(ranked.every(r => r.model === 'provider-v1'));
+  });
+
+  it('keeps the provider ranking when one candidate has no vector', () => {
+    const ranked = rankCandidates(source, [
+      report({ id: 'far', ...provider([0, 1]) }),
+      report({ id: 'near', ...provider([1, 0.1]) }),
+      report({ id: 'legacy', title: 'Red umbrella', description: 'A red umbrella' })
+    ], 3);
+
+    assert.equal(ranked.find(r => r.report.id === 'near')!.model, 'provider-v1');
+    assert.equal(ranked.find(r => r.report.id === 'legacy')!.model, LOCAL_EMBEDDING_MODEL);
+    assert.ok(ids(ranked).indexOf('near') < ids(ranked).indexOf('far'));
+  });
+
+  it('gives each space a share of the shortlist in proportion to its candidates', () => {
+    const ranked = rankCandidates(source, [
+      report({ id: 'p1', ...provider([1, 0]) }),
+      report({ id: 'p2', ...provider([1, 0.5]) }),
+      report({ id: 'p3', ...provider([0, 1]) }),
+      report({ id: 'p4', ...provider([-1, 0]) }),
+      report({ id: 'old', embedding: [0.5, 0.5, 0.5], embeddingModel: 'retired-model' })
+    ], 3);
+
+    assert.deepEqual(ids(ranked), ['p1', 'p2', 'old']);
+  });
+
+  it('ranks everything locally when the source has no provider vector', () => {
+    const ranked = rankCandidates(report({ id: 'lost', type: ReportType.LOST }), [
+      report({ id: 'umbrella', title: 'Red umbrella', description: 'A red umbrella', ...provider([1, 0]) }),
+      report({ id: 'laptop' })
+    ], 2);
+
+    assert.deepEqual(ids(ranked), ['laptop', 'umbrella']);
+    assert.ok(ranked.every(r => r.model === LOCAL_EMBEDDING_MODEL));
+  });
+});
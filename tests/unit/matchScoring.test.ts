@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ItemCategory, ItemReport, ReportType } from '../../types';
+import { scoreMatch } from '../../services/matchScoring';
+
+// ------------------------------------------------------------------
+// DETERMINISTIC MATCH SCORING (services/matchScoring.ts)
+// Run with the other unit tests: `npm test`
+// ------------------------------------------------------------------
+
+const HOUR = 60 * 60 * 1000;
+const LOST_AT = Date.UTC(2026, 9, 1, 4, 30);
+
+const report = (overrides: Partial<ItemReport>): ItemReport => ({
+  id: 'r',
+  type: ReportType.LOST,
+  title: 'Black Dell laptop',
+  description: 'Black Dell XPS 13 laptop in a grey sleeve',
+  category: ItemCategory.ELECTRONICS,
+  location: 'Main Library',
+  occurredAt: LOST_AT,
+  timeZone: 'Asia/Kolkata',
+  imageUrls: [],
+  tags: ['laptop', 'dell'],
+  specs: { brand: 'Dell', model: 'XPS 13', color: 'Black' },
+  distinguishingFeatures: ['sticker on the lid'],
+  status: 'OPEN',
+  reporterId: 'bob',
+  reporterName: 'Bob',
+  createdAt: LOST_AT,
+  ...overrides
+});
+
+const lost = report({ id: 'lost' });
+const found = report({ id: 'found', type: ReportType.FOUND, reporterId: 'alice', reporterName: 'Alice', occurredAt: LOST_AT + 3 * HOUR });
+
+const factor = (score: ReturnType<typeof scoreMatch>, key: string) => score.factors.find(f => f.key === key)!;
+
+describe('scoreMatch', () => {
+  it('scores a matching pair highly', () => {
+    const score = scoreMatch(lost, found);
+    assert.ok(score.total >= 90, `total ${score.total}`);
+    assert.equal(score.rejected, undefined);
+    assert.equal(factor(score, 'category').score, 1);
+    assert.equal(factor(score, 'specs').score, 1);
+    assert.equal(factor(score, 'time').score, 1);
+  });
+
+  it("doesn't depend on argument order", () => {
+    assert.deepEqual(scoreMatch(found, lost), scoreMatch(lost, found));
+  });
+
+  it('scores a different item lower', () => {
+    const other = report({
+      id: 'other', type: ReportType.FOUND, title: 'Blue water bottle', description: 'Steel bottle with a dent',
+      category: ItemCategory.ACCESSORIES, specs: { brand: 'Milton', color: 'Blue' }, tags: ['bottle'],
+      distinguishingFeatures: ['dent near the cap'], occurredAt: LOST_AT + 3 * HOUR
+    });
+    const score = scoreMatch(lost, other);
+    assert.ok(score.total < 50, `total ${score.total}`);
+    assert.ok(score.total < scoreMatch(lost, found).total);
+  });
+
+  it('rejects an item found well before it was lost', () => {
+    const score = scoreMatch(lost, { ...found, occurredAt: LOST_AT - 3 * 24 * HOUR });
+    assert.equal(score.total, 0);
+    assert.match(score.rejected!, /before it was reported lost/);
+  });
+
+  it('tolerates a found time slightly before the reported loss', () => {
+    const score = scoreMatch(lost, { ...found, occurredAt: LOST_AT - HOUR });
+    assert.equal(score.rejected, undefined);
+  });
+
+  it('scores the whole loss window as a match', () => {
+    const windowed = { ...lost, occurredUntil: LOST_AT + 10 * HOUR };
+    assert.equal(factor(scoreMatch(windowed, { ...found, occurredAt: LOST_AT + 8 * HOUR }), 'time').score, 1);
+  });
+
+  it('leaves out factors without data on both sides and re-weights the rest', () => {
+    const sparse = { ...found, specs: undefined, distinguishingFeatures: undefined, tags: [] };
+    const score = scoreMatch(lost, sparse);
+    for (const key of ['specs', 'features', 'tags']) {
+      assert.equal(factor(score, key).score, null, key);
+      assert.equal(factor(score, key).points, 0, key);
+    }
+    // The factors left carry the whole score, so the missing details cost nothing
+    assert.ok(factor(score, 'category').points > factor(score, 'category').weight);
+    assert.ok(score.total >= 90, `total ${score.total}`);
+  });
+});
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_EXPIRY_DAYS, NUDGE_LEAD_DAYS, expiryStep, nudgeExpiresAt, transition } from '../../services/reportLifecycle';
+
+// ------------------------------------------------------------------
+// REPORT LIFECYCLE (services/reportLifecycle.ts)
+// Run with the other unit tests: `npm test`
+// ------------------------------------------------------------------
+
+const DAY = 24 * 60 * 60 * 1000;
+const CREATED = Date.UTC(2026, 0, 1);
+const DUE = CREATED + DEFAULT_EXPIRY_DAYS * DAY;
+
+describe('transition', () => {
+  it('moves the status and appends to the history', () => {
+    const first = { from: null, to: 'OPEN' as const, at: 1, by: 'alice' };
+    const patch = transition({ status: 'OPEN', statusHistory: [first] }, 'RETURNED', 'bob', 'Handed over', 5);
+    assert.deepEqual(patch, {
+      status: 'RETURNED',
+      statusUpdatedAt: 5,
+      statusHistory: [first, { from: 'OPEN', to: 'RETURNED', at: 5, by: 'bob', note: 'Handed over' }]
+    });
+  });
+
+  it('starts a history for reports without one, and leaves out an empty note', () => {
+    const patch = transition({ status: 'EXPIRED' }, 'OPEN', 'alice', undefined, 5);
+    assert.deepEqual(patch.statusHistory, [{ from: 'EXPIRED', to: 'OPEN', at: 5, by: 'alice' }]);
+  });
+
+  it('reads the legacy RESOLVED status as RETURNED', () => {
+    assert.throws(() => transition({ status: 'RESOLVED' }, 'OPEN', 'alice'), /returned/i);
+  });
+
+  it('refuses moves the lifecycle does not allow', () => {
+    assert.throws(() => transition({ status: 'RETURNED' }, 'OPEN', 'alice'));
+    assert.throws(() => transition({ status: 'IN_CUSTODY' }, 'WITHDRAWN', 'alice'));
+    assert.throws(() => transition({ status: 'EXPIRED' }, 'RETURNED', 'alice'));
+  });
+});
+
+describe('expiryStep', () => {
+  const report = { status: 'OPEN' as const, createdAt: CREATED };
+  const nudged = (at: number) => ({ ...report, expiryNudgedAt: at, expiresAt: nudgeExpiresAt(report, at) });
+
+  it('nudges the reporter ahead of the due date', () => {
+    assert.equal(expiryStep(report, DUE - NUDGE_LEAD_DAYS * DAY - 1), 'NONE');
+    assert.equal(expiryStep(report, DUE - NUDGE_LEAD_DAYS * DAY), 'NUDGE');
+    assert.equal(expiryStep(report, DUE + 30 * DAY), 'NUDGE');
+  });
+
+  it('expires on the date given in the nudge, never sooner', () => {
+    const onTime = nudged(DUE - NUDGE_LEAD_DAYS * DAY);
+    assert.equal(onTime.expiresAt, DUE);
+    assert.equal(expiryStep(onTime, DUE - 1), 'NONE');
+    assert.equal(expiryStep(onTime, DUE), 'EXPIRE');
+
+    // The job was down: the reporter still gets the full lead time
+    const late = nudged(DUE + 30 * DAY);
+    assert.equal(late.expiresAt, DUE + (30 + NUDGE_LEAD_DAYS) * DAY);
+    assert.equal(expiryStep(late, DUE + 31 * DAY), 'NONE');
+    assert.equal(expiryStep(late, late.expiresAt), 'EXPIRE');
+  });
+
+  it('restarts the clock when the report is renewed', () => {
+    const renewed = { ...nudged(DUE - NUDGE_LEAD_DAYS * DAY), renewedAt: DUE - DAY };
+    assert.equal(expiryStep(renewed, DUE), 'NONE');
+    assert.equal(expiryStep(renewed, DUE - DAY + (DEFAULT_EXPIRY_DAYS - NUDGE_LEAD_DAYS) * DAY), 'NUDGE');
+  });
+
+  it('leaves reports outside OPEN and CLAIM_PENDING alone', () => {
+    assert.equal(expiryStep({ ...report, status: 'CLAIM_PENDING' }, DUE), 'NUDGE');
+    for (const status of ['IN_CUSTODY', 'RETURNED', 'EXPIRED', 'WITHDRAWN', 'RESOLVED'] as const) {
+      assert.equal(expiryStep({ ...report, status }, DUE + 365 * DAY), 'NONE', status);
+    }
+  });
+
+  it('honours a custom expiry period', () => {
+    assert.equal(expiryStep(report, CREATED + 23 * DAY, 30), 'NUDGE');
+    assert.equal(expiryStep(report, CREATED + 23 * DAY), 'NONE');
+  });
+});
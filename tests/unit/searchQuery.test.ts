@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ItemCategory } from '../../types';
+import { parseSearchRules } from '../../services/searchQuery';
+
+// ------------------------------------------------------------------
+// RULE-BASED SEARCH PARSING (services/searchQuery.ts)
+// Run with the other unit tests: `npm test`
+// ------------------------------------------------------------------
+
+// Wednesday 14 October 2026, 10:00 on campus (Asia/Kolkata)
+const NOW = Date.UTC(2026, 9, 14, 4, 30);
+const ZONE = 'Asia/Kolkata';
+
+const parse = (query: string) => parseSearchRules(query, NOW, ZONE);
+
+describe('parseSearchRules', () => {
+  it('splits a full query into intent, item, brand, model, color, place and date', () => {
+    assert.deepEqual(parse('lost my black dell xps 13 laptop near the library yesterday'), {
+      userStatus: 'LOST',
+      category: ItemCategory.ELECTRONICS,
+      colors: ['black'],
+      brand: 'Dell',
+      model: 'xps 13',
+      buildingId: 'main.library',
+      dateFrom: '2026-10-13',
+      dateTo: '2026-10-13',
+      keywords: 'laptop'
+    });
+  });
+
+  it('reads the intent from whichever verb comes first', () => {
+    assert.equal(parse('found a wallet').userStatus, 'FOUND');
+    assert.equal(parse('someone found the keys i lost').userStatus, 'FOUND');
+    assert.equal(parse('blue umbrella').userStatus, 'UNKNOWN');
+  });
+
+  it('infers the brand from a product line', () => {
+    const query = parse('iphone 13 pro with a cracked screen');
+    assert.equal(query.brand, 'Apple');
+    assert.equal(query.model, 'iphone 13 pro');
+    assert.equal(query.category, ItemCategory.ELECTRONICS);
+  });
+
+  it('maps color spellings to one name', () => {
+    assert.deepEqual(parse('gray and black backpack').colors, ['grey', 'black']);
+  });
+
+  it('anchors relative dates to the campus calendar', () => {
+    const range = (query: string) => [parse(query).dateFrom, parse(query).dateTo];
+    assert.deepEqual(range('wallet today'), ['2026-10-14', '2026-10-14']);
+    assert.deepEqual(range('wallet 3 days ago'), ['2026-10-11', '2026-10-11']);
+    assert.deepEqual(range('wallet last week'), ['2026-10-07', '2026-10-14']);
+    assert.deepEqual(range('wallet on monday'), ['2026-10-12', '2026-10-12']);
+    assert.deepEqual(range('wallet wednesday'), ['2026-10-14', '2026-10-14']);
+    assert.deepEqual(range('wallet last wednesday'), ['2026-10-07', '2026-10-07']);
+  });
+
+  it('reads campus-style dates, picking the most recent year when none is given', () => {
+    assert.deepEqual([parse('id card 2/10').dateFrom, parse('id card 2/10').dateTo], ['2026-10-02', '2026-10-02']);
+    assert.equal(parse('id card 20/12').dateFrom, '2025-12-20');
+    assert.equal(parse('id card 20/12/2024').dateFrom, '2024-12-20');
+    assert.equal(parse('id card 2026-09-30').dateFrom, '2026-09-30');
+    assert.equal(parse('id card 31/02').dateFrom, undefined);
+  });
+
+  it('keeps the date words out of the keywords and model', () => {
+    const query = parse('samsung charger 2 days ago');
+    assert.equal(query.brand, 'Samsung');
+    assert.equal(query.model, undefined);
+    assert.equal(query.keywords, 'charger');
+  });
+
+  it('returns an empty search for an empty query', () => {
+    assert.deepEqual(parse('   '), { userStatus: 'UNKNOWN', colors: [], keywords: '', category: undefined });
+  });
+});
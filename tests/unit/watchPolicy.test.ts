@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ItemCategory, ItemReport, ReportType, Watch } from '../../types';
+import { MAX_ALERTS_PER_DAY, recordAlert, shouldAlert } from '../../services/watchPolicy';
+
+// ------------------------------------------------------------------
+// WATCH ALERTS (services/watchPolicy.ts)
+// Run with the other unit tests: `npm test`
+// ------------------------------------------------------------------
+
+const HOUR = 60 * 60 * 1000;
+const CREATED = Date.UTC(2026, 9, 1);
+const NOW = CREATED + 2 * 24 * HOUR;
+
+const baseWatch = (overrides: Partial<Watch> = {}): Watch => ({
+  id: 'w1',
+  userId: 'bob',
+  name: 'Found · ID Cards',
+  query: 'type=found&category=ID+Cards',
+  status: 'ACTIVE',
+  createdAt: CREATED,
+  expiresAt: CREATED + 30 * 24 * HOUR,
+  matchCount: 0,
+  ...overrides
+});
+
+const baseReport = (overrides: Partial<ItemReport> = {}): ItemReport => ({
+  id: 'r1',
+  type: ReportType.FOUND,
+  title: 'Student ID card',
+  description: 'Found outside the cafeteria',
+  category: ItemCategory.ID_CARDS,
+  location: 'Cafeteria',
+  imageUrls: [],
+  tags: [],
+  status: 'OPEN',
+  reporterId: 'alice',
+  reporterName: 'Alice',
+  createdAt: CREATED + HOUR,
+  ...overrides
+});
+
+describe('shouldAlert', () => {
+  it('alerts on a new, listed, open report that passes the filters', () => {
+    assert.equal(shouldAlert(baseWatch(), baseReport(), undefined, NOW), true);
+  });
+
+  it('ignores reports that fail the filters', () => {
+    assert.equal(shouldAlert(baseWatch(), baseReport({ type: ReportType.LOST }), undefined, NOW), false);
+    assert.equal(shouldAlert(baseWatch(), baseReport({ category: ItemCategory.BOOKS }), undefined, NOW), false);
+  });
+
+  it("ignores the owner's own reports and reports from before the watch", () => {
+    assert.equal(shouldAlert(baseWatch(), baseReport({ reporterId: 'bob' }), undefined, NOW), false);
+    assert.equal(shouldAlert(baseWatch(), baseReport({ createdAt: CREATED - 1 }), undefined, NOW), false);
+  });
+
+  it('ignores hidden and closed reports', () => {
+    const moderation = (status: 'PENDING' | 'APPROVED') => ({ status, flags: [], submittedAt: CREATED });
+    assert.equal(shouldAlert(baseWatch(), baseReport({ moderation: moderation('PENDING') }), undefined, NOW), false);
+    assert.equal(shouldAlert(baseWatch(), baseReport({ moderation: moderation('APPROVED') }), undefined, NOW), true);
+    assert.equal(shouldAlert(baseWatch(), baseReport({ status: 'RETURNED' }), undefined, NOW), false);
+    assert.equal(shouldAlert(baseWatch(), baseReport({ status: 'CLAIM_PENDING' }), undefined, NOW), false);
+  });
+
+  it('stays quiet once the watch is paused or past its end', () => {
+    assert.equal(shouldAlert(baseWatch({ status: 'PAUSED' }), baseReport(), undefined, NOW), false);
+    assert.equal(shouldAlert(baseWatch({ expiresAt: NOW }), baseReport(), undefined, NOW), false);
+  });
+});
+
+describe('recordAlert', () => {
+  it('counts the alert and opens a 24-hour window', () => {
+    assert.deepEqual(recordAlert(baseWatch(), NOW), {
+      matchCount: 1,
+      lastMatchedAt: NOW,
+      alertWindowStart: NOW,
+      alertsInWindow: 1
+    });
+  });
+
+  it('counts within the current window, and starts a new one after a day', () => {
+    const watch = baseWatch({ matchCount: 4, alertWindowStart: NOW - 23 * HOUR, alertsInWindow: 3 });
+    assert.deepEqual(recordAlert(watch, NOW), { matchCount: 5, lastMatchedAt: NOW, alertWindowStart: NOW - 23 * HOUR, alertsInWindow: 4 });
+    assert.deepEqual(recordAlert(watch, NOW + HOUR), { matchCount: 5, lastMatchedAt: NOW + HOUR, alertWindowStart: NOW + HOUR, alertsInWindow: 1 });
+  });
+
+  it('pauses the watch when it reaches the daily budget', () => {
+    const watch = baseWatch({ matchCount: 20, alertWindowStart: NOW - HOUR, alertsInWindow: MAX_ALERTS_PER_DAY - 2 });
+    assert.equal(recordAlert(watch, NOW).status, undefined);
+    const last = recordAlert({ ...watch, alertsInWindow: MAX_ALERTS_PER_DAY - 1 }, NOW);
+    assert.equal(last.status, 'PAUSED');
+    assert.equal(last.pauseReason, 'TOO_MANY_ALERTS');
+  });
+});
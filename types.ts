@@ -14,6 +14,11 @@ export enum ReportType {
   FOUND = 'FOUND'
 }
 
+export type UserRole = 'student' | 'staff' | 'moderator' | 'admin';
+
+// What a role may do; the matrix lives in services/permissions.ts and is mirrored in firestore.rules
+export type Permission = 'custody.manage' | 'reports.moderate' | 'chat.moderate' | 'roles.manage';
+
 export interface User {
   id: string;
   name: string;
@@ -22,11 +27,23 @@ export interface User {
   avatar?: string;
   department?: string;
   isVerified: boolean;
+  role?: UserRole; // Defaults to 'student'; granted by an admin (or server/setRole.ts), never self-assigned
+  roleUpdatedBy?: string; // Admin uid behind the last role change ('server/setRole' for the CLI)
+  roleUpdatedAt?: number;
+  // Merged in from sanctions/{id} (UserSanctions); never stored on the profile
+  warningCount?: number;
+  suspendedUntil?: number;
+  suspensionReason?: string;
   isOnline?: boolean;
   lastSeen?: number;
-  // Internal tracking fields
-  storedPassword?: string;
-  loginAttempts?: number;
+}
+
+// sanctions/{uid}: written by moderators only, and kept when the user deletes their profile
+export interface UserSanctions {
+  warningCount?: number; // Moderator warnings after abuse reports
+  suspendedUntil?: number; // Can't post, claim or message until then
+  suspensionReason?: string;
+  moderatedBy: string; // Moderator behind the last warning or suspension
 }
 
 export interface GeminiAnalysisResult {
@@ -47,6 +64,72 @@ export interface GeminiAnalysisResult {
   violationReason?: string;
 }
 
+// --- REPORT LIFECYCLE (see services/reportLifecycle.ts) ---
+export type ReportStatus = 'OPEN' | 'CLAIM_PENDING' | 'IN_CUSTODY' | 'RETURNED' | 'EXPIRED' | 'WITHDRAWN';
+
+export interface StatusChange {
+  from: ReportStatus | null; // null for the status a report was created with
+  to: ReportStatus;
+  at: number;
+  by: string; // uid, or 'system' for the expiry job
+  note?: string;
+}
+
+// --- RESOLUTIONS ---
+// A LOST report and the FOUND report that returned the item, closed together (services/resolutions.ts)
+// Proposed by one reporter; both reports close only when the other one accepts.
+export type ResolutionStatus = 'PENDING' | 'ACCEPTED' | 'DECLINED';
+
+export interface Resolution {
+  id: string; // `${lostReportId}_${foundReportId}`
+  lostReportId: string;
+  foundReportId: string;
+  lostTitle: string;
+  foundTitle: string;
+  ownerId: string; // Reporter of the LOST report
+  finderId: string; // Reporter of the FOUND report
+  participants: string[]; // [ownerId, finderId]
+  status?: ResolutionStatus; // Missing on resolutions from before acceptance existed: those are ACCEPTED
+  resolvedBy: string; // Whichever of the two proposed the return
+  resolvedAt: number; // Proposed at, then accepted at
+  respondedAt?: number; // When the other reporter accepted or declined
+  lostReportedAt: number; // createdAt of the LOST report
+  recoveryMs: number; // resolvedAt - lostReportedAt
+  feedback?: ResolutionFeedback;
+}
+
+export interface ResolutionFeedback {
+  message: string; // Thank-you note from the owner to the finder
+  at: number;
+}
+
+// Copy kept on both reports, so a returned report can say where it went without a lookup
+export interface ResolutionLink {
+  id: string;
+  matchReportId: string;
+  matchTitle: string;
+  resolvedAt: number;
+}
+
+// --- WATCHES ---
+// A saved dashboard search that alerts its owner about new reports (services/watches.ts)
+export type WatchStatus = 'ACTIVE' | 'PAUSED' | 'EXPIRED';
+
+export interface Watch {
+  id: string;
+  userId: string;
+  name: string; // Readable summary of the filters, e.g. "Found · ID Cards · Near Main Library"
+  query: string; // Dashboard filters as a URL query string (services/reportFacets.ts)
+  status: WatchStatus;
+  pauseReason?: 'USER' | 'TOO_MANY_ALERTS';
+  createdAt: number;
+  expiresAt: number;
+  matchCount: number;
+  lastMatchedAt?: number;
+  alertWindowStart?: number; // Start of the current 24h alert budget
+  alertsInWindow?: number;
+}
+
 export interface ItemReport {
   id: string;
   type: ReportType;
@@ -56,18 +139,243 @@ export interface ItemReport {
   distinguishingFeatures?: string[];
   specs?: Record<string, string>; // Stored structured data (e.g. { brand: "Apple", model: "iPhone 13" })
   category: ItemCategory;
-  location: string;
-  date: string;
-  time: string; 
+  location: string; // Display label; formatted from locationRef when the place is in the gazetteer
+  locationRef?: LocationRef; // Normalized campus location (see services/campusLocations.ts)
+  pin?: LatLng; // Exact spot dropped on the campus map
+  route?: RouteStop[]; // LOST only: places passed through after `location`, in order
+  occurredAt?: number; // Epoch ms it was lost/found; start of the loss window for LOST reports (see services/reportTime.ts)
+  occurredUntil?: number; // LOST only: end of the loss window
+  timeZone?: string; // IANA zone the times were entered in (the campus zone)
+  // Legacy wall-clock strings, superseded by occurredAt. Only unmigrated reports have them.
+  date?: string; // DD/MM/YYYY
+  time?: string; // HH:MM
+  lostUntil?: ReportMoment;
   imageUrls: string[];
   tags: string[];
-  status: 'OPEN' | 'RESOLVED';
+  status: ReportStatus | 'RESOLVED'; // 'RESOLVED' is the legacy RETURNED; read it through getStatus (services/reportLifecycle.ts)
+  statusHistory?: StatusChange[]; // Oldest first
+  statusUpdatedAt?: number;
+  renewedAt?: number; // Restarts the expiry clock ("still looking")
+  expiryNudgedAt?: number; // Set by server/expireReports.ts when it asks the reporter to renew
+  expiresAt?: number; // Expiry date given in that nudge
+  resolution?: ResolutionLink; // Set when the item was returned through a matching report
+  reporterId: string;
+  reporterName: string;
+  createdAt: number;
+  embedding?: number[]; // Vector used to pre-rank match candidates (see services/matchIndex.ts)
+  embeddingModel?: string; // Model that produced `embedding`; vectors from different models are never compared
+  visualSignature?: string; // Colour and shape fingerprint of the first photo, for photo search (see services/visualSignature.ts)
+  custody?: Custody; // FOUND only: held at a lost-and-found office (see services/custody.ts)
+  moderation?: ReportModeration; // Set when an AI check flagged the report; hidden from others until approved
+  listed?: boolean; // isListed() as a field, so queries and firestore.rules can filter on it
+  verificationQuestions?: VerificationQuestion[]; // FOUND only; answers live in reports/{id}/private/verification
+  verifiedClaimantIds?: string[]; // Users whose ownership claim was verified (unlocks chat & resolve)
+}
+
+// --- CAMPUS LOCATIONS ---
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface Campus {
+  id: string;
+  name: string;
+  center: LatLng;
+  timeZone: string; // IANA zone report times are entered and shown in, e.g. 'Asia/Kolkata'
+}
+
+export interface CampusBuilding {
+  id: string; // Stable ID stored on reports, e.g. 'main.library'
+  campusId: string;
+  name: string;
+  aliases: string[]; // Alternative names people type ("lib", "central library")
+  coords: LatLng;
+  floors?: string[]; // 'B1', 'G', '1', '2'...
+  adjacent?: string[]; // Building IDs within a short walk
+}
+
+export interface LocationRef {
+  campusId: string;
+  buildingId: string;
+  floor?: string;
+  room?: string;
+}
+
+// --- LOSS WINDOW & ROUTE (LOST reports) ---
+// Legacy end of a loss window, before occurredUntil
+export interface ReportMoment {
+  date: string; // DD/MM/YYYY
+  time: string; // HH:MM
+}
+
+export interface RouteStop {
+  label: string;
+  locationRef?: LocationRef;
+}
+
+// --- CUSTODY (lost-and-found offices) ---
+export interface CustodyOffice {
+  id: string;
+  name: string;
+  buildingId: string; // Gazetteer building the desk is in
+  hours?: string;
+}
+
+// Current custody state, kept on the report
+export interface Custody {
+  status: 'HELD' | 'RELEASED';
+  officeId: string;
+  binId: string; // Storage bin / shelf, e.g. "14" or "B-3"
+  receivedAt: number;
+  updatedAt: number;
+  releasedTo?: string; // Owner's name once released
+}
+
+export interface CustodyRelease {
+  ownerId?: string; // Set when released to a verified claimant's account
+  ownerName: string;
+  ownerStudentId?: string;
+  signature: string; // PNG data URL of the owner's signature
+  confirmedAt: number;
+}
+
+// reports/{reportId}/custody/{eventId} (append-only log)
+export interface CustodyEvent {
+  id: string;
+  action: 'RECEIVED' | 'MOVED' | 'RELEASED';
+  officeId: string;
+  binId: string;
+  staffId: string;
+  staffName: string;
+  at: number;
+  note?: string;
+  release?: CustodyRelease;
+}
+
+// --- MODERATION ---
+export type ModerationStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export interface ModerationFlag {
+  source: 'IMAGE' | 'CONTEXT' | 'CONTENT' | 'USER'; // Photo safety check, report consistency check, final content analysis, abuse reports
+  type: string; // e.g. 'ANIMAL', 'INCONSISTENCY', 'CHECK_FAILED'
+  reason: string; // The AI's explanation, shown to moderators and the reporter
+  imageIndex?: number;
+}
+
+export interface ReportModeration {
+  status: ModerationStatus;
+  flags: ModerationFlag[];
+  submittedAt: number;
+  reviewedBy?: string;
+  reviewerName?: string;
+  reviewedAt?: number;
+  note?: string; // Moderator's note to the reporter
+  appeal?: { message: string, at: number }; // One appeal per report, re-opens review
+}
+
+export interface ModerationDecision {
+  id: string;
+  reportId: string;
+  reporterId: string;
+  decision: 'APPROVED' | 'REJECTED';
+  flags: ModerationFlag[];
+  note?: string;
+  appealed: boolean;
+  moderatorId: string;
+  moderatorName: string;
+  at: number;
+}
+
+// --- ABUSE REPORTS ---
+export type AbuseTargetType = 'REPORT' | 'CHAT' | 'MESSAGE';
+export type AbuseReason = 'FAKE_POST' | 'SCAM' | 'HARASSMENT' | 'OFFENSIVE' | 'SPAM' | 'OTHER';
+export type AbuseAction = 'DISMISS' | 'HIDE' | 'WARN' | 'SUSPEND';
+
+// Snapshot taken when the flag is raised, so moderators see what the user saw even if it's edited or deleted
+export interface AbuseEvidence {
+  title?: string;
+  text?: string;
+  imageUrls?: string[];
+  messages?: { senderId: string, senderName?: string, text: string, timestamp: number }[]; // Recent lines of a flagged chat
+  capturedAt: number;
+}
+
+export interface AbuseFlag {
+  id: string; // One flag per user per target
+  targetType: AbuseTargetType;
+  targetId: string; // Report, chat or message id
+  chatId?: string; // For MESSAGE targets
+  targetUserId: string; // Whose content it is: reporter, chat partner or sender
+  targetUserName?: string;
   reporterId: string;
   reporterName: string;
+  reason: AbuseReason;
+  details?: string;
+  evidence: AbuseEvidence;
+  status: 'OPEN' | 'ACTIONED' | 'DISMISSED';
+  createdAt: number;
+  resolution?: { action: AbuseAction, moderatorId: string, moderatorName: string, note?: string, at: number };
+}
+
+// --- OWNERSHIP VERIFICATION ---
+export interface VerificationQuestion {
+  id: string;
+  prompt: string;
+}
+
+// Finder-only; never stored on the public report
+export interface VerificationSecret {
+  questionId: string;
+  label: string;
+  answer: string;
+}
+
+export type ClaimStatus = 'PENDING' | 'VERIFIED' | 'REJECTED';
+
+export interface ClaimAnswerScore {
+  questionId: string;
+  score: number; // 0-100
+  note?: string;
+}
+
+export interface ClaimEvent {
+  at: number;
+  by: string; // uid, or 'system' for automatic scoring
+  action: 'SUBMITTED' | 'SCORED' | 'VERIFIED' | 'REJECTED';
+  note?: string;
+}
+
+// reports/{reportId}/claims/{claimantId}
+export interface Claim {
+  id: string;
+  reportId: string;
+  finderId: string;
+  claimantId: string;
+  claimantName: string;
+  attempts: number;
+  status: ClaimStatus;
+  score?: number; // Score of the latest scored attempt
+  method?: 'AI' | 'FALLBACK';
+  answerScores?: ClaimAnswerScore[];
+  scoredAttempt?: number; // Attempt number the current score belongs to
+  history: ClaimEvent[]; // Append-only
   createdAt: number;
+  updatedAt: number;
 }
 
-export type ViewState = 'AUTH' | 'DASHBOARD' | 'REPORT_LOST' | 'REPORT_FOUND' | 'MESSAGES' | 'PROFILE' | 'COMPARATOR' | 'FEATURES';
+// One submission, kept in reports/{id}/claims/{uid}/attempts/{attempt}. Never rewritten once scored.
+export interface ClaimAttempt {
+  attempt: number;
+  answers: Record<string, string>; // questionId -> answer
+  submittedAt: number;
+  score?: number;
+  method?: 'AI' | 'FALLBACK';
+  answerScores?: ClaimAnswerScore[];
+  scoredAt?: number;
+}
+
+export type ViewState = 'AUTH' | 'DASHBOARD' | 'REPORT_LOST' | 'REPORT_FOUND' | 'MESSAGES' | 'PROFILE' | 'COMPARATOR' | 'FEATURES' | 'ADMIN' | 'MODERATION';
 
 export interface AppNotification {
   id: string;
@@ -78,11 +386,26 @@ export interface AppNotification {
   isRead: boolean;
   link?: ViewState;
   metadata?: {
-    matchId?: string;
-    sourceId?: string;
+    matchId?: string; // The other report in a match
+    sourceId?: string; // The recipient's own report
   };
 }
 
+// Written by the match worker (server/matchWorker.ts), one per LOST/FOUND pair
+export interface MatchRecord {
+  id: string; // `${lostId}_${foundId}`
+  lostId: string;
+  foundId: string;
+  lostOwnerId: string;
+  foundOwnerId: string;
+  participants: string[]; // Both owners, for array-contains queries
+  score: number; // 0-100, deterministic score from services/matchScoring.ts
+  reasons: string[]; // Strongest factors, for display
+  status: 'ACTIVE' | 'CLOSED';
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface Message {
   id: string;
   senderId: string;
@@ -94,6 +417,8 @@ export interface Message {
     type: 'image' | 'video' | 'file';
     url: string;
   };
+  hidden?: boolean; // Hidden by a moderator after an abuse report
+  hiddenBy?: string;
 }
 
 export interface Chat {